@@ -7,6 +7,9 @@ if (typeof global.NetCDF4Module === 'undefined') {
   );
 }
 
+// NetCDF4 falls back to this mock module when the WASM module fails to load
+global.__netcdf4_create_mock_module = require('./src/test-mock-module').createMockModule;
+
 // Mock Node.js modules for WASM module
 jest.mock('path', () => ({
   join: jest.fn((...args) => args.join('/'))
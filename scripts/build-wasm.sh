@@ -371,6 +371,11 @@ cat > netcdf_wrapper.c << 'EOF'
 #include <emscripten.h>
 
 // Export NetCDF functions to JavaScript
+EMSCRIPTEN_KEEPALIVE
+const char* nc_strerror_wrapper(int ncerr) {
+    return nc_strerror(ncerr);
+}
+
 EMSCRIPTEN_KEEPALIVE
 int nc_open_wrapper(const char* path, int mode, int* ncidp) {
     return nc_open(path, mode, ncidp);
@@ -381,6 +386,11 @@ int nc_close_wrapper(int ncid) {
     return nc_close(ncid);
 }
 
+EMSCRIPTEN_KEEPALIVE
+int nc_sync_wrapper(int ncid) {
+    return nc_sync(ncid);
+}
+
 EMSCRIPTEN_KEEPALIVE
 int nc_create_wrapper(const char* path, int mode, int* ncidp) {
     return nc_create(path, mode, ncidp);
@@ -406,6 +416,115 @@ int nc_get_var_double_wrapper(int ncid, int varid, double* ip) {
     return nc_get_var_double(ncid, varid, ip);
 }
 
+EMSCRIPTEN_KEEPALIVE
+int nc_get_vara_double_wrapper(int ncid, int varid, const size_t* startp, const size_t* countp, double* ip) {
+    return nc_get_vara_double(ncid, varid, startp, countp, ip);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_get_vars_double_wrapper(int ncid, int varid, const size_t* startp, const size_t* countp, const ptrdiff_t* stridep, double* ip) {
+    return nc_get_vars_double(ncid, varid, startp, countp, stridep, ip);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_put_vara_double_wrapper(int ncid, int varid, const size_t* startp, const size_t* countp, const double* op) {
+    return nc_put_vara_double(ncid, varid, startp, countp, op);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_put_vars_double_wrapper(int ncid, int varid, const size_t* startp, const size_t* countp, const ptrdiff_t* stridep, const double* op) {
+    return nc_put_vars_double(ncid, varid, startp, countp, stridep, op);
+}
+
+// Typed hyperslab wrappers for the remaining numeric memory types, so values
+// cross the JS boundary in their native representation (double is above).
+#define NC_TYPED_SLAB_WRAPPERS(SUFFIX, CTYPE) \
+EMSCRIPTEN_KEEPALIVE \
+int nc_get_vara_##SUFFIX##_wrapper(int ncid, int varid, const size_t* startp, const size_t* countp, CTYPE* ip) { \
+    return nc_get_vara_##SUFFIX(ncid, varid, startp, countp, ip); \
+} \
+EMSCRIPTEN_KEEPALIVE \
+int nc_get_vars_##SUFFIX##_wrapper(int ncid, int varid, const size_t* startp, const size_t* countp, const ptrdiff_t* stridep, CTYPE* ip) { \
+    return nc_get_vars_##SUFFIX(ncid, varid, startp, countp, stridep, ip); \
+} \
+EMSCRIPTEN_KEEPALIVE \
+int nc_put_vara_##SUFFIX##_wrapper(int ncid, int varid, const size_t* startp, const size_t* countp, const CTYPE* op) { \
+    return nc_put_vara_##SUFFIX(ncid, varid, startp, countp, op); \
+} \
+EMSCRIPTEN_KEEPALIVE \
+int nc_put_vars_##SUFFIX##_wrapper(int ncid, int varid, const size_t* startp, const size_t* countp, const ptrdiff_t* stridep, const CTYPE* op) { \
+    return nc_put_vars_##SUFFIX(ncid, varid, startp, countp, stridep, op); \
+}
+
+NC_TYPED_SLAB_WRAPPERS(schar, signed char)
+NC_TYPED_SLAB_WRAPPERS(uchar, unsigned char)
+NC_TYPED_SLAB_WRAPPERS(short, short)
+NC_TYPED_SLAB_WRAPPERS(ushort, unsigned short)
+NC_TYPED_SLAB_WRAPPERS(int, int)
+NC_TYPED_SLAB_WRAPPERS(uint, unsigned int)
+NC_TYPED_SLAB_WRAPPERS(longlong, long long)
+NC_TYPED_SLAB_WRAPPERS(ulonglong, unsigned long long)
+NC_TYPED_SLAB_WRAPPERS(float, float)
+
+// Character and variable-length string hyperslabs. NC_CHAR data crosses as
+// raw bytes; NC_STRING data as an array of char* that NetCDF allocates on
+// read (released with nc_free_string) and copies on write.
+EMSCRIPTEN_KEEPALIVE
+int nc_get_vars_text_wrapper(int ncid, int varid, const size_t* startp, const size_t* countp, const ptrdiff_t* stridep, char* ip) {
+    return nc_get_vars_text(ncid, varid, startp, countp, stridep, ip);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_put_vars_text_wrapper(int ncid, int varid, const size_t* startp, const size_t* countp, const ptrdiff_t* stridep, const char* op) {
+    return nc_put_vars_text(ncid, varid, startp, countp, stridep, op);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_get_vars_string_wrapper(int ncid, int varid, const size_t* startp, const size_t* countp, const ptrdiff_t* stridep, char** ip) {
+    return nc_get_vars_string(ncid, varid, startp, countp, stridep, ip);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_put_vars_string_wrapper(int ncid, int varid, const size_t* startp, const size_t* countp, const ptrdiff_t* stridep, const char** op) {
+    return nc_put_vars_string(ncid, varid, startp, countp, stridep, op);
+}
+
+// Per-variable storage settings (NetCDF-4 files only).
+EMSCRIPTEN_KEEPALIVE
+int nc_def_var_deflate_wrapper(int ncid, int varid, int shuffle, int deflate, int deflate_level) {
+    return nc_def_var_deflate(ncid, varid, shuffle, deflate, deflate_level);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_def_var_fletcher32_wrapper(int ncid, int varid, int fletcher32) {
+    return nc_def_var_fletcher32(ncid, varid, fletcher32);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_def_var_chunking_wrapper(int ncid, int varid, int storage, const size_t* chunksizesp) {
+    return nc_def_var_chunking(ncid, varid, storage, chunksizesp);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_inq_var_deflate_wrapper(int ncid, int varid, int* shufflep, int* deflatep, int* deflate_levelp) {
+    return nc_inq_var_deflate(ncid, varid, shufflep, deflatep, deflate_levelp);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_inq_var_fletcher32_wrapper(int ncid, int varid, int* fletcher32p) {
+    return nc_inq_var_fletcher32(ncid, varid, fletcher32p);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_inq_var_chunking_wrapper(int ncid, int varid, int* storagep, size_t* chunksizesp) {
+    return nc_inq_var_chunking(ncid, varid, storagep, chunksizesp);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_inq_format_wrapper(int ncid, int* formatp) {
+    return nc_inq_format(ncid, formatp);
+}
+
 EMSCRIPTEN_KEEPALIVE
 int nc_enddef_wrapper(int ncid) {
     return nc_enddef(ncid);
@@ -426,6 +545,39 @@ int nc_inq_dim_wrapper(int ncid, int dimid, char* name, size_t* lenp) {
     return nc_inq_dim(ncid, dimid, name, lenp);
 }
 
+// Current length of a dimension; for an unlimited one, the number of records.
+EMSCRIPTEN_KEEPALIVE
+int nc_inq_dimlen_wrapper(int ncid, int dimid, size_t* lenp) {
+    return nc_inq_dimlen(ncid, dimid, lenp);
+}
+
+// Dimensions defined in a group (include_parents = 0) or visible from it.
+EMSCRIPTEN_KEEPALIVE
+int nc_inq_dimids_wrapper(int ncid, int* ndimsp, int* dimidsp, int include_parents) {
+    return nc_inq_dimids(ncid, ndimsp, dimidsp, include_parents);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_inq_unlimdims_wrapper(int ncid, int* nunlimdimsp, int* unlimdimidsp) {
+    return nc_inq_unlimdims(ncid, nunlimdimsp, unlimdimidsp);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_def_grp_wrapper(int parent_ncid, const char* name, int* new_ncid) {
+    return nc_def_grp(parent_ncid, name, new_ncid);
+}
+
+// Called with ncids == NULL first to learn how many child groups there are.
+EMSCRIPTEN_KEEPALIVE
+int nc_inq_grps_wrapper(int ncid, int* numgrps, int* ncids) {
+    return nc_inq_grps(ncid, numgrps, ncids);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_inq_grpname_wrapper(int ncid, char* name) {
+    return nc_inq_grpname(ncid, name);
+}
+
 EMSCRIPTEN_KEEPALIVE
 int nc_inq_nvars_wrapper(int ncid, int* nvarsp) {
     return nc_inq_nvars(ncid, nvarsp);
@@ -460,6 +612,142 @@ EMSCRIPTEN_KEEPALIVE
 int nc_get_att_double_wrapper(int ncid, int varid, const char* name, double* value) {
     return nc_get_att_double(ncid, varid, name, value);
 }
+
+// Native-type attribute readers (double is above).
+#define NC_GET_ATT_WRAPPER(SUFFIX, CTYPE) \
+EMSCRIPTEN_KEEPALIVE \
+int nc_get_att_##SUFFIX##_wrapper(int ncid, int varid, const char* name, CTYPE* ip) { \
+    return nc_get_att_##SUFFIX(ncid, varid, name, ip); \
+}
+
+NC_GET_ATT_WRAPPER(schar, signed char)
+NC_GET_ATT_WRAPPER(uchar, unsigned char)
+NC_GET_ATT_WRAPPER(short, short)
+NC_GET_ATT_WRAPPER(ushort, unsigned short)
+NC_GET_ATT_WRAPPER(int, int)
+NC_GET_ATT_WRAPPER(uint, unsigned int)
+NC_GET_ATT_WRAPPER(longlong, long long)
+NC_GET_ATT_WRAPPER(ulonglong, unsigned long long)
+NC_GET_ATT_WRAPPER(float, float)
+
+// NC_STRING attributes: NetCDF allocates each string, and the caller releases
+// them with nc_free_string once copied out.
+EMSCRIPTEN_KEEPALIVE
+int nc_get_att_string_wrapper(int ncid, int varid, const char* name, char** ip) {
+    return nc_get_att_string(ncid, varid, name, ip);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_free_string_wrapper(size_t len, char** data) {
+    return nc_free_string(len, data);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_redef_wrapper(int ncid) {
+    return nc_redef(ncid);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_put_att_text_wrapper(int ncid, int varid, const char* name, size_t len, const char* op) {
+    return nc_put_att_text(ncid, varid, name, len, op);
+}
+
+// Numeric attribute writers: values are passed as CTYPE and stored as xtype,
+// with NetCDF converting between the two.
+#define NC_PUT_ATT_WRAPPER(SUFFIX, CTYPE) \
+EMSCRIPTEN_KEEPALIVE \
+int nc_put_att_##SUFFIX##_wrapper(int ncid, int varid, const char* name, int xtype, size_t len, const CTYPE* op) { \
+    return nc_put_att_##SUFFIX(ncid, varid, name, (nc_type)xtype, len, op); \
+}
+
+NC_PUT_ATT_WRAPPER(schar, signed char)
+NC_PUT_ATT_WRAPPER(uchar, unsigned char)
+NC_PUT_ATT_WRAPPER(short, short)
+NC_PUT_ATT_WRAPPER(ushort, unsigned short)
+NC_PUT_ATT_WRAPPER(int, int)
+NC_PUT_ATT_WRAPPER(uint, unsigned int)
+NC_PUT_ATT_WRAPPER(longlong, long long)
+NC_PUT_ATT_WRAPPER(ulonglong, unsigned long long)
+NC_PUT_ATT_WRAPPER(float, float)
+NC_PUT_ATT_WRAPPER(double, double)
+
+// User-defined types. Type ids are unique within a file; nc_inq_typeids lists
+// the ones defined in a group (called with typeids == NULL first for the count).
+EMSCRIPTEN_KEEPALIVE
+int nc_inq_typeids_wrapper(int ncid, int* ntypesp, int* typeidsp) {
+    return nc_inq_typeids(ncid, ntypesp, typeidsp);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_inq_user_type_wrapper(int ncid, int xtype, char* name, size_t* sizep, int* base_typep, size_t* nfieldsp, int* classp) {
+    return nc_inq_user_type(ncid, (nc_type)xtype, name, sizep, (nc_type*)base_typep, nfieldsp, classp);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_def_compound_wrapper(int ncid, size_t size, const char* name, int* typeidp) {
+    return nc_def_compound(ncid, size, name, (nc_type*)typeidp);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_insert_compound_wrapper(int ncid, int xtype, const char* name, size_t offset, int field_typeid) {
+    return nc_insert_compound(ncid, (nc_type)xtype, name, offset, (nc_type)field_typeid);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_insert_array_compound_wrapper(int ncid, int xtype, const char* name, size_t offset, int field_typeid, int ndims, const int* dim_sizes) {
+    return nc_insert_array_compound(ncid, (nc_type)xtype, name, offset, (nc_type)field_typeid, ndims, dim_sizes);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_inq_compound_field_wrapper(int ncid, int xtype, int fieldid, char* name, size_t* offsetp, int* field_typeidp, int* ndimsp, int* dim_sizesp) {
+    return nc_inq_compound_field(ncid, (nc_type)xtype, fieldid, name, offsetp, (nc_type*)field_typeidp, ndimsp, dim_sizesp);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_def_enum_wrapper(int ncid, int base_typeid, const char* name, int* typeidp) {
+    return nc_def_enum(ncid, (nc_type)base_typeid, name, (nc_type*)typeidp);
+}
+
+// Enum member values are passed in memory as the enum's base type.
+EMSCRIPTEN_KEEPALIVE
+int nc_insert_enum_wrapper(int ncid, int xtype, const char* name, const void* value) {
+    return nc_insert_enum(ncid, (nc_type)xtype, name, value);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_inq_enum_member_wrapper(int ncid, int xtype, int idx, char* name, void* value) {
+    return nc_inq_enum_member(ncid, (nc_type)xtype, idx, name, value);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_def_opaque_wrapper(int ncid, size_t size, const char* name, int* typeidp) {
+    return nc_def_opaque(ncid, size, name, (nc_type*)typeidp);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_def_vlen_wrapper(int ncid, const char* name, int base_typeid, int* typeidp) {
+    return nc_def_vlen(ncid, name, (nc_type)base_typeid, (nc_type*)typeidp);
+}
+
+// Vlen data crosses as an array of nc_vlen_t { size_t len; void* p; }, 8 bytes
+// per element on wasm32. Reads allocate each p inside NetCDF; the caller
+// releases them with nc_free_vlens once copied out.
+EMSCRIPTEN_KEEPALIVE
+int nc_free_vlens_wrapper(size_t len, nc_vlen_t* vlens) {
+    return nc_free_vlens(len, vlens);
+}
+
+// Untyped hyperslabs: values cross as the variable's in-memory layout, e.g.
+// one struct of nc_inq_user_type's size per element of a compound variable.
+EMSCRIPTEN_KEEPALIVE
+int nc_get_vars_wrapper(int ncid, int varid, const size_t* startp, const size_t* countp, const ptrdiff_t* stridep, void* ip) {
+    return nc_get_vars(ncid, varid, startp, countp, stridep, ip);
+}
+
+EMSCRIPTEN_KEEPALIVE
+int nc_put_vars_wrapper(int ncid, int varid, const size_t* startp, const size_t* countp, const ptrdiff_t* stridep, const void* op) {
+    return nc_put_vars(ncid, varid, startp, countp, stridep, op);
+}
 EOF
 
 # Compile to WASM
@@ -473,7 +761,7 @@ check_command emcc netcdf_wrapper.c \
     -s WASM=1 \
     -s MODULARIZE=1 \
     -s EXPORT_NAME="NetCDF4Module" \
-    -s EXPORTED_RUNTIME_METHODS='["ccall","cwrap","getValue","setValue","UTF8ToString","stringToUTF8","lengthBytesUTF8","FS","HEAPF64"]' \
+    -s EXPORTED_RUNTIME_METHODS='["ccall","cwrap","getValue","setValue","UTF8ToString","stringToUTF8","lengthBytesUTF8","FS","HEAPF64","HEAPU8"]' \
     -s EXPORTED_FUNCTIONS='["_malloc","_free"]' \
     -s FORCE_FILESYSTEM=1 \
     -s ALLOW_MEMORY_GROWTH=1 \
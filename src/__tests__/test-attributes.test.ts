@@ -1,6 +1,7 @@
 // Attribute tests following netcdf4-python patterns
 
 import { Dataset, NetCDF4, Variable, NC_CONSTANTS } from '../index';
+import { encodeAttribute } from '../attributes';
 import { TestSetup } from '../test-setup';
 
 describe('Attribute Tests', () => {
@@ -304,10 +305,15 @@ describe('Attribute Tests', () => {
             const filename = TestSetup.getTestFilename('_attrs_groups');
             
             if (mockMode) {
-                const nc = new NetCDF4(filename, 'w');
+                const nc = await Dataset(filename, 'w');
                 const group = nc.createGroup('forecast');
                 group.setAttr('description', 'Forecast data group');
                 expect(group.getAttr('description')).toBe('Forecast data group');
+                await nc.close();
+
+                // A group needs an open dataset to be defined in.
+                expect(() => new NetCDF4(filename, 'w').createGroup('forecast'))
+                    .toThrow("Cannot create group 'forecast': the dataset is not open");
                 return;
             }
 
@@ -573,4 +579,262 @@ describe('Attribute Tests', () => {
             }
         });
     });
-});
\ No newline at end of file
+
+    describe('Attribute Persistence', () => {
+        test('should infer the stored type from the JavaScript value', () => {
+            expect(encodeAttribute('title', 'Test')).toEqual({ kind: 'text', text: 'Test' });
+
+            const scalar = encodeAttribute('scale', 0.5) as any;
+            expect(scalar.xtype).toBe(NC_CONSTANTS.NC_DOUBLE);
+            expect(scalar.ctype).toBe('double');
+            expect(Array.from(scalar.data)).toEqual([0.5]);
+
+            const list = encodeAttribute('valid_range', [-10, 10]) as any;
+            expect(list.xtype).toBe(NC_CONSTANTS.NC_DOUBLE);
+            expect(Array.from(list.data)).toEqual([-10, 10]);
+
+            const typed = encodeAttribute('flags', new Int16Array([1, 2, 4])) as any;
+            expect(typed.xtype).toBe(NC_CONSTANTS.NC_SHORT);
+            expect(typed.ctype).toBe('short');
+            expect(typed.data).toBeInstanceOf(Int16Array);
+
+            const big = encodeAttribute('id', 9007199254740993n) as any;
+            expect(big.xtype).toBe(NC_CONSTANTS.NC_INT64);
+            expect(big.data[0]).toBe(9007199254740993n);
+
+            const flag = encodeAttribute('enabled', true) as any;
+            expect(flag.xtype).toBe(NC_CONSTANTS.NC_BYTE);
+            expect(Array.from(flag.data)).toEqual([1]);
+
+            expect(encodeAttribute('nothing', null)).toBeUndefined();
+            expect(encodeAttribute('nothing', undefined)).toBeUndefined();
+        });
+
+        test('should honour an explicit datatype override', () => {
+            const f4 = encodeAttribute('scale', 0.5, 'f4') as any;
+            expect(f4.xtype).toBe(NC_CONSTANTS.NC_FLOAT);
+            expect(f4.ctype).toBe('double');
+
+            const u1 = encodeAttribute('mask', [1, 2], 'ubyte') as any;
+            expect(u1.xtype).toBe(NC_CONSTANTS.NC_UBYTE);
+
+            expect(encodeAttribute('title', 'x', 'S1')).toEqual({ kind: 'text', text: 'x' });
+            expect(() => encodeAttribute('title', 'x', 'f4')).toThrow('Cannot store string attribute');
+            expect(() => encodeAttribute('scale', 1, 'S1')).toThrow('not a string');
+            expect(() => encodeAttribute('scale', 1, 'f16')).toThrow('Unsupported datatype');
+            expect(() => encodeAttribute('obj', { a: 1 })).toThrow('unsupported value');
+        });
+
+        test('should write global and variable attributes through nc_put_att_*', async () => {
+            const filename = TestSetup.getTestFilename('_attrs_persist');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                await nc.createDimension('x', 3);
+                const v = await nc.createVariable('v', 'f4', ['x']);
+                const module = nc.getModule();
+                const putText = jest.spyOn(module, 'nc_put_att_text');
+                const putTyped = jest.spyOn(module, 'nc_put_att_typed');
+
+                nc.setAttr('title', 'Persisted');
+                v.setAttr('valid_range', new Float32Array([0, 100]));
+                v.setAttr('scale_factor', 2, 'f4');
+                v._FillValue = -999;
+
+                expect(putText).toHaveBeenCalledWith(expect.any(Number), NC_CONSTANTS.NC_GLOBAL, 'title', 'Persisted');
+                const calls = putTyped.mock.calls.map(c => [c[2], c[3], c[4]]);
+                expect(calls).toEqual([
+                    ['valid_range', NC_CONSTANTS.NC_FLOAT, 'float'],
+                    ['scale_factor', NC_CONSTANTS.NC_FLOAT, 'double'],
+                    ['_FillValue', NC_CONSTANTS.NC_FLOAT, 'double'],
+                ]);
+                expect(v.getAttr('scale_factor')).toBe(2);
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should re-enter define mode when writing in data mode', async () => {
+            const filename = TestSetup.getTestFilename('_attrs_redef');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                const module = nc.getModule();
+                const putText = jest.spyOn(module, 'nc_put_att_text')
+                    .mockReturnValueOnce(NC_CONSTANTS.NC_ENOTINDEFINE);
+                const redef = jest.spyOn(module, 'nc_redef');
+                const enddef = jest.spyOn(module, 'nc_enddef');
+
+                nc.setAttr('history', 'appended');
+
+                expect(putText).toHaveBeenCalledTimes(2);
+                expect(redef).toHaveBeenCalledTimes(1);
+                expect(enddef).toHaveBeenCalledTimes(1);
+                expect(nc.getAttr('history')).toBe('appended');
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should surface write failures and leave the attribute unset', async () => {
+            const filename = TestSetup.getTestFilename('_attrs_fail');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                jest.spyOn(nc.getModule(), 'nc_put_att_text').mockReturnValueOnce(NC_CONSTANTS.NC_EPERM);
+
+                expect(() => nc.setAttr('title', 'nope')).toThrow("Failed to write attribute 'title' (error: -37)");
+                expect(nc.attrs()).not.toContain('title');
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should not write attributes back when opening a file', async () => {
+            const filename = TestSetup.getTestFilename('_attrs_reopen');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                nc.setAttr('title', 'Original');
+                await nc.createDimension('x', 2);
+                const v = await nc.createVariable('v', 'f8', ['x']);
+                v.units = 'm';
+                await nc.close();
+
+                const putAttribute = jest.spyOn(NetCDF4.prototype, 'putAttribute');
+                const reader = await Dataset(filename, 'r');
+
+                expect(putAttribute).not.toHaveBeenCalled();
+                putAttribute.mockRestore();
+                expect(reader.variables.v.units).toBe('m');
+                expect(reader.getAttr('title')).toBe('Original');
+
+                await reader.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+    });
+
+    describe('Typed Attribute Reading', () => {
+        // Attributes as stored in a file: name -> [xtype, values]
+        const fileAttrs: { [varid: number]: { [name: string]: [number, any] } } = {
+            [NC_CONSTANTS.NC_GLOBAL]: {
+                title: [NC_CONSTANTS.NC_CHAR, 'Typed'],
+                keywords: [NC_CONSTANTS.NC_STRING, ['ocean', 'salinity']],
+                source: [NC_CONSTANTS.NC_STRING, ['model']],
+            },
+            0: {
+                _FillValue: [NC_CONSTANTS.NC_INT64, new BigInt64Array([-9007199254740993n])],
+                valid_range: [NC_CONSTANTS.NC_USHORT, new Uint16Array([0, 65000])],
+                scale_factor: [NC_CONSTANTS.NC_FLOAT, new Float32Array([0.1])],
+                compound_att: [40, new Uint8Array(4)],
+            },
+        };
+
+        // Stand in for the NetCDF inquiry/read functions the mock module lacks.
+        const installFileModule = (nc: NetCDF4) => {
+            const names = (varid: number) => Object.keys(fileAttrs[varid]);
+            Object.assign(nc.getModule(), {
+                nc_inq_dimids: () => ({ result: 0, dimids: [] }),
+                nc_inq_unlimdims: () => ({ result: 0, unlimdimids: [] }),
+                nc_inq_grps: () => ({ result: 0, ncids: [] }),
+                nc_inq_nvars: () => ({ result: 0, nvars: 1 }),
+                nc_inq_var: () => ({ result: 0, name: 'counts', xtype: NC_CONSTANTS.NC_INT64, ndims: 0, dimids: [], natts: names(0).length }),
+                nc_inq_natts: () => ({ result: 0, natts: names(NC_CONSTANTS.NC_GLOBAL).length }),
+                nc_inq_attname: (ncid: number, varid: number, attnum: number) => ({ result: 0, name: names(varid)[attnum] }),
+                nc_inq_att: (ncid: number, varid: number, name: string) => {
+                    const [xtype, values] = fileAttrs[varid][name];
+                    return { result: 0, xtype, len: values.length };
+                },
+                nc_get_att_text: (ncid: number, varid: number, name: string) => ({ result: 0, text: fileAttrs[varid][name][1] }),
+                nc_get_att_string: (ncid: number, varid: number, name: string) => ({ result: 0, values: fileAttrs[varid][name][1] }),
+                nc_get_att_typed: jest.fn((ncid: number, varid: number, name: string) => ({ result: 0, data: fileAttrs[varid][name][1] })),
+            });
+        };
+
+        test('should read attributes with their stored type', async () => {
+            const filename = TestSetup.getTestFilename('_attrs_typed_read');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                installFileModule(nc);
+                (nc as any).loadFromFile();
+
+                const counts = nc.variables.counts;
+                expect(counts.getAttr('_FillValue')).toBe(-9007199254740993n);
+                expect(counts.getAttr('valid_range')).toBeInstanceOf(Uint16Array);
+                expect(Array.from(counts.getAttr('valid_range'))).toEqual([0, 65000]);
+                expect(counts.getAttr('scale_factor')).toBe(Math.fround(0.1));
+                expect(counts.attrs()).not.toContain('compound_att');
+                expect((nc.getModule().nc_get_att_typed as jest.Mock).mock.calls.map(c => c[3]))
+                    .toEqual(['longlong', 'ushort', 'float']);
+
+                expect(nc.getAttr('title')).toBe('Typed');
+                expect(nc.getAttr('keywords')).toEqual(['ocean', 'salinity']);
+                expect(nc.getAttr('source')).toEqual(['model']);
+                expect(nc.getAttrInfo('source')).toEqual({ type: 'string', length: 1, value: ['model'] });
+
+                expect(counts.getAttrInfo('_FillValue')).toEqual({ type: 'i8', length: 1, value: -9007199254740993n });
+                expect(counts.getAttrInfo('valid_range')).toMatchObject({ type: 'u2', length: 2 });
+                expect(nc.getAttrInfo('keywords')).toEqual({ type: 'string', length: 2, value: ['ocean', 'salinity'] });
+                expect(nc.getAttrInfo('title')).toEqual({ type: 'S1', length: 5, value: 'Typed' });
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should describe attributes set in memory', async () => {
+            const filename = TestSetup.getTestFilename('_attrs_info');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                await nc.createDimension('x', 2);
+                const v = await nc.createVariable('v', 'f4', ['x']);
+
+                nc.setAttr('title', 'héllo');
+                nc.setAttr('version', 2);
+                nc.setAttr('revision', 3, 'i4');
+                v.setAttr('flags', new Int8Array([1, 2, 4]));
+                v.setAttr('id', 42n);
+                v._FillValue = -1;
+
+                expect(nc.getAttrInfo('title')).toEqual({ type: 'S1', length: 6, value: 'héllo' });
+                expect(nc.getAttrInfo('version')).toEqual({ type: 'f8', length: 1, value: 2 });
+                expect(nc.getAttrInfo('revision')).toEqual({ type: 'i4', length: 1, value: 3 });
+                expect(v.getAttrInfo('flags')).toMatchObject({ type: 'i1', length: 3 });
+                expect(v.getAttrInfo('id')).toEqual({ type: 'i8', length: 1, value: 42n });
+                expect(v.getAttrInfo('_FillValue')).toEqual({ type: 'f4', length: 1, value: -1 });
+                expect(v.getAttrInfo('missing')).toBeUndefined();
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should surface attribute read errors', async () => {
+            const filename = TestSetup.getTestFilename('_attrs_read_fail');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                Object.assign(nc.getModule(), {
+                    nc_inq_att: () => ({ result: -43, xtype: 0, len: 0 }),
+                });
+                expect(() => nc.getAttribute(0, NC_CONSTANTS.NC_GLOBAL, 'missing'))
+                    .toThrow("Failed to read attribute 'missing' (error: -43)");
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+    });
+});
@@ -0,0 +1,138 @@
+// CF time decoding tests following netcdf4-python / cftime patterns
+
+import { Dataset, CFDatetime, num2date, date2num } from '../index';
+import { TestSetup } from '../test-setup';
+
+describe('CF Time Conversion', () => {
+    beforeAll(() => {
+        TestSetup.setupTestEnvironment();
+        TestSetup.mockWasmModule();
+    });
+
+    afterAll(() => {
+        TestSetup.cleanupTestEnvironment();
+    });
+
+    describe('Standard Calendars', () => {
+        test('should match netcdf4-python for hours since 0001-01-01', () => {
+            const units = 'hours since 0001-01-01 00:00:00.0';
+            const dates = [0, 12, 24].map(h => new Date(Date.UTC(2001, 2, 1, h)));
+
+            // Values from the netcdf4-python tutorial (gregorian calendar)
+            expect(date2num(dates, units, 'gregorian')).toEqual([17533104, 17533116, 17533128]);
+            expect(num2date(17533116, units, 'gregorian')).toEqual(new Date(Date.UTC(2001, 2, 1, 12)));
+
+            // Without the Julian dates before 1582 the offset is two days less
+            expect(date2num(dates[0], units, 'proleptic_gregorian')).toBe(17533104 - 48);
+        });
+
+        test('should switch from Julian to Gregorian in October 1582', () => {
+            const next = num2date(1, 'days since 1582-10-04', 'standard') as Date;
+            expect(next.toISOString()).toBe('1582-10-15T00:00:00.000Z');
+
+            // Julian dates before the reform are CFDatetimes: a JS Date is
+            // proleptic Gregorian and would show another day.
+            const last = num2date(0, 'days since 1582-10-04', 'standard') as CFDatetime;
+            expect(last).toBeInstanceOf(CFDatetime);
+            expect(last.calendar).toBe('standard');
+            expect(last.toString()).toBe('1582-10-04 00:00:00');
+            expect(last.toDate().toISOString()).toBe('1582-10-14T00:00:00.000Z');
+            const first = num2date(0, 'hours since 0001-01-01', 'gregorian') as CFDatetime;
+            expect(first).toBeInstanceOf(CFDatetime);
+            expect(first.toString()).toBe('0001-01-01 00:00:00');
+            expect(date2num(first, 'hours since 0001-01-01', 'gregorian')).toBe(0);
+            expect(num2date(-1e-3, 'seconds since 1582-10-15', 'standard')).toBeInstanceOf(CFDatetime);
+            expect(num2date(0, 'seconds since 1582-10-15', 'standard')).toBeInstanceOf(Date);
+
+            const cf = num2date(-1, 'days since 1582-10-15', 'standard', { onlyUseCFDatetimes: true }) as CFDatetime;
+            expect(cf.toString()).toBe('1582-10-04 00:00:00');
+            expect(() => new CFDatetime(1582, 10, 10)).toThrow('Invalid date in calendar standard');
+        });
+
+        test('should handle sub-day units, time zones and masked values', () => {
+            const times = num2date([0, 90, NaN], 'minutes since 2000-01-01T00:00:00+02:00');
+            expect(times[0]).toEqual(new Date(Date.UTC(1999, 11, 31, 22)));
+            expect(times[1]).toEqual(new Date(Date.UTC(1999, 11, 31, 23, 30)));
+            expect(times[2]).toBeNull();
+
+            expect(num2date(1.5, 'seconds since 1970-01-01 00:00:00 UTC')).toEqual(new Date(1500));
+            expect(date2num(new Date(86400e3), 'days since 1970-01-01')).toBe(1);
+        });
+    });
+
+    describe('Non-Standard Calendars', () => {
+        test('should represent 360_day dates', () => {
+            const date = num2date(59, 'days since 2000-01-01', '360_day') as CFDatetime;
+            expect(date).toBeInstanceOf(CFDatetime);
+            expect([date.year, date.month, date.day]).toEqual([2000, 2, 30]);
+            expect(date.dayofyear).toBe(60);
+            expect(date.isoformat()).toBe('2000-02-30T00:00:00');
+            expect(date2num(date, 'days since 2000-01-01', '360_day')).toBe(59);
+            expect(() => date.toDate()).toThrow('Cannot convert a date in calendar 360_day to a JS Date');
+        });
+
+        test('should apply the noleap, all_leap and julian leap-year rules', () => {
+            const noleap = num2date(1, 'days since 2000-02-28', 'noleap') as CFDatetime;
+            expect(noleap.toString()).toBe('2000-03-01 00:00:00');
+            expect(num2date(1, 'days since 2001-02-28', '366_day')!.toString()).toBe('2001-02-29 00:00:00');
+            expect(() => new CFDatetime(2000, 2, 29, 0, 0, 0, 0, '365_day')).toThrow('Invalid date');
+
+            const julian = num2date(1, 'days since 1900-02-28', 'julian') as CFDatetime;
+            expect(julian.toString()).toBe('1900-02-29 00:00:00');
+            expect(new CFDatetime(2000, 1, 1, 0, 0, 0, 0, 'julian').toDate())
+                .toEqual(new Date(Date.UTC(2000, 0, 14)));
+
+            // Dates convert between calendars only when both name real instants
+            const cf = new CFDatetime(2000, 1, 1, 12, 0, 0, 0, 'noleap');
+            expect(date2num(cf, 'hours since 2000-01-01', 'noleap')).toBe(12);
+            expect(() => date2num(cf, 'hours since 2000-01-01', 'standard'))
+                .toThrow('Cannot convert a date in calendar noleap to calendar standard');
+        });
+
+        test('should keep the reference date for calendar none', () => {
+            const dates = num2date([0, 10], 'days since 0000-07-01', 'none') as CFDatetime[];
+            expect(dates.map(d => d.toString())).toEqual(['0000-07-01 00:00:00', '0000-07-01 00:00:00']);
+        });
+
+        test('should reject unsupported calendars and units', () => {
+            expect(() => num2date(0, 'days since 2000-01-01', 'lunar' as any)).toThrow('Unsupported calendar: lunar');
+            expect(() => num2date(0, 'months since 2000-01-01')).toThrow("Unsupported time unit 'months'");
+            expect(() => num2date(0, 'days')).toThrow("Invalid time units: 'days'");
+        });
+    });
+
+    describe('Variable.getDates', () => {
+        test('should decode a time variable using its units and calendar', async () => {
+            const filename = TestSetup.getTestFilename('_cftime_variable');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                await nc.createDimension('time', 3);
+                const time = await nc.createVariable('time', 'f8', ['time']);
+                time.units = 'days since 2000-01-01';
+                time.calendar = '360_day';
+                time._FillValue = -1;
+                await time.setValue(date2num([
+                    new CFDatetime(2000, 1, 1, 0, 0, 0, 0, '360_day'),
+                    new CFDatetime(2000, 2, 30, 0, 0, 0, 0, '360_day'),
+                ], time.units, '360_day').concat([-1]));
+
+                const dates = await time.getDates();
+                expect(dates.map(d => d && d.toString())).toEqual(['2000-01-01 00:00:00', '2000-02-30 00:00:00', null]);
+                expect(await time.getDates({ start: [1], count: [1] })).toHaveLength(1);
+
+                const plain = await nc.createVariable('plain', 'f8', ['time']);
+                await expect(plain.getDates()).rejects.toThrow("Variable 'plain' has no units attribute");
+
+                // An NC_STRING attribute read from a file is a one-element array
+                (plain as any)._attributes.units = ['days since 2000-01-01'];
+                await plain.setValue([0, 1, 2]);
+                expect((await plain.getDates())[1]).toEqual(new Date(Date.UTC(2000, 0, 2)));
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+    });
+});
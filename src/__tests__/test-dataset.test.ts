@@ -1,6 +1,6 @@
 // Dataset creation and basic I/O tests following netcdf4-python patterns
 
-import { Dataset, NetCDF4, NC_CONSTANTS } from '../index';
+import { Dataset, NetCDF4, Group, Variable, NC_CONSTANTS } from '../index';
 import { TestSetup } from '../test-setup';
 
 describe('Dataset Creation and Basic I/O', () => {
@@ -279,4 +279,122 @@ describe('Dataset Creation and Basic I/O', () => {
             }
         });
     });
-});
\ No newline at end of file
+
+    describe('Hierarchical Groups', () => {
+        test('should create nested groups with their own ncid and path', async () => {
+            const filename = TestSetup.getTestFilename('_groups_nested');
+
+            try {
+                const nc = await Dataset(filename, 'w', { format: 'NETCDF4' });
+                const defGrp = jest.spyOn(nc.getModule(), 'nc_def_grp');
+
+                const forecast = nc.createGroup('forecast');
+                const surface = forecast.createGroup('surface');
+
+                expect(defGrp).toHaveBeenNthCalledWith(1, (nc as any).groupId, 'forecast');
+                expect(defGrp).toHaveBeenNthCalledWith(2, (forecast as any).groupId, 'surface');
+                expect((forecast as any).groupId).not.toBe((nc as any).groupId);
+                expect((surface as any).groupId).not.toBe((forecast as any).groupId);
+
+                expect(nc.path).toBe('/');
+                expect(forecast.path).toBe('/forecast');
+                expect(surface.path).toBe('/forecast/surface');
+                expect(surface.parent).toBe(forecast);
+                expect(forecast.parent).toBe(nc);
+                expect(surface.toString()).toBe("<netCDF4.Group '/forecast/surface'>");
+                expect(() => forecast.createGroup('surface')).toThrow("Group 'surface' already exists");
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should resolve dimensions from ancestor groups', async () => {
+            const filename = TestSetup.getTestFilename('_groups_dims');
+
+            try {
+                const nc = await Dataset(filename, 'w', { format: 'NETCDF4' });
+                const time = await nc.createDimension('time', 4);
+                const surface = nc.createGroup('forecast').createGroup('surface');
+                const station = await surface.createDimension('station', 3);
+                const defVar = jest.spyOn(nc.getModule(), 'nc_def_var');
+
+                const temp = await surface.createVariable('temp', 'f4', ['time', 'station']);
+
+                expect(defVar.mock.calls[0][4]).toEqual([time.dimid, station.dimid]);
+                expect(temp.shape).toEqual([4, 3]);
+                expect(surface.findDimension('time')).toBe(time);
+                expect(nc.findDimension('station')).toBeUndefined();
+                await expect(nc.createVariable('bad', 'f4', ['station']))
+                    .rejects.toThrow("Dimension 'station' not found");
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should look up groups and variables by path', async () => {
+            const filename = TestSetup.getTestFilename('_groups_get');
+
+            try {
+                const nc = await Dataset(filename, 'w', { format: 'NETCDF4' });
+                await nc.createDimension('x', 2);
+                const a = nc.createGroup('a');
+                const b = a.createGroup('b');
+                const v = await b.createVariable('var', 'f8', ['x']);
+                const top = await nc.createVariable('top', 'f8', ['x']);
+
+                expect(nc.get('/a/b/var')).toBe(v);
+                expect(nc.get('a/b')).toBe(b);
+                expect(a.get('b/var')).toBe(v);
+                expect(b.get('/top')).toBe(top);
+                expect(b.get('/')).toBe(nc);
+                expect(nc.get('/a/missing/var')).toBeUndefined();
+                expect(nc.get('/a/b/missing')).toBeUndefined();
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should discover subgroups recursively when opening a file', async () => {
+            const filename = TestSetup.getTestFilename('_groups_reopen');
+
+            try {
+                const nc = await Dataset(filename, 'w', { format: 'NETCDF4' });
+                await nc.createDimension('time', 2);
+                const obs = nc.createGroup('observations');
+                obs.setAttr('source', 'stations');
+                const qc = obs.createGroup('qc');
+                await qc.createDimension('flag', 3);
+                const flags = await qc.createVariable('flags', 'i2', ['time', 'flag']);
+                flags.units = '1';
+                await flags.setValue([1, 2, 3, 4, 5, 6]);
+                nc.setAttr('title', 'root');
+                await nc.close();
+
+                const reader = await Dataset(filename, 'r');
+                const readObs = reader.groups.observations;
+                expect(readObs).toBeInstanceOf(Group);
+                expect(readObs.getAttr('source')).toBe('stations');
+                expect(readObs.getAttr('title')).toBeUndefined();
+                expect(reader.getAttr('source')).toBeUndefined();
+
+                const readFlags = reader.get('/observations/qc/flags') as Variable;
+                expect(readFlags).toBeInstanceOf(Variable);
+                expect(readFlags.units).toBe('1');
+                expect(readFlags.shape).toEqual([2, 3]);
+                expect(Array.from(await readFlags.get({ start: [1, 0], count: [1, 3] }) as Int16Array))
+                    .toEqual([4, 5, 6]);
+                expect(reader.groups.observations.groups.qc.path).toBe('/observations/qc');
+
+                await reader.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+    });
+});
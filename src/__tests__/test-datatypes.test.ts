@@ -43,6 +43,90 @@ describe('Data Types and Array Handling', () => {
             expect(DATA_TYPE_MAP['short']).toBe(NC_CONSTANTS.NC_SHORT);
             expect(DATA_TYPE_MAP['byte']).toBe(NC_CONSTANTS.NC_BYTE);
             expect(DATA_TYPE_MAP['char']).toBe(NC_CONSTANTS.NC_CHAR);
+            
+            // Unsigned and 64-bit types
+            expect(DATA_TYPE_MAP['u1']).toBe(NC_CONSTANTS.NC_UBYTE);
+            expect(DATA_TYPE_MAP['u2']).toBe(NC_CONSTANTS.NC_USHORT);
+            expect(DATA_TYPE_MAP['u4']).toBe(NC_CONSTANTS.NC_UINT);
+            expect(DATA_TYPE_MAP['i8']).toBe(NC_CONSTANTS.NC_INT64);
+            expect(DATA_TYPE_MAP['u8']).toBe(NC_CONSTANTS.NC_UINT64);
+            expect(DATA_TYPE_MAP['uint64']).toBe(NC_CONSTANTS.NC_UINT64);
+        });
+    });
+
+    describe('Native Typed Arrays', () => {
+        test('should read every numeric type as its matching typed array', async () => {
+            const filename = TestSetup.getTestFilename('_types_native');
+            
+            if (mockMode) {
+                pending('WASM module not available');
+                return;
+            }
+
+            try {
+                const nc = await Dataset(filename, 'w', { format: 'NETCDF4' });
+                
+                await nc.createDimension('x', 3);
+                
+                const expected: { [dtype: string]: Function } = {
+                    'i1': Int8Array, 'u1': Uint8Array,
+                    'i2': Int16Array, 'u2': Uint16Array,
+                    'i4': Int32Array, 'u4': Uint32Array,
+                    'i8': BigInt64Array, 'u8': BigUint64Array,
+                    'f4': Float32Array, 'f8': Float64Array,
+                    'short': Int16Array, 'ubyte': Uint8Array,
+                };
+                
+                for (const [dtype, ctor] of Object.entries(expected)) {
+                    const v = await nc.createVariable(`var_${dtype}`, dtype, ['x']);
+                    await v.setValue([1, 2, 3]);
+                    const data = await v.getValue();
+                    expect(data).toBeInstanceOf(ctor);
+                    TestSetup.assertArraysAlmostEqual(data, [1, 2, 3]);
+                }
+                
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should round-trip values outside the double-safe range', async () => {
+            const filename = TestSetup.getTestFilename('_types_native_exact');
+            
+            if (mockMode) {
+                pending('WASM module not available');
+                return;
+            }
+
+            try {
+                const nc = await Dataset(filename, 'w', { format: 'NETCDF4' });
+                
+                await nc.createDimension('x', 2);
+                const big = await nc.createVariable('big', 'i8', ['x']);
+                const ubig = await nc.createVariable('ubig', 'u8', ['x']);
+                const uint = await nc.createVariable('uint', 'u4', ['x']);
+                
+                // 2^53 + 1 is not representable as a double
+                await big.setValue(new BigInt64Array([9007199254740993n, -9007199254740993n]));
+                expect(Array.from(await big.getValue() as BigInt64Array)).toEqual([9007199254740993n, -9007199254740993n]);
+                
+                await ubig.setValue(new BigUint64Array([18446744073709551615n, 0n]));
+                expect((await ubig.getValue())[0]).toBe(18446744073709551615n);
+                
+                await uint.setValue(new Uint32Array([4294967295, 2147483648]));
+                expect(Array.from(await uint.getValue() as Uint32Array)).toEqual([4294967295, 2147483648]);
+                
+                // Slices and item assignment keep the native type too
+                await big.__setitem__(1, 42n);
+                const item = await big.__getitem__(1);
+                expect(item.data).toBeInstanceOf(BigInt64Array);
+                expect(item.data[0]).toBe(42n);
+                
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
         });
     });
 
@@ -93,7 +177,7 @@ describe('Data Types and Array Handling', () => {
                 await nc.createDimension('x', 10);
                 
                 // Test invalid data types
-                const invalid_types = ['invalid', 'f16', 'i8', 'string', 'bool', '', null, undefined];
+                const invalid_types = ['invalid', 'f16', 'i16', 'string', 'bool', '', null, undefined];
                 
                 for (const dtype of invalid_types) {
                     expect(async () => {
@@ -511,14 +595,14 @@ describe('Data Types and Array Handling', () => {
                 const read_f4_data = await float_var.getValue();
                 expect(read_f4_data).toBeInstanceOf(Float32Array);
                 
-                // But i4 and i2 should still throw errors
-                expect(async () => {
-                    await int_var.setValue(test_data);
-                }).rejects.toThrow('Data type i4 not yet supported');
+                // i4 and i2 are written and read back in their native types
+                await int_var.setValue(test_data);
+                expect(await int_var.getValue()).toBeInstanceOf(Int32Array);
                 
-                expect(async () => {
-                    await short_var.setValue(test_data);
-                }).rejects.toThrow('Data type i2 not yet supported');
+                await short_var.setValue(test_data);
+                const read_i2_data = await short_var.getValue();
+                expect(read_i2_data).toBeInstanceOf(Int16Array);
+                TestSetup.assertArraysAlmostEqual(read_i2_data, test_data);
                 
                 // But double/f8 should work
                 const double_var = await nc.createVariable('double_data', 'f8', ['x']);
@@ -1,6 +1,6 @@
 // Dimension tests following netcdf4-python patterns
 
-import { Dataset, NetCDF4, Dimension, NC_CONSTANTS } from '../index';
+import { Dataset, NetCDF4, Dimension, NC_CONSTANTS, DEFAULT_FILL_VALUES } from '../index';
 import { TestSetup } from '../test-setup';
 
 describe('Dimension Tests', () => {
@@ -72,14 +72,14 @@ describe('Dimension Tests', () => {
                 
                 expect(time).toBeInstanceOf(Dimension);
                 expect(time.name).toBe('time');
-                expect(time.size).toBe(NC_CONSTANTS.NC_UNLIMITED);
+                expect(time.size).toBe(0); // no records yet
                 expect(time.isUnlimited).toBe(true);
                 
                 // Create unlimited dimension using NC_UNLIMITED constant
                 const record = await nc.createDimension('record', NC_CONSTANTS.NC_UNLIMITED);
                 
                 expect(record.isUnlimited).toBe(true);
-                expect(record.size).toBe(NC_CONSTANTS.NC_UNLIMITED);
+                expect(record.size).toBe(0);
                 
                 await nc.close();
             } finally {
@@ -146,7 +146,7 @@ describe('Dimension Tests', () => {
                 // Test unlimited dimension properties
                 expect(unlimited_dim.name).toBe('unlimited');
                 expect(unlimited_dim.isUnlimited).toBe(true);
-                expect(unlimited_dim.__len__()).toBe(NC_CONSTANTS.NC_UNLIMITED);
+                expect(unlimited_dim.__len__()).toBe(0);
                 
                 await nc.close();
             } finally {
@@ -166,6 +166,79 @@ describe('Dimension Tests', () => {
         });
     });
 
+    describe('Unlimited Dimension Growth', () => {
+        test('should append records and report the live length', async () => {
+            const filename = TestSetup.getTestFilename('_dims_append');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                const time = await nc.createDimension('time', null);
+                await nc.createDimension('station', 3);
+                const obs = await nc.createVariable('obs', 'f4', ['time', 'station']);
+                const times = await nc.createVariable('times', 'f8', ['time']);
+                const dimlen = jest.spyOn(nc.getModule(), 'nc_inq_dimlen');
+
+                // A telemetry logger appending a batch per call
+                await obs.append([1, 2, 3]);
+                await obs.append([4, 5, 6, 7, 8, 9]);
+                expect(time.size).toBe(3);
+                expect(time.__len__()).toBe(3);
+                expect(dimlen).toHaveBeenCalledWith(expect.any(Number), time.dimid);
+                expect(obs.shape).toEqual([3, 3]);
+                expect(await obs.get({ start: [2, 0] })).toEqual(new Float32Array([7, 8, 9]));
+
+                // The length is shared: records not yet written read as fill values
+                expect(times.shape).toEqual([3]);
+                expect(await times.getValue()).toEqual(new Float64Array([NaN, NaN, NaN]));
+                await times.__setitem__('0:3', [0, 1, 2]);
+                await times.append([3]);
+                expect(time.size).toBe(4);
+                expect(await times.getValue()).toEqual(new Float64Array([0, 1, 2, 3]));
+                expect(obs.shape).toEqual([4, 3]);
+
+                await expect(obs.append([1, 2])).rejects.toThrow("Cannot append 2 values to 'obs': each record has 3 elements");
+                const fixed = await nc.createVariable('fixed', 'f4', ['station']);
+                await expect(fixed.append([1, 2, 3])).rejects.toThrow("Variable 'fixed' has no unlimited dimension to append to");
+
+                await nc.close();
+                expect(time.size).toBe(4);
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should grow on writes past the current extent', async () => {
+            const filename = TestSetup.getTestFilename('_dims_grow');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                await nc.createDimension('time', null);
+                await nc.createDimension('x', 2);
+                const v = await nc.createVariable('v', 'i4', ['time', 'x']);
+                v.set_auto_mask(false);
+
+                await v.put([1, 2], { start: [2, 0], count: [1, 2] });
+                expect(v.shape).toEqual([3, 2]);
+                await v.__setitem__(4, 7);
+                await v.__setitem__('5:7, 1', [8, 9]);
+                expect(v.shape).toEqual([7, 2]);
+
+                const fill = DEFAULT_FILL_VALUES.i4 as number;
+                expect(await v.get({ start: [2, 0], count: [5, 2] })).toEqual(new Int32Array([1, 2, fill, fill, 7, 7, fill, 8, fill, 9]));
+                await expect(v.__setitem__('0, 5', 1)).rejects.toThrow('out of bounds');
+                await nc.close();
+
+                const reader = await Dataset(filename, 'r');
+                expect(reader.dimensions.time.isUnlimited).toBe(true);
+                expect(reader.dimensions.time.size).toBe(7);
+                expect(reader.variables.v.shape).toEqual([7, 2]);
+                await reader.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+    });
+
     describe('Dimension Collections', () => {
         test('should manage dimension collections correctly', async () => {
             const filename = TestSetup.getTestFilename('_dims_collections');
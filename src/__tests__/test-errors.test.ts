@@ -0,0 +1,64 @@
+// NetCDF error reporting tests
+
+import { Dataset, NetCDFError, NC_CONSTANTS, errorCodeName } from '../index';
+import { TestSetup } from '../test-setup';
+
+describe('NetCDF Errors', () => {
+    beforeAll(() => {
+        TestSetup.setupTestEnvironment();
+        TestSetup.mockWasmModule();
+    });
+
+    afterAll(() => {
+        TestSetup.cleanupTestEnvironment();
+    });
+
+    test('should name error codes', () => {
+        expect(NC_CONSTANTS.NC_ENOTFOUND).toBe(-90);
+        expect(NC_CONSTANTS.NC_EHDFERR).toBe(-101);
+        expect(errorCodeName(-49)).toBe('NC_ENOTVAR');
+        expect(errorCodeName(NC_CONSTANTS.NC_ENOTNC)).toBe('NC_ENOTNC');
+        expect(errorCodeName(2)).toBeUndefined();
+    });
+
+    test('should carry the code, nc_strerror text and context', async () => {
+        const filename = TestSetup.getTestFilename('_errors_context');
+
+        try {
+            const nc = await Dataset(filename, 'w');
+            await nc.createDimension('x', 2);
+            const v = await nc.createVariable('temp', 'f4', ['x']);
+            jest.spyOn(nc.getModule(), 'nc_put_vara_typed').mockReturnValueOnce(NC_CONSTANTS.NC_EHDFERR);
+
+            const error = await v.setValue(new Float32Array([1, 2])).catch(e => e);
+            expect(error).toBeInstanceOf(NetCDFError);
+            expect(error).toBeInstanceOf(Error);
+            expect(error.name).toBe('NetCDFError');
+            expect(error.code).toBe(NC_CONSTANTS.NC_EHDFERR);
+            expect(error.codeName).toBe('NC_EHDFERR');
+            expect(error.strerror).toBe('NetCDF: HDF error');
+            expect(error.operation).toBe('nc_put_vars');
+            expect(error.path).toBe(filename);
+            expect(error.variable).toBe('temp');
+            expect(error.message).toBe('Failed to write variable hyperslab (error: -101): NetCDF: HDF error (NC_EHDFERR)');
+
+            jest.spyOn(nc.getModule(), 'nc_def_dim').mockReturnValueOnce({ result: NC_CONSTANTS.NC_ENAMEINUSE, dimid: -1 });
+            await expect(nc.createDimension('y', 3)).rejects.toMatchObject({
+                code: NC_CONSTANTS.NC_ENAMEINUSE,
+                operation: 'nc_def_dim',
+                variable: undefined,
+            });
+            await nc.close();
+        } finally {
+            TestSetup.cleanupTestFile(filename);
+        }
+    });
+
+    test('should report failures to open a file', async () => {
+        const error = await Dataset('unsupported.nc', 'r').catch(e => e);
+        expect(error).toBeInstanceOf(NetCDFError);
+        expect(error.operation).toBe('nc_open');
+        expect(error.path).toBe('unsupported.nc');
+        expect(error.message).toMatch(/^Failed to open NetCDF file: unsupported.nc \(error: -1\)/);
+    });
+});
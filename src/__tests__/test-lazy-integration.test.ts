@@ -1,7 +1,14 @@
 // Integration tests for the lazy open path on NetCDF4 (mock-mode WASM).
 
 import { Dataset, NetCDF4 } from "../index";
-import { MemoryReader } from "../lazy";
+import { MemoryReader, OpfsFile } from "../lazy";
+import type {
+  CachedReader,
+  HttpRequest,
+  HttpResponse,
+  PersistentBlockCache,
+  PersistentKey,
+} from "../lazy";
 import { TestSetup } from "../test-setup";
 
 function makeData(size: number): Uint8Array {
@@ -20,10 +27,147 @@ describe("NetCDF4 lazy open path", () => {
     TestSetup.cleanupTestEnvironment();
   });
 
-  test("fromLazy rejects non-read modes", async () => {
+  test("fromLazy cannot create a dataset over a read-only source", async () => {
     const reader = new MemoryReader(makeData(64));
-    await expect(NetCDF4.fromLazy(reader, "w")).rejects.toThrow("read-only");
-    await expect(NetCDF4.fromLazy(reader, "a")).rejects.toThrow("read-only");
+    await expect(NetCDF4.fromLazy(reader, "w")).rejects.toThrow("read-only source");
+    await expect(NetCDF4.fromLazy(reader, "w-")).rejects.toThrow("read-only source");
+  });
+
+  test("fromLazy opens a read-only source for writing through an overlay", async () => {
+    const data = makeData(5000);
+    let closed = false;
+    const reader = Object.assign(new MemoryReader(data), {
+      close: () => {
+        closed = true;
+      },
+    });
+    const filename = "/tmp/lazy-overlay.nc";
+    await (await Dataset(filename, "w")).close();
+
+    const nc = await NetCDF4.fromLazy(reader, "a", { blockSize: 1000 }, filename);
+    expect(nc.isopen).toBe(true);
+    // Mock writes never reach the file; write to the overlay as NetCDF would.
+    (nc as any).lazySource.overlay.write(4990, new Uint8Array(20).fill(1));
+
+    const expected = new Uint8Array(5010);
+    expected.set(data);
+    expected.fill(1, 4990);
+    expect(new Uint8Array(await nc.toArrayBuffer())).toEqual(expected);
+    expect(new Uint8Array(await (await nc.toBlob()).arrayBuffer())).toEqual(expected);
+    const chunks: Uint8Array[] = [];
+    expect(await nc.writeTo((chunk) => void chunks.push(chunk), { chunkSize: 2048 })).toBe(5010);
+    // Source ranges, then the two dirty blocks.
+    expect(chunks.map((chunk) => chunk.length)).toEqual([2048, 1952, 1000, 10]);
+    expect(Buffer.concat(chunks)).toEqual(Buffer.from(expected));
+    // The source is untouched, and reads of it stay cached.
+    expect(data[4995]).toBe(4995 % 256);
+    expect(nc.readStats).toBeDefined();
+
+    await nc.close();
+    expect(closed).toBe(true);
+    await expect(nc.toArrayBuffer()).rejects.toThrow("before closing it");
+  });
+
+  test("fromLazy opens a writable source for modification", async () => {
+    const calls: string[] = [];
+    const file = new OpfsFile({
+      read: () => 0,
+      write: (buffer) => buffer.length,
+      getSize: () => 64,
+      truncate: () => {},
+      flush: () => {
+        calls.push("flush");
+      },
+      close: () => {
+        calls.push("close");
+      },
+    });
+    const nc = await Dataset(file, "a", { lazy: true });
+    expect(nc.isopen).toBe(true);
+    await nc.close();
+    // Closing the dataset flushes the file and releases its lock.
+    expect(calls).toEqual(["flush", "close"]);
+  });
+
+  test("fromLazy opens the source's blocks in a persistent cache", async () => {
+    const opened: Array<[PersistentKey, number]> = [];
+    let closed = 0;
+    const persistentCache: PersistentBlockCache = {
+      open: async (key, blockSize) => {
+        opened.push([key, blockSize]);
+        return { blockSize, get: () => undefined, put: () => {}, close: () => closed++ };
+      },
+      clear: async () => {},
+    };
+    const reader = Object.assign(new MemoryReader(makeData(64)), {
+      persistentKey: { source: "/data/x.nc", version: "1:64" },
+    });
+
+    const nc = await NetCDF4.fromLazy(reader, "r", { persistentCache, blockSize: 4096 });
+    expect(opened).toEqual([[{ source: "/data/x.nc", version: "1:64" }, 4096]]);
+    await nc.close();
+    expect(closed).toBe(1);
+
+    // Readers without a persistent key are not persisted.
+    await (await NetCDF4.fromLazy(new MemoryReader(makeData(64)), "r", { persistentCache })).close();
+    expect(opened).toHaveLength(1);
+  });
+
+  test("readStats charges cache traffic to the variables read", async () => {
+    const filename = "/tmp/lazy-read-stats.nc";
+    const writer = await Dataset(filename, "w");
+    await writer.createDimension("x", 4);
+    await (await writer.createVariable("temp", "f8", ["x"])).setValue([1, 2, 3, 4]);
+    const forecast = writer.createGroup("forecast");
+    await (await forecast.createVariable("t2m", "f8", ["x"])).setValue([5, 6, 7, 8]);
+    await writer.close();
+
+    const nc = await NetCDF4.fromLazy(
+      new MemoryReader(makeData(10000)),
+      "r",
+      { blockSize: 1000, readAhead: 0 },
+      filename,
+    );
+    // Mock reads never touch the file: have each read the blocks NetCDF would,
+    // 2000 bytes of temp's or 1000 of t2m's.
+    const cache = (nc as any).lazySource.cache as CachedReader;
+    const module = nc.getModule();
+    const getSlab = module.nc_get_vara_typed;
+    jest
+      .spyOn(module, "nc_get_vara_typed")
+      .mockImplementation((ncid, varid, ...rest) => {
+        if (ncid === 1) cache.read(0, 2000);
+        else cache.read(5000, 1000);
+        return getSlab(ncid, varid, ...rest);
+      });
+
+    expect(Array.from((await nc.variables.temp.getValue()) as Float64Array)).toEqual([1, 2, 3, 4]);
+    await nc.variables.temp.getValue();
+    await nc.groups.forecast.variables.t2m.getValue();
+
+    const stats = nc.readStats!;
+    expect(stats).toMatchObject({ misses: 3, hits: 2, bytesFetched: 3000, cachedBlocks: 3 });
+    expect(stats.variables).toEqual({
+      "/temp": { reads: 2, hits: 2, misses: 2, bytesFetched: 2000, innerReads: 1, persistentHits: 0 },
+      "/forecast/t2m": { reads: 1, hits: 0, misses: 1, bytesFetched: 1000, innerReads: 1, persistentHits: 0 },
+    });
+
+    nc.clearCache();
+    expect(nc.readStats).toMatchObject({ cachedBlocks: 0, misses: 3 });
+    await nc.variables.temp.getValue();
+    expect(nc.readStats!.variables["/temp"]).toMatchObject({ reads: 3, misses: 4 });
+
+    nc.resizeCache({ maxCacheBlocks: 1 });
+    expect(nc.readStats!.cachedBlocks).toBe(1);
+    await nc.close();
+  });
+
+  test("cache control needs a lazily read dataset", async () => {
+    const nc = await Dataset("/tmp/not-lazy.nc", "w");
+    expect(nc.readStats).toBeUndefined();
+    expect(() => nc.clearCache()).toThrow("no block cache");
+    expect(() => nc.resizeCache({ maxCacheBlocks: 8 })).toThrow("no block cache");
+    await nc.close();
   });
 
   test("fromLazy opens read-only from a custom LazyReader", async () => {
@@ -65,6 +209,15 @@ describe("NetCDF4 lazy open path", () => {
     }
   });
 
+  test("Dataset(reader, 'r', { lazy: true }) opens a LazyReader", async () => {
+    const reader = new MemoryReader(makeData(128));
+    const nc = await Dataset(reader, "r", { lazy: true });
+    expect(nc.toString()).toContain("(lazy)");
+    await nc.close();
+
+    await expect(Dataset(reader, "r")).rejects.toThrow("Invalid source type");
+  });
+
   test("lazy Blob open never reads the whole file via arrayBuffer()", async () => {
     if (typeof Blob === "undefined") {
       return; // environment without Blob; routing is covered by fromLazy tests
@@ -83,4 +236,31 @@ describe("NetCDF4 lazy open path", () => {
     );
     expect(arrayBufferSpy).not.toHaveBeenCalled();
   });
+
+  test("Dataset(url, 'r', { lazy: true }) reads over HTTP with the given options", async () => {
+    const data = makeData(256);
+    const requests: HttpRequest[] = [];
+    const transport = (request: HttpRequest): HttpResponse => {
+      requests.push(request);
+      const headers: Record<string, string> = {
+        "content-length": String(data.length),
+      };
+      return { status: 200, statusText: "OK", headers, body: new Uint8Array(0) };
+    };
+
+    const nc = await Dataset("https://example.com/big.nc", "r", {
+      lazy: true,
+      http: { transport, headers: { Authorization: "Bearer abc" } },
+    });
+    try {
+      expect(nc.toString()).toContain("(lazy)");
+      expect(requests[0]).toMatchObject({
+        method: "HEAD",
+        url: "https://example.com/big.nc",
+        headers: { Authorization: "Bearer abc" },
+      });
+    } finally {
+      await nc.close();
+    }
+  });
 });
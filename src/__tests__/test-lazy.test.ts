@@ -1,14 +1,41 @@
 // Tests for the lazy file-reading primitives (no WASM required).
 
+import { spawn } from "child_process";
+import type { ChildProcess } from "child_process";
+import { Worker } from "worker_threads";
+import { IDBDatabase, IDBFactory, IDBKeyRange } from "fake-indexeddb";
 import {
   CachedReader,
+  BlockCachePool,
+  NodeBlockCache,
+  IndexedDbBlockCache,
+  LfuPolicy,
+  TwoQueuePolicy,
   MemoryReader,
   NodeFileReader,
+  OpfsReader,
+  OpfsFile,
+  OverlayReader,
+  HttpRangeReader,
+  AsyncBridgeReader,
+  serveAsyncLazyReader,
   createLazyReader,
+  isWritableLazyReader,
   createLazyStreamOps,
   mountLazyFile,
 } from "../lazy";
-import type { LazyReader, NodeFsLike } from "../lazy";
+import type {
+  AsyncLazyReaderChannel,
+  EvictionPolicy,
+  FileSystemFileHandleLike,
+  FileSystemSyncAccessHandleLike,
+  HttpRequest,
+  HttpResponse,
+  LazyReader,
+  NodeCacheFsLike,
+  NodeFsLike,
+  WritableLazyReader,
+} from "../lazy";
 
 // Deterministic byte source: data[i] === i % 256.
 function makeData(size: number): Uint8Array {
@@ -72,6 +99,7 @@ describe("CachedReader", () => {
     expect(() => new CachedReader(inner, -1)).toThrow(RangeError);
     expect(() => new CachedReader(inner, 1024, 0)).toThrow(RangeError);
     expect(() => new CachedReader(inner, 1.5)).toThrow(RangeError);
+    expect(() => new CachedReader(inner, 1024, 8, -1)).toThrow(RangeError);
   });
 
   test("returns identical bytes to the underlying reader", () => {
@@ -115,14 +143,87 @@ describe("CachedReader", () => {
     expect(counter.reads).toEqual([{ offset: 1024, length: 1024 }]);
   });
 
-  test("fetches one block per spanned block exactly once", () => {
+  test("coalesces adjacent missing blocks into one request", () => {
     const counter = new CountingReader(new MemoryReader(data));
-    const cached = new CachedReader(counter, 1024);
+    const cached = new CachedReader(counter, 1024, 256, 0);
     cached.read(1000, 1100); // spans blocks 0, 1, 2
-    expect(counter.reads.map((r) => r.offset).sort((a, b) => a - b)).toEqual([
-      0, 1024, 2048,
-    ]);
+    expect(counter.reads).toEqual([{ offset: 0, length: 3072 }]);
     expect(cached.stats.misses).toBe(3);
+
+    // Blocks 2 and 4 are cached, so blocks 3 and 5-6 take two requests.
+    cached.read(4096, 1);
+    counter.reads.length = 0;
+    expect(Array.from(cached.read(3000, 4000))).toEqual(
+      Array.from(data.subarray(3000, 7000)),
+    );
+    expect(counter.reads).toEqual([
+      { offset: 3072, length: 1024 },
+      { offset: 5120, length: 2048 },
+    ]);
+    expect(cached.stats).toMatchObject({ misses: 7, hits: 2, innerReads: 4 });
+  });
+
+  test("reads ahead of sequential reads with a growing window", () => {
+    const counter = new CountingReader(new MemoryReader(data));
+    const cached = new CachedReader(counter, 100, 256, 4);
+
+    // Scan the file 100 bytes at a time: after the first miss each sequential
+    // miss fetches 1, 2, 4, 4, ... blocks ahead.
+    for (let offset = 0; offset < data.length; offset += 100) {
+      expect(Array.from(cached.read(offset, 100))).toEqual(
+        Array.from(data.subarray(offset, offset + 100)),
+      );
+    }
+    expect(counter.reads.slice(0, 5)).toEqual([
+      { offset: 0, length: 100 },
+      { offset: 100, length: 200 },
+      { offset: 300, length: 300 },
+      { offset: 600, length: 500 },
+      { offset: 1100, length: 500 },
+    ]);
+    const stats = cached.stats;
+    expect(stats.innerReads).toBe(counter.reads.length);
+    expect(stats.innerReads).toBeLessThan(25);
+    expect(stats.prefetchedBlocks).toBe(stats.prefetchHits);
+    expect(stats.misses + stats.prefetchedBlocks).toBe(100);
+    expect(stats.bytesFetched).toBe(data.length);
+  });
+
+  test("resets read-ahead on random access and stops at EOF", () => {
+    const counter = new CountingReader(new MemoryReader(data));
+    const cached = new CachedReader(counter, 1000, 256, 8);
+
+    cached.read(5000, 10); // random: no read-ahead
+    cached.read(6000, 10); // sequential: one block ahead
+    cached.read(2000, 10); // random again: the window starts over
+    cached.read(3000, 10);
+    cached.read(4000, 10); // prefetched, counts as a hit
+    cached.read(8000, 10);
+    cached.read(9000, 10); // sequential, but block 9 is the last
+    expect(counter.reads).toEqual([
+      { offset: 5000, length: 1000 },
+      { offset: 6000, length: 2000 },
+      { offset: 2000, length: 1000 },
+      { offset: 3000, length: 2000 },
+      { offset: 8000, length: 1000 },
+      { offset: 9000, length: 1000 },
+    ]);
+    expect(cached.stats).toMatchObject({ prefetchedBlocks: 2, prefetchHits: 1 });
+  });
+
+  test("counts prefetched blocks evicted unused", () => {
+    const cached = new CachedReader(new MemoryReader(data), 100, 4, 3);
+    cached.read(0, 1);
+    cached.read(100, 1); // fetches block 1 and prefetches block 2
+    cached.read(5000, 1);
+    cached.read(6000, 1);
+    cached.read(7000, 1);
+    cached.read(8000, 1); // evicts blocks 0, 1 and the unused block 2
+    expect(cached.stats).toMatchObject({
+      prefetchedBlocks: 1,
+      prefetchHits: 0,
+      prefetchEvicted: 1,
+    });
   });
 
   test("evicts the least-recently-used block past capacity", () => {
@@ -153,6 +254,117 @@ describe("CachedReader", () => {
     expect(block0Fetches).toBe(1);
   });
 
+  test("keeps within a byte budget", () => {
+    const cached = new CachedReader(new MemoryReader(data), {
+      blockSize: 1000,
+      maxCacheBytes: 2500,
+      readAhead: 0,
+    });
+    for (let offset = 0; offset < data.length; offset += 1000) {
+      cached.read(offset, 1);
+    }
+    expect(cached.stats).toMatchObject({ cachedBlocks: 2, cachedBytes: 2000 });
+    expect(() => new CachedReader(new MemoryReader(data), { maxCacheBytes: 0 }))
+      .toThrow(RangeError);
+  });
+
+  // Reads the "metadata" block 0, scans blocks 1-9 once and reads block 0
+  // again, returning how often block 0 was fetched.
+  function metadataFetchesAfterScan(options: object): number {
+    const counter = new CountingReader(new MemoryReader(data));
+    const cached = new CachedReader(counter, {
+      blockSize: 1000,
+      maxCacheBlocks: 4,
+      readAhead: 0,
+      ...options,
+    });
+    cached.read(0, 100);
+    cached.read(10, 100); // metadata is read more than once
+    for (let offset = 1000; offset < data.length; offset += 1000) {
+      cached.read(offset, 1000);
+    }
+    cached.read(0, 100);
+    return counter.reads.filter((r) => r.offset === 0).length;
+  }
+
+  test("protects metadata from a scan by pinning or eviction policy", () => {
+    expect(metadataFetchesAfterScan({})).toBe(2); // LRU loses it
+    expect(metadataFetchesAfterScan({ pinBytes: 1 })).toBe(1);
+    expect(metadataFetchesAfterScan({ eviction: "lfu" })).toBe(1);
+
+    const pinned = new CachedReader(new MemoryReader(data), {
+      blockSize: 1000,
+      maxCacheBlocks: 2,
+      pinBytes: 1500,
+    });
+    for (let offset = 0; offset < data.length; offset += 1000) {
+      pinned.read(offset, 1);
+    }
+    expect(pinned.stats).toMatchObject({ pinnedBlocks: 2, cachedBlocks: 4 });
+  });
+
+  test("2Q keeps re-read blocks through a scan", () => {
+    const policy = new TwoQueuePolicy();
+    // Block 0 is read, evicted by the scan and read again: promoted.
+    for (const b of [0, 1, 2, 3]) policy.insert(b);
+    expect(policy.victim()).toBe(0);
+    policy.insert(4);
+    policy.insert(0);
+    // A further scan only cycles through blocks read once.
+    const evicted: Array<number | undefined> = [];
+    for (const b of [5, 6, 7, 8]) {
+      evicted.push(policy.victim());
+      policy.insert(b);
+    }
+    expect(evicted).not.toContain(0);
+    // A block is only protected once it has come back after an eviction.
+    expect(metadataFetchesAfterScan({ eviction: "2q" })).toBe(2);
+    expect(() => new TwoQueuePolicy(1)).toThrow(RangeError);
+  });
+
+  test("2Q files a re-inserted block in one queue", () => {
+    const policy = new TwoQueuePolicy();
+    for (const b of [0, 1, 2, 3]) policy.insert(b);
+    expect(policy.victim()).toBe(0);
+    policy.insert(0);
+    // Inserted again while promoted, and while still read once
+    policy.insert(0);
+    policy.insert(1);
+    const evicted: Array<number | undefined> = [];
+    for (let i = 0; i < 5; i++) evicted.push(policy.victim());
+    expect(evicted).toEqual([2, 3, 0, 1, undefined]);
+  });
+
+  test("accepts a custom eviction policy", () => {
+    // Always evict the highest block index.
+    const blocks = new Set<number>();
+    const policy: EvictionPolicy = {
+      insert: (b) => void blocks.add(b),
+      access: () => {},
+      remove: (b) => void blocks.delete(b),
+      victim: () => {
+        const b = Math.max(...blocks);
+        blocks.delete(b);
+        return b;
+      },
+    };
+    const counter = new CountingReader(new MemoryReader(data));
+    const cached = new CachedReader(counter, {
+      blockSize: 1000,
+      maxCacheBlocks: 2,
+      readAhead: 0,
+      eviction: policy,
+    });
+    cached.read(0, 1);
+    cached.read(5000, 1);
+    cached.read(9000, 1); // evicts itself, the highest
+    cached.read(5000, 1);
+    expect(counter.reads.map((r) => r.offset)).toEqual([0, 5000, 9000]);
+    expect(new LfuPolicy().victim()).toBeUndefined();
+    expect(() => new CachedReader(counter, { eviction: "mru" as any }))
+      .toThrow("Unknown eviction policy 'mru'; expected 'lru', 'lfu' or '2q'");
+  });
+
   test("close() clears the cache and closes the inner reader", () => {
     const counter = new CountingReader(new MemoryReader(data));
     const cached = new CachedReader(counter, 1024);
@@ -162,12 +374,548 @@ describe("CachedReader", () => {
     expect(cached.stats.cachedBlocks).toBe(0);
   });
 
+  test("clear() drops the blocks and keeps counting", () => {
+    const counter = new CountingReader(new MemoryReader(data));
+    const cached = new CachedReader(counter, {
+      blockSize: 1000,
+      pinBytes: 1000,
+      readAhead: 0,
+    });
+    cached.read(0, 2000);
+    cached.clear();
+    expect(cached.stats).toMatchObject({ cachedBlocks: 0, pinnedBlocks: 0 });
+    cached.read(0, 2000);
+    expect(counter.reads.length).toBe(2);
+    expect(cached.stats).toMatchObject({ misses: 4, pinnedBlocks: 1 });
+  });
+
+  test("resize() evicts down to the new budget", () => {
+    const counter = new CountingReader(new MemoryReader(data));
+    const cached = new CachedReader(counter, {
+      blockSize: 1000,
+      maxCacheBlocks: 8,
+      readAhead: 0,
+    });
+    for (let offset = 0; offset < 6000; offset += 1000) cached.read(offset, 1);
+    cached.resize({ maxCacheBlocks: 2 });
+    expect(cached.stats.cachedBlocks).toBe(2);
+    // The most recently used blocks stay.
+    const reads = counter.reads.length;
+    cached.read(5000, 1);
+    expect(counter.reads.length).toBe(reads);
+
+    cached.resize({ maxCacheBytes: 1000 });
+    expect(cached.stats).toMatchObject({ cachedBlocks: 1, cachedBytes: 1000 });
+    expect(() => cached.resize({ maxCacheBlocks: 0 })).toThrow(RangeError);
+
+    const pool = new BlockCachePool();
+    const shared = new CachedReader(new MemoryReader(data), { cachePool: pool });
+    expect(() => shared.resize({ maxCacheBlocks: 2 })).toThrow("resize the pool instead");
+  });
+
+  test("does not cache a block the inner reader returned short", () => {
+    // Returns nothing past byte 1000 until `short` is turned off.
+    let short = true;
+    const inner: LazyReader = {
+      size: 4096,
+      read: (offset, length) =>
+        data.slice(offset, Math.min(offset + length, short ? 1000 : 4096)),
+      close: () => {},
+    };
+    const cached = new CachedReader(inner, { blockSize: 2048, readAhead: 0 });
+    expect(Array.from(cached.read(990, 20))).toEqual([
+      ...Array.from(data.subarray(990, 1000)),
+      ...new Array(10).fill(0),
+    ]);
+    expect(cached.stats.cachedBlocks).toBe(0);
+
+    short = false;
+    expect(Array.from(cached.read(1500, 100))).toEqual(
+      Array.from(data.subarray(1500, 1600)),
+    );
+    expect(cached.stats.cachedBlocks).toBe(1);
+  });
+
   test("rejects negative offsets", () => {
     const cached = new CachedReader(new MemoryReader(data), 1024);
     expect(() => cached.read(-1, 10)).toThrow(RangeError);
   });
 });
 
+describe("BlockCachePool", () => {
+  const data = makeData(10000);
+
+  test("shares blocks between readers of the same source", () => {
+    const pool = new BlockCachePool({ blockSize: 1000, maxCacheBlocks: 8 });
+    const memory = new MemoryReader(data);
+    const first = new CountingReader(memory);
+    const second = new CountingReader(memory);
+    // Both wrap one buffer, so give them its key.
+    Object.defineProperty(first, "cacheKey", { value: memory.cacheKey });
+    Object.defineProperty(second, "cacheKey", { value: memory.cacheKey });
+
+    const a = new CachedReader(first, { cachePool: pool, readAhead: 0 });
+    const b = new CachedReader(second, { cachePool: pool, readAhead: 0 });
+    a.read(0, 2000);
+    expect(Array.from(b.read(500, 1000))).toEqual(
+      Array.from(data.subarray(500, 1500)),
+    );
+    expect(second.reads.length).toBe(0);
+
+    // Stats are per reader; the pool holds each block once.
+    expect(a.stats).toMatchObject({ misses: 2, hits: 0, cachedBlocks: 2 });
+    expect(b.stats).toMatchObject({ misses: 0, hits: 2, cachedBlocks: 2 });
+    expect(pool.stats).toMatchObject({ cachedBlocks: 2, sources: 1, readers: 2 });
+
+    // The blocks outlive the readers, ready for the file's next reader.
+    a.close();
+    b.close();
+    expect(pool.stats).toMatchObject({ cachedBlocks: 2, readers: 0 });
+    const third = new CountingReader(memory);
+    Object.defineProperty(third, "cacheKey", { value: memory.cacheKey });
+    new CachedReader(third, { cachePool: pool }).read(0, 10);
+    expect(third.reads.length).toBe(0);
+  });
+
+  test("applies one budget across sources", () => {
+    const pool = new BlockCachePool({
+      blockSize: 1000,
+      maxCacheBytes: 3000,
+      pinBytes: 1000,
+    });
+    const a = new CachedReader(new MemoryReader(data), { cachePool: pool, readAhead: 0 });
+    const b = new CachedReader(new MemoryReader(makeData(10000)), { cachePool: pool, readAhead: 0 });
+    for (let offset = 0; offset < 5000; offset += 1000) {
+      a.read(offset, 1);
+      b.read(offset, 1);
+    }
+    // Block 0 of each file is pinned on top of the 3000-byte budget.
+    expect(pool.stats).toMatchObject({
+      cachedBlocks: 5,
+      cachedBytes: 5000,
+      pinnedBlocks: 2,
+      sources: 2,
+    });
+    expect(a.stats.cachedBlocks + b.stats.cachedBlocks).toBe(5);
+
+    // Once its last reader closes, a file's pinned blocks can be evicted.
+    a.close();
+    expect(pool.stats.pinnedBlocks).toBe(1);
+    expect(pool.stats.cachedBytes).toBe(4000);
+
+    pool.clear();
+    expect(pool.stats).toMatchObject({ cachedBlocks: 0, sources: 1 });
+    expect(() => new CachedReader(new MemoryReader(data), { cachePool: pool, blockSize: 512 }))
+      .toThrow("blockSize 512 differs from the cache pool's 1000");
+  });
+
+  test("pins a file's cached header blocks again when it is reopened", () => {
+    const pool = new BlockCachePool({
+      blockSize: 1000,
+      maxCacheBlocks: 2,
+      pinBytes: 1000,
+    });
+    const memory = new MemoryReader(data);
+    const first = new CachedReader(memory, { cachePool: pool, readAhead: 0 });
+    first.read(0, 1);
+    first.close();
+    expect(pool.stats).toMatchObject({ cachedBlocks: 1, pinnedBlocks: 0 });
+
+    // The reopened file's block 0 is pinned again, so reading other blocks
+    // past the budget does not evict it.
+    const reader = new CountingReader(memory);
+    Object.defineProperty(reader, "cacheKey", { value: memory.cacheKey });
+    const second = new CachedReader(reader, { cachePool: pool, readAhead: 0 });
+    expect(pool.stats).toMatchObject({ cachedBlocks: 1, pinnedBlocks: 1 });
+    for (let offset = 1000; offset < 5000; offset += 1000) {
+      second.read(offset, 1);
+    }
+    second.read(0, 1);
+    expect(reader.reads.length).toBe(4);
+    expect(pool.stats).toMatchObject({
+      cachedBlocks: 3,
+      cachedBytes: 3000,
+      pinnedBlocks: 1,
+    });
+  });
+
+  test("resize() changes the budget of every source", () => {
+    const pool = new BlockCachePool({ blockSize: 1000, maxCacheBlocks: 8 });
+    const a = new CachedReader(new MemoryReader(data), { cachePool: pool, readAhead: 0 });
+    const b = new CachedReader(new MemoryReader(makeData(10000)), { cachePool: pool, readAhead: 0 });
+    for (let offset = 0; offset < 4000; offset += 1000) {
+      a.read(offset, 1);
+      b.read(offset, 1);
+    }
+    pool.resize({ maxCacheBlocks: 3 });
+    expect(pool.capacity).toBe(3);
+    expect(pool.stats.cachedBlocks).toBe(3);
+
+    // A bound left out keeps its value; Infinity lifts one.
+    pool.resize({ maxCacheBytes: 2000 });
+    expect(pool.capacity).toBe(2);
+    pool.resize({ maxCacheBlocks: Infinity, maxCacheBytes: Infinity });
+    expect(pool.capacity).toBe(Infinity);
+
+    // Clearing one reader's file leaves the other's blocks.
+    b.read(5000, 1);
+    a.clear();
+    expect(a.stats.cachedBlocks).toBe(0);
+    expect(pool.stats.cachedBlocks).toBe(b.stats.cachedBlocks);
+    expect(b.stats.cachedBlocks).toBeGreaterThan(0);
+  });
+
+  test("keys readers by file identity", () => {
+    const memory = new MemoryReader(data);
+    expect(new MemoryReader(data).cacheKey).toBe(memory.cacheKey);
+
+    const fs: NodeFsLike = {
+      openSync: () => 3,
+      fstatSync: () => ({ size: 100, mtimeMs: 1234 }),
+      readSync: () => 0,
+      closeSync: () => {},
+    };
+    expect(new NodeFileReader("/data/x.nc", fs).cacheKey).toBe("/data/x.nc@1234:100");
+    expect(new CachedReader(new NodeFileReader("/data/x.nc", fs)).cacheKey)
+      .toBe("/data/x.nc@1234:100");
+  });
+});
+
+describe("NodeBlockCache", () => {
+  const data = makeData(1000);
+  const key = { source: "https://example.com/x.nc", version: 'etag "v1"' };
+
+  // In-memory file system; every write or touch advances a fake clock so
+  // mtimes order blocks by recency.
+  function makeFakeFs() {
+    const files = new Map<string, { data: Uint8Array; mtimeMs: number }>();
+    const dirs = new Set<string>();
+    let clock = 0;
+    const missing = (path: string) =>
+      Object.assign(new Error(`ENOENT: ${path}`), { code: "ENOENT" });
+    const fs: NodeCacheFsLike = {
+      mkdirSync(path) {
+        for (let p = path; p !== "" && !dirs.has(p); p = p.slice(0, p.lastIndexOf("/"))) {
+          dirs.add(p);
+        }
+      },
+      readdirSync(path) {
+        if (!dirs.has(path)) throw missing(path);
+        const names = new Set<string>();
+        for (const entry of [...files.keys(), ...dirs]) {
+          if (entry.startsWith(`${path}/`)) {
+            names.add(entry.slice(path.length + 1).split("/")[0]);
+          }
+        }
+        return [...names];
+      },
+      statSync(path) {
+        const file = files.get(path);
+        if (!file) throw missing(path);
+        return { size: file.data.length, mtimeMs: file.mtimeMs };
+      },
+      readFileSync(path) {
+        const file = files.get(path);
+        if (!file) throw missing(path);
+        return file.data.slice();
+      },
+      writeFileSync(path, contents) {
+        const bytes =
+          typeof contents === "string" ? new TextEncoder().encode(contents) : contents.slice();
+        files.set(path, { data: bytes, mtimeMs: clock++ });
+      },
+      renameSync(from, to) {
+        const file = files.get(from);
+        if (!file) throw missing(from);
+        files.delete(from);
+        files.set(to, file);
+      },
+      unlinkSync(path) {
+        if (!files.delete(path)) throw missing(path);
+      },
+      rmSync(path) {
+        for (const entry of [...files.keys()]) {
+          if (entry === path || entry.startsWith(`${path}/`)) files.delete(entry);
+        }
+        for (const entry of [...dirs]) {
+          if (entry === path || entry.startsWith(`${path}/`)) dirs.delete(entry);
+        }
+      },
+      utimesSync(path) {
+        const file = files.get(path);
+        if (!file) throw missing(path);
+        file.mtimeMs = clock++;
+      },
+    };
+    const blockFiles = () => [...files.keys()].filter((f) => f.endsWith(".blk"));
+    return { fs, blockFiles };
+  }
+
+  test("serves a new session's misses from stored blocks", async () => {
+    const { fs, blockFiles } = makeFakeFs();
+    const cache = new NodeBlockCache("/cache", { fs });
+
+    const first = new CachedReader(new MemoryReader(data), {
+      blockSize: 100,
+      readAhead: 0,
+      persistentBlocks: await cache.open(key, 100),
+    });
+    first.read(0, 250);
+    expect(blockFiles()).toHaveLength(3);
+    expect(cache.storedBytes).toBe(300);
+    expect(first.stats.persistentHits).toBe(0);
+
+    // A new process: a fresh cache over the same directory and a fresh reader.
+    const inner = new CountingReader(new MemoryReader(data));
+    const second = new CachedReader(inner, {
+      blockSize: 100,
+      readAhead: 0,
+      persistentBlocks: await new NodeBlockCache("/cache", { fs }).open(key, 100),
+    });
+    expect(Array.from(second.read(50, 300))).toEqual(
+      Array.from(data.subarray(50, 350)),
+    );
+    // Blocks 0-2 were stored; only block 3 is read.
+    expect(inner.reads).toEqual([{ offset: 300, length: 100 }]);
+    expect(second.stats).toMatchObject({ misses: 4, persistentHits: 3, innerReads: 1 });
+  });
+
+  test("discards a source's blocks when its version or block size changes", async () => {
+    const { fs, blockFiles } = makeFakeFs();
+    const cache = new NodeBlockCache("/cache", { fs });
+    const blocks = await cache.open(key, 100);
+    blocks.put(0, data.subarray(0, 100));
+    blocks.put(1, data.subarray(100, 200));
+
+    expect((await cache.open(key, 100)).get(1)).toEqual(data.subarray(100, 200));
+    const changed = await cache.open({ ...key, version: 'etag "v2"' }, 100);
+    expect(changed.get(1)).toBeUndefined();
+    expect(blockFiles()).toHaveLength(0);
+
+    changed.put(0, data.subarray(0, 100));
+    expect((await cache.open({ ...key, version: 'etag "v2"' }, 50)).get(0))
+      .toBeUndefined();
+    expect(cache.storedBytes).toBe(0);
+  });
+
+  test("trims the least recently used blocks to the quota", async () => {
+    const { fs } = makeFakeFs();
+    const cache = new NodeBlockCache("/cache", { fs, maxBytes: 300 });
+    const blocks = await cache.open(key, 100);
+    blocks.put(0, data.subarray(0, 100));
+    blocks.put(1, data.subarray(100, 200));
+    blocks.put(2, data.subarray(200, 300));
+    blocks.get(0); // now more recent than 1 and 2
+    blocks.put(3, data.subarray(300, 400));
+
+    expect(cache.storedBytes).toBe(300);
+    expect(blocks.get(1)).toBeUndefined();
+    expect(blocks.get(0)).toBeDefined();
+
+    // Recency survives a restart through the files' mtimes.
+    const reopened = new NodeBlockCache("/cache", { fs, maxBytes: 200 });
+    const again = await reopened.open(key, 100);
+    expect(reopened.storedBytes).toBe(200);
+    expect(again.get(2)).toBeUndefined();
+    expect(again.get(0)).toBeDefined();
+    expect(again.get(3)).toBeDefined();
+  });
+
+  test("clears one source or all of them", async () => {
+    const { fs } = makeFakeFs();
+    const cache = new NodeBlockCache("/cache", { fs });
+    const other = { source: "/data/y.nc", version: "1:1000" };
+    (await cache.open(key, 100)).put(0, data.subarray(0, 100));
+    (await cache.open(other, 100)).put(0, data.subarray(0, 100));
+
+    await cache.clear(key.source);
+    expect((await cache.open(key, 100)).get(0)).toBeUndefined();
+    expect((await cache.open(other, 100)).get(0)).toBeDefined();
+
+    await cache.clear();
+    expect(cache.storedBytes).toBe(0);
+    expect((await cache.open(other, 100)).get(0)).toBeUndefined();
+  });
+
+  test("rejects persistent blocks of another block size", async () => {
+    const { fs } = makeFakeFs();
+    const blocks = await new NodeBlockCache("/cache", { fs }).open(key, 100);
+    expect(
+      () => new CachedReader(new MemoryReader(data), { blockSize: 64, persistentBlocks: blocks }),
+    ).toThrow("blockSize 64 differs from the persistent blocks' 100");
+  });
+
+  test("versions file readers' persistent keys by mtime and size", () => {
+    const fs: NodeFsLike = {
+      openSync: () => 3,
+      fstatSync: () => ({ size: 100, mtimeMs: 1234 }),
+      readSync: () => 0,
+      closeSync: () => {},
+    };
+    expect(new NodeFileReader("/data/x.nc", fs).persistentKey).toEqual({
+      source: "/data/x.nc",
+      version: "1234:100",
+    });
+    const memory: LazyReader = new MemoryReader(data);
+    expect(memory.persistentKey).toBeUndefined();
+  });
+});
+
+describe("IndexedDbBlockCache", () => {
+  const data = makeData(1000);
+  const key = { source: "https://example.com/x.nc", version: 'etag "v1"' };
+  let factory: IDBFactory;
+  let clock: jest.SpyInstance;
+  let caches: IndexedDbBlockCache[];
+
+  // A fresh in-memory IndexedDB per test. Every commit reads Date.now() once,
+  // so a fake clock orders the batches by recency.
+  beforeEach(() => {
+    factory = new IDBFactory();
+    caches = [];
+    let now = 0;
+    clock = jest.spyOn(Date, "now").mockImplementation(() => ++now);
+  });
+
+  // Hits queue writes in the background: commit them before the next test.
+  afterEach(async () => {
+    await Promise.all(caches.map((cache) => cache.close()));
+    clock.mockRestore();
+  });
+
+  const makeCache = (maxBytes?: number) => {
+    const cache = new IndexedDbBlockCache({ indexedDB: factory, IDBKeyRange, maxBytes });
+    caches.push(cache);
+    return cache;
+  };
+
+  test("serves a new session's misses from stored blocks", async () => {
+    const cache = makeCache();
+    const first = new CachedReader(new MemoryReader(data), {
+      blockSize: 100,
+      readAhead: 0,
+      persistentBlocks: await cache.open(key, 100),
+    });
+    first.read(0, 250);
+    await cache.close();
+
+    // A new page load: a fresh cache over the same database.
+    const inner = new CountingReader(new MemoryReader(data));
+    const second = new CachedReader(inner, {
+      blockSize: 100,
+      readAhead: 0,
+      persistentBlocks: await makeCache().open(key, 100),
+    });
+    expect(Array.from(second.read(50, 300))).toEqual(
+      Array.from(data.subarray(50, 350)),
+    );
+    expect(inner.reads).toEqual([{ offset: 300, length: 100 }]);
+    expect(second.stats).toMatchObject({ misses: 4, persistentHits: 3, innerReads: 1 });
+  });
+
+  test("commits queued writes in one batch", async () => {
+    const transaction = jest.spyOn(IDBDatabase.prototype, "transaction");
+    try {
+      const cache = makeCache();
+      const blocks = await cache.open(key, 100);
+      transaction.mockClear();
+      blocks.put(0, data.subarray(0, 100));
+      blocks.put(1, data.subarray(100, 200));
+      blocks.put(2, data.subarray(200, 300));
+      await cache.flush();
+      // One transaction for the batch, one to trim.
+      expect(transaction).toHaveBeenCalledTimes(2);
+
+      await cache.flush();
+      expect(transaction).toHaveBeenCalledTimes(2);
+      expect((await makeCache().open(key, 100)).get(2)).toEqual(data.subarray(200, 300));
+    } finally {
+      transaction.mockRestore();
+    }
+  });
+
+  test("discards a source's blocks when its version or block size changes", async () => {
+    const cache = makeCache();
+    const blocks = await cache.open(key, 100);
+    blocks.put(0, data.subarray(0, 100));
+    blocks.put(1, data.subarray(100, 200));
+    await cache.flush();
+
+    expect((await cache.open(key, 100)).get(1)).toEqual(data.subarray(100, 200));
+    const changed = await cache.open({ ...key, version: 'etag "v2"' }, 100);
+    expect(changed.get(1)).toBeUndefined();
+    // The old version's blocks are gone, not just hidden.
+    expect((await cache.open(key, 100)).get(1)).toBeUndefined();
+
+    (await cache.open(key, 100)).put(0, data.subarray(0, 100));
+    await cache.flush();
+    expect((await cache.open(key, 50)).get(0)).toBeUndefined();
+    expect((await cache.open(key, 100)).get(0)).toBeUndefined();
+  });
+
+  test("trims the least recently used blocks to the quota", async () => {
+    const cache = makeCache(300);
+    const blocks = await cache.open(key, 100);
+    blocks.put(0, data.subarray(0, 100));
+    blocks.put(1, data.subarray(100, 200));
+    blocks.put(2, data.subarray(200, 300));
+    await cache.flush();
+
+    // Stored blocks are touched when a later session uses them.
+    const again = await cache.open(key, 100);
+    expect(again.get(0)).toBeDefined();
+    again.put(3, data.subarray(300, 400));
+    await cache.flush();
+
+    const stored = await makeCache(300).open(key, 100);
+    expect(stored.get(1)).toBeUndefined();
+    for (const index of [0, 2, 3]) expect(stored.get(index)).toBeDefined();
+  });
+
+  test("clears one source or all of them", async () => {
+    const cache = makeCache();
+    const other = { source: "/data/y.nc", version: "1:1000" };
+    (await cache.open(key, 100)).put(0, data.subarray(0, 100));
+    (await cache.open(other, 100)).put(0, data.subarray(0, 100));
+
+    // Queued writes are committed before clearing.
+    await cache.clear(key.source);
+    expect((await cache.open(key, 100)).get(0)).toBeUndefined();
+    expect((await cache.open(other, 100)).get(0)).toBeDefined();
+
+    await cache.clear();
+    expect((await cache.open(other, 100)).get(0)).toBeUndefined();
+  });
+
+  test("reports a failed commit from flush", async () => {
+    const cache = makeCache();
+    const blocks = await cache.open(key, 100);
+    const transaction = jest
+      .spyOn(IDBDatabase.prototype, "transaction")
+      .mockImplementationOnce(() => {
+        throw new Error("QuotaExceededError");
+      });
+    try {
+      blocks.put(0, data.subarray(0, 100));
+      await expect(cache.flush()).rejects.toThrow("QuotaExceededError");
+      // Reported once; later writes go through.
+      blocks.put(1, data.subarray(100, 200));
+      await cache.flush();
+      const stored = await makeCache().open(key, 100);
+      expect(stored.get(0)).toBeUndefined();
+      expect(stored.get(1)).toBeDefined();
+    } finally {
+      transaction.mockRestore();
+    }
+  });
+
+  test("requires IndexedDB", () => {
+    expect(() => new IndexedDbBlockCache()).toThrow("IndexedDbBlockCache requires IndexedDB");
+    expect(() => new IndexedDbBlockCache({ indexedDB: factory }))
+      .toThrow("IndexedDbBlockCache requires IndexedDB");
+  });
+});
+
 describe("NodeFileReader", () => {
   const data = makeData(500);
 
@@ -239,6 +987,688 @@ describe("NodeFileReader", () => {
   });
 });
 
+describe("OpfsReader and OpfsFile", () => {
+  // Fake sync access handle over a growable byte array; `maxChunk` forces
+  // short reads.
+  function makeFakeHandle(initial: Uint8Array, maxChunk = Infinity) {
+    const state = {
+      bytes: initial.slice(),
+      reads: [] as Array<{ at: number; length: number }>,
+      flushes: 0,
+      closed: 0,
+    };
+    const handle: FileSystemSyncAccessHandleLike = {
+      read(buffer, options = {}) {
+        const at = options.at ?? 0;
+        state.reads.push({ at, length: buffer.length });
+        const end = Math.min(
+          at + Math.min(buffer.length, maxChunk),
+          state.bytes.length,
+        );
+        if (end <= at) return 0;
+        buffer.set(state.bytes.subarray(at, end));
+        return end - at;
+      },
+      write(buffer, options = {}) {
+        const at = options.at ?? 0;
+        if (at + buffer.length > state.bytes.length) {
+          const grown = new Uint8Array(at + buffer.length);
+          grown.set(state.bytes);
+          state.bytes = grown;
+        }
+        state.bytes.set(buffer, at);
+        return buffer.length;
+      },
+      getSize: () => state.bytes.length,
+      truncate(size) {
+        const resized = new Uint8Array(size);
+        resized.set(state.bytes.subarray(0, size));
+        state.bytes = resized;
+      },
+      flush() {
+        state.flushes++;
+      },
+      close() {
+        state.closed++;
+      },
+    };
+    return { handle, state };
+  }
+
+  const data = makeData(300);
+
+  test("reads positioned ranges, looping over short reads", () => {
+    const { handle, state } = makeFakeHandle(data, 4);
+    const reader = new OpfsReader(handle);
+    expect(reader.size).toBe(300);
+    expect(Array.from(reader.read(100, 10))).toEqual(
+      Array.from(data.subarray(100, 110)),
+    );
+    expect(state.reads[0]).toEqual({ at: 100, length: 10 });
+    expect(reader.read(295, 10).length).toBe(5);
+    expect(reader.read(300, 4).length).toBe(0);
+  });
+
+  test("readInto fills the caller's buffer without allocating", () => {
+    const { handle } = makeFakeHandle(data);
+    const reader = new OpfsReader(handle);
+    const target = new Uint8Array(16);
+    expect(reader.readInto(20, target.subarray(4, 12))).toBe(8);
+    expect(Array.from(target.subarray(4, 12))).toEqual(
+      Array.from(data.subarray(20, 28)),
+    );
+    expect(target[3]).toBe(0);
+    expect(target[12]).toBe(0);
+    expect(reader.readInto(296, target)).toBe(4);
+  });
+
+  test("close() closes the handle and blocks further reads", () => {
+    const { handle, state } = makeFakeHandle(data);
+    const reader = new OpfsReader(handle, {
+      source: "opfs:data.nc",
+      version: "1:300",
+    });
+    expect(reader.cacheKey).toBe("opfs:data.nc@1:300");
+    reader.close();
+    reader.close();
+    expect(state.closed).toBe(1);
+    expect(() => reader.read(0, 1)).toThrow("OpfsReader is closed");
+  });
+
+  test("open() takes a file handle and asks for a shared read-only handle", async () => {
+    const { handle } = makeFakeHandle(data);
+    const modes: unknown[] = [];
+    const fileHandle: FileSystemFileHandleLike = {
+      name: "data.nc",
+      createSyncAccessHandle: async (options) => {
+        modes.push(options?.mode);
+        return handle;
+      },
+    };
+    const reader = await OpfsReader.open(fileHandle);
+    expect(modes).toEqual(["read-only"]);
+    expect(reader.read(0, 3).length).toBe(3);
+    // A bare handle's path is unknown, so no key to share blocks by.
+    expect(reader.cacheKey).toBeUndefined();
+  });
+
+  test("open() resolves paths under the OPFS root", async () => {
+    const { handle } = makeFakeHandle(data);
+    const visited: string[] = [];
+    const fileHandle: FileSystemFileHandleLike = {
+      name: "data.nc",
+      createSyncAccessHandle: async () => handle,
+      getFile: async () => ({ lastModified: 1234, size: 300 }),
+    };
+    const dir = {
+      getDirectoryHandle: async (name: string) => {
+        visited.push(`dir:${name}`);
+        return dir;
+      },
+      getFileHandle: async (name: string) => {
+        visited.push(`file:${name}`);
+        return fileHandle;
+      },
+    };
+    const globals = globalThis as any;
+    const saved = globals.navigator;
+    globals.navigator = { storage: { getDirectory: async () => dir } };
+    try {
+      const reader = await OpfsReader.open("/cache/era5/data.nc");
+      expect(visited).toEqual(["dir:cache", "dir:era5", "file:data.nc"]);
+      expect(reader.cacheKey).toBe("opfs:cache/era5/data.nc@1234:300");
+    } finally {
+      globals.navigator = saved;
+    }
+  });
+
+  test("open() by path fails clearly without OPFS", async () => {
+    await expect(OpfsReader.open("data.nc")).rejects.toThrow(
+      /Origin Private File System is not available/,
+    );
+  });
+
+  test("OpfsFile writes, grows, truncates and flushes in place", () => {
+    const { handle, state } = makeFakeHandle(data.subarray(0, 10));
+    const file = new OpfsFile(handle);
+    expect(isWritableLazyReader(file)).toBe(true);
+    expect(isWritableLazyReader(new OpfsReader(handle))).toBe(false);
+
+    expect(file.write(8, new Uint8Array([0xaa, 0xbb, 0xcc, 0xdd]))).toBe(4);
+    expect(file.size).toBe(12);
+    expect(Array.from(file.read(6, 10))).toEqual([6, 7, 0xaa, 0xbb, 0xcc, 0xdd]);
+    expect(file.cacheKey).toBeUndefined();
+
+    file.truncate(4);
+    expect(file.size).toBe(4);
+    file.flush();
+    expect(state.flushes).toBe(1);
+
+    file.close();
+    expect(state.flushes).toBe(2); // close flushes first
+    expect(state.closed).toBe(1);
+    expect(() => file.write(0, new Uint8Array(1))).toThrow("OpfsFile is closed");
+  });
+
+  test("CachedReader fetches through readInto", () => {
+    const { handle, state } = makeFakeHandle(makeData(1024));
+    const reader = new OpfsReader(handle);
+    const read = jest.spyOn(reader, "read");
+    const cache = new CachedReader(reader, {
+      blockSize: 64,
+      maxCacheBlocks: 16,
+      readAhead: 0,
+    });
+
+    const one = cache.read(10, 20);
+    const run = cache.read(100, 200); // blocks 1..4, one coalesced fetch
+    expect(Array.from(one)).toEqual(Array.from(makeData(1024).subarray(10, 30)));
+    expect(Array.from(run)).toEqual(
+      Array.from(makeData(1024).subarray(100, 300)),
+    );
+    expect(read).not.toHaveBeenCalled();
+    expect(state.reads).toEqual([
+      { at: 0, length: 64 },
+      { at: 64, length: 256 },
+    ]);
+    expect(cache.stats.innerReads).toBe(2);
+    // Blocks copied out of the shared scratch buffer stay intact.
+    expect(Array.from(cache.read(64, 4))).toEqual([64, 65, 66, 67]);
+  });
+});
+
+describe("OverlayReader", () => {
+  const data = makeData(10000);
+
+  test("keeps writes in copied blocks and reads the rest from the base", () => {
+    const base = new CountingReader(new MemoryReader(data));
+    const overlay = new OverlayReader(base, 1000);
+    overlay.write(1500, new Uint8Array([1, 2, 3]));
+    // The first write to a block copies it from the base.
+    expect(base.reads).toEqual([{ offset: 1000, length: 1000 }]);
+    expect(overlay.dirtyBytes).toBe(1000);
+
+    base.reads.length = 0;
+    const bytes = overlay.read(0, 5000);
+    expect(Array.from(bytes.subarray(1499, 1504))).toEqual([data[1499], 1, 2, 3, data[1503]]);
+    expect(Array.from(bytes.subarray(0, 1000))).toEqual(Array.from(data.subarray(0, 1000)));
+    expect(Array.from(bytes.subarray(2000))).toEqual(Array.from(data.subarray(2000, 5000)));
+    // Clean blocks either side of the dirty one are read in one request each.
+    expect(base.reads).toEqual([
+      { offset: 0, length: 1000 },
+      { offset: 2000, length: 3000 },
+    ]);
+    // The base is never modified.
+    expect(data[1500]).toBe(1500 % 256);
+
+    overlay.close();
+    expect(base.closed).toBe(true);
+    expect(overlay.dirtyBytes).toBe(0);
+  });
+
+  test("grows with writes and reads zeros after truncation", () => {
+    const overlay = new OverlayReader(new MemoryReader(data), 1000);
+    overlay.write(10500, new Uint8Array([7]));
+    expect(overlay.size).toBe(10501);
+    expect(Array.from(overlay.read(9999, 3))).toEqual([data[9999], 0, 0]);
+
+    overlay.truncate(2500);
+    expect(overlay.size).toBe(2500);
+    overlay.truncate(4000);
+    // The base's bytes past the truncation do not come back.
+    expect(Array.from(overlay.read(2498, 4))).toEqual([data[2498], data[2499], 0, 0]);
+    expect(overlay.read(3999, 10).length).toBe(1);
+    expect(() => overlay.write(-1, new Uint8Array(1))).toThrow(RangeError);
+    // An empty write past the end does not grow the file.
+    expect(overlay.write(9000, new Uint8Array(0))).toBe(0);
+    expect(overlay.size).toBe(4000);
+    expect(() => overlay.truncate(-1)).toThrow(RangeError);
+  });
+
+  test("exports the merged file", async () => {
+    const overlay = new OverlayReader(new MemoryReader(data), 1000);
+    overlay.write(3000, new Uint8Array([9, 9]));
+    overlay.truncate(6000);
+    overlay.write(7000, new Uint8Array([5]));
+    const expected = new Uint8Array(7001);
+    expected.set(data.subarray(0, 6000));
+    expected.set([9, 9], 3000);
+    expected[7000] = 5;
+
+    expect(overlay.segments().map(({ offset, length, data }) => [offset, length, !!data])).toEqual([
+      [0, 3000, false],
+      [3000, 1000, true],
+      [4000, 2000, false],
+      [6000, 1000, true],
+      [7000, 1, true],
+    ]);
+    expect(new Uint8Array(overlay.toArrayBuffer())).toEqual(expected);
+
+    // Unmodified ranges can come from another reader of the same file.
+    const source = new CountingReader(new MemoryReader(data));
+    const blob = overlay.toBlob("application/x-netcdf", source);
+    expect(blob.type).toBe("application/x-netcdf");
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(expected);
+    expect(source.reads).toEqual([
+      { offset: 0, length: 3000 },
+      { offset: 4000, length: 2000 },
+    ]);
+  });
+
+  test("continues short reads on export and rejects a source that ends early", () => {
+    const overlay = new OverlayReader(new MemoryReader(data), 1000);
+    overlay.write(3000, new Uint8Array([9]));
+    const expected = data.slice();
+    expected[3000] = 9;
+
+    // readInto filling at most 700 bytes per call
+    const trickle: LazyReader = {
+      size: data.length,
+      read: (offset, length) => data.slice(offset, offset + length),
+      readInto: (offset, target) => {
+        const n = Math.min(700, target.length, data.length - offset);
+        target.set(data.subarray(offset, offset + n));
+        return n;
+      },
+      close: () => {},
+    };
+    expect(new Uint8Array(overlay.toArrayBuffer(trickle))).toEqual(expected);
+
+    // A source holding less than the base did
+    const short = new MemoryReader(data.subarray(0, 5000));
+    expect(() => overlay.toArrayBuffer(short))
+      .toThrow("Lazy source returned 1000 of 6000 bytes at offset 4000");
+    expect(() => [...overlay.chunks(short)])
+      .toThrow("Lazy source returned 1000 of 6000 bytes at offset 4000");
+  });
+
+  test("folds a non-Blob source into the Blob one chunk at a time", async () => {
+    const overlay = new OverlayReader(new MemoryReader(data), 1000);
+    overlay.write(3000, new Uint8Array([9]));
+    const expected = data.slice();
+    expected[3000] = 9;
+
+    // Record how many parts each Blob is built from and how many chunks had
+    // been read by then.
+    const source = new CountingReader(new MemoryReader(data));
+    const builds: Array<{ parts: number; reads: number }> = [];
+    const NativeBlob = globalThis.Blob;
+    globalThis.Blob = class extends NativeBlob {
+      constructor(parts?: BlobPart[], options?: BlobPropertyBag) {
+        super(parts, options);
+        builds.push({ parts: parts?.length ?? 0, reads: source.reads.length });
+      }
+    };
+    let blob: Blob;
+    try {
+      blob = overlay.toBlob("application/x-netcdf", source, 2500);
+    } finally {
+      globalThis.Blob = NativeBlob;
+    }
+    expect(new Uint8Array(await blob.arrayBuffer())).toEqual(expected);
+    expect(source.reads).toEqual([
+      { offset: 0, length: 2500 },
+      { offset: 2500, length: 500 },
+      { offset: 4000, length: 2500 },
+      { offset: 6500, length: 2500 },
+      { offset: 9000, length: 1000 },
+    ]);
+    // Each chunk is added to the Blob built so far before the next is read.
+    expect(builds.every(({ parts }) => parts <= 2)).toBe(true);
+    expect(builds.map(({ reads }) => reads)).toEqual([0, 1, 2, 2, 3, 4, 5]);
+  });
+});
+
+describe("HttpRangeReader", () => {
+  const data = makeData(1000);
+
+  // In-process fake server: serves `data` with ranges and an ETag, and records
+  // every request. `failures` makes the next N requests fail with that status
+  // (or, for 0, a network error).
+  function makeFakeTransport(options: { head?: boolean; etag?: string } = {}) {
+    const state = {
+      requests: [] as HttpRequest[],
+      etag: options.etag ?? '"v1"',
+      failures: [] as number[],
+    };
+    const transport = (request: HttpRequest): HttpResponse => {
+      state.requests.push(request);
+      const failure = state.failures.shift();
+      if (failure === 0) throw new Error("connection reset");
+      const headers: Record<string, string> = { etag: state.etag };
+      if (failure !== undefined) {
+        return { status: failure, statusText: "", headers, body: new Uint8Array(0) };
+      }
+      if (request.method === "HEAD") {
+        if (options.head === false) {
+          return { status: 405, statusText: "Method Not Allowed", headers, body: new Uint8Array(0) };
+        }
+        headers["content-length"] = String(data.length);
+        return { status: 200, statusText: "OK", headers, body: new Uint8Array(0) };
+      }
+      const ifMatch = request.headers["If-Match"];
+      if (ifMatch !== undefined && ifMatch !== state.etag) {
+        return { status: 412, statusText: "Precondition Failed", headers, body: new Uint8Array(0) };
+      }
+      const [, a, b] = /bytes=(\d+)-(\d+)/.exec(request.headers.Range)!;
+      headers["content-range"] = `bytes ${a}-${b}/${data.length}`;
+      return {
+        status: 206,
+        statusText: "Partial Content",
+        headers,
+        body: data.slice(Number(a), Number(b) + 1),
+      };
+    };
+    return { transport, state };
+  }
+
+  test("gets the size with HEAD and reads ranges", () => {
+    const { transport, state } = makeFakeTransport();
+    const reader = new HttpRangeReader("https://example.com/x.nc", {
+      transport,
+      headers: { Authorization: "Bearer token" },
+    });
+    expect(reader.size).toBe(1000);
+    expect(reader.etag).toBe('"v1"');
+    expect(reader.cacheKey).toBe('https://example.com/x.nc "v1"');
+    expect(Array.from(reader.read(100, 4))).toEqual([100, 101, 102, 103]);
+    expect(reader.read(998, 10).length).toBe(2);
+    expect(reader.read(1000, 4).length).toBe(0);
+
+    expect(state.requests.map((r) => r.method)).toEqual(["HEAD", "GET", "GET"]);
+    expect(state.requests[1].headers).toEqual({
+      Authorization: "Bearer token",
+      Range: "bytes=100-103",
+      "If-Match": '"v1"',
+    });
+  });
+
+  test("falls back to Content-Range when HEAD is refused", () => {
+    const { transport, state } = makeFakeTransport({ head: false });
+    const reader = new HttpRangeReader("https://example.com/x.nc", { transport });
+    expect(reader.size).toBe(1000);
+    expect(state.requests[1].headers.Range).toBe("bytes=0-0");
+  });
+
+  test("versions the persistent key by ETag, else Last-Modified", () => {
+    const { transport } = makeFakeTransport();
+    const reader = new HttpRangeReader("https://example.com/x.nc", { transport });
+    expect(reader.persistentKey).toEqual({
+      source: "https://example.com/x.nc",
+      version: 'etag "v1" size 1000',
+    });
+
+    const dated = (request: HttpRequest): HttpResponse => ({
+      status: 200,
+      statusText: "OK",
+      headers: {
+        "content-length": "10",
+        "last-modified": "Wed, 21 Oct 2026 07:28:00 GMT",
+      },
+      body: new Uint8Array(request.method === "HEAD" ? 0 : 10),
+    });
+    expect(
+      new HttpRangeReader("https://example.com/y.nc", { transport: dated }).persistentKey,
+    ).toEqual({
+      source: "https://example.com/y.nc",
+      version: "last-modified Wed, 21 Oct 2026 07:28:00 GMT size 10",
+    });
+    // No validator, no way to tell a changed file: nothing is persisted.
+    expect(
+      new HttpRangeReader("https://example.com/x.nc", { transport, pinETag: false })
+        .persistentKey,
+    ).toBeUndefined();
+  });
+
+  test("fails reads once the ETag changes", () => {
+    const { transport, state } = makeFakeTransport();
+    const reader = new HttpRangeReader("https://example.com/x.nc", { transport });
+    reader.read(0, 10);
+    state.etag = '"v2"';
+    expect(() => reader.read(10, 10)).toThrow(
+      'https://example.com/x.nc changed while being read: ETag was "v1"',
+    );
+
+    // Weak ETags cannot be sent in If-Match but are still compared.
+    const weak = makeFakeTransport({ etag: 'W/"v1"' });
+    const weakReader = new HttpRangeReader("https://example.com/x.nc", {
+      transport: weak.transport,
+    });
+    weak.state.etag = 'W/"v2"';
+    expect(() => weakReader.read(0, 10)).toThrow(/changed while being read/);
+    expect(weak.state.requests[1].headers["If-Match"]).toBeUndefined();
+
+    const unpinned = makeFakeTransport();
+    const unpinnedReader = new HttpRangeReader("https://example.com/x.nc", {
+      transport: unpinned.transport,
+      pinETag: false,
+    });
+    unpinned.state.etag = '"v2"';
+    expect(unpinnedReader.read(0, 2).length).toBe(2);
+  });
+
+  test("retries network errors, 5xx and 429", () => {
+    const { transport, state } = makeFakeTransport();
+    const reader = new HttpRangeReader("https://example.com/x.nc", {
+      transport,
+      retryDelay: 0,
+    });
+    state.failures.push(0, 503, 429);
+    expect(Array.from(reader.read(5, 2))).toEqual([5, 6]);
+    expect(state.requests.length).toBe(5);
+
+    state.failures.push(0, 0, 0, 0);
+    expect(() => reader.read(0, 1)).toThrow(
+      "GET https://example.com/x.nc failed after 4 attempts: connection reset",
+    );
+    state.failures.push(404);
+    expect(() => reader.read(0, 1)).toThrow(
+      "GET https://example.com/x.nc failed: HTTP 404 (Range: bytes=0-0)",
+    );
+  });
+
+  test("close() blocks further reads", () => {
+    const { transport } = makeFakeTransport();
+    const reader = new HttpRangeReader("https://example.com/x.nc", { transport });
+    reader.close();
+    expect(() => reader.read(0, 1)).toThrow("HttpRangeReader is closed");
+  });
+
+  test("requests the rest of a range the server sent only part of", () => {
+    // A server that caps every response at 1000 bytes, or sends nothing.
+    const file = makeData(5000);
+    const ranges: string[] = [];
+    let cap = 1000;
+    const transport = (request: HttpRequest): HttpResponse => {
+      if (request.method === "HEAD") {
+        return { status: 200, statusText: "OK", headers: { "content-length": "5000" }, body: new Uint8Array(0) };
+      }
+      ranges.push(request.headers.Range);
+      const [, a, b] = /bytes=(\d+)-(\d+)/.exec(request.headers.Range)!;
+      const start = Number(a);
+      const end = Math.min(Number(b) + 1, start + cap);
+      return {
+        status: 206,
+        statusText: "Partial Content",
+        headers: { "content-range": `bytes ${start}-${end - 1}/5000` },
+        body: file.slice(start, end),
+      };
+    };
+    const reader = new HttpRangeReader("https://example.com/x.nc", { transport });
+    expect(Array.from(reader.read(500, 2100))).toEqual(Array.from(file.subarray(500, 2600)));
+    expect(ranges).toEqual(["bytes=500-2599", "bytes=1500-2599", "bytes=2500-2599"]);
+
+    const cached = new CachedReader(reader, { blockSize: 2048, readAhead: 0 });
+    expect(Array.from(cached.read(1500, 100))).toEqual(Array.from(file.subarray(1500, 1600)));
+    expect(Array.from(cached.read(1700, 100))).toEqual(Array.from(file.subarray(1700, 1800)));
+
+    cap = 0;
+    expect(() => reader.read(0, 10)).toThrow(
+      "https://example.com/x.nc returned no data for Range: bytes=0-9 (Content-Range: bytes 0--1/5000)",
+    );
+  });
+
+  describe("against a local HTTP server", () => {
+    // The server runs in its own process: the Node transport blocks this one
+    // while it waits for a response.
+    const serverScript = `
+      const data = Buffer.alloc(1000, 0).map((_, i) => i % 256);
+      let version = 1;
+      require("http").createServer((req, res) => {
+        if (req.url === "/bump") { version++; return res.end(); }
+        const etag = '"v' + version + '"';
+        res.setHeader("ETag", etag);
+        res.setHeader("Accept-Ranges", "bytes");
+        if (req.url !== "/data.nc") { res.statusCode = 404; return res.end(); }
+        if (req.method === "HEAD") { res.setHeader("Content-Length", data.length); return res.end(); }
+        const ifMatch = req.headers["if-match"];
+        if (ifMatch && ifMatch !== etag) { res.statusCode = 412; return res.end(); }
+        const [, a, b] = /bytes=(\\d+)-(\\d+)/.exec(req.headers.range || "") || [];
+        if (a === undefined) return res.end(data);
+        const end = Math.min(Number(b), data.length - 1);
+        res.statusCode = 206;
+        res.setHeader("Content-Range", "bytes " + a + "-" + end + "/" + data.length);
+        res.end(data.subarray(Number(a), end + 1));
+      }).listen(0, "127.0.0.1", function () {
+        console.log(this.address().port);
+      });
+    `;
+    let server: ChildProcess;
+    let base = "";
+
+    beforeAll(async () => {
+      server = spawn(process.execPath, ["-e", serverScript]);
+      const port = await new Promise<string>((resolve, reject) => {
+        server.stdout!.once("data", (chunk) => resolve(String(chunk).trim()));
+        server.once("error", reject);
+      });
+      base = `http://127.0.0.1:${port}`;
+    });
+
+    afterAll(() => {
+      server.kill();
+    });
+
+    test("reads ranges through the Node transport", () => {
+      const reader = createLazyReader(`${base}/data.nc`, {
+        http: { retries: 0 },
+      });
+      expect(reader).toBeInstanceOf(HttpRangeReader);
+      expect(reader.size).toBe(1000);
+      expect(Array.from(reader.read(254, 4))).toEqual([254, 255, 0, 1]);
+
+      const cached = new CachedReader(reader, 256);
+      expect(Array.from(cached.read(990, 20))).toEqual(
+        Array.from(data.subarray(990)),
+      );
+    });
+
+    test("reports HTTP errors and a replaced file", async () => {
+      expect(() => new HttpRangeReader(`${base}/missing.nc`, { retries: 0 }))
+        .toThrow(`GET ${base}/missing.nc failed: HTTP 404 Not Found (Range: bytes=0-0)`);
+
+      const reader = new HttpRangeReader(`${base}/data.nc`);
+      expect(reader.etag).toBe('"v1"');
+      await fetch(`${base}/bump`);
+      expect(() => reader.read(0, 10)).toThrow(/changed while being read: ETag was "v1"/);
+    });
+  });
+});
+
+describe("AsyncBridgeReader", () => {
+  const data = makeData(5000);
+
+  // Serves an async reader from a worker thread, since the reading thread (this
+  // one) blocks until each read is answered. The worker transpiles and runs the
+  // bridge module from source; reads at or past `failAt` reject.
+  const workerScript = `
+    const { parentPort, workerData } = require("worker_threads");
+    const ts = require(workerData.typescript);
+    const source = require("fs").readFileSync(workerData.source, "utf8");
+    const bridge = ts.transpileModule(source, {
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020 },
+    }).outputText;
+    const module = { exports: {} };
+    new Function("exports", "require", "module", bridge)(module.exports, require, module);
+    const data = new Uint8Array(workerData.size).map((_, i) => i % 256);
+    const reader = {
+      size: data.length,
+      async read(offset, length) {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        if (offset >= workerData.failAt) throw new Error("disk on fire");
+        return data.slice(offset, offset + length);
+      },
+      close() {
+        parentPort.postMessage("closed");
+      },
+    };
+    const server = module.exports.serveAsyncLazyReader(reader, { bufferSize: 1024 });
+    parentPort.postMessage(server.channel, [server.channel.port]);
+  `;
+  let worker: Worker;
+  let channel: AsyncLazyReaderChannel;
+
+  beforeAll(async () => {
+    worker = new Worker(workerScript, {
+      eval: true,
+      workerData: {
+        typescript: require.resolve("typescript"),
+        source: `${__dirname}/../lazy/async-bridge.ts`,
+        size: data.length,
+        failAt: 4500,
+      },
+    });
+    channel = await new Promise((resolve) => worker.once("message", resolve));
+  });
+
+  afterAll(async () => {
+    await worker.terminate();
+  });
+
+  test("reads synchronously from an async reader on another thread", async () => {
+    const reader = createLazyReader(channel);
+    expect(reader).toBeInstanceOf(AsyncBridgeReader);
+    expect(reader.size).toBe(5000);
+    expect(Array.from(reader.read(254, 4))).toEqual([254, 255, 0, 1]);
+
+    // Larger than the 1 KiB shared buffer: split over several round trips
+    expect(Array.from(reader.read(100, 3000))).toEqual(
+      Array.from(data.subarray(100, 3100)),
+    );
+    expect(reader.read(5000, 10).length).toBe(0);
+
+    expect(() => reader.read(4600, 10)).toThrow(
+      "Async lazy read failed: disk on fire",
+    );
+    expect(Array.from(reader.read(0, 2))).toEqual([0, 1]);
+
+    const closed = new Promise((resolve) => worker.once("message", resolve));
+    reader.close();
+    expect(await closed).toBe("closed");
+    expect(() => reader.read(0, 1)).toThrow("AsyncBridgeReader is closed");
+  });
+
+  test("times out when nothing answers, releasing the server", async () => {
+    // Served on this thread, so no reply can arrive while the read blocks.
+    let released: () => void;
+    const closed = new Promise<void>((resolve) => (released = resolve));
+    const server = serveAsyncLazyReader({
+      size: 10,
+      read: async () => new Uint8Array(10),
+      close: () => released(),
+    });
+    const reader = new AsyncBridgeReader(server.channel, 20);
+    expect(() => reader.read(0, 10)).toThrow(
+      "Async lazy read of 10 bytes at 0 timed out after 20 ms",
+    );
+    expect(() => reader.read(0, 10)).toThrow("AsyncBridgeReader is closed");
+    // The timed-out reader told the server to stop and close its reader.
+    await closed;
+    expect(() => serveAsyncLazyReader({ size: 1, read: async () => new Uint8Array(1) }, { bufferSize: 0 }))
+      .toThrow(RangeError);
+  });
+});
+
 describe("createLazyStreamOps", () => {
   const data = makeData(1000);
   const reader = new MemoryReader(data);
@@ -282,7 +1712,53 @@ describe("createLazyStreamOps", () => {
   });
 
   test("write is rejected (read-only)", () => {
-    expect(() => ops.write()).toThrow(/read-only/);
+    expect(() => ops.write(stream, new Uint8Array(4), 0, 4, 0)).toThrow(
+      /read-only/,
+    );
+  });
+
+  test("reads straight into the heap through readInto", () => {
+    const readInto = jest.fn((offset: number, target: Uint8Array) => {
+      target.set(data.subarray(offset, offset + target.length));
+      return target.length;
+    });
+    const intoOps = createLazyStreamOps({
+      size: 1000,
+      read: () => {
+        throw new Error("read() should not be called");
+      },
+      readInto,
+      close: () => {},
+    });
+    // Emscripten hands stream_ops its HEAP8, an Int8Array.
+    const heap = new Int8Array(32);
+    expect(intoOps.read(stream, heap as any, 8, 4, 200)).toBe(4);
+    const target = readInto.mock.calls[0][1];
+    expect(target.buffer).toBe(heap.buffer);
+    expect(target.byteOffset).toBe(8);
+    expect(target.length).toBe(4);
+    expect(Array.from(new Uint8Array(heap.buffer, 8, 4))).toEqual(
+      Array.from(data.subarray(200, 204)),
+    );
+  });
+
+  test("write goes through to a writable reader", () => {
+    const writes: Array<[number, number[]]> = [];
+    const writable: WritableLazyReader = {
+      size: 1000,
+      read: (offset, length) => data.subarray(offset, offset + length),
+      write: (offset, bytes) => {
+        writes.push([offset, Array.from(bytes)]);
+        return bytes.length;
+      },
+      truncate: () => {},
+      flush: () => {},
+      close: () => {},
+    };
+    const writeOps = createLazyStreamOps(writable);
+    const buffer = new Uint8Array([9, 8, 7, 6, 5]);
+    expect(writeOps.write(stream, buffer, 1, 3, 500)).toBe(3);
+    expect(writes).toEqual([[500, [8, 7, 6]]]);
   });
 
   test("llseek handles SEEK_SET, SEEK_CUR and SEEK_END", () => {
@@ -333,6 +1809,43 @@ describe("mountLazyFile", () => {
     expect(typeof node.stream_ops.read).toBe("function");
   });
 
+  test("mounts a writable reader writable, truncating through setattr", () => {
+    const { FS } = makeFakeFS();
+    const truncated: number[] = [];
+    let size = 100;
+    const writable: WritableLazyReader = {
+      get size() {
+        return size;
+      },
+      read: () => new Uint8Array(0),
+      write: (_offset, bytes) => bytes.length,
+      truncate: (n) => {
+        truncated.push(n);
+        size = n;
+      },
+      flush: () => {},
+      close: () => {},
+    };
+    const shared = { setattr: jest.fn() };
+    const createFile = FS.createFile;
+    FS.createFile = (...args: Parameters<typeof createFile>) => ({
+      ...createFile(...args),
+      node_ops: shared,
+    });
+
+    const node: any = mountLazyFile(FS, "/tmp/out.nc", writable);
+    expect(node.canWrite).toBe(true);
+    node.usedBytes = 0; // MEMFS bookkeeping must not override the reader
+    expect(node.usedBytes).toBe(100);
+
+    node.node_ops.setattr(node, { size: 0, timestamp: 5 });
+    expect(truncated).toEqual([0]);
+    expect(node.usedBytes).toBe(0);
+    expect(shared.setattr).toHaveBeenCalledWith(node, { timestamp: 5 });
+    // The shared MEMFS node_ops are left alone.
+    expect(node.node_ops).not.toBe(shared);
+  });
+
   test("the mounted node reads through to the reader", () => {
     const { FS } = makeFakeFS();
     const node: any = mountLazyFile(FS, "/tmp/data.nc", reader);
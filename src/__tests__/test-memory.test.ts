@@ -424,6 +424,105 @@ describe('Memory-based Dataset Tests', () => {
             }
         });
 
+        // Emscripten's FS, which the mock module lacks, holding the dataset's file.
+        function installFile(dataset: NetCDF4, data: Uint8Array): string[] {
+            const calls: string[] = [];
+            (dataset.getModule() as any).FS = {
+                stat: () => ({ size: data.length }),
+                open: (path: string) => {
+                    calls.push(`open ${path}`);
+                    return {};
+                },
+                read: (stream: unknown, buffer: Uint8Array, offset: number, length: number, position: number) => {
+                    const bytes = data.subarray(position, position + length);
+                    buffer.set(bytes, offset);
+                    calls.push(`read ${position} ${bytes.length}`);
+                    return bytes.length;
+                },
+                close: () => calls.push('close'),
+            };
+            return calls;
+        }
+
+        const fileData = Uint8Array.from({ length: 2500 }, (_, i) => i % 256);
+
+        test('should stream the file in chunks after syncing', async () => {
+            const dataset = await NetCDF4.fromMemory(new Uint8Array(0), 'w', {}, '/tmp/stream.nc');
+            try {
+                const calls = installFile(dataset, fileData);
+                const sync = jest.spyOn(dataset.getModule(), 'nc_sync');
+
+                const chunks: Uint8Array[] = [];
+                const reader = dataset.toReadableStream({ chunkSize: 1000 }).getReader();
+                for (let next = await reader.read(); !next.done; next = await reader.read()) {
+                    chunks.push(next.value);
+                }
+                expect(sync).toHaveBeenCalledTimes(1);
+                expect(chunks.map(chunk => chunk.length)).toEqual([1000, 1000, 500]);
+                expect(Buffer.concat(chunks)).toEqual(Buffer.from(fileData));
+                expect(calls).toEqual(['open /tmp/stream.nc', 'read 0 1000', 'read 1000 1000', 'read 2000 500', 'close']);
+
+                // A cancelled stream closes the file without reading the rest.
+                calls.length = 0;
+                const partial = dataset.toReadableStream({ chunkSize: 1000 }).getReader();
+                await partial.read();
+                await partial.cancel();
+                expect(calls).toEqual(['open /tmp/stream.nc', 'read 0 1000', 'close']);
+
+                expect(() => dataset.toReadableStream({ chunkSize: 0 })).toThrow(RangeError);
+                expect(new Uint8Array(await dataset.toArrayBuffer())).toEqual(fileData);
+            } finally {
+                await dataset.close();
+            }
+        });
+
+        test('should write the file to a sink', async () => {
+            const dataset = await NetCDF4.fromMemory(new Uint8Array(0), 'w');
+            try {
+                installFile(dataset, fileData);
+
+                // A function called with each chunk
+                const received: Uint8Array[] = [];
+                expect(await dataset.writeTo(chunk => { received.push(chunk); }, { chunkSize: 1024 })).toBe(2500);
+                expect(Buffer.concat(received)).toEqual(Buffer.from(fileData));
+
+                // A WHATWG WritableStream, closed when done
+                const streamed: Uint8Array[] = [];
+                let closed = false;
+                const writable = new WritableStream<Uint8Array>({
+                    write: chunk => { streamed.push(chunk); },
+                    close: () => { closed = true; },
+                });
+                expect(await dataset.writeTo(writable)).toBe(2500);
+                expect(closed).toBe(true);
+                expect(Buffer.concat(streamed)).toEqual(Buffer.from(fileData));
+
+                // A Node.js Writable, ended when done
+                const { Writable } = require('stream');
+                const written: Buffer[] = [];
+                const node = new Writable({
+                    write: (chunk: Buffer, _encoding: string, callback: () => void) => {
+                        written.push(chunk);
+                        callback();
+                    },
+                });
+                expect(await dataset.writeTo(node, { chunkSize: 1000 })).toBe(2500);
+                expect(node.writableFinished).toBe(true);
+                expect(Buffer.concat(written)).toEqual(Buffer.from(fileData));
+
+                // A failing sink aborts the export.
+                const failing = new Writable({
+                    write: (_chunk: Buffer, _encoding: string, callback: (error: Error) => void) =>
+                        callback(new Error('disk full')),
+                });
+                failing.on('error', () => {});
+                await expect(dataset.writeTo(failing)).rejects.toThrow('disk full');
+                expect(failing.destroyed).toBe(true);
+            } finally {
+                await dataset.close();
+            }
+        });
+
         test('should handle export from empty dataset', async () => {
             const dataset = await NetCDF4.fromMemory(new Uint8Array(0), 'w');
             
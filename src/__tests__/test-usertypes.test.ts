@@ -0,0 +1,250 @@
+// User-defined type tests following netcdf4-python patterns
+
+import { Dataset, CompoundType, EnumType, OpaqueType, VLType } from '../index';
+import { TestSetup } from '../test-setup';
+
+describe('User-Defined Types', () => {
+    beforeAll(() => {
+        TestSetup.setupTestEnvironment();
+        TestSetup.mockWasmModule();
+    });
+
+    afterAll(() => {
+        TestSetup.cleanupTestEnvironment();
+    });
+
+    describe('Compound Types', () => {
+        test('should lay out fields with C alignment', async () => {
+            const filename = TestSetup.getTestFilename('_compound_layout');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                const wind = await nc.createCompoundType('wind_t', [
+                    { name: 'speed', datatype: 'f4' },
+                    { name: 'direction', datatype: 'i2' },
+                ]);
+                expect(wind.size).toBe(8);
+
+                const obs = await nc.createCompoundType('obs_t', [
+                    { name: 'flag', datatype: 'u1' },
+                    { name: 'time', datatype: 'f8' },
+                    { name: 'station', datatype: 'S1', shape: [4] },
+                    { name: 'wind', datatype: 'wind_t' },
+                    { name: 'levels', datatype: 'i4', shape: [3] },
+                ]);
+                expect(obs.fields.map(f => [f.name, f.offset])).toEqual([
+                    ['flag', 0], ['time', 8], ['station', 16], ['wind', 20], ['levels', 28],
+                ]);
+                expect(obs.size).toBe(40);
+                expect(obs.fields[3].datatype).toBe(wind);
+                expect(nc.cmptypes).toEqual({ wind_t: wind, obs_t: obs });
+
+                await expect(nc.createCompoundType('obs_t', [{ name: 'x', datatype: 'f4' }]))
+                    .rejects.toThrow("Compound type 'obs_t' already exists");
+                await expect(nc.createCompoundType('bad_t', [{ name: 'x', datatype: 'str' }]))
+                    .rejects.toThrow("Field 'x' of compound type 'bad_t' has unsupported datatype str");
+                await nc.close();
+
+                const classic = await Dataset(filename, 'w', { format: 'NETCDF4_CLASSIC' });
+                await expect(classic.createCompoundType('t', [{ name: 'x', datatype: 'f4' }]))
+                    .rejects.toThrow('Compound types require a NETCDF4 file, but this file is NETCDF4_CLASSIC');
+                await classic.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should write and read records and columns', async () => {
+            const filename = TestSetup.getTestFilename('_compound_data');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                await nc.createDimension('obs', 3);
+                const station = await nc.createCompoundType('station_t', [
+                    { name: 'id', datatype: 'i8' },
+                    { name: 'name', datatype: 'S1', shape: [6] },
+                    { name: 'temp', datatype: 'f4', shape: [2] },
+                ]);
+                const v = await nc.createVariable('stations', station, ['obs']);
+                expect(v.datatype).toBe('station_t');
+                expect(v.compoundType).toBe(station);
+
+                await v.put([
+                    { id: 1n, name: 'oslo', temp: [1.5, 2.5] },
+                    { id: 2n, name: 'bergen', temp: new Float32Array([3, 4]) },
+                ], { count: [2] });
+                const records = await v.getValue();
+                expect(records).toEqual([
+                    { id: 1n, name: 'oslo', temp: new Float32Array([1.5, 2.5]) },
+                    { id: 2n, name: 'bergen', temp: new Float32Array([3, 4]) },
+                    { id: 0n, name: '', temp: new Float32Array([0, 0]) },
+                ]);
+
+                // Struct-of-arrays reads and writes
+                await v.put({ id: new BigInt64Array([7n]), name: ['molde'], temp: new Float32Array([5, 6]) },
+                    { start: [2], count: [1] });
+                expect(await v.getColumns({ start: [1] })).toEqual({
+                    id: new BigInt64Array([2n, 7n]),
+                    name: ['bergen', 'molde'],
+                    temp: new Float32Array([3, 4, 5, 6]),
+                });
+                expect((await v.__getitem__(-1)).data).toEqual([
+                    { id: 7n, name: 'molde', temp: new Float32Array([5, 6]) },
+                ]);
+
+                await expect(v.setValue([1, 2, 3])).rejects.toThrow("Variable 'stations' of type station_t takes records or columns");
+                await expect(v.setValue([{ temp: [1] }, {}, {}])).rejects.toThrow("Field 'temp' of compound type 'station_t' takes 2 values");
+                await expect(v.put({ id: new BigInt64Array(2), name: ['a'], temp: new Float32Array(4) }))
+                    .rejects.toThrow("Columns of compound type 'station_t' have different lengths");
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should discover compound types when reopening a file', async () => {
+            const filename = TestSetup.getTestFilename('_compound_reopen');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                await nc.createDimension('n', 2);
+                const inner = await nc.createCompoundType('inner_t', [{ name: 'a', datatype: 'u2' }]);
+                const group = nc.createGroup('profiles');
+                const outer = await group.createCompoundType('outer_t', [
+                    { name: 'inner', datatype: inner, shape: [2] },
+                    { name: 'b', datatype: 'f8' },
+                ]);
+                const v = await group.createVariable('p', 'outer_t', ['n']);
+                await v.setValue([{ inner: [{ a: 1 }, { a: 2 }], b: 0.5 }, { inner: [{ a: 3 }, { a: 4 }], b: -1 }]);
+                expect(outer.toString()).toBe(
+                    "<class 'netCDF4.CompoundType'>: name = 'outer_t', fields = {inner: inner_t(2), b: f8}"
+                );
+                await nc.close();
+
+                const reader = await Dataset(filename, 'r');
+                const reopened = reader.groups.profiles.cmptypes.outer_t;
+                expect(reopened).toBeInstanceOf(CompoundType);
+                expect(reopened.size).toBe(outer.size);
+                expect(reopened.fields[0].datatype).toBe(reader.cmptypes.inner_t);
+                const p = reader.groups.profiles.variables.p;
+                expect(p.datatype).toBe('outer_t');
+                expect(await p.get({ start: [1], count: [1] })).toEqual([{ inner: [{ a: 3 }, { a: 4 }], b: -1 }]);
+                await reader.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+    });
+
+    describe('Enum Types', () => {
+        test('should define enums and read values and labels', async () => {
+            const filename = TestSetup.getTestFilename('_enum');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                await nc.createDimension('time', 4);
+                const cloud = await nc.createEnumType('cloud_t', 'u1', { clear: 0, cumulus: 1, stratus: 2 });
+                expect(nc.enumtypes.cloud_t).toBe(cloud);
+                expect(cloud.toString()).toBe(
+                    "<class 'netCDF4.EnumType'>: name = 'cloud_t', base type = u1, members = {clear: 0, cumulus: 1, stratus: 2}"
+                );
+
+                const v = await nc.createVariable('cloud', cloud, ['time']);
+                expect(v.enumType).toBe(cloud);
+                await v.put(new Uint8Array([2, 0]), { count: [2] });
+                await v.__setitem__(2, 'cumulus');
+
+                // Values read as the base type; the fill value names no member
+                expect(await v.getValue()).toEqual(new Uint8Array([2, 0, 1, 255]));
+                expect(await v.getLabels()).toEqual(['stratus', 'clear', 'cumulus', null]);
+                expect(cloud.members.stratus).toBe(2);
+
+                await expect(v.setValue(['clear', 'fog'])).rejects.toThrow("'fog' is not a member of enum type 'cloud_t'");
+                await expect(nc.createEnumType('bad_t', 'f4', { a: 1 }))
+                    .rejects.toThrow("Enum type 'bad_t' has unsupported base type f4");
+                await expect(nc.createEnumType('dup_t', 'i2', { a: 1, b: 1 }))
+                    .rejects.toThrow("Enum type 'dup_t' has more than one member with value 1");
+                await expect(nc.createEnumType('cloud_t', 'i2', { a: 1 })).rejects.toThrow("Enum type 'cloud_t' already exists");
+                await nc.close();
+
+                const reader = await Dataset(filename, 'r');
+                const reopened = reader.enumtypes.cloud_t;
+                expect(reopened).toBeInstanceOf(EnumType);
+                expect(reopened.baseType).toBe('u1');
+                expect(reopened.members).toEqual({ clear: 0, cumulus: 1, stratus: 2 });
+                expect(reader.variables.cloud.datatype).toBe('cloud_t');
+                expect(await reader.variables.cloud.getLabels({ start: [1], count: [2] })).toEqual(['clear', 'cumulus']);
+                await reader.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+    });
+
+    describe('Opaque Types', () => {
+        test('should round-trip opaque blobs', async () => {
+            const filename = TestSetup.getTestFilename('_opaque');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                await nc.createDimension('n', 3);
+                const blob = await nc.createOpaqueType('blob_t', 4);
+                const v = await nc.createVariable('blobs', 'blob_t', ['n']);
+                await v.put([new Uint8Array([1, 2, 3, 4]), new Uint8Array([5, 6, 7, 8])], { start: [1], count: [2] });
+                expect(await v.getValue()).toEqual([
+                    new Uint8Array(4), new Uint8Array([1, 2, 3, 4]), new Uint8Array([5, 6, 7, 8]),
+                ]);
+                await expect(v.setValue([new Uint8Array(3)])).rejects.toThrow(
+                    "Variable 'blobs' of type blob_t takes Uint8Array values of 4 bytes"
+                );
+                await expect(nc.createOpaqueType('empty_t', 0))
+                    .rejects.toThrow("Opaque type 'empty_t' size must be a positive integer, got 0");
+                await nc.close();
+
+                const reader = await Dataset(filename, 'r');
+                expect(reader.opaquetypes.blob_t).toBeInstanceOf(OpaqueType);
+                expect(reader.opaquetypes.blob_t.size).toBe(blob.size);
+                expect((await reader.variables.blobs.__getitem__(-1)).data).toEqual([new Uint8Array([5, 6, 7, 8])]);
+                await reader.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+    });
+
+    describe('Variable-Length Types', () => {
+        test('should read and write ragged arrays', async () => {
+            const filename = TestSetup.getTestFilename('_vlen');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                await nc.createDimension('profile', 3);
+                const obs = await nc.createVLType('obs_t', 'f4');
+                expect(obs.toString()).toBe("<class 'netCDF4.VLType'>: name = 'obs_t', base type = f4");
+                const v = await nc.createVariable('temperature', obs, ['profile']);
+                expect(v.vlType).toBe(obs);
+
+                await v.setValue([[1.5, 2.5, 3.5], new Float32Array([4]), []]);
+                expect(await v.getValue()).toEqual([
+                    new Float32Array([1.5, 2.5, 3.5]), new Float32Array([4]), new Float32Array(0),
+                ]);
+                await v.__setitem__([[1, 3]], [[], new Float64Array([7, 8])]);
+                expect((await v.__getitem__('::-1')).data).toEqual([
+                    new Float32Array([7, 8]), new Float32Array(0), new Float32Array([1.5, 2.5, 3.5]),
+                ]);
+
+                await expect(v.setValue([1, 2, 3])).rejects.toThrow("Variable 'temperature' of type obs_t takes an array of arrays");
+                await expect(nc.createVLType('names_t', 'str')).rejects.toThrow("Vlen type 'names_t' has unsupported base type str");
+                await nc.close();
+
+                const reader = await Dataset(filename, 'r');
+                expect(reader.vltypes.obs_t).toBeInstanceOf(VLType);
+                expect(reader.vltypes.obs_t.baseType).toBe('f4');
+                expect(await reader.variables.temperature.get({ start: [2] })).toEqual([new Float32Array([7, 8])]);
+                await reader.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+    });
+});
@@ -1,6 +1,6 @@
 // Variable tests following netcdf4-python patterns
 
-import { Dataset, NetCDF4, Variable, NC_CONSTANTS } from '../index';
+import { Dataset, NetCDF4, Variable, NC_CONSTANTS, DEFAULT_FILL_VALUES, resolveIndex, parseIndexString, chartostring } from '../index';
 import { TestSetup } from '../test-setup';
 
 describe('Variable Tests', () => {
@@ -179,6 +179,324 @@ describe('Variable Tests', () => {
         });
     });
 
+    describe('Variable Compression and Chunking', () => {
+        test('should apply compression, checksum and chunking options', async () => {
+            const filename = TestSetup.getTestFilename('_vars_filters');
+
+            try {
+                const nc = await Dataset(filename, 'w', { format: 'NETCDF4' });
+                await nc.createDimension('time', null);
+                await nc.createDimension('x', 100);
+                const module = nc.getModule();
+                const deflate = jest.spyOn(module, 'nc_def_var_deflate');
+                const chunking = jest.spyOn(module, 'nc_def_var_chunking');
+
+                const v = await nc.createVariable('v', 'f4', ['time', 'x'], {
+                    zlib: true,
+                    complevel: 6,
+                    shuffle: false,
+                    fletcher32: true,
+                    chunksizes: [1, 50],
+                });
+
+                expect(chunking).toHaveBeenCalledWith(expect.any(Number), expect.any(Number), NC_CONSTANTS.NC_CHUNKED, [1, 50]);
+                expect(deflate).toHaveBeenCalledWith(expect.any(Number), expect.any(Number), 0, 1, 6);
+                expect(v.filters()).toEqual({ zlib: true, shuffle: false, complevel: 6, fletcher32: true });
+                expect(v.chunking()).toEqual([1, 50]);
+
+                const plain = await nc.createVariable('plain', 'f8', ['x']);
+                expect(plain.filters()).toEqual({ zlib: false, shuffle: false, complevel: 0, fletcher32: false });
+                expect(plain.chunking()).toBe('contiguous');
+
+                const shuffled = await nc.createVariable('shuffled', 'i2', ['x'], { zlib: true });
+                expect(shuffled.filters()).toMatchObject({ zlib: true, shuffle: true, complevel: 4 });
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should read storage settings back after reopening', async () => {
+            const filename = TestSetup.getTestFilename('_vars_filters_reopen');
+
+            try {
+                const nc = await Dataset(filename, 'w', { format: 'NETCDF4_CLASSIC' });
+                await nc.createDimension('x', 10);
+                await nc.createVariable('a', 'f4', ['x'], { contiguous: true });
+                await nc.createVariable('b', 'f4', ['x'], { zlib: true, complevel: 1 });
+                await nc.close();
+
+                const reader = await Dataset(filename, 'r');
+                expect(reader.file_format).toBe('NETCDF4_CLASSIC');
+                expect(reader.variables.a.chunking()).toBe('contiguous');
+                expect(reader.variables.b.filters()).toMatchObject({ zlib: true, complevel: 1 });
+                expect(reader.variables.b.chunking()).toEqual([10]);
+                await reader.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should reject storage options in classic files', async () => {
+            const filename = TestSetup.getTestFilename('_vars_filters_classic');
+
+            try {
+                const nc = await Dataset(filename, 'w', { format: 'NETCDF3_CLASSIC' });
+                await nc.createDimension('x', 10);
+                const defVar = jest.spyOn(nc.getModule(), 'nc_def_var');
+
+                await expect(nc.createVariable('z', 'f4', ['x'], { zlib: true }))
+                    .rejects.toThrow("Variable 'z': zlib, fletcher32, contiguous and chunksizes require a NETCDF4 file, but this file is NETCDF3_CLASSIC");
+                await expect(nc.createVariable('c', 'f4', ['x'], { chunksizes: [5] }))
+                    .rejects.toThrow('require a NETCDF4 file');
+                expect(defVar).not.toHaveBeenCalled();
+
+                const v = await nc.createVariable('v', 'f4', ['x']);
+                expect(v.filters()).toBeNull();
+                expect(v.chunking()).toBeNull();
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should validate storage options', async () => {
+            const filename = TestSetup.getTestFilename('_vars_filters_invalid');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                await nc.createDimension('x', 10);
+                await nc.createDimension('y', 10);
+
+                await expect(nc.createVariable('a', 'f4', ['x'], { zlib: true, complevel: 12 }))
+                    .rejects.toThrow('complevel must be an integer from 0 to 9');
+                await expect(nc.createVariable('b', 'f4', ['x', 'y'], { chunksizes: [5] }))
+                    .rejects.toThrow('chunksizes has 1 entries but the variable has 2 dimensions');
+                await expect(nc.createVariable('c', 'f4', ['x'], { chunksizes: [0] }))
+                    .rejects.toThrow('chunksizes must be positive integers');
+                await expect(nc.createVariable('d', 'f4', ['x'], { contiguous: true, zlib: true }))
+                    .rejects.toThrow('contiguous storage cannot be combined');
+                expect(Object.keys(nc.variables)).toHaveLength(0);
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should create files in the requested format', async () => {
+            const filename = TestSetup.getTestFilename('_vars_format_modes');
+
+            try {
+                const nc = new NetCDF4(filename, 'w', { format: 'NETCDF3_64BIT_OFFSET' });
+                await nc.initialize();
+                // The mock module is created during initialize, so check what it recorded.
+                expect(nc.getModule().nc_inq_format(1).format).toBe(NC_CONSTANTS.NC_FORMAT_64BIT_OFFSET);
+                await nc.close();
+
+                await expect(Dataset(filename, 'w', { format: 'NETCDF5' }))
+                    .rejects.toThrow('Unsupported format: NETCDF5');
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+    });
+
+    describe('Mask and Scale', () => {
+        test('should unpack on read and pack on write', async () => {
+            const filename = TestSetup.getTestFilename('_vars_packed');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                await nc.createDimension('x', 4);
+                const v = await nc.createVariable('t', 'i2', ['x']);
+                v.setAttr('scale_factor', 0.5, 'f4');
+                v.setAttr('add_offset', 10, 'f4');
+                v._FillValue = -1;
+
+                await v.setValue([11, 12.5, NaN, 10]);
+                expect(await v.getValue()).toEqual(new Float32Array([11, 12.5, NaN, 10]));
+
+                v.set_auto_maskandscale(false);
+                expect(await v.getValue()).toEqual(new Int16Array([2, 5, -1, 0]));
+
+                v.set_auto_maskandscale(true);
+                await v.__setitem__('1:3', 14);
+                v.set_auto_scale(false);
+                expect(await v.get()).toEqual(new Int16Array([2, 8, 8, 0]));
+
+                // Double-precision attributes unpack to Float64Array
+                const d = await nc.createVariable('d', 'u1', ['x']);
+                d.scale_factor = 0.1;
+                await d.setValue([0.1, 0.2, 0.3, 25.5]);
+                const unpacked = await d.getValue();
+                expect(unpacked).toBeInstanceOf(Float64Array);
+                expect(unpacked[3]).toBeCloseTo(25.5);
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should mask fill values, missing values and the valid range', async () => {
+            const filename = TestSetup.getTestFilename('_vars_masked');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                await nc.createDimension('x', 5);
+                const v = await nc.createVariable('v', 'f4', ['x']);
+                v._FillValue = 1e20;
+                v.setAttr('missing_value', -1);
+                v.setAttr('valid_range', [0, 100]);
+                await v.setValue([1e20, -1, 50, 150, 100]);
+
+                expect(await v.getValue()).toEqual(new Float32Array([NaN, NaN, 50, NaN, 100]));
+                expect(Array.from(await v.getMask())).toEqual([1, 1, 0, 1, 0]);
+                expect(Array.from(await v.getMask({ start: [2], count: [2] }))).toEqual([0, 1]);
+
+                v.set_auto_mask(false);
+                expect((await v.getValue())[3]).toBe(150);
+
+                // Integer data cannot hold NaN: values are kept, NaN writes the fill value
+                const n = await nc.createVariable('n', 'i4', ['x']);
+                n.setAttr('valid_min', 0);
+                await n.setValue([5, -3, 7, 0, 1]);
+                await n.__setitem__(0, NaN);
+                expect(await n.getValue()).toEqual(new Int32Array([DEFAULT_FILL_VALUES.i4 as number, -3, 7, 0, 1]));
+                expect(Array.from(await n.getMask())).toEqual([1, 1, 0, 0, 0]);
+
+                // 64-bit values compare exactly, even where a number rounds them together
+                const w = await nc.createVariable('w', 'i8', ['x']);
+                w.setAttr('_FillValue', -9223372036854775806n);
+                w.setAttr('valid_max', 9223372036854775806n);
+                await w.setValue(new BigInt64Array([
+                    -9223372036854775808n, -9223372036854775806n, 5n,
+                    9223372036854775806n, 9223372036854775807n,
+                ]));
+                expect(Array.from(await w.getMask())).toEqual([0, 1, 0, 0, 1]);
+                await w.__setitem__(2, NaN);
+                expect((await w.getValue())[2]).toBe(-9223372036854775806n);
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should toggle mask-and-scale for a whole dataset', async () => {
+            const filename = TestSetup.getTestFilename('_vars_maskscale_toggle');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                await nc.createDimension('x', 2);
+                const before = await nc.createVariable('before', 'i2', ['x']);
+                const sub = nc.createGroup('sub');
+                const inner = await sub.createVariable('inner', 'i2', ['x']);
+
+                nc.set_auto_maskandscale(false);
+                const after = await nc.createVariable('after', 'i2', ['x']);
+                const later = await sub.createVariable('later', 'i2', ['x']);
+                for (const v of [before, inner, after, later]) {
+                    expect(v.mask).toBe(false);
+                    expect(v.scale).toBe(false);
+                }
+
+                nc.set_auto_scale(true);
+                expect(inner.scale).toBe(true);
+                expect(inner.mask).toBe(false);
+
+                after.scale_factor = 2;
+                await after.setValue([4, 8]);
+                expect(await after.getValue()).toEqual(new Float64Array([4, 8]));
+                after.set_auto_scale(false);
+                expect(await after.getValue()).toEqual(new Int16Array([2, 4]));
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+    });
+
+    describe('String Variables', () => {
+        test('should read and write NC_CHAR arrays as strings', async () => {
+            const filename = TestSetup.getTestFilename('_vars_char');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                await nc.createDimension('station', 3);
+                await nc.createDimension('nchar', 6);
+                const names = await nc.createVariable('names', 'S1', ['station', 'nchar']);
+
+                // The last dimension collapses into NUL-padded strings
+                await names.setValue(['oslo', 'bergen', '']);
+                expect(await names.getValue()).toEqual(['oslo', 'bergen', '']);
+                expect(await names.get({ start: [1, 0], count: [2, 6] })).toEqual(['bergen', '']);
+                expect(await names.__getitem__('::-1')).toEqual({ data: ['', 'bergen', 'oslo'], shape: [3] });
+                expect(await names.__getitem__([0, 0])).toEqual({ data: ['o'], shape: [] });
+
+                await names.__setitem__(2, 'molde');
+                await names.put(['bodø'], { start: [0, 0], count: [1, 6] });
+                expect(await names.getValue()).toEqual(['bodø', 'bergen', 'molde']);
+                await expect(names.setValue(['trondheim', '', ''])).rejects.toThrow(
+                    "String 'trondheim' is 9 bytes, longer than the 6-character dimension"
+                );
+
+                // Raw characters are available with chartostring turned off
+                names.set_auto_chartostring(false);
+                const raw = await names.get({ start: [2, 0], count: [1, 6] });
+                expect(raw).toEqual(new Uint8Array([109, 111, 108, 100, 101, 0]));
+                await names.put(new Uint8Array([97, 0, 0, 0, 0, 0]), { start: [2, 0], count: [1, 6] });
+                names.set_auto_chartostring(true);
+                expect((await names.getValue())[2]).toBe('a');
+
+                // A zero-length character dimension still yields one string per element
+                expect(chartostring(new Uint8Array(0), [2, 3, 0])).toEqual(['', '', '', '', '', '']);
+                expect(chartostring(new Uint8Array([104, 105, 0]), [1, 3])).toEqual(['hi']);
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should read and write variable-length NC_STRING data', async () => {
+            const filename = TestSetup.getTestFilename('_vars_vlen_string');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                await nc.createDimension('time', null);
+                const labels = await nc.createVariable('labels', 'str', ['time']);
+
+                await labels.setValue(['first', 'a much longer second label']);
+                await labels.append(['third']);
+                await labels.__setitem__('3:5', 'same');
+                expect(labels.shape).toEqual([5]);
+                expect(await labels.getValue())
+                    .toEqual(['first', 'a much longer second label', 'third', 'same', 'same']);
+                await expect(labels.setValue([1, 2])).rejects.toThrow("Variable 'labels' of type str takes strings");
+                await nc.close();
+
+                const reader = await Dataset(filename, 'r');
+                expect(reader.variables.labels.datatype).toBe('str');
+                expect(await reader.variables.labels.get({ start: [1], count: [2] }))
+                    .toEqual(['a much longer second label', 'third']);
+                await reader.close();
+
+                const classic = await Dataset(filename, 'w', { format: 'NETCDF4_CLASSIC' });
+                await classic.createDimension('x', 2);
+                await expect(classic.createVariable('s', 'str', ['x']))
+                    .rejects.toThrow('Datatype str requires a NETCDF4 file, but this file is NETCDF4_CLASSIC');
+                await classic.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+    });
+
     describe('Variable Properties', () => {
         test('should provide correct variable metadata', async () => {
             const filename = TestSetup.getTestFilename('_vars_metadata');
@@ -324,7 +642,7 @@ describe('Variable Tests', () => {
                 const temp_data = TestSetup.createTemperatureData(10, 20);
                 
                 await temp_var.setValue(temp_data);
-                const read_temp = await temp_var.getValue();
+                const read_temp = (await temp_var.getValue()) as Float64Array;
                 
                 TestSetup.assertArraysAlmostEqual(read_temp, temp_data);
                 
@@ -339,6 +657,174 @@ describe('Variable Tests', () => {
         });
     });
 
+    describe('Variable Hyperslab Reads', () => {
+        test('should read a contiguous hyperslab with start/count', async () => {
+            const filename = TestSetup.getTestFilename('_vars_hyperslab');
+
+            if (mockMode) {
+                pending('WASM module not available');
+                return;
+            }
+
+            try {
+                const nc = await Dataset(filename, 'w');
+
+                await nc.createDimension('lat', 3);
+                await nc.createDimension('lon', 4);
+                const field = await nc.createVariable('field', 'f8', ['lat', 'lon']);
+                await field.setValue(new Float64Array([0, 1, 2, 3, 10, 11, 12, 13, 20, 21, 22, 23]));
+
+                expect(field.shape).toEqual([3, 4]);
+                expect(field.size).toBe(12);
+                expect(field.ndims).toBe(2);
+
+                const slab = await field.get({ start: [1, 1], count: [2, 2] });
+                expect(Array.from(slab as Float64Array)).toEqual([11, 12, 21, 22]);
+
+                // Omitted count reads to the end of each dimension
+                const tail = await field.get({ start: [2, 0] });
+                expect(Array.from(tail as Float64Array)).toEqual([20, 21, 22, 23]);
+
+                // No options reads everything
+                const all = await field.get();
+                expect(all.length).toBe(12);
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should read a strided hyperslab', async () => {
+            const filename = TestSetup.getTestFilename('_vars_hyperslab_stride');
+
+            if (mockMode) {
+                pending('WASM module not available');
+                return;
+            }
+
+            try {
+                const nc = await Dataset(filename, 'w');
+
+                await nc.createDimension('lat', 3);
+                await nc.createDimension('lon', 4);
+                const field = await nc.createVariable('field', 'f4', ['lat', 'lon']);
+                await field.setValue(new Float64Array([0, 1, 2, 3, 10, 11, 12, 13, 20, 21, 22, 23]));
+
+                const slab = await field.get({ start: [0, 1], stride: [2, 2] });
+                expect(slab).toBeInstanceOf(Float32Array);
+                expect(Array.from(slab as Float64Array)).toEqual([1, 3, 21, 23]);
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+
+        test('should reject hyperslabs outside the variable', async () => {
+            const filename = TestSetup.getTestFilename('_vars_hyperslab_bounds');
+
+            if (mockMode) {
+                pending('WASM module not available');
+                return;
+            }
+
+            try {
+                const nc = await Dataset(filename, 'w');
+
+                await nc.createDimension('x', 5);
+                const x = await nc.createVariable('x', 'f8', ['x']);
+                await x.setValue(new Float64Array([0, 1, 2, 3, 4]));
+
+                await expect(x.get({ start: [6] })).rejects.toThrow('out of bounds');
+                await expect(x.get({ start: [3], count: [3] })).rejects.toThrow('exceeds dimension');
+                await expect(x.get({ stride: [0] })).rejects.toThrow('stride');
+                await expect(x.get({ start: [0, 0] })).rejects.toThrow('2 entries');
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+    });
+
+    describe('Variable Indexing', () => {
+        test('should resolve Python-style index expressions', () => {
+            const shape = [4, 10, 6];
+
+            const sel = resolveIndex([0, [2, 5], null], shape);
+            expect(sel.slab).toEqual({ start: [0, 2, 0], count: [1, 3, 6], stride: [1, 1, 1] });
+            expect(sel.shape).toEqual([3, 6]);
+
+            // Negative indices and clamped stop
+            expect(resolveIndex([-1, [-3, 100]], shape).slab).toEqual({
+                start: [3, 7, 0], count: [1, 3, 6], stride: [1, 1, 1],
+            });
+
+            // Negative step reads with a positive stride and flips the axis
+            const rev = resolveIndex([null, [null, null, -3]], shape);
+            expect(rev.slab.start[1]).toBe(0);
+            expect(rev.slab.count[1]).toBe(4);
+            expect(rev.slab.stride[1]).toBe(3);
+            expect(rev.reverse).toEqual([1]);
+
+            // String form matches the array form
+            expect(resolveIndex('0, 2:5, ::2', shape)).toEqual(resolveIndex([0, [2, 5], [null, null, 2]], shape));
+            expect(parseIndexString('-1, :, 1:')).toEqual([-1, [null, null], [1, null]]);
+        });
+
+        test('should reject invalid index expressions', () => {
+            expect(() => resolveIndex([5], [5])).toThrow('out of bounds');
+            expect(() => resolveIndex([0, 0], [5])).toThrow('Too many indices');
+            expect(() => resolveIndex('::0', [5])).toThrow('non-zero');
+            expect(() => resolveIndex('a:b', [5])).toThrow('Invalid index');
+        });
+
+        test('should read and write with __getitem__ and __setitem__', async () => {
+            const filename = TestSetup.getTestFilename('_vars_indexing');
+
+            if (mockMode) {
+                pending('WASM module not available');
+                return;
+            }
+
+            try {
+                const nc = await Dataset(filename, 'w');
+
+                await nc.createDimension('y', 3);
+                await nc.createDimension('x', 4);
+                const grid = await nc.createVariable('grid', 'f8', ['y', 'x']);
+                await grid.setValue(new Float64Array([0, 1, 2, 3, 10, 11, 12, 13, 20, 21, 22, 23]));
+
+                const row = await grid.__getitem__(1);
+                expect(row.shape).toEqual([4]);
+                expect(Array.from(row.data as Float64Array)).toEqual([10, 11, 12, 13]);
+
+                const point = await grid.__getitem__([-1, -1]);
+                expect(point.shape).toEqual([]);
+                expect(Array.from(point.data as Float64Array)).toEqual([23]);
+
+                const flipped = await grid.__getitem__(':, ::-2');
+                expect(flipped.shape).toEqual([3, 2]);
+                expect(Array.from(flipped.data as Float64Array)).toEqual([3, 1, 13, 11, 23, 21]);
+
+                // Scalar broadcast over a column
+                await grid.__setitem__([null, 0], -1);
+                // Array assignment into a reversed range
+                await grid.__setitem__('0, 3:0:-1', [9, 8, 7]);
+
+                const all = await grid.__getitem__(':, :');
+                expect(Array.from(all.data as Float64Array)).toEqual([-1, 7, 8, 9, -1, 11, 12, 13, -1, 21, 22, 23]);
+
+                await expect(grid.__setitem__(0, [1, 2])).rejects.toThrow('Cannot assign 2 values');
+
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+    });
+
     describe('Variable Collections', () => {
         test('should manage variable collections correctly', async () => {
             const filename = TestSetup.getTestFilename('_vars_collections');
@@ -444,14 +930,43 @@ describe('Variable Tests', () => {
                 
                 await nc.createDimension('x', 5);
                 const int_var = await nc.createVariable('int_data', 'i4', ['x']);
+                const char_var = await nc.createVariable('char_data', 'S1', ['x']);
                 
-                // Currently our implementation only supports f8/double
-                // This should throw an error for unsupported data types
-                expect(async () => {
-                    const data = new Float64Array([1, 2, 3, 4, 5]);
-                    await int_var.setValue(data);
-                }).rejects.toThrow('Data type i4 not yet supported');
+                // Doubles written to an integer variable are converted to its type
+                await int_var.setValue(new Float64Array([1.9, 2, 3, 4, -5.5]));
+                const read = await int_var.getValue();
+                expect(read).toBeInstanceOf(Int32Array);
+                expect(Array.from(read as Int32Array)).toEqual([1, 2, 3, 4, -5]);
                 
+                // Character variables take strings or raw characters, not numbers
+                await expect(char_var.setValue(new Float64Array([1, 2, 3, 4, 5])))
+                    .rejects.toThrow("Variable 'char_data' of type S1 takes strings or a Uint8Array of characters");
+                
+                await nc.close();
+            } finally {
+                TestSetup.cleanupTestFile(filename);
+            }
+        });
+        test('should reject whole-variable writes that do not fill the variable', async () => {
+            const filename = TestSetup.getTestFilename('_vars_set_size');
+
+            try {
+                const nc = await Dataset(filename, 'w');
+                await nc.createDimension('t', null);
+                await nc.createDimension('x', 5);
+                const v = await nc.createVariable('v', 'i4', ['x']);
+                await expect(v.setValue([1, 2, 3]))
+                    .rejects.toThrow('Data has 3 elements but the variable holds 5');
+                await expect(v.setValue([1, 2, 3, 4, 5, 6]))
+                    .rejects.toThrow('Data has 6 elements but the variable holds 5');
+
+                // Along an unlimited dimension the data holds whole records
+                const records = await nc.createVariable('records', 'i4', ['t', 'x']);
+                await expect(records.setValue([1, 2, 3, 4, 5, 6, 7]))
+                    .rejects.toThrow('Data has 7 elements but the variable holds 10');
+                await records.setValue([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+                expect(records.shape).toEqual([2, 5]);
+
                 await nc.close();
             } finally {
                 TestSetup.cleanupTestFile(filename);
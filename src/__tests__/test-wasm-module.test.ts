@@ -1,6 +1,20 @@
-// Tests for the WASM loader's module-factory resolution (issue #3).
+// Tests for the WASM loader's module-factory resolution (issue #3) and the
+// wrappers it builds around the Emscripten runtime.
 
 import { WasmModuleLoader } from "../wasm-module";
+import { C_TYPE_ARRAYS, toNumericArray } from "../datatypes";
+import type { NcCType } from "../datatypes";
+import type { NetCDF4Module } from "../types";
+
+// loadModule requires the Emscripten loader from `wasmPath`; this one
+// resolves to the fake runtime of the current test.
+const FAKE_LOADER = "/fake/netcdf4-module.js";
+let mockRuntime: unknown;
+jest.mock(
+  "/fake/netcdf4-module.js",
+  () => () => Promise.resolve(mockRuntime),
+  { virtual: true },
+);
 
 describe("WasmModuleLoader.resolveModuleFactory", () => {
   test("returns a CommonJS factory function unchanged", () => {
@@ -35,3 +49,239 @@ describe("WasmModuleLoader.resolveModuleFactory", () => {
     expect(() => WasmModuleLoader.resolveModuleFactory(42)).toThrow(/number/);
   });
 });
+
+// A fake Emscripten runtime: a bump allocator over a small heap that tracks
+// live allocations, and cwrap returning a jest.fn per C wrapper (0, NC_NOERR,
+// unless a test gives it an implementation).
+function makeFakeRuntime() {
+  const HEAPU8 = new Uint8Array(64 * 1024);
+  const view = new DataView(HEAPU8.buffer);
+  const live = new Map<number, number>();
+  const wrappers = new Map<string, jest.Mock>();
+  let next = 8;
+  const runtime = {
+    HEAPU8,
+    HEAPF64: new Float64Array(HEAPU8.buffer),
+    HEAP32: new Int32Array(HEAPU8.buffer),
+    _malloc: jest.fn((size: number) => {
+      const ptr = next;
+      next += Math.ceil(size / 8) * 8;
+      live.set(ptr, size);
+      return ptr;
+    }),
+    _free: jest.fn((ptr: number) => {
+      if (!live.delete(ptr)) throw new Error(`free of unallocated pointer ${ptr}`);
+    }),
+    getValue: (ptr: number, type: string) =>
+      type === "double" ? view.getFloat64(ptr, true) : view.getInt32(ptr, true),
+    setValue: (ptr: number, value: number, type: string) =>
+      type === "double" ? view.setFloat64(ptr, value, true) : view.setInt32(ptr, value, true),
+    lengthBytesUTF8: (text: string) => new TextEncoder().encode(text).length,
+    stringToUTF8: (text: string, ptr: number, max: number) => {
+      const bytes = new TextEncoder().encode(text).subarray(0, max - 1);
+      HEAPU8.set(bytes, ptr);
+      HEAPU8[ptr + bytes.length] = 0;
+    },
+    UTF8ToString: (ptr: number) =>
+      new TextDecoder().decode(HEAPU8.subarray(ptr, HEAPU8.indexOf(0, ptr))),
+    cwrap: (name: string) => {
+      const wrapper = jest.fn(() => 0);
+      wrappers.set(name, wrapper);
+      return wrapper;
+    },
+  };
+  const wrapper = (name: string) => wrappers.get(name)!;
+  // An i32 vector the wrappers were passed, e.g. a start or count.
+  const ints = (ptr: number, n: number) =>
+    Array.from({ length: n }, (_, i) => view.getInt32(ptr + i * 4, true));
+  // Allocate and write a NUL-terminated string, as NetCDF would.
+  const cString = (text: string) => {
+    const ptr = runtime._malloc(runtime.lengthBytesUTF8(text) + 1);
+    runtime.stringToUTF8(text, ptr, Infinity);
+    return ptr;
+  };
+  return { runtime, live, wrapper, ints, cString };
+}
+
+describe("WasmModuleLoader wrappers", () => {
+  let fake: ReturnType<typeof makeFakeRuntime>;
+  let nc: NetCDF4Module;
+
+  beforeEach(async () => {
+    fake = makeFakeRuntime();
+    mockRuntime = fake.runtime;
+    nc = await WasmModuleLoader.loadModule({ wasmPath: FAKE_LOADER });
+  });
+
+  test("reads a typed slab through a heap view of each memory type", () => {
+    for (const ctype of Object.keys(C_TYPE_ARRAYS) as NcCType[]) {
+      const ctor = C_TYPE_ARRAYS[ctype];
+      const values = toNumericArray([1, 2, 3, 4, 5, 6], ctype);
+      fake.wrapper(`nc_get_vara_${ctype}_wrapper`).mockImplementation(
+        (ncid: number, varid: number, startPtr: number, countPtr: number, dataPtr: number) => {
+          expect([ncid, varid]).toEqual([1, 2]);
+          expect(fake.ints(startPtr, 2)).toEqual([0, 1]);
+          expect(fake.ints(countPtr, 2)).toEqual([2, 3]);
+          expect(dataPtr % ctor.BYTES_PER_ELEMENT).toBe(0);
+          (new ctor(fake.runtime.HEAPU8.buffer, dataPtr, 6) as any).set(values);
+          return 0;
+        },
+      );
+      const { result, data } = nc.nc_get_vara_typed(1, 2, ctype, [0, 1], [2, 3]);
+      expect(result).toBe(0);
+      expect(data).toBeInstanceOf(ctor);
+      expect(data).toEqual(values);
+      // The result is a copy, not a view of the heap.
+      expect(data.buffer).not.toBe(fake.runtime.HEAPU8.buffer);
+      expect(fake.live.size).toBe(0);
+    }
+  });
+
+  test("writes a typed slab and strided reads and writes", () => {
+    const written: number[][] = [];
+    fake.wrapper("nc_put_vars_short_wrapper").mockImplementation(
+      (_ncid: number, _varid: number, _start: number, countPtr: number, stridePtr: number, dataPtr: number) => {
+        expect(fake.ints(stridePtr, 1)).toEqual([2]);
+        const n = fake.ints(countPtr, 1)[0];
+        written.push(Array.from(new Int16Array(fake.runtime.HEAPU8.buffer, dataPtr, n)));
+        return 0;
+      },
+    );
+    expect(nc.nc_put_vars_typed(1, 2, "short", [0], [3], [2], new Int16Array([-1, 0, 7]))).toBe(0);
+    expect(written).toEqual([[-1, 0, 7]]);
+
+    fake.wrapper("nc_put_vara_longlong_wrapper").mockReturnValue(-40);
+    expect(nc.nc_put_vara_typed(1, 2, "longlong", [0], [1], new BigInt64Array([2n ** 62n]))).toBe(-40);
+
+    fake.wrapper("nc_get_vars_double_wrapper").mockReturnValue(-57);
+    expect(nc.nc_get_vars_typed(1, 2, "double", [0], [4], [2]).result).toBe(-57);
+    expect(fake.live.size).toBe(0);
+  });
+
+  test("reads and writes typed and text attributes", () => {
+    fake.wrapper("nc_get_att_float_wrapper").mockImplementation(
+      (_ncid: number, _varid: number, name: string, dataPtr: number) => {
+        expect(name).toBe("valid_range");
+        new Float32Array(fake.runtime.HEAPU8.buffer, dataPtr, 2).set([0.5, 100]);
+        return 0;
+      },
+    );
+    expect(nc.nc_get_att_typed(1, 2, "valid_range", "float", 2)).toEqual({
+      result: 0,
+      data: new Float32Array([0.5, 100]),
+    });
+
+    let stored: bigint[] = [];
+    fake.wrapper("nc_put_att_ulonglong_wrapper").mockImplementation(
+      (_ncid: number, _varid: number, _name: string, xtype: number, len: number, dataPtr: number) => {
+        expect(xtype).toBe(11);
+        stored = Array.from(new BigUint64Array(fake.runtime.HEAPU8.buffer, dataPtr, len));
+        return 0;
+      },
+    );
+    nc.nc_put_att_typed(1, 2, "ids", 11, "ulonglong", new BigUint64Array([1n, 2n ** 64n - 1n]));
+    expect(stored).toEqual([1n, 2n ** 64n - 1n]);
+
+    let text = "";
+    fake.wrapper("nc_put_att_text_wrapper").mockImplementation(
+      (_ncid: number, _varid: number, _name: string, len: number, textPtr: number) => {
+        text = new TextDecoder().decode(fake.runtime.HEAPU8.subarray(textPtr, textPtr + len));
+        return 0;
+      },
+    );
+    nc.nc_put_att_text(1, 2, "title", "Température");
+    expect(text).toBe("Température");
+    expect(fake.live.size).toBe(0);
+  });
+
+  test("copies out strings and frees them with nc_free_string", () => {
+    // NetCDF allocates each string; nc_free_string releases them.
+    const returnStrings = (values: string[]) => (ptrs: number) => {
+      values.forEach((value, i) =>
+        fake.runtime.setValue(ptrs + i * 4, value ? fake.cString(value) : 0, "i32"),
+      );
+      return 0;
+    };
+    fake.wrapper("nc_free_string_wrapper").mockImplementation((len: number, ptrs: number) => {
+      for (let i = 0; i < len; i++) {
+        const ptr = fake.runtime.getValue(ptrs + i * 4, "i32");
+        if (ptr) fake.runtime._free(ptr);
+      }
+      return 0;
+    });
+
+    fake.wrapper("nc_get_att_string_wrapper").mockImplementation(
+      (_ncid: number, _varid: number, _name: string, ptrs: number) => returnStrings(["a", "bé"])(ptrs),
+    );
+    expect(nc.nc_get_att_string(1, 2, "names", 2)).toEqual({ result: 0, values: ["a", "bé"] });
+    expect(fake.wrapper("nc_free_string_wrapper")).toHaveBeenLastCalledWith(2, expect.any(Number));
+
+    fake.wrapper("nc_get_vars_string_wrapper").mockImplementation(
+      (_ncid: number, _varid: number, _s: number, _c: number, _st: number, ptrs: number) =>
+        returnStrings(["x", "", "zz"])(ptrs),
+    );
+    expect(nc.nc_get_vars_string(1, 2, [0], [3], [1])).toEqual({ result: 0, values: ["x", "", "zz"] });
+    expect(fake.wrapper("nc_free_string_wrapper")).toHaveBeenCalledTimes(2);
+    expect(fake.live.size).toBe(0);
+
+    // Nothing to free when the read fails.
+    fake.wrapper("nc_get_vars_string_wrapper").mockReturnValue(-49);
+    expect(nc.nc_get_vars_string(1, 2, [0], [3], [1])).toEqual({ result: -49, values: [] });
+    expect(fake.wrapper("nc_free_string_wrapper")).toHaveBeenCalledTimes(2);
+
+    let written: string[] = [];
+    fake.wrapper("nc_put_vars_string_wrapper").mockImplementation(
+      (_ncid: number, _varid: number, _s: number, _c: number, _st: number, ptrs: number) => {
+        written = [0, 1].map((i) => fake.runtime.UTF8ToString(fake.runtime.getValue(ptrs + i * 4, "i32")));
+        return 0;
+      },
+    );
+    nc.nc_put_vars_string(1, 2, [0], [2], [1], ["one", "twö"]);
+    expect(written).toEqual(["one", "twö"]);
+    expect(fake.live.size).toBe(0);
+  });
+
+  test("copies out vlens and frees them with nc_free_vlens", () => {
+    // Each element is an nc_vlen_t { len, p } whose data NetCDF allocated.
+    const rows = [[1, 2, 3], [], [4]];
+    fake.wrapper("nc_get_vars_wrapper").mockImplementation(
+      (_ncid: number, _varid: number, _s: number, _c: number, _st: number, vlensPtr: number) => {
+        rows.forEach((row, i) => {
+          const p = row.length > 0 ? fake.runtime._malloc(row.length * 4) : 0;
+          new Int32Array(fake.runtime.HEAPU8.buffer, p, row.length).set(row);
+          fake.runtime.setValue(vlensPtr + i * 8, row.length, "i32");
+          fake.runtime.setValue(vlensPtr + i * 8 + 4, p, "i32");
+        });
+        return 0;
+      },
+    );
+    fake.wrapper("nc_free_vlens_wrapper").mockImplementation((len: number, vlensPtr: number) => {
+      for (let i = 0; i < len; i++) {
+        const p = fake.runtime.getValue(vlensPtr + i * 8 + 4, "i32");
+        if (p) fake.runtime._free(p);
+      }
+      return 0;
+    });
+
+    const { result, data } = nc.nc_get_vars_vlen(1, 2, "int", [0], [3], [1]);
+    expect(result).toBe(0);
+    expect(data).toEqual([new Int32Array([1, 2, 3]), new Int32Array(0), new Int32Array([4])]);
+    expect(fake.wrapper("nc_free_vlens_wrapper")).toHaveBeenCalledWith(3, expect.any(Number));
+    expect(fake.live.size).toBe(0);
+
+    let written: number[][] = [];
+    fake.wrapper("nc_put_vars_wrapper").mockImplementation(
+      (_ncid: number, _varid: number, _s: number, _c: number, _st: number, vlensPtr: number) => {
+        written = [0, 1].map((i) => {
+          const len = fake.runtime.getValue(vlensPtr + i * 8, "i32");
+          const p = fake.runtime.getValue(vlensPtr + i * 8 + 4, "i32");
+          return Array.from(new Float64Array(fake.runtime.HEAPU8.buffer, p, len));
+        });
+        return 0;
+      },
+    );
+    nc.nc_put_vars_vlen(1, 2, "double", [0], [2], [1], [new Float64Array([0.5]), new Float64Array(0)]);
+    expect(written).toEqual([[0.5], []]);
+    expect(fake.live.size).toBe(0);
+  });
+});
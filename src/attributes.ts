@@ -0,0 +1,140 @@
+// Encoding of JavaScript attribute values for nc_put_att_*
+//
+// Attributes are written either as text (nc_put_att_text) or as a numeric
+// array passed in one C memory type and stored as a NetCDF external type
+// (nc_put_att_<ctype>), which NetCDF converts between.
+
+import { DATA_TYPE_MAP, NC_CONSTANTS, NC_TYPE_TO_STR } from "./constants";
+import { C_TYPE_ARRAYS, toNumericArray } from "./datatypes";
+import type { NcCType, NumericArray } from "./datatypes";
+import type { AttributeInfo } from "./types";
+
+export type EncodedAttribute =
+  | { kind: "text"; text: string }
+  | { kind: "numeric"; xtype: number; ctype: NcCType; data: NumericArray };
+
+/** NetCDF external type that stores each C memory type without conversion. */
+export const C_TYPE_NC_TYPES: { [ctype in NcCType]: number } = {
+  schar: NC_CONSTANTS.NC_BYTE,
+  uchar: NC_CONSTANTS.NC_UBYTE,
+  short: NC_CONSTANTS.NC_SHORT,
+  ushort: NC_CONSTANTS.NC_USHORT,
+  int: NC_CONSTANTS.NC_INT,
+  uint: NC_CONSTANTS.NC_UINT,
+  longlong: NC_CONSTANTS.NC_INT64,
+  ulonglong: NC_CONSTANTS.NC_UINT64,
+  float: NC_CONSTANTS.NC_FLOAT,
+  double: NC_CONSTANTS.NC_DOUBLE,
+};
+
+function typedArrayCType(value: unknown): NcCType | undefined {
+  for (const ctype of Object.keys(C_TYPE_ARRAYS) as NcCType[]) {
+    if (value instanceof C_TYPE_ARRAYS[ctype]) return ctype;
+  }
+  return undefined;
+}
+
+// Memory type for a plain JS value: bigints go through long long, booleans
+// through signed char (stored as NC_BYTE 0/1), everything else as doubles.
+function inferCType(values: unknown[]): NcCType | undefined {
+  if (values.every((v) => typeof v === "number")) return "double";
+  if (values.every((v) => typeof v === "bigint")) return "longlong";
+  if (values.every((v) => typeof v === "boolean")) return "schar";
+  return undefined;
+}
+
+/**
+ * Work out how to store `value` as an attribute. Strings become text; numbers
+ * and number[] become NC_DOUBLE; typed arrays keep their own type; bigints
+ * become NC_INT64 and booleans NC_BYTE. `datatype` ('f4', 'i2', 'S1', ...)
+ * overrides the stored type. Returns undefined for null and undefined, which
+ * have no NetCDF representation.
+ */
+export function encodeAttribute(
+  name: string,
+  value: unknown,
+  datatype?: string,
+): EncodedAttribute | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+
+  let xtype: number | undefined;
+  if (datatype !== undefined) {
+    xtype = DATA_TYPE_MAP[datatype];
+    if (xtype === undefined) {
+      throw new Error(`Unsupported datatype for attribute '${name}': ${datatype}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (xtype !== undefined && xtype !== NC_CONSTANTS.NC_CHAR) {
+      throw new Error(
+        `Cannot store string attribute '${name}' as datatype ${datatype}`,
+      );
+    }
+    return { kind: "text", text: value };
+  }
+  if (xtype === NC_CONSTANTS.NC_CHAR) {
+    throw new Error(
+      `Attribute '${name}' has datatype ${datatype} but its value is not a string`,
+    );
+  }
+
+  let ctype = typedArrayCType(value);
+  let data: NumericArray;
+  if (ctype !== undefined) {
+    data = value as NumericArray;
+  } else {
+    const values = Array.isArray(value) ? value : [value];
+    ctype = inferCType(values);
+    if (ctype === undefined) {
+      throw new Error(
+        `Cannot store attribute '${name}': unsupported value ${String(value)}`,
+      );
+    }
+    data = toNumericArray(
+      values.map((v) => (typeof v === "boolean" ? Number(v) : v)),
+      ctype,
+    );
+  }
+
+  return { kind: "numeric", xtype: xtype ?? C_TYPE_NC_TYPES[ctype], ctype, data };
+}
+
+/** Type name reported by getAttrInfo for a NetCDF type code. */
+export function attributeTypeName(xtype: number): string | undefined {
+  if (xtype === NC_CONSTANTS.NC_STRING) return "string";
+  return NC_TYPE_TO_STR[xtype];
+}
+
+/**
+ * Convert values read with nc_get_att_<ctype> to their JS form: a single value
+ * becomes a number (bigint for 64-bit integers), several stay a typed array.
+ */
+export function decodeNumericAttribute(data: NumericArray): any {
+  return data.length === 1 ? data[0] : data;
+}
+
+/**
+ * Type and length that `value` is (or would be) stored with, for attributes
+ * set in memory rather than read from the file.
+ */
+export function describeAttribute(
+  name: string,
+  value: unknown,
+  datatype?: string,
+): Omit<AttributeInfo, "value"> | undefined {
+  if (Array.isArray(value) && value.length > 0 && value.every((v) => typeof v === "string")) {
+    return { type: "string", length: value.length };
+  }
+  const encoded = encodeAttribute(name, value, datatype);
+  if (!encoded) return undefined;
+  if (encoded.kind === "text") {
+    return { type: "S1", length: new TextEncoder().encode(encoded.text).length };
+  }
+  return {
+    type: attributeTypeName(encoded.xtype) as string,
+    length: encoded.data.length,
+  };
+}
@@ -0,0 +1,418 @@
+// CF time coordinates: num2date/date2num for every CF calendar
+//
+// Times are stored as numbers in units like "hours since 2000-01-01 00:00".
+// Each calendar numbers its days (the real-world calendars share the Julian Day
+// Number, the idealized ones count days in their own fixed-length years), so a
+// time converts by adding its offset to the reference date's day number and
+// mapping the sum back to a date in the same calendar. As in cftime, dates in
+// calendars a JS Date cannot represent are returned as CFDatetime objects.
+
+export type CFCalendar =
+  | "standard"
+  | "gregorian"
+  | "proleptic_gregorian"
+  | "julian"
+  | "noleap"
+  | "365_day"
+  | "all_leap"
+  | "366_day"
+  | "360_day"
+  | "none";
+
+// Canonical calendar each CF name (or alias) stands for.
+type Calendar = "standard" | "proleptic_gregorian" | "julian" | "noleap" | "all_leap" | "360_day" | "none";
+
+const CALENDARS: { [name: string]: Calendar } = {
+  standard: "standard",
+  gregorian: "standard",
+  proleptic_gregorian: "proleptic_gregorian",
+  julian: "julian",
+  noleap: "noleap",
+  "365_day": "noleap",
+  all_leap: "all_leap",
+  "366_day": "all_leap",
+  "360_day": "360_day",
+  none: "none",
+};
+
+// Calendars whose day numbers are Julian Day Numbers, so dates convert
+// between them (and to JS Date) as instants.
+const REAL_WORLD: Calendar[] = ["standard", "proleptic_gregorian", "julian"];
+
+const UNIT_SECONDS: { [unit: string]: number } = {
+  microseconds: 1e-6, microsecond: 1e-6, us: 1e-6, usec: 1e-6, usecs: 1e-6,
+  milliseconds: 1e-3, millisecond: 1e-3, ms: 1e-3, msec: 1e-3, msecs: 1e-3,
+  seconds: 1, second: 1, s: 1, sec: 1, secs: 1,
+  minutes: 60, minute: 60, min: 60, mins: 60,
+  hours: 3600, hour: 3600, h: 3600, hr: 3600, hrs: 3600,
+  days: 86400, day: 86400, d: 86400,
+};
+
+const US_PER_DAY = 86400e6;
+const UNIX_EPOCH_JDN = 2440588; // 1970-01-01
+const GREGORIAN_REFORM_JDN = 2299161; // 1582-10-15, first Gregorian day of "standard"
+
+const DAYS_BEFORE_MONTH = [0, 31, 59, 90, 120, 151, 181, 212, 243, 273, 304, 334, 365];
+const DAYS_BEFORE_MONTH_LEAP = [0, 31, 60, 91, 121, 152, 182, 213, 244, 274, 305, 335, 366];
+
+function calendarOf(name: string | undefined): Calendar {
+  const calendar = CALENDARS[(name ?? "standard").toLowerCase()];
+  if (calendar === undefined) {
+    throw new Error(`Unsupported calendar: ${name}`);
+  }
+  return calendar;
+}
+
+function isLeapYear(year: number, calendar: Calendar): boolean {
+  const gregorian = year % 4 === 0 && (year % 100 !== 0 || year % 400 === 0);
+  switch (calendar) {
+    case "proleptic_gregorian":
+    case "none":
+      return gregorian;
+    case "standard":
+      return year > 1582 ? gregorian : year % 4 === 0;
+    case "julian":
+      return year % 4 === 0;
+    case "all_leap":
+      return true;
+    default:
+      return false;
+  }
+}
+
+function daysInMonth(year: number, month: number, calendar: Calendar): number {
+  if (calendar === "360_day") return 30;
+  const table = isLeapYear(year, calendar) ? DAYS_BEFORE_MONTH_LEAP : DAYS_BEFORE_MONTH;
+  return table[month] - table[month - 1];
+}
+
+// Julian Day Number of a Gregorian or Julian calendar date (astronomical
+// year numbering, so year 0 is 1 BC).
+function jdn(year: number, month: number, day: number, gregorian: boolean): number {
+  const a = Math.floor((14 - month) / 12);
+  const y = year + 4800 - a;
+  const m = month + 12 * a - 3;
+  const base = day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4);
+  return gregorian ? base - Math.floor(y / 100) + Math.floor(y / 400) - 32045 : base - 32083;
+}
+
+function fromJdn(n: number, gregorian: boolean): [number, number, number] {
+  let b = 0;
+  let c: number;
+  if (gregorian) {
+    const a = n + 32044;
+    b = Math.floor((4 * a + 3) / 146097);
+    c = a - Math.floor((146097 * b) / 4);
+  } else {
+    c = n + 32082;
+  }
+  const d = Math.floor((4 * c + 3) / 1461);
+  const e = c - Math.floor((1461 * d) / 4);
+  const m = Math.floor((5 * e + 2) / 153);
+  return [
+    100 * b + d - 4800 + Math.floor(m / 10),
+    m + 3 - 12 * Math.floor(m / 10),
+    e - Math.floor((153 * m + 2) / 5) + 1,
+  ];
+}
+
+function dayNumber(year: number, month: number, day: number, calendar: Calendar): number {
+  switch (calendar) {
+    case "standard": {
+      const gregorian = year * 10000 + month * 100 + day >= 15821015;
+      return jdn(year, month, day, gregorian);
+    }
+    case "proleptic_gregorian":
+    case "none":
+      return jdn(year, month, day, true);
+    case "julian":
+      return jdn(year, month, day, false);
+    case "noleap":
+      return 365 * year + DAYS_BEFORE_MONTH[month - 1] + day - 1;
+    case "all_leap":
+      return 366 * year + DAYS_BEFORE_MONTH_LEAP[month - 1] + day - 1;
+    case "360_day":
+      return 360 * year + 30 * (month - 1) + day - 1;
+  }
+}
+
+function fromDayNumber(n: number, calendar: Calendar): [number, number, number] {
+  switch (calendar) {
+    case "standard":
+      return fromJdn(n, n >= GREGORIAN_REFORM_JDN);
+    case "proleptic_gregorian":
+    case "none":
+      return fromJdn(n, true);
+    case "julian":
+      return fromJdn(n, false);
+    case "360_day": {
+      const year = Math.floor(n / 360);
+      const r = n - 360 * year;
+      return [year, Math.floor(r / 30) + 1, (r % 30) + 1];
+    }
+    default: {
+      const length = calendar === "all_leap" ? 366 : 365;
+      const table = calendar === "all_leap" ? DAYS_BEFORE_MONTH_LEAP : DAYS_BEFORE_MONTH;
+      const year = Math.floor(n / length);
+      const r = n - length * year;
+      let month = 1;
+      while (table[month] <= r) month++;
+      return [year, month, r - table[month - 1] + 1];
+    }
+  }
+}
+
+function pad(value: number, width: number): string {
+  const digits = String(Math.abs(value)).padStart(width, "0");
+  return value < 0 ? `-${digits}` : digits;
+}
+
+/**
+ * A date and time in any CF calendar, like cftime.datetime. Unlike a JS Date
+ * it can hold dates such as February 30th in the 360_day calendar. Years use
+ * astronomical numbering (year 0 is 1 BC).
+ */
+export class CFDatetime {
+  constructor(
+    public readonly year: number,
+    public readonly month: number,
+    public readonly day: number,
+    public readonly hour: number = 0,
+    public readonly minute: number = 0,
+    public readonly second: number = 0,
+    public readonly microsecond: number = 0,
+    public readonly calendar: CFCalendar = "standard",
+  ) {
+    const cal = calendarOf(calendar);
+    const fields = [year, month, day, hour, minute, second, microsecond];
+    if (
+      !fields.every(Number.isInteger) ||
+      month < 1 || month > 12 ||
+      day < 1 || day > daysInMonth(year, month, cal) ||
+      hour < 0 || hour > 23 || minute < 0 || minute > 59 ||
+      second < 0 || second > 59 || microsecond < 0 || microsecond > 999999 ||
+      (cal === "standard" && year === 1582 && month === 10 && day > 4 && day < 15)
+    ) {
+      throw new Error(`Invalid date in calendar ${calendar}: ${fields.join(", ")}`);
+    }
+  }
+
+  /** Day of the year, starting at 1 for January 1st. */
+  get dayofyear(): number {
+    const cal = calendarOf(this.calendar);
+    return dayNumber(this.year, this.month, this.day, cal) - dayNumber(this.year, 1, 1, cal) + 1;
+  }
+
+  /** ISO 8601 form, e.g. "2000-02-30T12:00:00". */
+  isoformat(sep: string = "T"): string {
+    const time = `${pad(this.hour, 2)}:${pad(this.minute, 2)}:${pad(this.second, 2)}`;
+    const fraction = this.microsecond ? `.${pad(this.microsecond, 6)}` : "";
+    return `${pad(this.year, 4)}-${pad(this.month, 2)}-${pad(this.day, 2)}${sep}${time}${fraction}`;
+  }
+
+  /**
+   * The same instant as a JS Date (UTC, millisecond precision). Only dates in
+   * the standard, proleptic_gregorian and julian calendars name real instants.
+   */
+  toDate(): Date {
+    const cal = calendarOf(this.calendar);
+    if (!REAL_WORLD.includes(cal)) {
+      throw new Error(`Cannot convert a date in calendar ${this.calendar} to a JS Date`);
+    }
+    return instantToDate(toInstant(this, cal));
+  }
+
+  toString(): string {
+    return this.isoformat(" ");
+  }
+}
+
+// A point in time as a day number in some calendar plus microseconds into
+// the day.
+interface Instant {
+  day: number;
+  us: number;
+}
+
+function normalize(day: number, us: number): Instant {
+  const carry = Math.floor(us / US_PER_DAY);
+  return { day: day + carry, us: us - carry * US_PER_DAY };
+}
+
+function instantToDate(instant: Instant): Date {
+  return new Date(Math.round((instant.day - UNIX_EPOCH_JDN) * 86400e3 + instant.us / 1000));
+}
+
+function toInstant(date: Date | CFDatetime, calendar: Calendar): Instant {
+  if (date instanceof Date) {
+    const ms = date.getTime();
+    if (Number.isNaN(ms)) {
+      throw new Error("Invalid Date");
+    }
+    if (REAL_WORLD.includes(calendar)) {
+      const days = Math.floor(ms / 86400e3);
+      return { day: days + UNIX_EPOCH_JDN, us: (ms - days * 86400e3) * 1000 };
+    }
+    // Idealized calendars have no instants: take the date's UTC fields.
+    date = new CFDatetime(
+      date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(),
+      date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(),
+      date.getUTCMilliseconds() * 1000, calendar,
+    );
+  }
+
+  const own = calendarOf(date.calendar);
+  if (own !== calendar && !(REAL_WORLD.includes(own) && REAL_WORLD.includes(calendar))) {
+    throw new Error(`Cannot convert a date in calendar ${date.calendar} to calendar ${calendar}`);
+  }
+  const seconds = (date.hour * 60 + date.minute) * 60 + date.second;
+  return {
+    day: dayNumber(date.year, date.month, date.day, own),
+    us: seconds * 1e6 + date.microsecond,
+  };
+}
+
+function fromInstant(instant: Instant, calendar: CFCalendar): CFDatetime {
+  const [year, month, day] = fromDayNumber(instant.day, calendarOf(calendar));
+  const us = Math.round(instant.us);
+  const seconds = Math.floor(us / 1e6);
+  return new CFDatetime(
+    year, month, day,
+    Math.floor(seconds / 3600), Math.floor(seconds / 60) % 60, seconds % 60,
+    us - seconds * 1e6, calendar,
+  );
+}
+
+interface TimeUnits {
+  seconds: number;
+  reference: Instant;
+  calendar: Calendar;
+}
+
+const UNITS_PATTERN =
+  /^\s*(\w+)\s+since\s+([+-]?\d+)-(\d{1,2})-(\d{1,2})(?:[T\s]+(\d{1,2}):(\d{1,2})(?::(\d{1,2})(\.\d*)?)?)?\s*(Z|UTC|[+-]\d{1,2}(?::?\d{2})?)?\s*$/i;
+
+// Parse "<unit> since <reference date>" in `calendar`; the reference may
+// carry a time zone offset, which is applied.
+function parseUnits(units: string, calendarName: string | undefined): TimeUnits {
+  const calendar = calendarOf(calendarName);
+  const match = UNITS_PATTERN.exec(units);
+  if (!match) {
+    throw new Error(`Invalid time units: '${units}' (expected '<unit> since <date>')`);
+  }
+  const [, unit, year, month, day, hour, minute, second, fraction, zone] = match;
+  const seconds = UNIT_SECONDS[unit.toLowerCase()];
+  if (seconds === undefined) {
+    throw new Error(`Unsupported time unit '${unit}' in '${units}'`);
+  }
+
+  const reference = new CFDatetime(
+    Number(year), Number(month), Number(day),
+    Number(hour ?? 0), Number(minute ?? 0), Number(second ?? 0),
+    Math.round(Number(fraction ?? 0) * 1e6), calendar,
+  );
+  let offset = 0;
+  if (zone && zone.toUpperCase() !== "Z" && zone.toUpperCase() !== "UTC") {
+    const [, sign, h, m] = /^([+-])(\d{1,2}):?(\d{2})?$/.exec(zone)!;
+    offset = (sign === "-" ? -1 : 1) * (Number(h) * 60 + Number(m ?? 0)) * 60;
+  }
+  const instant = toInstant(reference, calendar);
+  return { seconds, reference: normalize(instant.day, instant.us - offset * 1e6), calendar };
+}
+
+export interface Num2DateOptions {
+  /**
+   * Return CFDatetime objects for every calendar, like cftime's
+   * only_use_cftime_datetimes. By default standard/gregorian dates from
+   * 1582-10-15 on and proleptic_gregorian dates are returned as JS Dates.
+   */
+  onlyUseCFDatetimes?: boolean;
+}
+
+function numToDate(
+  value: number | bigint,
+  parsed: TimeUnits,
+  calendar: CFCalendar,
+  options: Num2DateOptions,
+): Date | CFDatetime | null {
+  const v = Number(value);
+  if (Number.isNaN(v)) return null;
+
+  let instant = parsed.reference;
+  // Calendar "none" models a fixed time of year: every time is the reference date.
+  if (parsed.calendar !== "none") {
+    const days = (v * parsed.seconds) / 86400;
+    const whole = Math.floor(days);
+    instant = normalize(instant.day + whole, instant.us + Math.round((days - whole) * US_PER_DAY));
+  }
+
+  // A JS Date is proleptic Gregorian, so a standard date before the reform
+  // (a Julian date) would print as a different day.
+  const jsDate =
+    (parsed.calendar === "standard" && instant.day >= GREGORIAN_REFORM_JDN) ||
+    parsed.calendar === "proleptic_gregorian";
+  if (jsDate && !options.onlyUseCFDatetimes) {
+    return instantToDate(instant);
+  }
+  return fromInstant(instant, calendar);
+}
+
+/**
+ * Convert numeric times in CF `units` ("days since 1850-01-01", ...) to
+ * dates in `calendar` (default "standard"). Standard and proleptic_gregorian
+ * dates are JS Dates in UTC unless `onlyUseCFDatetimes` is set; the other
+ * calendars, and standard dates before the Gregorian reform of 1582-10-15,
+ * give CFDatetime objects. NaN (a masked time) converts to null.
+ */
+export function num2date(
+  times: number | bigint,
+  units: string,
+  calendar?: CFCalendar,
+  options?: Num2DateOptions,
+): Date | CFDatetime | null;
+export function num2date(
+  times: ArrayLike<number | bigint>,
+  units: string,
+  calendar?: CFCalendar,
+  options?: Num2DateOptions,
+): (Date | CFDatetime | null)[];
+export function num2date(
+  times: number | bigint | ArrayLike<number | bigint>,
+  units: string,
+  calendar: CFCalendar = "standard",
+  options: Num2DateOptions = {},
+): Date | CFDatetime | null | (Date | CFDatetime | null)[] {
+  const parsed = parseUnits(units, calendar);
+  if (typeof times === "number" || typeof times === "bigint") {
+    return numToDate(times, parsed, calendar, options);
+  }
+  return Array.from(times, (t) => numToDate(t, parsed, calendar, options));
+}
+
+function dateToNum(date: Date | CFDatetime, parsed: TimeUnits): number {
+  const instant = toInstant(date, parsed.calendar);
+  const us = (instant.day - parsed.reference.day) * US_PER_DAY + (instant.us - parsed.reference.us);
+  if (parsed.calendar === "none" && us !== 0) {
+    throw new Error("Calendar 'none' has no dates other than the reference date");
+  }
+  return us / 1e6 / parsed.seconds;
+}
+
+/**
+ * Convert dates to numeric times in CF `units` and `calendar`, the inverse of
+ * num2date. JS Dates are taken as instants in the real-world calendars and by
+ * their UTC fields in the idealized ones.
+ */
+export function date2num(dates: Date | CFDatetime, units: string, calendar?: CFCalendar): number;
+export function date2num(dates: ArrayLike<Date | CFDatetime>, units: string, calendar?: CFCalendar): number[];
+export function date2num(
+  dates: Date | CFDatetime | ArrayLike<Date | CFDatetime>,
+  units: string,
+  calendar: CFCalendar = "standard",
+): number | number[] {
+  const parsed = parseUnits(units, calendar);
+  if (dates instanceof Date || dates instanceof CFDatetime) {
+    return dateToNum(dates, parsed);
+  }
+  return Array.from(dates, (d) => dateToNum(d, parsed));
+}
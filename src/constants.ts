@@ -1,8 +1,93 @@
 // NetCDF4 constants (populated from NetCDF4 headers)
 
 export const NC_CONSTANTS = {
-    // Error codes
+    // Error codes (netcdf.h): NetCDF-3 and general errors, then (from -100)
+    // NetCDF-4/HDF5 errors. Positive codes are system errno values.
     NC_NOERR: 0,
+    NC2_ERR: -1,
+    NC_EBADID: -33,
+    NC_ENFILE: -34,
+    NC_EEXIST: -35,
+    NC_EINVAL: -36,
+    NC_EPERM: -37,
+    NC_ENOTINDEFINE: -38,
+    NC_EINDEFINE: -39,
+    NC_EINVALCOORDS: -40,
+    NC_EMAXDIMS: -41,
+    NC_ENAMEINUSE: -42,
+    NC_ENOTATT: -43,
+    NC_EMAXATTS: -44,
+    NC_EBADTYPE: -45,
+    NC_EBADDIM: -46,
+    NC_EUNLIMPOS: -47,
+    NC_EMAXVARS: -48,
+    NC_ENOTVAR: -49,
+    NC_EGLOBAL: -50,
+    NC_ENOTNC: -51,
+    NC_ESTS: -52,
+    NC_EMAXNAME: -53,
+    NC_EUNLIMIT: -54,
+    NC_ENORECVARS: -55,
+    NC_ECHAR: -56,
+    NC_EEDGE: -57,
+    NC_ESTRIDE: -58,
+    NC_EBADNAME: -59,
+    NC_ERANGE: -60,
+    NC_ENOMEM: -61,
+    NC_EVARSIZE: -62,
+    NC_EDIMSIZE: -63,
+    NC_ETRUNC: -64,
+    NC_EAXISTYPE: -65,
+    NC_EDAP: -66,
+    NC_ECURL: -67,
+    NC_EIO: -68,
+    NC_ENODATA: -69,
+    NC_EDAPSVC: -70,
+    NC_EDAS: -71,
+    NC_EDDS: -72,
+    NC_EDATADDS: -73,
+    NC_EDAPURL: -74,
+    NC_EDAPCONSTRAINT: -75,
+    NC_ETRANSLATION: -76,
+    NC_EACCESS: -77,
+    NC_EAUTH: -78,
+    NC_ENOTFOUND: -90,
+    NC_ECANTREMOVE: -91,
+    NC_EINTERNAL: -92,
+    NC_EPNETCDF: -93,
+    NC_EHDFERR: -101,
+    NC_ECANTREAD: -102,
+    NC_ECANTWRITE: -103,
+    NC_ECANTCREATE: -104,
+    NC_EFILEMETA: -105,
+    NC_EDIMMETA: -106,
+    NC_EATTMETA: -107,
+    NC_EVARMETA: -108,
+    NC_ENOCOMPOUND: -109,
+    NC_EATTEXISTS: -110,
+    NC_ENOTNC4: -111,
+    NC_ESTRICTNC3: -112,
+    NC_ENOTNC3: -113,
+    NC_ENOPAR: -114,
+    NC_EPARINIT: -115,
+    NC_EBADGRPID: -116,
+    NC_EBADTYPID: -117,
+    NC_ETYPDEFINED: -118,
+    NC_EBADFIELD: -119,
+    NC_EBADCLASS: -120,
+    NC_EMAPTYPE: -121,
+    NC_ELATEFILL: -122,
+    NC_ELATEDEF: -123,
+    NC_EDIMSCALE: -124,
+    NC_ENOGRP: -125,
+    NC_ESTORAGE: -126,
+    NC_EBADCHUNK: -127,
+    NC_ENOTBUILT: -128,
+    NC_EDISKLESS: -129,
+    NC_EFILTER: -132,
+    NC_ENULLPAD: -134,
+    NC_EINMEMORY: -135,
+    NC_ENOFILTER: -136,
     
     // File modes
     NC_NOWRITE: 0,
@@ -10,6 +95,20 @@ export const NC_CONSTANTS = {
     NC_CLOBBER: 0,
     NC_NOCLOBBER: 4,
     NC_NETCDF4: 4096,
+    NC_CLASSIC_MODEL: 256,
+    NC_64BIT_OFFSET: 512,
+    NC_64BIT_DATA: 32,
+
+    // On-disk formats (nc_inq_format)
+    NC_FORMAT_CLASSIC: 1,
+    NC_FORMAT_64BIT_OFFSET: 2,
+    NC_FORMAT_NETCDF4: 3,
+    NC_FORMAT_NETCDF4_CLASSIC: 4,
+    NC_FORMAT_64BIT_DATA: 5,
+
+    // Variable storage (nc_def_var_chunking)
+    NC_CHUNKED: 0,
+    NC_CONTIGUOUS: 1,
     
     // Data types
     NC_BYTE: 1,
@@ -18,6 +117,19 @@ export const NC_CONSTANTS = {
     NC_INT: 4,
     NC_FLOAT: 5,
     NC_DOUBLE: 6,
+    NC_UBYTE: 7,
+    NC_USHORT: 8,
+    NC_UINT: 9,
+    NC_INT64: 10,
+    NC_UINT64: 11,
+    NC_STRING: 12,
+
+    // User-defined type classes (nc_inq_user_type) and the first user type id
+    NC_VLEN: 13,
+    NC_OPAQUE: 14,
+    NC_ENUM: 15,
+    NC_COMPOUND: 16,
+    NC_FIRSTUSERTYPEID: 32,
     
     // Special values
     NC_UNLIMITED: -1000, // Use special value to distinguish from 0
@@ -32,12 +144,23 @@ export const DATA_TYPE_MAP: { [key: string]: number } = {
     'i2': NC_CONSTANTS.NC_SHORT,
     'i1': NC_CONSTANTS.NC_BYTE,
     'S1': NC_CONSTANTS.NC_CHAR,
+    'u1': NC_CONSTANTS.NC_UBYTE,
+    'u2': NC_CONSTANTS.NC_USHORT,
+    'u4': NC_CONSTANTS.NC_UINT,
+    'i8': NC_CONSTANTS.NC_INT64,
+    'u8': NC_CONSTANTS.NC_UINT64,
+    'str': NC_CONSTANTS.NC_STRING,
     'double': NC_CONSTANTS.NC_DOUBLE,
     'float': NC_CONSTANTS.NC_FLOAT,
     'int': NC_CONSTANTS.NC_INT,
     'short': NC_CONSTANTS.NC_SHORT,
     'byte': NC_CONSTANTS.NC_BYTE,
-    'char': NC_CONSTANTS.NC_CHAR
+    'char': NC_CONSTANTS.NC_CHAR,
+    'ubyte': NC_CONSTANTS.NC_UBYTE,
+    'ushort': NC_CONSTANTS.NC_USHORT,
+    'uint': NC_CONSTANTS.NC_UINT,
+    'int64': NC_CONSTANTS.NC_INT64,
+    'uint64': NC_CONSTANTS.NC_UINT64
 };
 
 // Reverse map: NetCDF type code -> datatype token (for reading existing files).
@@ -53,5 +176,37 @@ export const NC_TYPE_TO_STR: { [code: number]: string } = {
     9: 'u4',   // NC_UINT
     10: 'i8',  // NC_INT64
     11: 'u8',  // NC_UINT64
-    12: 'S1',  // NC_STRING
-};
\ No newline at end of file
+    12: 'str', // NC_STRING
+};
+// Default fill value per datatype token (NC_FILL_* in netcdf.h), used for
+// elements never written and by mask-and-scale when there is no _FillValue.
+export const DEFAULT_FILL_VALUES: { [token: string]: number | bigint } = {
+    'i1': -127,
+    'u1': 255,
+    'i2': -32767,
+    'u2': 65535,
+    'i4': -2147483647,
+    'u4': 4294967295,
+    'i8': -9223372036854775806n,
+    'u8': 18446744073709551614n,
+    'f4': 9.9692099683868690e+36,
+    'f8': 9.9692099683868690e+36,
+};
+
+// On-disk format code (nc_inq_format) -> format name used by file_format.
+export const NC_FORMAT_NAMES: { [code: number]: string } = {
+    1: 'NETCDF3_CLASSIC',
+    2: 'NETCDF3_64BIT_OFFSET',
+    3: 'NETCDF4',
+    4: 'NETCDF4_CLASSIC',
+    5: 'NETCDF3_64BIT_DATA',
+};
+
+// Format name -> nc_create mode flags that produce it.
+export const FORMAT_CREATE_MODES: { [format: string]: number } = {
+    'NETCDF3_CLASSIC': 0,
+    'NETCDF3_64BIT_OFFSET': NC_CONSTANTS.NC_64BIT_OFFSET,
+    'NETCDF3_64BIT_DATA': NC_CONSTANTS.NC_64BIT_DATA,
+    'NETCDF4': NC_CONSTANTS.NC_NETCDF4,
+    'NETCDF4_CLASSIC': NC_CONSTANTS.NC_NETCDF4 | NC_CONSTANTS.NC_CLASSIC_MODEL,
+};
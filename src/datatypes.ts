@@ -0,0 +1,143 @@
+// Native JavaScript representations of NetCDF numeric types
+//
+// Each numeric NetCDF type maps to the typed array that holds it losslessly and
+// to the C type suffix of its nc_get_vara_<suffix>/nc_put_vara_<suffix>
+// functions. Reading and writing through the matching suffix means NetCDF does
+// no conversion, so an i2 variable round-trips as Int16Array and an i8 variable
+// as BigInt64Array without passing through doubles.
+
+import { DATA_TYPE_MAP, NC_TYPE_TO_STR } from "./constants";
+import type { CompoundColumns, CompoundRecord } from "./usertypes";
+
+export type NumericArray =
+  | Int8Array
+  | Uint8Array
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | BigInt64Array
+  | BigUint64Array
+  | Float32Array
+  | Float64Array;
+
+/**
+ * Values read from a variable: a typed array for numeric and enum types (and
+ * raw NC_CHAR bytes), strings for NC_STRING and collapsed NC_CHAR data,
+ * records for compound types, and one typed array per element for opaque
+ * (Uint8Array) and vlen types.
+ */
+export type VariableData = NumericArray | string[] | CompoundRecord[] | NumericArray[];
+
+/** Values accepted by variable writes. */
+export type VariableInput =
+  | ArrayLike<number>
+  | NumericArray
+  | string
+  | string[]
+  | CompoundRecord[]
+  | CompoundColumns
+  | ArrayLike<number | bigint>[];
+
+export type NumericArrayConstructor =
+  | Int8ArrayConstructor
+  | Uint8ArrayConstructor
+  | Int16ArrayConstructor
+  | Uint16ArrayConstructor
+  | Int32ArrayConstructor
+  | Uint32ArrayConstructor
+  | BigInt64ArrayConstructor
+  | BigUint64ArrayConstructor
+  | Float32ArrayConstructor
+  | Float64ArrayConstructor;
+
+/** Suffix of the NetCDF C API functions for a memory type (nc_get_vara_<ctype>). */
+export type NcCType =
+  | "schar"
+  | "uchar"
+  | "short"
+  | "ushort"
+  | "int"
+  | "uint"
+  | "longlong"
+  | "ulonglong"
+  | "float"
+  | "double";
+
+/** Typed array used to marshal each C memory type across the WASM heap. */
+export const C_TYPE_ARRAYS: { [ctype in NcCType]: NumericArrayConstructor } = {
+  schar: Int8Array,
+  uchar: Uint8Array,
+  short: Int16Array,
+  ushort: Uint16Array,
+  int: Int32Array,
+  uint: Uint32Array,
+  longlong: BigInt64Array,
+  ulonglong: BigUint64Array,
+  float: Float32Array,
+  double: Float64Array,
+};
+
+/** Datatype token -> C memory type of its native representation. */
+export const NUMERIC_C_TYPES: { [token: string]: NcCType } = {
+  i1: "schar",
+  u1: "uchar",
+  i2: "short",
+  u2: "ushort",
+  i4: "int",
+  u4: "uint",
+  i8: "longlong",
+  u8: "ulonglong",
+  f4: "float",
+  f8: "double",
+};
+
+/**
+ * C memory type for a numeric datatype token or alias ('i2', 'short',
+ * 'uint64', ...), or undefined when the type is not numeric.
+ */
+export function numericCType(datatype: string): NcCType | undefined {
+  const code = DATA_TYPE_MAP[datatype];
+  const token = code !== undefined ? NC_TYPE_TO_STR[code] : datatype;
+  return NUMERIC_C_TYPES[token];
+}
+
+function isBigIntArray(ctor: NumericArrayConstructor): boolean {
+  return ctor === BigInt64Array || ctor === BigUint64Array;
+}
+
+/**
+ * Convert `data` to the typed array for `ctype`. An array that is already of
+ * the right type is returned as-is; otherwise values are converted, numbers
+ * being truncated towards zero when the target holds bigints.
+ */
+export function toNumericArray(
+  data: ArrayLike<number | bigint>,
+  ctype: NcCType,
+): NumericArray {
+  const ctor = C_TYPE_ARRAYS[ctype];
+  if (data instanceof ctor) {
+    return data as NumericArray;
+  }
+  const values = Array.from(data as ArrayLike<number | bigint>);
+  if (isBigIntArray(ctor)) {
+    return (ctor as BigInt64ArrayConstructor).from(
+      values.map((v) => (typeof v === "bigint" ? v : BigInt(Math.trunc(v)))),
+    );
+  }
+  return (ctor as Float64ArrayConstructor).from(values.map((v) => Number(v)));
+}
+
+/** A typed array of `length` elements of `ctype`, filled with `value`. */
+export function filledNumericArray(
+  ctype: NcCType,
+  length: number,
+  value: number | bigint,
+): NumericArray {
+  const ctor = C_TYPE_ARRAYS[ctype];
+  if (isBigIntArray(ctor)) {
+    const big = typeof value === "bigint" ? value : BigInt(Math.trunc(value));
+    return new (ctor as BigInt64ArrayConstructor)(length).fill(big);
+  }
+  return new (ctor as Float64ArrayConstructor)(length).fill(Number(value));
+}
@@ -1,18 +1,34 @@
 // Dimension class similar to netcdf4-python
 
+import type { NetCDF4 } from './netcdf4';
+
 export class Dimension {
     constructor(
         public readonly name: string,
-        public readonly size: number,
-        public readonly isUnlimited: boolean = false
+        private _size: number,
+        public readonly isUnlimited: boolean = false,
+        /** NetCDF dimension id; unique across all groups of a file. */
+        public readonly dimid: number = -1,
+        private netcdf?: NetCDF4,
+        private ncid: number = -1
     ) {}
 
+    // Current length. An unlimited dimension grows as records are written, so
+    // while the file is open its length is queried each time (nc_inq_dimlen);
+    // afterwards the last known length is returned.
+    get size(): number {
+        if (this.isUnlimited && this.netcdf?.isopen && this.dimid >= 0) {
+            this._size = this.netcdf.getDimensionLength(this.ncid, this.dimid);
+        }
+        return this._size;
+    }
+
     __len__(): number {
         return this.size;
     }
 
     toString(): string {
-        const sizeStr = this.isUnlimited ? 'unlimited' : this.size.toString();
+        const sizeStr = this.isUnlimited ? `unlimited, currently ${this.size}` : this.size.toString();
         return `<netCDF4.Dimension '${this.name}': size = ${sizeStr}>`;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,147 @@
+// Errors raised by failed NetCDF library calls
+//
+// Every NetCDF function returns a status code: 0 (NC_NOERR) on success, a
+// negative NC_E* code for a NetCDF failure or a positive errno for a system
+// one. NetCDFError carries that code along with its symbolic name, the text
+// nc_strerror gives for it and which call failed on which file.
+
+import { NC_CONSTANTS } from "./constants";
+
+/** Where a NetCDF call failed. */
+export interface NetCDFErrorContext {
+  /** The NetCDF C function that failed, e.g. 'nc_open' or 'nc_get_vars'. */
+  operation: string;
+  /** Path of the file the call was made on. */
+  path?: string;
+  /** Name of the variable the call was made on. */
+  variable?: string;
+}
+
+/** Symbolic name of a NetCDF status code, e.g. 'NC_ENOTVAR' for -49. */
+export function errorCodeName(code: number): string | undefined {
+  return Object.keys(NC_CONSTANTS).find(
+    (key) =>
+      (key.startsWith("NC_E") || key === "NC_NOERR" || key === "NC2_ERR") &&
+      NC_CONSTANTS[key as keyof typeof NC_CONSTANTS] === code,
+  );
+}
+
+export class NetCDFError extends Error {
+  /** Symbolic name of `code`, or undefined for system (errno) codes. */
+  readonly codeName: string | undefined;
+  readonly operation: string;
+  readonly path: string | undefined;
+  readonly variable: string | undefined;
+
+  /**
+   * `message` says what failed; the code, its description `strerror` (from
+   * nc_strerror) and symbolic name are appended to it.
+   */
+  constructor(
+    message: string,
+    /** The status code returned by NetCDF. */
+    readonly code: number,
+    /** nc_strerror's description of `code`. */
+    readonly strerror: string,
+    context: NetCDFErrorContext,
+  ) {
+    const codeName = errorCodeName(code);
+    super(`${message} (error: ${code}): ${strerror}${codeName ? ` (${codeName})` : ""}`);
+    this.name = "NetCDFError";
+    this.codeName = codeName;
+    this.operation = context.operation;
+    this.path = context.path;
+    this.variable = context.variable;
+  }
+}
+
+/**
+ * nc_strerror's text for the NetCDF status codes, as of netCDF-C 4.9. The
+ * test-mode mock module answers nc_strerror from this table.
+ */
+export const NC_STRERROR_MESSAGES: { [code: number]: string } = {
+  [NC_CONSTANTS.NC_NOERR]: "No error",
+  [NC_CONSTANTS.NC_EBADID]: "NetCDF: Not a valid ID",
+  [NC_CONSTANTS.NC_ENFILE]: "NetCDF: Too many files open",
+  [NC_CONSTANTS.NC_EEXIST]: "NetCDF: File exists && NC_NOCLOBBER",
+  [NC_CONSTANTS.NC_EINVAL]: "NetCDF: Invalid argument",
+  [NC_CONSTANTS.NC_EPERM]: "NetCDF: Write to read only",
+  [NC_CONSTANTS.NC_ENOTINDEFINE]: "NetCDF: Operation not allowed in data mode",
+  [NC_CONSTANTS.NC_EINDEFINE]: "NetCDF: Operation not allowed in define mode",
+  [NC_CONSTANTS.NC_EINVALCOORDS]: "NetCDF: Index exceeds dimension bound",
+  [NC_CONSTANTS.NC_EMAXDIMS]: "NetCDF: NC_MAX_DIMS exceeded",
+  [NC_CONSTANTS.NC_ENAMEINUSE]: "NetCDF: String match to name in use",
+  [NC_CONSTANTS.NC_ENOTATT]: "NetCDF: Attribute not found",
+  [NC_CONSTANTS.NC_EMAXATTS]: "NetCDF: NC_MAX_ATTRS exceeded",
+  [NC_CONSTANTS.NC_EBADTYPE]: "NetCDF: Not a valid data type or _FillValue type mismatch",
+  [NC_CONSTANTS.NC_EBADDIM]: "NetCDF: Invalid dimension ID or name",
+  [NC_CONSTANTS.NC_EUNLIMPOS]: "NetCDF: NC_UNLIMITED in the wrong index",
+  [NC_CONSTANTS.NC_EMAXVARS]: "NetCDF: NC_MAX_VARS exceeded",
+  [NC_CONSTANTS.NC_ENOTVAR]: "NetCDF: Variable not found",
+  [NC_CONSTANTS.NC_EGLOBAL]: "NetCDF: Action prohibited on NC_GLOBAL varid",
+  [NC_CONSTANTS.NC_ENOTNC]: "NetCDF: Unknown file format",
+  [NC_CONSTANTS.NC_ESTS]: "NetCDF: In Fortran, string too short",
+  [NC_CONSTANTS.NC_EMAXNAME]: "NetCDF: NC_MAX_NAME exceeded",
+  [NC_CONSTANTS.NC_EUNLIMIT]: "NetCDF: NC_UNLIMITED size already in use",
+  [NC_CONSTANTS.NC_ENORECVARS]: "NetCDF: nc_rec op when there are no record vars",
+  [NC_CONSTANTS.NC_ECHAR]: "NetCDF: Attempt to convert between text & numbers",
+  [NC_CONSTANTS.NC_EEDGE]: "NetCDF: Start+count exceeds dimension bound",
+  [NC_CONSTANTS.NC_ESTRIDE]: "NetCDF: Illegal stride",
+  [NC_CONSTANTS.NC_EBADNAME]: "NetCDF: Name contains illegal characters",
+  [NC_CONSTANTS.NC_ERANGE]: "NetCDF: Numeric conversion not representable",
+  [NC_CONSTANTS.NC_ENOMEM]: "NetCDF: Memory allocation (malloc) failure",
+  [NC_CONSTANTS.NC_EVARSIZE]: "NetCDF: One or more variable sizes violate format constraints",
+  [NC_CONSTANTS.NC_EDIMSIZE]: "NetCDF: Invalid dimension size",
+  [NC_CONSTANTS.NC_ETRUNC]: "NetCDF: File likely truncated or possibly corrupted",
+  [NC_CONSTANTS.NC_EAXISTYPE]: "NetCDF: Illegal axis type",
+  [NC_CONSTANTS.NC_EDAP]: "NetCDF: DAP failure",
+  [NC_CONSTANTS.NC_ECURL]: "NetCDF: libcurl failure",
+  [NC_CONSTANTS.NC_EIO]: "NetCDF: I/O failure",
+  [NC_CONSTANTS.NC_ENODATA]: "NetCDF: Variable has no data in DAP request",
+  [NC_CONSTANTS.NC_EDAPSVC]: "NetCDF: DAP server error",
+  [NC_CONSTANTS.NC_EDAS]: "NetCDF: Malformed or inaccessible DAP DAS",
+  [NC_CONSTANTS.NC_EDDS]: "NetCDF: Malformed or inaccessible DAP2 DDS or DAP4 DMR response",
+  [NC_CONSTANTS.NC_EDATADDS]: "NetCDF: Malformed or inaccessible DAP2 DATADDS or DAP4 DAP response",
+  [NC_CONSTANTS.NC_EDAPURL]: "NetCDF: Malformed URL",
+  [NC_CONSTANTS.NC_EDAPCONSTRAINT]: "NetCDF: Malformed or unexpected Constraint",
+  [NC_CONSTANTS.NC_ETRANSLATION]: "NetCDF: Untranslatable construct",
+  [NC_CONSTANTS.NC_EACCESS]: "NetCDF: Access failure",
+  [NC_CONSTANTS.NC_EAUTH]: "NetCDF: Authorization failure",
+  [NC_CONSTANTS.NC_ENOTFOUND]: "NetCDF: file not found",
+  [NC_CONSTANTS.NC_ECANTREMOVE]: "NetCDF: cannot delete file",
+  [NC_CONSTANTS.NC_EINTERNAL]: "NetCDF: internal library error; Please contact Unidata support",
+  [NC_CONSTANTS.NC_EPNETCDF]: "NetCDF: PnetCDF error",
+  [NC_CONSTANTS.NC_EHDFERR]: "NetCDF: HDF error",
+  [NC_CONSTANTS.NC_ECANTREAD]: "NetCDF: Can't read file",
+  [NC_CONSTANTS.NC_ECANTWRITE]: "NetCDF: Can't write file",
+  [NC_CONSTANTS.NC_ECANTCREATE]: "NetCDF: Can't create file",
+  [NC_CONSTANTS.NC_EFILEMETA]: "NetCDF: Can't add HDF5 file metadata",
+  [NC_CONSTANTS.NC_EDIMMETA]: "NetCDF: Can't define dimensional metadata",
+  [NC_CONSTANTS.NC_EATTMETA]: "NetCDF: Can't open HDF5 attribute",
+  [NC_CONSTANTS.NC_EVARMETA]: "NetCDF: Problem with variable metadata.",
+  [NC_CONSTANTS.NC_ENOCOMPOUND]: "NetCDF: Can't create HDF5 compound type",
+  [NC_CONSTANTS.NC_EATTEXISTS]: "NetCDF: Attempt to create attribute that already exists",
+  [NC_CONSTANTS.NC_ENOTNC4]: "NetCDF: Attempting netcdf-4 operation on netcdf-3 file",
+  [NC_CONSTANTS.NC_ESTRICTNC3]: "NetCDF: Attempting netcdf-4 operation on strict nc3 netcdf-4 file",
+  [NC_CONSTANTS.NC_ENOTNC3]: "NetCDF: Attempting netcdf-3 operation on netcdf-4 file",
+  [NC_CONSTANTS.NC_ENOPAR]: "NetCDF: Parallel operation on file opened for non-parallel access",
+  [NC_CONSTANTS.NC_EPARINIT]: "NetCDF: Error initializing for parallel access",
+  [NC_CONSTANTS.NC_EBADGRPID]: "NetCDF: Bad group ID",
+  [NC_CONSTANTS.NC_EBADTYPID]: "NetCDF: Bad type ID",
+  [NC_CONSTANTS.NC_ETYPDEFINED]: "NetCDF: Type has already been defined and may not be edited",
+  [NC_CONSTANTS.NC_EBADFIELD]: "NetCDF: Bad field ID",
+  [NC_CONSTANTS.NC_EBADCLASS]: "NetCDF: Bad class",
+  [NC_CONSTANTS.NC_EMAPTYPE]: "NetCDF: Mapped access for atomic types only",
+  [NC_CONSTANTS.NC_ELATEFILL]: "NetCDF: Attempt to define fill value when data already exists.",
+  [NC_CONSTANTS.NC_ELATEDEF]: "NetCDF: Attempt to define var properties, like deflate, after enddef.",
+  [NC_CONSTANTS.NC_EDIMSCALE]: "NetCDF: Problem with HDF5 dimscales.",
+  [NC_CONSTANTS.NC_ENOGRP]: "NetCDF: No group found.",
+  [NC_CONSTANTS.NC_ESTORAGE]: "NetCDF: Cannot specify both contiguous and chunking.",
+  [NC_CONSTANTS.NC_EBADCHUNK]: "NetCDF: Bad chunk sizes.",
+  [NC_CONSTANTS.NC_ENOTBUILT]: "NetCDF: Attempt to use feature that was not turned on when netCDF was built.",
+  [NC_CONSTANTS.NC_EDISKLESS]: "NetCDF: Error in using diskless access",
+  [NC_CONSTANTS.NC_EFILTER]: "NetCDF: Filter error: bad id or parameters or duplicate filter",
+  [NC_CONSTANTS.NC_ENULLPAD]: "NetCDF: File fails strict Null-Byte Header check.",
+  [NC_CONSTANTS.NC_EINMEMORY]: "NetCDF: In-memory File operation failed.",
+  [NC_CONSTANTS.NC_ENOFILTER]: "NetCDF: Filter error: undefined filter encountered",
+};
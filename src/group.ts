@@ -4,42 +4,93 @@ import type { NetCDF4 } from './netcdf4';
 import { Dimension } from './dimension';
 import { Variable } from './variable';
 import { NC_CONSTANTS, DATA_TYPE_MAP, NC_TYPE_TO_STR } from './constants';
-import type { VariableOptions, NetCDF4Module } from './types';
+import { describeAttribute } from './attributes';
+import { numericCType } from './datatypes';
+import { CompoundType, EnumType, OpaqueType, VLType, layoutCompound } from './usertypes';
+import type { CompoundFieldSpec, EnumMembers, UserType } from './usertypes';
+import type { AttributeInfo, VariableOptions } from './types';
 
 export class Group {
     public readonly dimensions: { [name: string]: Dimension } = {};
     public readonly variables: { [name: string]: Variable } = {};
     public readonly groups: { [name: string]: Group } = {};
+    public readonly cmptypes: { [name: string]: CompoundType } = {};
+    public readonly enumtypes: { [name: string]: EnumType } = {};
+    public readonly opaquetypes: { [name: string]: OpaqueType } = {};
+    public readonly vltypes: { [name: string]: VLType } = {};
     private _attributes: { [key: string]: any } = {};
+    private _attributeInfo: { [key: string]: Omit<AttributeInfo, 'value'> } = {};
+    private autoMask: boolean;
+    private autoScale: boolean;
+    private autoCharToString: boolean;
 
     constructor(
         protected netcdf: NetCDF4,
         public readonly name: string,
-        protected groupId: number
-    ) {}
+        protected groupId: number,
+        public readonly parent: Group | null = null
+    ) {
+        this.autoMask = parent ? parent.autoMask : true;
+        this.autoScale = parent ? parent.autoScale : true;
+        this.autoCharToString = parent ? parent.autoCharToString : true;
+    }
+
+    /** @internal Mock storage node for this group (test mode only). */
+    mockStorage(): any {
+        const mockFiles = (global as any).__netcdf4_mock_files;
+        const dataset = this.netcdf as any;
+        if (!mockFiles || !dataset.filename) return undefined;
+        if (!this.parent) return mockFiles[dataset.filename];
+        return this.parent.mockStorage()?.groups?.[this.name];
+    }
 
-    // Attribute methods
-    setAttr(name: string, value: any): void {
+    // Attribute methods. The value is written to the open file; `datatype`
+    // ('f4', 'i2', 'S1', ...) overrides the type inferred from the value.
+    setAttr(name: string, value: any, datatype?: string): void {
+        if (this.netcdf.isopen) {
+            this.netcdf.putAttribute(this.groupId, NC_CONSTANTS.NC_GLOBAL, name, value, datatype);
+        }
         this._attributes[name] = value;
+        this.setAttrInfo(name, describeAttribute(name, value, datatype));
         
         // Store in mock file system if in test mode
         if (typeof process !== 'undefined' && process.env.NODE_ENV === 'test') {
-            const mockFiles = (global as any).__netcdf4_mock_files;
-            const dataset = this.netcdf as any;
-            if (mockFiles && dataset.filename && mockFiles[dataset.filename]) {
-                mockFiles[dataset.filename].attributes[name] = value;
+            const storage = this.mockStorage();
+            if (storage) {
+                storage.attributes[name] = value;
             }
         }
-        // TODO: Implement actual NetCDF global attribute setting
+    }
+
+    /** @internal Record an attribute read from the file without writing it back. */
+    restoreAttr(name: string, value: any, info?: Omit<AttributeInfo, 'value'>): void {
+        this._attributes[name] = value;
+        this.setAttrInfo(name, info);
+    }
+
+    private setAttrInfo(name: string, info: Omit<AttributeInfo, 'value'> | undefined): void {
+        if (info) {
+            this._attributeInfo[name] = info;
+        } else {
+            delete this._attributeInfo[name];
+        }
+    }
+
+    // Stored type and length of an attribute along with its value, e.g.
+    // { type: 'i8', length: 1, value: -9999n }.
+    getAttrInfo(name: string): AttributeInfo | undefined {
+        const value = this.getAttr(name);
+        if (value === undefined) return undefined;
+        const info = this._attributeInfo[name] ?? describeAttribute(name, value);
+        return info ? { ...info, value } : undefined;
     }
 
     getAttr(name: string): any {
         // Check mock file system first if in test mode
         if (typeof process !== 'undefined' && process.env.NODE_ENV === 'test') {
-            const mockFiles = (global as any).__netcdf4_mock_files;
-            const dataset = this.netcdf as any;
-            if (mockFiles && dataset.filename && mockFiles[dataset.filename]) {
-                const value = mockFiles[dataset.filename].attributes[name];
+            const storage = this.mockStorage();
+            if (storage) {
+                const value = storage.attributes[name];
                 if (value !== undefined) {
                     this._attributes[name] = value; // Sync local cache
                     return value;
@@ -69,149 +120,443 @@ export class Group {
         const ncSize = isUnlimited ? 0 : size as number; // Use 0 for unlimited in the actual NetCDF API
         const dimid = await this.netcdf.defineDimension(this.groupId, name, ncSize);
         
-        const actualSize = isUnlimited ? NC_CONSTANTS.NC_UNLIMITED : size as number;
-        const dimension = new Dimension(name, actualSize, isUnlimited);
+        // An unlimited dimension starts with no records.
+        const dimension = new Dimension(name, ncSize, isUnlimited, dimid, this.netcdf, this.groupId);
         this.dimensions[name] = dimension;
         return dimension;
     }
 
-    // Load dimensions and variables from mock storage when in test mode
+    // Look a dimension up by name in this group, then in its ancestors, the
+    // way NetCDF resolves dimension names for variables.
+    findDimension(name: string): Dimension | undefined {
+        return this.dimensions[name] ?? this.parent?.findDimension(name);
+    }
+
+    private findDimensionById(dimid: number): Dimension | undefined {
+        const own = Object.values(this.dimensions).find(d => d.dimid === dimid);
+        return own ?? this.parent?.findDimensionById(dimid);
+    }
+
+    /**
+     * Define a compound (struct) type, like netcdf4-python's
+     * createCompoundType. Fields are laid out in order with C alignment; a
+     * field's datatype is a numeric token, 'S1' or a compound type visible
+     * from this group, and `shape` makes it a fixed-size array.
+     */
+    async createCompoundType(name: string, fields: CompoundFieldSpec[]): Promise<CompoundType> {
+        this.checkNewType('Compound type', name);
+        const resolved = fields.map(field => {
+            const nested = typeof field.datatype === 'string' ? this.findUserType(field.datatype) : field.datatype;
+            return nested instanceof CompoundType ? { ...field, datatype: nested } : field;
+        });
+        const { fields: laidOut, size } = layoutCompound(name, resolved);
+        const typeid = await this.netcdf.defineCompoundType(this.groupId, name, size, laidOut.map(field => ({
+            name: field.name,
+            offset: field.offset,
+            xtype: typeof field.datatype === 'string' ? DATA_TYPE_MAP[field.datatype] : field.datatype.typeid,
+            shape: field.shape,
+        })));
+        const type = new CompoundType(name, laidOut, size, typeid);
+        this.cmptypes[name] = type;
+        return type;
+    }
+
+    /**
+     * Define an enum type, like netcdf4-python's createEnumType: values of
+     * the integer type `baseType` ('u1', 'i4', ...), some of which are named
+     * by `members`, e.g. { clear: 0, cloudy: 1, missing: 255 }.
+     */
+    async createEnumType(name: string, baseType: string, members: EnumMembers): Promise<EnumType> {
+        this.checkNewType('Enum type', name);
+        const token = NC_TYPE_TO_STR[DATA_TYPE_MAP[baseType]];
+        const ctype = numericCType(token);
+        if (ctype === undefined || ctype === 'float' || ctype === 'double') {
+            throw new Error(`Enum type '${name}' has unsupported base type ${baseType}`);
+        }
+        const entries = Object.entries(members);
+        if (entries.length === 0) {
+            throw new Error(`Enum type '${name}' must have at least one member`);
+        }
+        const seen = new Set<string>();
+        for (const [label, value] of entries) {
+            if (typeof value !== 'bigint' && !Number.isInteger(value)) {
+                throw new Error(`Member '${label}' of enum type '${name}' must be an integer, got ${value}`);
+            }
+            if (seen.has(String(value))) {
+                throw new Error(`Enum type '${name}' has more than one member with value ${value}`);
+            }
+            seen.add(String(value));
+        }
+        const typeid = await this.netcdf.defineEnumType(this.groupId, name, DATA_TYPE_MAP[token], ctype, entries);
+        const type = new EnumType(name, token, { ...members }, typeid);
+        this.enumtypes[name] = type;
+        return type;
+    }
+
+    /** Define an opaque type: uninterpreted blobs of `size` bytes. */
+    async createOpaqueType(name: string, size: number): Promise<OpaqueType> {
+        this.checkNewType('Opaque type', name);
+        if (!Number.isInteger(size) || size <= 0) {
+            throw new Error(`Opaque type '${name}' size must be a positive integer, got ${size}`);
+        }
+        const typeid = await this.netcdf.defineOpaqueType(this.groupId, name, size);
+        const type = new OpaqueType(name, size, typeid);
+        this.opaquetypes[name] = type;
+        return type;
+    }
+
+    /**
+     * Define a variable-length type, like netcdf4-python's createVLType:
+     * each element holds any number of values of the numeric `baseType`.
+     */
+    async createVLType(name: string, baseType: string): Promise<VLType> {
+        this.checkNewType('Vlen type', name);
+        const token = NC_TYPE_TO_STR[DATA_TYPE_MAP[baseType]];
+        if (numericCType(token) === undefined) {
+            throw new Error(`Vlen type '${name}' has unsupported base type ${baseType}`);
+        }
+        const typeid = await this.netcdf.defineVLType(this.groupId, name, DATA_TYPE_MAP[token]);
+        const type = new VLType(name, token, typeid);
+        this.vltypes[name] = type;
+        return type;
+    }
+
+    // Type names are unique within a group, may not shadow built-in types and
+    // need the enhanced data model.
+    private checkNewType(kind: string, name: string): void {
+        if (this.ownUserTypes().some(t => t.name === name)) {
+            throw new Error(`${kind} '${name}' already exists`);
+        }
+        if (DATA_TYPE_MAP[name] !== undefined) {
+            throw new Error(`${kind} name '${name}' is a built-in datatype`);
+        }
+        const format = this.netcdf.file_format;
+        if (format !== 'NETCDF4') {
+            throw new Error(`${kind}s require a NETCDF4 file, but this file is ${format}`);
+        }
+    }
+
+    private ownUserTypes(): UserType[] {
+        return [
+            ...Object.values(this.cmptypes),
+            ...Object.values(this.enumtypes),
+            ...Object.values(this.opaquetypes),
+            ...Object.values(this.vltypes),
+        ];
+    }
+
+    // Look a user-defined type up by name in this group, then its ancestors.
+    findUserType(name: string): UserType | undefined {
+        return this.ownUserTypes().find(t => t.name === name) ?? this.parent?.findUserType(name);
+    }
+
+    private findUserTypeById(typeid: number): UserType | undefined {
+        const own = this.ownUserTypes().find(t => t.typeid === typeid);
+        return own ?? this.parent?.findUserTypeById(typeid);
+    }
+
+    // Load the user-defined types defined in this group. A compound field may
+    // use another compound type of the group, which is then loaded first.
+    // Vlens of non-numeric types are not loaded.
+    private loadUserTypes(): void {
+        const ncid = this.groupId;
+        const typeids = this.netcdf.getUserTypeIds(ncid);
+        const load = (typeid: number): UserType | undefined => {
+            const known = this.findUserTypeById(typeid);
+            if (known || !typeids.includes(typeid)) return known;
+            const info = this.netcdf.getUserType(ncid, typeid);
+            if (info.typeClass === NC_CONSTANTS.NC_ENUM) {
+                const baseType = NC_TYPE_TO_STR[info.baseType];
+                const members: EnumMembers = {};
+                for (let i = 0; i < info.nfields; i++) {
+                    const m = this.netcdf.getEnumMember(ncid, typeid, i, numericCType(baseType)!);
+                    members[m.name] = m.value;
+                }
+                return (this.enumtypes[info.name] = new EnumType(info.name, baseType, members, typeid));
+            }
+            if (info.typeClass === NC_CONSTANTS.NC_VLEN) {
+                const baseType = NC_TYPE_TO_STR[info.baseType];
+                if (numericCType(baseType) === undefined) return undefined;
+                return (this.vltypes[info.name] = new VLType(info.name, baseType, typeid));
+            }
+            if (info.typeClass === NC_CONSTANTS.NC_OPAQUE) {
+                return (this.opaquetypes[info.name] = new OpaqueType(info.name, info.size, typeid));
+            }
+            if (info.typeClass !== NC_CONSTANTS.NC_COMPOUND) return undefined;
+            const fields = [];
+            for (let i = 0; i < info.nfields; i++) {
+                const f = this.netcdf.getCompoundField(ncid, typeid, i);
+                const nested = NC_TYPE_TO_STR[f.fieldType] === undefined ? load(f.fieldType) : undefined;
+                const datatype = nested instanceof CompoundType ? nested : NC_TYPE_TO_STR[f.fieldType];
+                if (datatype === undefined) return undefined;
+                fields.push({ name: f.name, datatype, shape: f.dims, offset: f.offset });
+            }
+            const type = new CompoundType(info.name, fields, info.size, typeid);
+            this.cmptypes[info.name] = type;
+            return type;
+        };
+        typeids.forEach(load);
+    }
+
+    // Datatype of a variable read from the file: its token for atomic types,
+    // otherwise the name of its user-defined type.
+    private datatypeOf(xtype: number): string {
+        const token = NC_TYPE_TO_STR[xtype];
+        if (token) return token;
+        return this.findUserTypeById(xtype)?.name ?? this.netcdf.getUserType(this.groupId, xtype).name;
+    }
+
+    // Load dimensions, variables and subgroups from mock storage when in test mode
     public loadMockDimensions(): void {
         if (typeof process !== 'undefined' && process.env.NODE_ENV === 'test') {
-            const mockFiles = (global as any).__netcdf4_mock_files;
-            const dataset = this.netcdf as any;
-            if (mockFiles && dataset.filename && mockFiles[dataset.filename]) {
+            const storage = this.mockStorage();
+            if (storage) {
+                this.loadUserTypes();
+
                 // Load dimensions
-                const mockDims = mockFiles[dataset.filename].dimensions;
-                for (const [name, dimData] of Object.entries(mockDims as any)) {
-                    const dimension = new Dimension(name, (dimData as any).size, (dimData as any).unlimited);
+                for (const [name, dimData] of Object.entries(storage.dimensions as any)) {
+                    const { size, unlimited, dimid } = dimData as any;
+                    const dimension = new Dimension(name, size, unlimited, dimid ?? -1, this.netcdf, this.groupId);
                     this.dimensions[name] = dimension;
                 }
                 
-                // Load variables
-                const mockVars = mockFiles[dataset.filename].variables;
-                for (const [name, varData] of Object.entries(mockVars as any)) {
+                // Load variables (mock varids are 1-based in storage order)
+                Object.entries(storage.variables as any).forEach(([name, varData], index) => {
                     const varInfo = varData as any;
-                    // Reconstruct variable - for now, assume double datatype and no dimensions for simplicity
-                    const variable = new Variable(this.netcdf, name, varInfo.datatype || 'f8', varInfo.dimensions || [], 1, this.groupId);
+                    const variable = new Variable(this.netcdf, name, varInfo.datatype || 'f8', varInfo.dimensions || [], index + 1, this.groupId, this);
                     // Restore variable attributes
                     if (varInfo.attributes) {
                         for (const [attrName, attrValue] of Object.entries(varInfo.attributes)) {
-                            variable.setAttr(attrName, attrValue);
+                            variable.restoreAttr(attrName, attrValue);
                         }
                     }
-                    this.variables[name] = variable;
-                }
+                    this.addVariable(variable);
+                });
+
+                this.loadSubgroups(group => group.loadMockDimensions());
             }
         }
     }
 
-    // Load dimensions, variables and attributes from an opened real file.
+    // Load dimensions, variables, attributes and subgroups from an opened real file.
     public loadFromFile(): void {
         const module = this.netcdf.getModule();
         const ncid = this.groupId;
+        this.loadUserTypes();
 
-        const ndimsRes = module.nc_inq_ndims(ncid);
-        if (ndimsRes.result !== NC_CONSTANTS.NC_NOERR) return;
-        const unlimdimid = module.nc_inq_unlimdim(ncid).unlimdimid;
-
-        const dimNames: string[] = [];
-        for (let dimid = 0; dimid < ndimsRes.ndims; dimid++) {
+        // Only the dimensions defined in this group; ancestors load their own.
+        const dimidsRes = module.nc_inq_dimids(ncid, false);
+        if (dimidsRes.result !== NC_CONSTANTS.NC_NOERR) return;
+        const unlimited = new Set(module.nc_inq_unlimdims(ncid).unlimdimids);
+        for (const dimid of dimidsRes.dimids) {
             const d = module.nc_inq_dim(ncid, dimid);
             if (d.result !== NC_CONSTANTS.NC_NOERR) continue;
-            dimNames[dimid] = d.name;
-            this.dimensions[d.name] = new Dimension(d.name, d.len, dimid === unlimdimid);
+            this.dimensions[d.name] = new Dimension(d.name, d.len, unlimited.has(dimid), dimid, this.netcdf, ncid);
         }
 
         const nvars = module.nc_inq_nvars(ncid).nvars;
         for (let varid = 0; varid < nvars; varid++) {
             const v = module.nc_inq_var(ncid, varid);
             if (v.result !== NC_CONSTANTS.NC_NOERR) continue;
-            const datatype = NC_TYPE_TO_STR[v.xtype] ?? 'f8';
+            const datatype = this.datatypeOf(v.xtype);
             const varDims = v.dimids
-                .map((id: number) => dimNames[id])
+                .map((id: number) => this.findDimensionById(id)?.name)
                 .filter((n: string | undefined): n is string => !!n);
-            const variable = new Variable(this.netcdf, v.name, datatype, varDims, varid, ncid);
-            this.loadAttributes(module, ncid, varid, v.natts, (n, val) => variable.setAttr(n, val));
-            this.variables[v.name] = variable;
+            const variable = new Variable(this.netcdf, v.name, datatype, varDims, varid, ncid, this);
+            this.loadAttributes(ncid, varid, v.natts, (n, { value, ...info }) => variable.restoreAttr(n, value, info));
+            this.addVariable(variable);
         }
 
         const globalNatts = module.nc_inq_natts(ncid).natts;
-        this.loadAttributes(module, ncid, NC_CONSTANTS.NC_GLOBAL, globalNatts, (n, val) => this.setAttr(n, val));
+        this.loadAttributes(ncid, NC_CONSTANTS.NC_GLOBAL, globalNatts, (n, { value, ...info }) => this.restoreAttr(n, value, info));
+
+        this.loadSubgroups(group => group.loadFromFile());
+    }
+
+    private loadSubgroups(load: (group: Group) => void): void {
+        const module = this.netcdf.getModule();
+        const grps = module.nc_inq_grps(this.groupId);
+        if (grps.result !== NC_CONSTANTS.NC_NOERR) return;
+        for (const grpid of grps.ncids) {
+            const gn = module.nc_inq_grpname(grpid);
+            if (gn.result !== NC_CONSTANTS.NC_NOERR) continue;
+            const group = new Group(this.netcdf, gn.name, grpid, this);
+            this.groups[gn.name] = group;
+            load(group);
+        }
     }
 
+    // Read attributes in their stored type; user-defined types are skipped.
     private loadAttributes(
-        module: NetCDF4Module,
         ncid: number,
         varid: number,
         natts: number,
-        set: (name: string, value: any) => void,
+        set: (name: string, info: AttributeInfo) => void,
     ): void {
+        const module = this.netcdf.getModule();
         for (let attnum = 0; attnum < natts; attnum++) {
             const an = module.nc_inq_attname(ncid, varid, attnum);
             if (an.result !== NC_CONSTANTS.NC_NOERR) continue;
-            const ai = module.nc_inq_att(ncid, varid, an.name);
-            if (ai.result !== NC_CONSTANTS.NC_NOERR) continue;
-            let value: any;
-            if (ai.xtype === NC_CONSTANTS.NC_CHAR) {
-                value = module.nc_get_att_text(ncid, varid, an.name, ai.len).text;
-            } else {
-                const r = module.nc_get_att_double(ncid, varid, an.name, ai.len);
-                value = ai.len === 1 ? r.values[0] : Array.from(r.values);
-            }
-            set(an.name, value);
+            const info = this.netcdf.getAttribute(ncid, varid, an.name);
+            if (info) set(an.name, info);
         }
     }
 
     async createVariable(
         name: string, 
-        datatype: string, 
+        datatype: string | UserType, 
         dimensions: string[] = [],
         options: VariableOptions = {}
     ): Promise<Variable> {
-        const ncType = DATA_TYPE_MAP[datatype];
-        if (ncType === undefined) {
-            throw new Error(`Unsupported datatype: ${datatype}`);
+        // A user-defined type is given as the type or by name
+        const typeName = typeof datatype === 'object' && datatype !== null ? datatype.name : datatype;
+        const userType = this.findUserType(typeName);
+        const ncType = DATA_TYPE_MAP[typeName] ?? userType?.typeid;
+        if (ncType === undefined || (typeName !== datatype && userType !== datatype)) {
+            throw new Error(`Unsupported datatype: ${typeName}`);
+        }
+        if (ncType === NC_CONSTANTS.NC_STRING && this.netcdf.file_format !== 'NETCDF4') {
+            throw new Error(`Datatype ${typeName} requires a NETCDF4 file, but this file is ${this.netcdf.file_format}`);
         }
+        this.checkVariableOptions(name, dimensions.length, options);
 
-        // Get dimension IDs
+        // Get dimension IDs; dimensions may come from this group or an ancestor
         const dimIds = dimensions.map(dimName => {
-            const dim = this.dimensions[dimName];
+            const dim = this.findDimension(dimName);
             if (!dim) {
                 throw new Error(`Dimension '${dimName}' not found`);
             }
-            // For now, we'll use the dimension name as ID (simplified)
-            return Object.keys(this.dimensions).indexOf(dimName);
+            return dim.dimid;
         });
 
         const varid = await this.netcdf.defineVariable(this.groupId, name, ncType, dimIds);
-        const variable = new Variable(this.netcdf, name, datatype, dimensions, varid, this.groupId);
-        this.variables[name] = variable;
+        const variable = this.addVariable(new Variable(this.netcdf, name, typeName, dimensions, varid, this.groupId, this));
         
         // Store variable metadata in mock storage if in test mode
         if (typeof process !== 'undefined' && process.env.NODE_ENV === 'test') {
-            const mockFiles = (global as any).__netcdf4_mock_files;
-            const dataset = this.netcdf as any;
-            if (mockFiles && dataset.filename && mockFiles[dataset.filename]) {
-                mockFiles[dataset.filename].variables[name] = {
-                    datatype: datatype,
+            const storage = this.mockStorage();
+            if (storage) {
+                storage.variables[name] = {
+                    datatype: typeName,
                     dimensions: dimensions,
                     data: new Float64Array(0),
                     attributes: {}
                 };
             }
         }
+
+        // Storage settings must be applied before the variable's first write
+        if (options.chunksizes || options.contiguous) {
+            await this.netcdf.defineVariableChunking(this.groupId, varid, !!options.contiguous, options.chunksizes);
+        }
+        if (options.zlib) {
+            await this.netcdf.defineVariableDeflate(this.groupId, varid, options.shuffle ?? true, options.complevel ?? 4);
+        }
+        if (options.fletcher32) {
+            await this.netcdf.defineVariableFletcher32(this.groupId, varid);
+        }
         
         return variable;
     }
 
+    // Reject storage options the file format or the variable cannot take,
+    // before anything is defined.
+    private checkVariableOptions(name: string, ndims: number, options: VariableOptions): void {
+        const { zlib, complevel, fletcher32, contiguous, chunksizes } = options;
+        if (complevel !== undefined && !(Number.isInteger(complevel) && complevel >= 0 && complevel <= 9)) {
+            throw new Error(`Variable '${name}': complevel must be an integer from 0 to 9, got ${complevel}`);
+        }
+        if (!zlib && !fletcher32 && !contiguous && !chunksizes) return;
+
+        const format = this.netcdf.file_format;
+        if (!format.startsWith('NETCDF4')) {
+            throw new Error(
+                `Variable '${name}': zlib, fletcher32, contiguous and chunksizes require a NETCDF4 file, but this file is ${format}`
+            );
+        }
+        if (contiguous && (zlib || fletcher32 || chunksizes)) {
+            throw new Error(`Variable '${name}': contiguous storage cannot be combined with zlib, fletcher32 or chunksizes`);
+        }
+        if (chunksizes) {
+            if (chunksizes.length !== ndims) {
+                throw new Error(`Variable '${name}': chunksizes has ${chunksizes.length} entries but the variable has ${ndims} dimensions`);
+            }
+            if (!chunksizes.every(c => Number.isInteger(c) && c > 0)) {
+                throw new Error(`Variable '${name}': chunksizes must be positive integers, got [${chunksizes.join(', ')}]`);
+            }
+        }
+    }
+
     createGroup(name: string): Group {
-        // For simplicity, groups use the same ncid for now
-        const group = new Group(this.netcdf, name, this.groupId);
+        if (this.groups[name]) {
+            throw new Error(`Group '${name}' already exists`);
+        }
+        if (!this.netcdf.isopen) {
+            throw new Error(`Cannot create group '${name}': the dataset is not open`);
+        }
+        const grpid = this.netcdf.defineGroup(this.groupId, name);
+        const group = new Group(this.netcdf, name, grpid, this);
         this.groups[name] = group;
         return group;
     }
 
+    /**
+     * Look up a group or variable by path, e.g. 'forecast/temp' relative to
+     * this group or '/forecast/temp' from the root. Returns undefined if
+     * nothing exists at the path.
+     */
+    get(path: string): Group | Variable | undefined {
+        let group: Group = this;
+        if (path.startsWith('/')) {
+            while (group.parent) group = group.parent;
+        }
+        const parts = path.split('/').filter(p => p !== '');
+        for (let i = 0; i < parts.length; i++) {
+            const child = group.groups[parts[i]];
+            if (child) {
+                group = child;
+            } else {
+                return i === parts.length - 1 ? group.variables[parts[i]] : undefined;
+            }
+        }
+        return group;
+    }
+
+    // Automatic mask-and-scale for every variable in this group and its
+    // subgroups, including ones created later (see Variable.set_auto_mask).
+    set_auto_maskandscale(flag: boolean): void {
+        this.set_auto_mask(flag);
+        this.set_auto_scale(flag);
+    }
+
+    set_auto_mask(flag: boolean): void {
+        this.autoMask = flag;
+        Object.values(this.variables).forEach(v => v.set_auto_mask(flag));
+        Object.values(this.groups).forEach(g => g.set_auto_mask(flag));
+    }
+
+    set_auto_scale(flag: boolean): void {
+        this.autoScale = flag;
+        Object.values(this.variables).forEach(v => v.set_auto_scale(flag));
+        Object.values(this.groups).forEach(g => g.set_auto_scale(flag));
+    }
+
+    // Whether NC_CHAR variables read as strings (see Variable.set_auto_chartostring).
+    set_auto_chartostring(flag: boolean): void {
+        this.autoCharToString = flag;
+        Object.values(this.variables).forEach(v => v.set_auto_chartostring(flag));
+        Object.values(this.groups).forEach(g => g.set_auto_chartostring(flag));
+    }
+
+    // Register a variable, applying this group's automatic conversion settings.
+    private addVariable(variable: Variable): Variable {
+        variable.set_auto_mask(this.autoMask);
+        variable.set_auto_scale(this.autoScale);
+        variable.set_auto_chartostring(this.autoCharToString);
+        this.variables[variable.name] = variable;
+        return variable;
+    }
+
     // Python-like method to get all children
     children(): { [name: string]: Group } {
         return this.groups;
@@ -219,8 +564,9 @@ export class Group {
 
     // Get group path (Python-like)
     get path(): string {
-        if (this.name === '') return '/';
-        return `/${this.name}`;
+        if (!this.parent) return '/';
+        const parentPath = this.parent.path;
+        return parentPath === '/' ? `/${this.name}` : `${parentPath}/${this.name}`;
     }
 
     toString(): string {
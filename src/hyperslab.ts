@@ -0,0 +1,327 @@
+// Hyperslab helpers: resolve start/count/stride against a variable's shape
+//
+// NetCDF's nc_get_vara_*/nc_get_vars_* read a rectangular (optionally strided)
+// region of a variable, described per dimension by a start index, a count of
+// elements and a stride. These helpers fill in defaults, validate the request
+// against the current shape before it reaches the C library, and extract the
+// same region from a flat C-order array (used by the test-mode mock module).
+
+import type { HyperslabOptions } from "./types";
+import type { NumericArray } from "./datatypes";
+
+export interface Hyperslab {
+  start: number[];
+  count: number[];
+  stride: number[];
+}
+
+function checkLength(name: string, values: number[] | undefined, ndims: number): void {
+  if (values !== undefined && values.length !== ndims) {
+    throw new Error(
+      `${name} has ${values.length} entries but the variable has ${ndims} dimensions`,
+    );
+  }
+}
+
+/**
+ * Fill in defaults for a hyperslab request and validate it against `shape`.
+ * A missing `count` reads from `start` to the end of each dimension.
+ */
+export function resolveHyperslab(
+  shape: number[],
+  options: HyperslabOptions = {},
+): Hyperslab {
+  const ndims = shape.length;
+  checkLength("start", options.start, ndims);
+  checkLength("count", options.count, ndims);
+  checkLength("stride", options.stride, ndims);
+
+  const start: number[] = [];
+  const count: number[] = [];
+  const stride: number[] = [];
+
+  for (let i = 0; i < ndims; i++) {
+    const s = options.start?.[i] ?? 0;
+    const st = options.stride?.[i] ?? 1;
+    if (!Number.isInteger(s) || s < 0 || s > shape[i]) {
+      throw new Error(
+        `start[${i}] = ${s} is out of bounds for dimension of length ${shape[i]}`,
+      );
+    }
+    if (!Number.isInteger(st) || st < 1) {
+      throw new Error(`stride[${i}] must be a positive integer, got ${st}`);
+    }
+    const c = options.count?.[i] ?? Math.ceil((shape[i] - s) / st);
+    if (!Number.isInteger(c) || c < 0) {
+      throw new Error(`count[${i}] must be a non-negative integer, got ${c}`);
+    }
+    if (c > 0 && s + (c - 1) * st >= shape[i]) {
+      throw new Error(
+        `Hyperslab exceeds dimension ${i}: start ${s} + (count ${c} - 1) * stride ${st} >= length ${shape[i]}`,
+      );
+    }
+    start.push(s);
+    count.push(c);
+    stride.push(st);
+  }
+
+  return { start, count, stride };
+}
+
+/** Number of elements a hyperslab selects. */
+export function hyperslabSize(count: number[]): number {
+  return count.reduce((acc, c) => acc * c, 1);
+}
+
+/** True when every stride is 1, so the contiguous nc_*_vara_* call suffices. */
+export function isUnitStride(stride: number[]): boolean {
+  return stride.every((s) => s === 1);
+}
+
+/**
+ * Visit the flat C-order offsets of every element in a hyperslab, in the
+ * order NetCDF returns them.
+ */
+export function forEachHyperslabOffset(
+  shape: number[],
+  slab: Hyperslab,
+  visit: (offset: number, index: number) => void,
+): void {
+  const ndims = shape.length;
+  const total = hyperslabSize(slab.count);
+  if (total === 0) return;
+
+  // Row-major strides of the full array.
+  const strides = new Array<number>(ndims);
+  let acc = 1;
+  for (let d = ndims - 1; d >= 0; d--) {
+    strides[d] = acc;
+    acc *= shape[d];
+  }
+
+  const pos = new Array<number>(ndims).fill(0);
+  for (let n = 0; n < total; n++) {
+    let offset = 0;
+    for (let d = 0; d < ndims; d++) {
+      offset += (slab.start[d] + pos[d] * slab.stride[d]) * strides[d];
+    }
+    visit(offset, n);
+    // Advance the odometer, fastest-varying dimension last.
+    for (let d = ndims - 1; d >= 0; d--) {
+      if (++pos[d] < slab.count[d]) break;
+      pos[d] = 0;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Python-style index expressions
+//
+// `variable.__getitem__` / `__setitem__` accept netcdf4-python indexing: per
+// dimension an integer (negative counts from the end, the axis is dropped from
+// the result), a `[start, stop, step]` range with `null` for defaults, or
+// `null` for the whole axis. Trailing dimensions that are not indexed are read
+// whole. The same expression can be written as a string, e.g. "0, 10:20, ::2".
+
+/** `[start, stop, step]`; any entry may be omitted or null. */
+export type SliceSpec = [
+  start?: number | null,
+  stop?: number | null,
+  step?: number | null,
+];
+
+/** How one dimension is indexed: an integer, a range, or null for all of it. */
+export type IndexElement = number | SliceSpec | null;
+
+/**
+ * A full index expression. A bare number or null indexes the first dimension;
+ * an array indexes one dimension per entry; a string is parsed as Python
+ * slice syntax.
+ */
+export type IndexSpec = IndexElement | IndexElement[] | string;
+
+export interface Selection {
+  /** Hyperslab to read or write, always with positive strides. */
+  slab: Hyperslab;
+  /** Shape of the result after dropping integer-indexed dimensions. */
+  shape: number[];
+  /** Axes selected with a negative step, which must be flipped. */
+  reverse: number[];
+  /** Integer-indexed axes, which are not part of `shape`. */
+  dropped: number[];
+}
+
+function parseSliceNumber(text: string, expr: string): number | null {
+  const t = text.trim();
+  if (t === "") return null;
+  if (!/^[+-]?\d+$/.test(t)) {
+    throw new Error(`Invalid index '${t}' in '${expr}'`);
+  }
+  return parseInt(t, 10);
+}
+
+/** Parse a string index expression such as "0, 10:20, ::2" or "-1, :". */
+export function parseIndexString(expr: string): IndexElement[] {
+  if (expr.trim() === "") return [];
+  return expr.split(",").map((part) => {
+    if (!part.includes(":")) {
+      const value = parseSliceNumber(part, expr);
+      if (value === null) {
+        throw new Error(`Empty index in '${expr}'`);
+      }
+      return value;
+    }
+    const pieces = part.split(":");
+    if (pieces.length > 3) {
+      throw new Error(`Invalid slice '${part.trim()}' in '${expr}'`);
+    }
+    return pieces.map((p) => parseSliceNumber(p, expr)) as SliceSpec;
+  });
+}
+
+function normalizeIndex(spec: IndexSpec): IndexElement[] {
+  if (typeof spec === "string") return parseIndexString(spec);
+  if (spec === null || typeof spec === "number") return [spec];
+  // A top-level array always lists one entry per dimension; a single range
+  // on the first dimension is written [[start, stop]].
+  return spec as IndexElement[];
+}
+
+/**
+ * Resolve an index expression against `shape` into a hyperslab, following
+ * Python semantics (negative indices, clamped slice bounds, negative steps).
+ */
+export function resolveIndex(spec: IndexSpec, shape: number[]): Selection {
+  const elements = normalizeIndex(spec);
+  if (elements.length > shape.length) {
+    throw new Error(
+      `Too many indices: got ${elements.length} for a variable with ${shape.length} dimensions`,
+    );
+  }
+
+  const slab: Hyperslab = { start: [], count: [], stride: [] };
+  const resultShape: number[] = [];
+  const reverse: number[] = [];
+  const dropped: number[] = [];
+
+  for (let d = 0; d < shape.length; d++) {
+    const n = shape[d];
+    const el = d < elements.length ? elements[d] : null;
+
+    if (typeof el === "number") {
+      if (!Number.isInteger(el)) {
+        throw new Error(`Index ${el} for dimension ${d} is not an integer`);
+      }
+      const i = el < 0 ? el + n : el;
+      if (i < 0 || i >= n) {
+        throw new Error(
+          `Index ${el} is out of bounds for dimension ${d} with size ${n}`,
+        );
+      }
+      slab.start.push(i);
+      slab.count.push(1);
+      slab.stride.push(1);
+      dropped.push(d);
+      continue;
+    }
+
+    if (el !== null && !Array.isArray(el)) {
+      throw new Error(`Unsupported index for dimension ${d}: ${String(el)}`);
+    }
+    const [rawStart, rawStop, rawStep] = el ?? [];
+    const step = rawStep ?? 1;
+    if (!Number.isInteger(step) || step === 0) {
+      throw new Error(`Slice step for dimension ${d} must be a non-zero integer`);
+    }
+
+    let first: number;
+    let count: number;
+    if (step > 0) {
+      const start = clampBound(rawStart, n, 0, 0, n);
+      const stop = clampBound(rawStop, n, n, 0, n);
+      count = Math.max(0, Math.ceil((stop - start) / step));
+      first = start;
+    } else {
+      const start = clampBound(rawStart, n, n - 1, -1, n - 1);
+      const stop = clampBound(rawStop, n, -1, -1, n - 1);
+      count = Math.max(0, Math.ceil((start - stop) / -step));
+      // Read the same elements with a positive stride, then flip the axis.
+      first = count > 0 ? start + (count - 1) * step : 0;
+      reverse.push(d);
+    }
+
+    slab.start.push(count > 0 ? first : 0);
+    slab.count.push(count);
+    slab.stride.push(Math.abs(step));
+    resultShape.push(count);
+  }
+
+  return { slab, shape: resultShape, reverse, dropped };
+}
+
+/**
+ * Shape a write through `spec` reaches: dimensions flagged in `growable`
+ * (unlimited ones) extend to cover an integer index or an explicit slice stop
+ * past their current length, as NetCDF grows a record dimension on writes
+ * past its end.
+ */
+export function growShape(spec: IndexSpec, shape: number[], growable: boolean[]): number[] {
+  const elements = normalizeIndex(spec);
+  return shape.map((n, d) => {
+    const el = d < elements.length ? elements[d] : null;
+    if (!growable[d] || el === null) return n;
+    if (typeof el === "number") return el >= n ? el + 1 : n;
+    if (!Array.isArray(el)) return n;
+    const [, stop, step] = el;
+    return (step ?? 1) > 0 && typeof stop === "number" && stop > n ? stop : n;
+  });
+}
+
+// Python slice-bound normalisation: negative bounds count from the end, then
+// clamp into [lo, hi]. An omitted bound takes `fallback` unchanged.
+function clampBound(
+  value: number | null | undefined,
+  n: number,
+  fallback: number,
+  lo: number,
+  hi: number,
+): number {
+  if (value === null || value === undefined) return fallback;
+  if (!Number.isInteger(value)) {
+    throw new Error(`Slice bound ${value} is not an integer`);
+  }
+  const v = value < 0 ? value + n : value;
+  return Math.min(Math.max(v, lo), hi);
+}
+
+/**
+ * Flip `data` (C-order with dimensions `shape`) along each axis in `axes`.
+ * Returns a new array of the same type.
+ */
+export function reverseAxes<T extends NumericArray | unknown[]>(
+  data: T,
+  shape: number[],
+  axes: number[],
+): T {
+  if (axes.length === 0 || data.length === 0) return data;
+  const out = data.slice() as T;
+  const ndims = shape.length;
+  const strides = new Array<number>(ndims);
+  let acc = 1;
+  for (let d = ndims - 1; d >= 0; d--) {
+    strides[d] = acc;
+    acc *= shape[d];
+  }
+  const flip = new Set(axes);
+  for (let i = 0; i < data.length; i++) {
+    let rest = i;
+    let target = 0;
+    for (let d = 0; d < ndims; d++) {
+      const pos = Math.floor(rest / strides[d]);
+      rest -= pos * strides[d];
+      target += (flip.has(d) ? shape[d] - 1 - pos : pos) * strides[d];
+    }
+    out[target] = data[i];
+  }
+  return out;
+}
@@ -6,16 +6,48 @@ export { NetCDF4 } from "./netcdf4";
 export { Variable } from "./variable";
 export { Dimension } from "./dimension";
 export { Group } from "./group";
-export { NC_CONSTANTS, DATA_TYPE_MAP } from "./constants";
+export { NC_CONSTANTS, DATA_TYPE_MAP, DEFAULT_FILL_VALUES } from "./constants";
+export { NetCDFError, errorCodeName } from "./errors";
+export type { NetCDFErrorContext } from "./errors";
+export { parseIndexString, resolveIndex } from "./hyperslab";
+export { CFDatetime, num2date, date2num } from "./cftime";
+export { chartostring, stringtochar } from "./strings";
+export { CompoundType, EnumType, OpaqueType, VLType } from "./usertypes";
+export type {
+  CompoundField,
+  CompoundFieldSpec,
+  CompoundRecord,
+  CompoundColumns,
+  EnumMembers,
+  UserType,
+} from "./usertypes";
+export type { CFCalendar, Num2DateOptions } from "./cftime";
+export type { IndexSpec, IndexElement, SliceSpec, Selection } from "./hyperslab";
+export type { NumericArray, VariableData, VariableInput } from "./datatypes";
 
 // Lazy file-reading primitives (read byte ranges on demand instead of loading
 // the whole file into memory). High-level entry point: Dataset(src, 'r', { lazy: true }).
 export {
   CachedReader,
+  BlockCachePool,
+  NodeBlockCache,
+  IndexedDbBlockCache,
+  LruPolicy,
+  LfuPolicy,
+  TwoQueuePolicy,
   MemoryReader,
   NodeFileReader,
   BlobReader,
+  OpfsReader,
+  OpfsFile,
+  OverlayReader,
+  HttpRangeReader,
+  xhrTransport,
+  nodeTransport,
+  AsyncBridgeReader,
+  serveAsyncLazyReader,
   createLazyReader,
+  isWritableLazyReader,
   createLazyStreamOps,
   mountLazyFile,
 } from "./lazy";
@@ -27,23 +59,58 @@ export type {
   NetCDF4WasmOptions,
   DatasetOptions,
   VariableOptions,
+  VariableFilters,
+  HyperslabOptions,
+  AttributeInfo,
   MemoryDatasetSource,
   DatasetSource,
+  DatasetReadStats,
+  VariableReadStats,
+  ExportOptions,
+  DatasetSink,
+  NodeWritableLike,
 } from "./types";
 
 export type {
   LazyReader,
+  WritableLazyReader,
   ReadStats,
   LazyOptions,
   LazySource,
+  LazyReaderOptions,
+  EvictionPolicy,
+  EvictionPolicyName,
+  BlockCachePoolOptions,
+  BlockCachePoolStats,
+  PersistentBlockCache,
+  PersistentBlockCacheOptions,
+  PersistentBlocks,
+  PersistentKey,
+  NodeBlockCacheOptions,
+  NodeCacheFsLike,
+  IndexedDbBlockCacheOptions,
   NodeFsLike,
+  FileSystemSyncAccessHandleLike,
+  FileSystemFileHandleLike,
+  OpfsOpenOptions,
+  OverlaySegment,
   LazyStreamOps,
+  HttpRangeReaderOptions,
+  HttpTransport,
+  HttpRequest,
+  HttpResponse,
+  AsyncLazyReader,
+  AsyncLazyReaderChannel,
+  AsyncLazyReaderServer,
+  AsyncBridgeOptions,
+  MessagePortLike,
 } from "./lazy";
 
 // Re-export NetCDF4 as default for backwards compatibility
 export { NetCDF4 as default } from "./netcdf4";
 
-// Polymorphic Dataset constructor - accepts filename, Blob, ArrayBuffer, or Uint8Array
+// Polymorphic Dataset constructor - accepts filename, Blob, ArrayBuffer, or Uint8Array,
+// and in lazy mode also a LazyReader or an async reader channel
 import { NetCDF4 } from "./netcdf4";
 import type { DatasetOptions, DatasetSource } from "./types";
 
@@ -54,7 +121,8 @@ export async function Dataset(
 ): Promise<NetCDF4> {
   // Type detection and routing
   if (typeof source === "string") {
-    // File path. Lazy mode (Node) reads ranges on demand via a NodeFileReader.
+    // File path or URL. Lazy mode reads ranges on demand via a NodeFileReader
+    // or, for http(s) URLs, an HttpRangeReader.
     if (options.lazy) {
       return await NetCDF4.fromLazy(source, mode, options);
     }
@@ -68,6 +136,9 @@ export async function Dataset(
   } else if (source instanceof Uint8Array) {
     // Uint8Array
     return await NetCDF4.fromMemory(source, mode, options);
+  } else if (options.lazy) {
+    // A LazyReader, or a channel to an AsyncLazyReader served on another thread
+    return await NetCDF4.fromLazy(source, mode, options);
   } else {
     throw new Error(
       "Invalid source type. Expected string, Blob, ArrayBuffer, or Uint8Array.",
@@ -0,0 +1,254 @@
+// Lazy file reading - bridge to asynchronous byte sources
+//
+// A LazyReader must answer synchronously, but most byte sources are
+// promise-based: `fetch`, `Blob.arrayBuffer()`, OPFS file handles, Node
+// streams. The bridge splits a read across two threads that share a
+// SharedArrayBuffer:
+//
+// - the thread running the WASM module (a Web Worker, or a Node worker) holds an
+//   AsyncBridgeReader. Its `read` posts the request over a MessagePort and
+//   blocks in `Atomics.wait` until the reply lands in the shared buffer;
+// - another thread that is free to await (typically the page's main thread)
+//   runs `serveAsyncLazyReader`, which awaits the AsyncLazyReader, copies the
+//   bytes into the shared buffer and wakes the reader with `Atomics.notify`.
+//
+// The two ends must be on different threads: the serving side can only answer
+// while its own event loop is free. SharedArrayBuffer requires a
+// cross-origin-isolated page (COOP/COEP headers) in the browser.
+
+import type { LazyReader } from "./types";
+
+/** A byte source whose reads resolve asynchronously. */
+export interface AsyncLazyReader {
+  /** Total size of the underlying file in bytes. */
+  readonly size: number;
+
+  /**
+   * Read `length` bytes starting at `offset`, clamped to the file bounds like
+   * LazyReader.read.
+   */
+  read(offset: number, length: number): Promise<Uint8Array>;
+
+  /** Release any underlying handle. */
+  close?(): void | Promise<void>;
+}
+
+/** The structural subset of a (browser or Node) MessagePort the bridge uses. */
+export interface MessagePortLike {
+  postMessage(message: unknown): void;
+  onmessage: ((event: { data: any }) => void) | null;
+  close(): void;
+}
+
+/**
+ * What the reading thread needs to reach a served AsyncLazyReader. Post it to
+ * the worker, transferring `port`.
+ */
+export interface AsyncLazyReaderChannel {
+  size: number;
+  buffer: SharedArrayBuffer;
+  port: MessagePortLike;
+}
+
+export interface AsyncLazyReaderServer {
+  channel: AsyncLazyReaderChannel;
+  /** Stop answering requests and close the reader. */
+  close(): Promise<void>;
+}
+
+export interface AsyncBridgeOptions {
+  /** Bytes moved per round trip; larger reads are split (default 1 MiB). */
+  bufferSize?: number;
+}
+
+// Layout of the shared buffer: an Int32 state word and an Int32 byte count,
+// padded to 8 bytes, followed by the data area.
+const HEADER_BYTES = 8;
+const STATE = 0;
+const LENGTH = 1;
+
+const IDLE = 0;
+const PENDING = 1;
+const DONE = 2;
+const FAILED = 3;
+
+const DEFAULT_BUFFER_SIZE = 1024 * 1024;
+
+interface ReadRequest {
+  offset?: number;
+  length?: number;
+  close?: boolean;
+}
+
+/**
+ * Answer reads from an AsyncBridgeReader on another thread. Call this on a
+ * thread that stays free to await `reader`, and post the returned `channel` to
+ * the thread that opens the dataset.
+ */
+export function serveAsyncLazyReader(
+  reader: AsyncLazyReader,
+  options: AsyncBridgeOptions = {},
+): AsyncLazyReaderServer {
+  if (typeof SharedArrayBuffer === "undefined") {
+    throw new Error(
+      "serveAsyncLazyReader requires SharedArrayBuffer; in the browser the page must be cross-origin isolated",
+    );
+  }
+  const bufferSize = options.bufferSize ?? DEFAULT_BUFFER_SIZE;
+  if (!Number.isInteger(bufferSize) || bufferSize <= 0) {
+    throw new RangeError(
+      `bufferSize must be a positive integer, got ${bufferSize}`,
+    );
+  }
+
+  const buffer = new SharedArrayBuffer(HEADER_BYTES + bufferSize);
+  const header = new Int32Array(buffer, 0, 2);
+  const data = new Uint8Array(buffer, HEADER_BYTES);
+  const { port1, port2 } = new MessageChannel();
+  const port = port1 as unknown as MessagePortLike;
+  let closed = false;
+
+  const reply = (state: number, bytes: Uint8Array) => {
+    const n = Math.min(bytes.length, data.length);
+    data.set(n === bytes.length ? bytes : bytes.subarray(0, n));
+    Atomics.store(header, LENGTH, n);
+    Atomics.store(header, STATE, state);
+    Atomics.notify(header, STATE);
+  };
+
+  const close = async () => {
+    if (closed) return;
+    closed = true;
+    port.onmessage = null;
+    port.close();
+    await reader.close?.();
+  };
+
+  port.onmessage = async (event) => {
+    const request = event.data as ReadRequest;
+    if (request.close) {
+      await close();
+      return;
+    }
+    try {
+      const length = Math.min(request.length ?? 0, data.length);
+      reply(DONE, await reader.read(request.offset ?? 0, length));
+    } catch (error) {
+      const message = (error as Error)?.message ?? String(error);
+      reply(FAILED, new TextEncoder().encode(message));
+    }
+  };
+
+  return {
+    channel: {
+      size: reader.size,
+      buffer,
+      port: port2 as unknown as MessagePortLike,
+    },
+    close,
+  };
+}
+
+/** Whether `value` is an AsyncLazyReaderChannel. */
+export function isAsyncLazyReaderChannel(
+  value: unknown,
+): value is AsyncLazyReaderChannel {
+  // Compare tags rather than use instanceof: a buffer posted from another
+  // thread may come from a different realm.
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.prototype.toString.call((value as AsyncLazyReaderChannel).buffer) ===
+      "[object SharedArrayBuffer]" &&
+    typeof (value as AsyncLazyReaderChannel).port?.postMessage === "function"
+  );
+}
+
+/**
+ * The blocking end of the bridge: a LazyReader whose reads are answered by an
+ * AsyncLazyReader served on another thread. Blocks the calling thread while
+ * it waits, so it must not run on the serving thread or a browser main thread.
+ */
+export class AsyncBridgeReader implements LazyReader {
+  private readonly header: Int32Array;
+  private readonly data: Uint8Array;
+  private readonly port: MessagePortLike;
+  private closed = false;
+
+  /**
+   * `timeout` is how long in ms a single round trip may take before the read
+   * throws (default: wait forever).
+   */
+  constructor(
+    private readonly channel: AsyncLazyReaderChannel,
+    private readonly timeout: number = Infinity,
+  ) {
+    this.header = new Int32Array(channel.buffer, 0, 2);
+    this.data = new Uint8Array(channel.buffer, HEADER_BYTES);
+    this.port = channel.port;
+  }
+
+  get size(): number {
+    return this.channel.size;
+  }
+
+  /** The channel's shared buffer, unique to the served reader. */
+  get cacheKey(): unknown {
+    return this.channel.buffer;
+  }
+
+  read(offset: number, length: number): Uint8Array {
+    if (this.closed) throw new Error("AsyncBridgeReader is closed");
+    const end = Math.min(offset + length, this.size);
+    if (offset < 0 || offset >= this.size || end <= offset) {
+      return new Uint8Array(0);
+    }
+
+    const out = new Uint8Array(end - offset);
+    let filled = 0;
+    // One round trip per buffer-full; stop early on a short reply.
+    while (filled < out.length) {
+      const want = Math.min(out.length - filled, this.data.length);
+      const n = this.request(offset + filled, want);
+      out.set(this.data.subarray(0, n), filled);
+      filled += n;
+      if (n < want) break;
+    }
+    return filled === out.length ? out : out.subarray(0, filled);
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.port.postMessage({ close: true });
+    this.port.close();
+  }
+
+  // Post one request and block until the serving thread has answered it.
+  private request(offset: number, length: number): number {
+    Atomics.store(this.header, STATE, PENDING);
+    this.port.postMessage({ offset, length });
+    const deadline = Date.now() + this.timeout;
+    while (Atomics.load(this.header, STATE) === PENDING) {
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        // A late reply would be taken for the next request's, so give up on
+        // the channel altogether, releasing the serving side.
+        this.close();
+        throw new Error(
+          `Async lazy read of ${length} bytes at ${offset} timed out after ${this.timeout} ms`,
+        );
+      }
+      Atomics.wait(this.header, STATE, PENDING, remaining);
+    }
+
+    const state = Atomics.load(this.header, STATE);
+    const n = Atomics.load(this.header, LENGTH);
+    Atomics.store(this.header, STATE, IDLE);
+    if (state === FAILED) {
+      const message = new TextDecoder().decode(this.data.slice(0, n));
+      throw new Error(`Async lazy read failed: ${message}`);
+    }
+    return n;
+  }
+}
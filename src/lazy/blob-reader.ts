@@ -21,7 +21,7 @@ function getFileReaderSync(): FileReaderSyncCtor | undefined {
 export class BlobReader implements LazyReader {
   private readonly readerCtor: FileReaderSyncCtor;
 
-  constructor(private readonly blob: Blob) {
+  constructor(readonly blob: Blob) {
     const ctor = getFileReaderSync();
     if (!ctor) {
       throw new Error(
@@ -36,6 +36,11 @@ export class BlobReader implements LazyReader {
     return this.blob.size;
   }
 
+  /** The Blob itself: readers over one Blob share pooled blocks. */
+  get cacheKey(): unknown {
+    return this.blob;
+  }
+
   read(offset: number, length: number): Uint8Array {
     const end = Math.min(offset + length, this.blob.size);
     if (offset < 0 || offset >= this.blob.size || end <= offset) {
@@ -1,4 +1,4 @@
-// Lazy file reading - block-aligned LRU cache
+// Lazy file reading - block-aligned cache
 //
 // NetCDF (classic posixio) and HDF5 (sec2 driver) issue many small, often
 // repeated reads: superblocks, b-tree nodes, headers, record offsets. Hitting the
@@ -6,46 +6,135 @@
 // trips (especially painful for remote/HTTP-range sources). CachedReader sits in
 // front of any LazyReader and serves reads from fixed-size, block-aligned chunks
 // kept in an LRU, so repeated and overlapping reads coalesce.
+//
+// Two things keep the number of underlying reads down further:
+//
+// - the blocks a read is missing are fetched in as few requests as possible,
+//   one per run of adjacent missing blocks;
+// - when reads walk through the file in order, a miss also fetches the blocks
+//   after it (read-ahead). The window starts at one block and doubles with each
+//   further sequential miss, up to `maxReadAhead`; a read elsewhere resets it.
+//
+// The blocks live in a BlockCachePool, bounded by a block count and/or a byte
+// budget, where an EvictionPolicy (LRU by default) picks what to drop. Blocks
+// covering the first `pinBytes` of the file - where the NetCDF header and HDF5
+// superblock live - can be pinned: they are never evicted and do not count
+// against the budget, so a long data scan cannot push out the metadata every
+// read needs. Each reader has a private pool unless given a shared one.
 
-import type { LazyReader, ReadStats } from "./types";
+import type { LazyOptions, LazyReader, ReadStats } from "./types";
+import { BlockCachePool } from "./cache-pool";
+import type { PooledBlocks } from "./cache-pool";
+import type { PersistentBlocks } from "./persistent-cache";
 
-const DEFAULT_BLOCK_SIZE = 64 * 1024;
-const DEFAULT_MAX_BLOCKS = 256;
+// Read-ahead may fill at most this fraction of the cache by default, so it
+// cannot evict the blocks that are actually being used, and no more than
+// DEFAULT_MAX_READ_AHEAD_BYTES however large the cache.
+const DEFAULT_READ_AHEAD_FRACTION = 4;
+const DEFAULT_MAX_READ_AHEAD_BYTES = 16 * 1024 * 1024;
 
 export class CachedReader implements LazyReader {
-  // Map iteration order is insertion order, which we use to find the LRU entry:
-  // the oldest key is the least-recently-used. A cache hit re-inserts the block
-  // to move it to the most-recently-used end.
-  private readonly cache = new Map<number, Uint8Array>();
+  private readonly pool: BlockCachePool;
+  private readonly ownsPool: boolean;
+  private readonly blocks: PooledBlocks;
+  private readonly persistent?: PersistentBlocks;
+  // Blocks fetched by read-ahead that no read has used yet.
+  private readonly prefetched = new Set<number>();
   private readonly blockSize: number;
-  private readonly maxBlocks: number;
+  // Read-ahead limit asked for; by default it follows the pool's capacity.
+  private readonly readAheadOption?: number;
+  // Current read-ahead window in blocks, and the last block of the previous read.
+  private readAhead = 0;
+  private lastBlockRead = -2;
+  // Reused for multi-block fetches from a reader with readInto.
+  private scratch?: Uint8Array;
   private _hits = 0;
   private _misses = 0;
   private _bytesFetched = 0;
+  private _innerReads = 0;
+  private _prefetchedBlocks = 0;
+  private _prefetchHits = 0;
+  private _prefetchEvicted = 0;
+  private _persistentHits = 0;
 
+  /**
+   * Takes either LazyOptions or, positionally, the block size, maximum block
+   * count and maximum read-ahead in blocks. With `cachePool` the blocks are
+   * kept in that shared pool, whose block size and budget apply; otherwise
+   * the reader gets a pool of its own sized by the options. Read-ahead
+   * defaults to a quarter of the pool's capacity, at most 16 MiB.
+   */
   constructor(
     private readonly inner: LazyReader,
-    blockSize: number = DEFAULT_BLOCK_SIZE,
-    maxBlocks: number = DEFAULT_MAX_BLOCKS,
+    blockSizeOrOptions: number | LazyOptions = {},
+    maxBlocks?: number,
+    maxReadAhead?: number,
   ) {
-    if (!Number.isInteger(blockSize) || blockSize <= 0) {
+    const options: LazyOptions =
+      typeof blockSizeOrOptions === "number"
+        ? {
+            blockSize: blockSizeOrOptions,
+            maxCacheBlocks: maxBlocks,
+            readAhead: maxReadAhead,
+          }
+        : blockSizeOrOptions;
+
+    this.pool = options.cachePool ?? new BlockCachePool(options);
+    this.ownsPool = options.cachePool === undefined;
+    this.blockSize = this.pool.blockSize;
+    if (
+      options.blockSize !== undefined &&
+      options.blockSize !== this.blockSize
+    ) {
+      throw new RangeError(
+        `blockSize ${options.blockSize} differs from the cache pool's ${this.blockSize}`,
+      );
+    }
+
+    const readAhead = options.readAhead;
+    if (
+      readAhead !== undefined &&
+      !(Number.isInteger(readAhead) && readAhead >= 0)
+    ) {
       throw new RangeError(
-        `blockSize must be a positive integer, got ${blockSize}`,
+        `maxReadAhead must be a non-negative integer, got ${readAhead}`,
       );
     }
-    if (!Number.isInteger(maxBlocks) || maxBlocks <= 0) {
+    this.readAheadOption = readAhead;
+    if (
+      options.persistentBlocks &&
+      options.persistentBlocks.blockSize !== this.blockSize
+    ) {
       throw new RangeError(
-        `maxBlocks must be a positive integer, got ${maxBlocks}`,
+        `blockSize ${this.blockSize} differs from the persistent blocks' ${options.persistentBlocks.blockSize}`,
       );
     }
-    this.blockSize = blockSize;
-    this.maxBlocks = maxBlocks;
+    this.persistent = options.persistentBlocks;
+    this.blocks = this.pool.attach(inner, (index) => {
+      if (this.prefetched.delete(index)) this._prefetchEvicted++;
+    });
+  }
+
+  /** Shares the inner reader's key, so readers over one file share blocks. */
+  get cacheKey(): unknown {
+    return this.inner.cacheKey;
   }
 
   get size(): number {
     return this.inner.size;
   }
 
+  // Most blocks fetched ahead of a sequential read, never the whole cache.
+  private get maxReadAhead(): number {
+    const readAhead =
+      this.readAheadOption ??
+      Math.min(
+        Math.floor(this.pool.capacity / DEFAULT_READ_AHEAD_FRACTION),
+        Math.floor(DEFAULT_MAX_READ_AHEAD_BYTES / this.blockSize),
+      );
+    return Math.min(readAhead, this.pool.capacity - 1);
+  }
+
   read(offset: number, length: number): Uint8Array {
     if (offset < 0 || length < 0) {
       throw new RangeError(`Invalid read(offset=${offset}, length=${length})`);
@@ -58,43 +147,169 @@ export class CachedReader implements LazyReader {
     const out = new Uint8Array(end - offset);
     const firstBlock = Math.floor(offset / this.blockSize);
     const lastBlock = Math.floor((end - 1) / this.blockSize);
-
-    for (let b = firstBlock; b <= lastBlock; b++) {
-      const block = this.getBlock(b);
-      const blockStart = b * this.blockSize;
+    const copy = (index: number, block: Uint8Array) => {
+      const blockStart = index * this.blockSize;
       const copyStart = Math.max(offset, blockStart);
       const copyEnd = Math.min(end, blockStart + block.length);
-      if (copyEnd <= copyStart) continue;
+      if (copyEnd <= copyStart) return;
       out.set(
         block.subarray(copyStart - blockStart, copyEnd - blockStart),
         copyStart - offset,
       );
+    };
+
+    // A read starting in or just after the block the previous one ended in
+    // continues a sequential scan.
+    const sequential =
+      firstBlock === this.lastBlockRead || firstBlock === this.lastBlockRead + 1;
+    this.lastBlockRead = lastBlock;
+    if (!sequential) this.readAhead = 0;
+
+    // Serve cached blocks, collecting the missing ones into runs of adjacent
+    // blocks that are then fetched with one request each.
+    const runs: Array<[number, number]> = [];
+    for (let b = firstBlock; b <= lastBlock; b++) {
+      const cached = this.lookup(b);
+      if (cached !== undefined) {
+        copy(b, cached);
+        continue;
+      }
+      this._misses++;
+      const run = runs[runs.length - 1];
+      if (run && run[1] === b - 1) run[1] = b;
+      else runs.push([b, b]);
+    }
+    if (runs.length === 0) return out;
+
+    // Extend the last run past the end of the read while the scan is sequential.
+    const lastRun = runs[runs.length - 1];
+    let ahead = 0;
+    if (sequential && this.maxReadAhead > 0) {
+      this.readAhead = Math.min(
+        this.readAhead > 0 ? this.readAhead * 2 : 1,
+        this.maxReadAhead,
+      );
+      const lastFileBlock = Math.ceil(this.size / this.blockSize) - 1;
+      while (
+        ahead < this.readAhead &&
+        lastRun[1] + ahead < lastFileBlock &&
+        !this.blocks.has(lastRun[1] + ahead + 1)
+      ) {
+        ahead++;
+      }
+    }
+
+    for (const [i, [from, to]] of runs.entries()) {
+      const last = i === runs.length - 1 ? to + ahead : to;
+      for (const [index, block] of this.fetch(from, last)) {
+        if (index <= to) {
+          copy(index, block);
+        } else {
+          this.prefetched.add(index);
+          this._prefetchedBlocks++;
+        }
+      }
     }
     return out;
   }
 
-  private getBlock(index: number): Uint8Array {
-    const cached = this.cache.get(index);
-    if (cached !== undefined) {
-      this._hits++;
-      // Refresh LRU position.
-      this.cache.delete(index);
-      this.cache.set(index, cached);
-      return cached;
+  // Return a cached block, telling the eviction policy it was used.
+  private lookup(index: number): Uint8Array | undefined {
+    const cached = this.blocks.get(index);
+    if (cached === undefined) return undefined;
+    this._hits++;
+    if (this.prefetched.delete(index)) this._prefetchHits++;
+    return cached;
+  }
+
+  // Fetch blocks `from`..`to` and cache them, returning each block with its
+  // index: stored ones from the persistent tier, each run of the others with
+  // one read of the inner reader.
+  private fetch(from: number, to: number): Array<[number, Uint8Array]> {
+    if (!this.persistent) return this.fetchInner(from, to);
+    const blocks: Array<[number, Uint8Array]> = [];
+    let runStart = -1;
+    for (let index = from; index <= to; index++) {
+      const stored = this.persistent.get(index);
+      if (stored === undefined) {
+        if (runStart < 0) runStart = index;
+        continue;
+      }
+      if (runStart >= 0) {
+        blocks.push(...this.fetchInner(runStart, index - 1));
+        runStart = -1;
+      }
+      this._persistentHits++;
+      this.blocks.put(index, stored);
+      blocks.push([index, stored]);
     }
+    if (runStart >= 0) blocks.push(...this.fetchInner(runStart, to));
+    return blocks;
+  }
 
-    this._misses++;
-    const blockStart = index * this.blockSize;
-    const blockLen = Math.min(this.blockSize, this.size - blockStart);
-    const bytes = this.inner.read(blockStart, blockLen);
+  // Fetch blocks `from`..`to` with a single read of the inner reader and cache
+  // them, here and in the persistent tier.
+  private fetchInner(from: number, to: number): Array<[number, Uint8Array]> {
+    const start = from * this.blockSize;
+    const length = Math.min((to + 1) * this.blockSize, this.size) - start;
+    const bytes = this.readInner(start, length, from === to);
+    this._innerReads++;
     this._bytesFetched += bytes.length;
 
-    this.cache.set(index, bytes);
-    if (this.cache.size > this.maxBlocks) {
-      const lru = this.cache.keys().next().value;
-      if (lru !== undefined) this.cache.delete(lru);
+    const blocks: Array<[number, Uint8Array]> = [];
+    for (let index = from; index <= to; index++) {
+      const blockStart = (index - from) * this.blockSize;
+      if (blockStart >= bytes.length) break;
+      // A single-block fetch is cached as is; a longer one is split into
+      // copies so evicting a block really frees its memory.
+      const block =
+        from === to
+          ? bytes
+          : bytes.slice(blockStart, blockStart + this.blockSize);
+      blocks.push([index, block]);
+      // A block the inner reader came up short on is used for this read only;
+      // cached, its missing bytes would read as zeros from then on.
+      const blockLength = Math.min(this.blockSize, this.size - start - blockStart);
+      if (block.length < blockLength) break;
+      this.blocks.put(index, block);
+      this.persistent?.put(index, block);
     }
-    return bytes;
+    return blocks;
+  }
+
+  // Read from the inner reader, through readInto where it has one: a single
+  // block straight into its own buffer, a run into the scratch buffer that
+  // fetch() then copies the blocks out of. A short read is continued until
+  // the range is filled or the reader returns nothing more.
+  private readInner(start: number, length: number, single: boolean): Uint8Array {
+    if (!this.inner.readInto) {
+      let bytes = this.inner.read(start, length);
+      while (bytes.length < length) {
+        const more = this.inner.read(start + bytes.length, length - bytes.length);
+        if (more.length === 0) break;
+        const joined = new Uint8Array(bytes.length + more.length);
+        joined.set(bytes);
+        joined.set(more, bytes.length);
+        bytes = joined;
+      }
+      return bytes;
+    }
+    let target: Uint8Array;
+    if (single) {
+      target = new Uint8Array(length);
+    } else {
+      if (!this.scratch || this.scratch.length < length) {
+        this.scratch = new Uint8Array(length);
+      }
+      target = this.scratch.subarray(0, length);
+    }
+    let n = 0;
+    while (n < length) {
+      const read = this.inner.readInto(start + n, target.subarray(n));
+      if (read <= 0) break;
+      n += read;
+    }
+    return n === length ? target : target.subarray(0, n);
   }
 
   get stats(): ReadStats {
@@ -102,12 +317,52 @@ export class CachedReader implements LazyReader {
       hits: this._hits,
       misses: this._misses,
       bytesFetched: this._bytesFetched,
-      cachedBlocks: this.cache.size,
+      cachedBlocks: this.blocks.blockCount,
+      cachedBytes: this.blocks.byteCount,
+      pinnedBlocks: this.blocks.pinnedCount,
+      innerReads: this._innerReads,
+      prefetchedBlocks: this._prefetchedBlocks,
+      prefetchHits: this._prefetchHits,
+      prefetchEvicted: this._prefetchEvicted,
+      persistentHits: this._persistentHits,
     };
   }
 
+  /**
+   * Drop this file's cached blocks, pinned ones included; they are fetched
+   * again when next read. Counters are kept.
+   */
+  clear(): void {
+    this.prefetched.clear();
+    this.blocks.clear();
+    this.readAhead = 0;
+    this.lastBlockRead = -2;
+  }
+
+  /**
+   * Change the cache budget, evicting blocks to fit; a bound left out keeps
+   * its current value. Default read-ahead follows the new capacity. A reader
+   * in a shared pool cannot be resized on its own: resize the pool.
+   */
+  resize(options: Pick<LazyOptions, "maxCacheBlocks" | "maxCacheBytes">): void {
+    if (!this.ownsPool) {
+      throw new Error(
+        "The cache is a shared BlockCachePool; resize the pool instead",
+      );
+    }
+    this.pool.resize(options);
+  }
+
+  /**
+   * Close the inner reader. A private pool is emptied; in a shared pool the
+   * file's blocks stay cached for the next reader of the same file.
+   */
   close(): void {
-    this.cache.clear();
+    this.blocks.detach();
+    if (this.ownsPool) this.pool.clear();
+    this.prefetched.clear();
+    this.scratch = undefined;
+    this.persistent?.close?.();
     this.inner.close();
   }
 }
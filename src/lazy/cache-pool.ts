@@ -0,0 +1,337 @@
+// Lazy file reading - block cache pool
+//
+// Holds the cached blocks of any number of lazily read files under one memory
+// budget and one eviction policy. Every CachedReader stores its blocks in a
+// pool: its own private one by default, or a BlockCachePool shared between
+// datasets, so that opening the same file twice reuses its blocks and many
+// open files together stay within a single cap.
+//
+// Blocks are filed under the source's identity rather than the reader: a
+// LazyReader's `cacheKey` (URL plus ETag, path plus mtime, the Blob itself...)
+// when it has one, otherwise the reader object. Cached blocks outlive the
+// readers that fetched them, so a file opened again later starts warm; pinned
+// blocks are only kept while some reader of their file is open.
+
+import type { LazyOptions, LazyReader } from "./types";
+import { createEvictionPolicy } from "./eviction";
+import type { EvictionPolicy } from "./eviction";
+
+export const DEFAULT_BLOCK_SIZE = 64 * 1024;
+const DEFAULT_MAX_BLOCKS = 256;
+
+// Policy keys combine the source id and block index into one number.
+const BLOCKS_PER_SOURCE = 2 ** 32;
+
+export type BlockCachePoolOptions = Pick<
+  LazyOptions,
+  "blockSize" | "maxCacheBlocks" | "maxCacheBytes" | "eviction" | "pinBytes"
+>;
+
+export interface BlockCachePoolStats {
+  /** Blocks held for all sources, pinned ones included. */
+  cachedBlocks: number;
+  /** Bytes held for all sources, pinned ones included. */
+  cachedBytes: number;
+  /** Pinned blocks held (never evicted). */
+  pinnedBlocks: number;
+  /** Sources with blocks in the pool or readers attached. */
+  sources: number;
+  /** Readers currently attached. */
+  readers: number;
+}
+
+interface Source {
+  id: number;
+  readers: Set<(index: number) => void>;
+  pinned: Map<number, Uint8Array>;
+  blocks: number;
+  bytes: number;
+}
+
+/** One attached reader's view of its source's blocks in a pool. */
+export interface PooledBlocks {
+  /** A cached or pinned block; a hit on a cached block counts as a use. */
+  get(index: number): Uint8Array | undefined;
+  has(index: number): boolean;
+  put(index: number, block: Uint8Array): void;
+  /** Blocks and bytes held for this source, pinned ones included. */
+  readonly blockCount: number;
+  readonly byteCount: number;
+  readonly pinnedCount: number;
+  /** Drop this source's blocks, pinned ones included. */
+  clear(): void;
+  /** Stop using the pool; the source's blocks stay cached. */
+  detach(): void;
+}
+
+export class BlockCachePool {
+  readonly blockSize: number;
+  private maxBlocks: number;
+  private maxBytes: number;
+  private _capacity: number;
+  private readonly pinnedBlockCount: number;
+  private readonly policy: EvictionPolicy;
+  // Evictable blocks of every source by policy key.
+  private readonly blocks = new Map<number, Uint8Array>();
+  private readonly sources = new Map<number, Source>();
+  private readonly stringIds = new Map<string, number>();
+  private readonly objectIds = new WeakMap<object, number>();
+  private nextId = 0;
+  private cachedBytes = 0;
+
+  /**
+   * Without a byte budget the pool holds 256 blocks by default; with
+   * `maxCacheBytes` alone it is bounded by bytes only.
+   */
+  constructor(options: BlockCachePoolOptions = {}) {
+    const blockSize = options.blockSize ?? DEFAULT_BLOCK_SIZE;
+    const maxBytes = options.maxCacheBytes ?? Infinity;
+    const maxBlocks =
+      options.maxCacheBlocks ??
+      (options.maxCacheBytes === undefined ? DEFAULT_MAX_BLOCKS : Infinity);
+    const pinBytes = options.pinBytes ?? 0;
+
+    if (!Number.isInteger(blockSize) || blockSize <= 0) {
+      throw new RangeError(
+        `blockSize must be a positive integer, got ${blockSize}`,
+      );
+    }
+    validateBudget(maxBlocks, maxBytes);
+    if (!Number.isInteger(pinBytes) || pinBytes < 0) {
+      throw new RangeError(
+        `pinBytes must be a non-negative integer, got ${pinBytes}`,
+      );
+    }
+
+    this.blockSize = blockSize;
+    this.maxBlocks = maxBlocks;
+    this.maxBytes = maxBytes;
+    this._capacity = capacityOf(maxBlocks, maxBytes, blockSize);
+    this.pinnedBlockCount = Math.ceil(pinBytes / blockSize);
+    this.policy = createEvictionPolicy(options.eviction);
+  }
+
+  /** How many blocks fit in the budget (Infinity if unbounded). */
+  get capacity(): number {
+    return this._capacity;
+  }
+
+  get stats(): BlockCachePoolStats {
+    let pinnedBlocks = 0;
+    let pinnedBytes = 0;
+    let readers = 0;
+    for (const source of this.sources.values()) {
+      pinnedBlocks += source.pinned.size;
+      pinnedBytes += pinnedBytesOf(source);
+      readers += source.readers.size;
+    }
+    return {
+      cachedBlocks: this.blocks.size + pinnedBlocks,
+      cachedBytes: this.cachedBytes + pinnedBytes,
+      pinnedBlocks,
+      sources: this.sources.size,
+      readers,
+    };
+  }
+
+  /**
+   * Start caching blocks of `reader`'s file. `onEvict` is told which of the
+   * source's blocks are evicted while attached.
+   */
+  attach(
+    reader: LazyReader,
+    onEvict: (index: number) => void = () => {},
+  ): PooledBlocks {
+    const id = this.sourceId(reader.cacheKey ?? reader);
+    let source = this.sources.get(id);
+    if (!source) {
+      source = { id, readers: new Set(), pinned: new Map(), blocks: 0, bytes: 0 };
+      this.sources.set(id, source);
+    }
+    const base = id * BLOCKS_PER_SOURCE;
+    if (source.readers.size === 0) this.repin(source, base);
+    source.readers.add(onEvict);
+    const src = source;
+    let attached = true;
+
+    return {
+      get: (index) => {
+        const pinned = src.pinned.get(index);
+        if (pinned !== undefined) return pinned;
+        const block = this.blocks.get(base + index);
+        if (block !== undefined) this.policy.access(base + index);
+        return block;
+      },
+      has: (index) => src.pinned.has(index) || this.blocks.has(base + index),
+      put: (index, block) => {
+        if (index < this.pinnedBlockCount) {
+          src.pinned.set(index, block);
+        } else {
+          this.insert(src, base + index, block);
+        }
+      },
+      get blockCount() {
+        return src.blocks + src.pinned.size;
+      },
+      get byteCount() {
+        return src.bytes + pinnedBytesOf(src);
+      },
+      get pinnedCount() {
+        return src.pinned.size;
+      },
+      clear: () => {
+        for (const key of [...this.blocks.keys()]) {
+          if (key < base || key >= base + BLOCKS_PER_SOURCE) continue;
+          this.policy.remove(key);
+          this.evict(key);
+        }
+        src.pinned.clear();
+      },
+      detach: () => {
+        if (!attached) return;
+        attached = false;
+        src.readers.delete(onEvict);
+        if (src.readers.size > 0) return;
+        // Nobody has the file open: its pinned blocks become ordinary ones.
+        const pinned = [...src.pinned];
+        src.pinned.clear();
+        for (const [index, block] of pinned) {
+          this.insert(src, base + index, block);
+        }
+        if (src.blocks === 0) this.sources.delete(src.id);
+      },
+    };
+  }
+
+  /** Drop every cached block, pinned ones included. */
+  clear(): void {
+    for (const key of this.blocks.keys()) this.policy.remove(key);
+    this.blocks.clear();
+    this.cachedBytes = 0;
+    for (const source of [...this.sources.values()]) {
+      source.pinned.clear();
+      source.blocks = 0;
+      source.bytes = 0;
+      if (source.readers.size === 0) this.sources.delete(source.id);
+    }
+  }
+
+  /**
+   * Change the budget, evicting blocks until the pool fits it. A bound left
+   * out keeps its current value; pass Infinity to lift one.
+   */
+  resize(
+    options: Pick<BlockCachePoolOptions, "maxCacheBlocks" | "maxCacheBytes">,
+  ): void {
+    const maxBlocks = options.maxCacheBlocks ?? this.maxBlocks;
+    const maxBytes = options.maxCacheBytes ?? this.maxBytes;
+    validateBudget(maxBlocks, maxBytes);
+    this.maxBlocks = maxBlocks;
+    this.maxBytes = maxBytes;
+    this._capacity = capacityOf(maxBlocks, maxBytes, this.blockSize);
+    this.trim();
+  }
+
+  private insert(source: Source, key: number, block: Uint8Array): void {
+    const previous = this.blocks.get(key);
+    if (previous !== undefined) {
+      this.cachedBytes -= previous.length;
+      source.bytes -= previous.length;
+    } else {
+      source.blocks++;
+    }
+    this.blocks.set(key, block);
+    this.cachedBytes += block.length;
+    source.bytes += block.length;
+    this.policy.insert(key);
+    this.trim();
+  }
+
+  // The file is open again: pin its cached header blocks, which became
+  // ordinary blocks when its last reader detached.
+  private repin(source: Source, base: number): void {
+    for (let index = 0; index < this.pinnedBlockCount; index++) {
+      const block = this.blocks.get(base + index);
+      if (block === undefined) continue;
+      this.policy.remove(base + index);
+      this.blocks.delete(base + index);
+      this.cachedBytes -= block.length;
+      source.blocks--;
+      source.bytes -= block.length;
+      source.pinned.set(index, block);
+    }
+  }
+
+  // Evict blocks until the budget holds.
+  private trim(): void {
+    while (
+      this.blocks.size > this.maxBlocks ||
+      this.cachedBytes > this.maxBytes
+    ) {
+      const victim = this.policy.victim();
+      if (victim === undefined) break;
+      this.evict(victim);
+    }
+  }
+
+  private evict(key: number): void {
+    const block = this.blocks.get(key);
+    if (block === undefined) return;
+    this.blocks.delete(key);
+    this.cachedBytes -= block.length;
+
+    const source = this.sources.get(Math.floor(key / BLOCKS_PER_SOURCE));
+    if (!source) return;
+    source.blocks--;
+    source.bytes -= block.length;
+    for (const onEvict of source.readers) onEvict(key % BLOCKS_PER_SOURCE);
+    if (source.blocks === 0 && source.readers.size === 0) {
+      this.sources.delete(source.id);
+    }
+  }
+
+  private sourceId(key: unknown): number {
+    if (typeof key === "string") {
+      let id = this.stringIds.get(key);
+      if (id === undefined) {
+        id = this.nextId++;
+        this.stringIds.set(key, id);
+      }
+      return id;
+    }
+    const object = key as object;
+    let id = this.objectIds.get(object);
+    if (id === undefined) {
+      id = this.nextId++;
+      this.objectIds.set(object, id);
+    }
+    return id;
+  }
+}
+
+function validateBudget(maxBlocks: number, maxBytes: number): void {
+  if (!(Number.isInteger(maxBlocks) && maxBlocks > 0) && maxBlocks !== Infinity) {
+    throw new RangeError(
+      `maxBlocks must be a positive integer, got ${maxBlocks}`,
+    );
+  }
+  if (!(maxBytes > 0)) {
+    throw new RangeError(
+      `maxCacheBytes must be a positive number, got ${maxBytes}`,
+    );
+  }
+}
+
+function capacityOf(
+  maxBlocks: number,
+  maxBytes: number,
+  blockSize: number,
+): number {
+  return Math.max(1, Math.min(maxBlocks, Math.floor(maxBytes / blockSize)));
+}
+
+function pinnedBytesOf(source: Source): number {
+  let bytes = 0;
+  for (const block of source.pinned.values()) bytes += block.length;
+  return bytes;
+}
@@ -7,10 +7,14 @@
 // technique Emscripten's own `FS.createLazyFile` and h5wasm's lazy loaders use,
 // but with ranged reads (not byte-at-a-time) so it stays fast over a block cache.
 //
+// A WritableLazyReader is mounted writable instead: writes and truncation go
+// through to it, so the file is modified in place rather than in a MEMFS copy.
+//
 // Requires the module to be built with the filesystem and `FS` runtime export
 // available (`-sFORCE_FILESYSTEM=1` plus `FS` in EXPORTED_RUNTIME_METHODS).
 
 import type { LazyReader } from "./types";
+import { isWritableLazyReader } from "./factory";
 
 // Minimal shapes of the Emscripten objects we touch. Kept structural so this file
 // has no build-time dependency on the generated module.
@@ -27,7 +31,13 @@ export interface LazyStreamOps {
     length: number,
     position: number,
   ): number;
-  write(): number;
+  write(
+    stream: EmscriptenStream,
+    buffer: Uint8Array,
+    offset: number,
+    length: number,
+    position: number,
+  ): number;
   llseek(stream: EmscriptenStream, offset: number, whence: number): number;
 }
 
@@ -48,13 +58,24 @@ const SEEK_CUR = 1;
 const SEEK_END = 2;
 
 /**
- * Build the read-only `stream_ops` that bridge Emscripten reads to a LazyReader.
- * Pure and self-contained so it can be unit-tested without a real WASM module.
+ * Build the `stream_ops` that bridge Emscripten reads (and, for a
+ * WritableLazyReader, writes) to a LazyReader. Pure and self-contained so it
+ * can be unit-tested without a real WASM module.
  */
 export function createLazyStreamOps(reader: LazyReader): LazyStreamOps {
   return {
     read(_stream, buffer, offset, length, position) {
       if (position >= reader.size || length <= 0) return 0;
+      if (reader.readInto) {
+        // Read straight into libc's window of the heap. The heap may be an
+        // Int8Array, so view its bytes rather than subarray it.
+        const window = new Uint8Array(
+          buffer.buffer,
+          buffer.byteOffset + offset,
+          Math.min(length, buffer.length - offset),
+        );
+        return reader.readInto(position, window);
+      }
       const bytes = reader.read(position, length);
       // Defensively cap at `length`: libc only allotted `length` bytes at
       // `offset`, so never write past it even if a reader violates its contract
@@ -63,8 +84,15 @@ export function createLazyStreamOps(reader: LazyReader): LazyStreamOps {
       buffer.set(n === bytes.length ? bytes : bytes.subarray(0, n), offset);
       return n;
     },
-    write() {
-      throw new Error("Lazy NetCDF file is read-only");
+    write(_stream, buffer, offset, length, position) {
+      if (!isWritableLazyReader(reader)) {
+        throw new Error("Lazy NetCDF file is read-only");
+      }
+      if (length <= 0) return 0;
+      return reader.write(
+        position,
+        new Uint8Array(buffer.buffer, buffer.byteOffset + offset, length),
+      );
     },
     llseek(stream, offset, whence) {
       let position = offset;
@@ -78,7 +106,8 @@ export function createLazyStreamOps(reader: LazyReader): LazyStreamOps {
 
 /**
  * Create a lazily-read file at `path` in the Emscripten filesystem, backed by
- * `reader`. Returns the created FS node.
+ * `reader`; writable if `reader` is a WritableLazyReader. Returns the created
+ * FS node.
  */
 export function mountLazyFile(
   FS: EmscriptenFS,
@@ -98,15 +127,34 @@ export function mountLazyFile(
     }
   }
 
+  const writable = isWritableLazyReader(reader);
   const node = FS.createFile(
     dir,
     name,
     {},
     /*canRead*/ true,
-    /*canWrite*/ false,
+    /*canWrite*/ writable,
   );
   // Report the real size so stat/seek-to-end work without loading the file.
-  Object.defineProperty(node, "usedBytes", { get: () => reader.size });
+  // MEMFS's own bookkeeping may assign it; the reader stays the authority.
+  Object.defineProperty(node, "usedBytes", {
+    get: () => reader.size,
+    set: () => {},
+  });
   node.stream_ops = createLazyStreamOps(reader);
+  if (writable) {
+    // ftruncate and O_TRUNC resize through setattr, which MEMFS would apply
+    // to its own (unused) contents. node_ops is shared by every MEMFS file,
+    // so replace it on this node rather than patch it.
+    const nodeOps = node.node_ops ?? {};
+    node.node_ops = {
+      ...nodeOps,
+      setattr(target: unknown, attr: { size?: number }) {
+        const { size, ...rest } = attr;
+        nodeOps.setattr?.(target, rest);
+        if (size !== undefined) reader.truncate(size);
+      },
+    };
+  }
   return node;
 }
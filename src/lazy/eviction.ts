@@ -0,0 +1,173 @@
+// Lazy file reading - cache eviction policies
+//
+// A BlockCachePool asks an EvictionPolicy which block to drop once it is over
+// its block or byte budget. The policy only sees numeric block keys (unique
+// across the pool's files); the pool owns the bytes. Three policies are built
+// in:
+//
+// - LRU drops the least recently read block. Simple and good for most access,
+//   but one long scan through a variable flushes everything else.
+// - LFU drops the least frequently read block (the oldest among equals), so
+//   blocks read over and over (b-tree nodes, the superblock) outlive a scan.
+// - 2Q keeps blocks read once in a small FIFO and only promotes a block to the
+//   main LRU when it is read again after leaving that FIFO, so a scan only ever
+//   cycles through the FIFO (Johnson & Shasha, "2Q", VLDB 1994).
+
+export interface EvictionPolicy {
+  /** A block was added to the cache. */
+  insert(block: number): void;
+  /** A cached block was read. */
+  access(block: number): void;
+  /** Choose a cached block to evict and forget it; undefined if none. */
+  victim(): number | undefined;
+  /** Forget a block removed from the cache other than through victim(). */
+  remove(block: number): void;
+}
+
+export type EvictionPolicyName = "lru" | "lfu" | "2q";
+
+export class LruPolicy implements EvictionPolicy {
+  // Set iteration order is insertion order: the first block is the least
+  // recently used, and an access re-inserts a block at the end.
+  private readonly order = new Set<number>();
+
+  insert(block: number): void {
+    this.order.delete(block);
+    this.order.add(block);
+  }
+
+  access(block: number): void {
+    this.insert(block);
+  }
+
+  victim(): number | undefined {
+    const block = this.order.values().next().value;
+    if (block !== undefined) this.order.delete(block);
+    return block;
+  }
+
+  remove(block: number): void {
+    this.order.delete(block);
+  }
+}
+
+export class LfuPolicy implements EvictionPolicy {
+  private readonly counts = new Map<number, { count: number; tick: number }>();
+  private tick = 0;
+
+  insert(block: number): void {
+    this.counts.set(block, { count: 1, tick: this.tick++ });
+  }
+
+  access(block: number): void {
+    const entry = this.counts.get(block);
+    if (entry) {
+      entry.count++;
+      entry.tick = this.tick++;
+    }
+  }
+
+  // A linear scan: caches hold at most a few thousand blocks, and a victim is
+  // only needed on a miss, which costs an underlying read anyway.
+  victim(): number | undefined {
+    let victim: number | undefined;
+    let best: { count: number; tick: number } | undefined;
+    for (const [block, entry] of this.counts) {
+      if (
+        !best ||
+        entry.count < best.count ||
+        (entry.count === best.count && entry.tick < best.tick)
+      ) {
+        victim = block;
+        best = entry;
+      }
+    }
+    if (victim !== undefined) this.counts.delete(victim);
+    return victim;
+  }
+
+  remove(block: number): void {
+    this.counts.delete(block);
+  }
+}
+
+export class TwoQueuePolicy implements EvictionPolicy {
+  // Blocks read once, in arrival order (2Q's A1in).
+  private readonly recent = new Set<number>();
+  // Blocks read again after leaving `recent`, in LRU order (Am).
+  private readonly frequent = new Set<number>();
+  // Blocks recently evicted from `recent`, remembered without data (A1out).
+  private readonly ghosts = new Set<number>();
+
+  /** `recentShare` is the share of cached blocks `recent` may keep. */
+  constructor(private readonly recentShare: number = 0.25) {
+    if (!(recentShare > 0 && recentShare < 1)) {
+      throw new RangeError(
+        `recentShare must be between 0 and 1, got ${recentShare}`,
+      );
+    }
+  }
+
+  insert(block: number): void {
+    // A block inserted again (stored anew, or unpinned when its file closes)
+    // stays in `frequent` if it got there, and is never in both queues.
+    const frequent = this.frequent.delete(block) || this.ghosts.delete(block);
+    this.recent.delete(block);
+    if (frequent) {
+      this.frequent.add(block);
+    } else {
+      this.recent.add(block);
+    }
+  }
+
+  access(block: number): void {
+    // Repeat reads while in `recent` are usually the same scan touching the
+    // block again, so only blocks in `frequent` move.
+    if (this.frequent.delete(block)) this.frequent.add(block);
+  }
+
+  victim(): number | undefined {
+    const resident = this.recent.size + this.frequent.size;
+    if (
+      this.recent.size > 0 &&
+      (this.recent.size > Math.max(1, Math.floor(resident * this.recentShare)) ||
+        this.frequent.size === 0)
+    ) {
+      const block = this.recent.values().next().value as number;
+      this.recent.delete(block);
+      this.ghosts.add(block);
+      // Remember about as many evicted blocks as are resident.
+      while (this.ghosts.size > Math.max(1, resident)) {
+        this.ghosts.delete(this.ghosts.values().next().value as number);
+      }
+      return block;
+    }
+    const block = this.frequent.values().next().value;
+    if (block !== undefined) this.frequent.delete(block);
+    return block;
+  }
+
+  remove(block: number): void {
+    this.recent.delete(block);
+    this.frequent.delete(block);
+  }
+}
+
+/** Create a policy by name, or pass an existing policy through. */
+export function createEvictionPolicy(
+  policy: EvictionPolicyName | EvictionPolicy = "lru",
+): EvictionPolicy {
+  if (typeof policy !== "string") return policy;
+  switch (policy) {
+    case "lru":
+      return new LruPolicy();
+    case "lfu":
+      return new LfuPolicy();
+    case "2q":
+      return new TwoQueuePolicy();
+    default:
+      throw new Error(
+        `Unknown eviction policy '${policy}'; expected 'lru', 'lfu' or '2q'`,
+      );
+  }
+}
@@ -1,14 +1,19 @@
 // Lazy file reading - reader factory
 //
 // Picks the right LazyReader backend for a given source: a Blob/File in the
-// browser, a path string in Node, or an already-constructed LazyReader passed
+// browser, an http(s) URL, a path string in Node, a channel to an async reader
+// served on another thread, or an already-constructed LazyReader passed
 // through unchanged.
 
-import type { LazyReader } from "./types";
+import type { LazyReader, WritableLazyReader } from "./types";
 import { BlobReader } from "./blob-reader";
 import { NodeFileReader } from "./node-reader";
+import { HttpRangeReader, isHttpUrl } from "./http-reader";
+import type { HttpRangeReaderOptions } from "./http-reader";
+import { AsyncBridgeReader, isAsyncLazyReaderChannel } from "./async-bridge";
+import type { AsyncLazyReaderChannel } from "./async-bridge";
 
-export type LazySource = LazyReader | Blob | string;
+export type LazySource = LazyReader | Blob | string | AsyncLazyReaderChannel;
 
 function isLazyReader(value: unknown): value is LazyReader {
   return (
@@ -19,17 +24,43 @@ function isLazyReader(value: unknown): value is LazyReader {
   );
 }
 
-export function createLazyReader(source: LazySource): LazyReader {
+/** Whether `reader` can also write, i.e. is a WritableLazyReader. */
+export function isWritableLazyReader(
+  reader: unknown,
+): reader is WritableLazyReader {
+  return (
+    isLazyReader(reader) &&
+    typeof (reader as WritableLazyReader).write === "function" &&
+    typeof (reader as WritableLazyReader).truncate === "function" &&
+    typeof (reader as WritableLazyReader).flush === "function"
+  );
+}
+
+export interface LazyReaderOptions {
+  /** Options for an `HttpRangeReader` created for an http(s) URL. */
+  http?: HttpRangeReaderOptions;
+}
+
+export function createLazyReader(
+  source: LazySource,
+  options: LazyReaderOptions = {},
+): LazyReader {
   if (isLazyReader(source)) {
     return source;
   }
+  if (isAsyncLazyReaderChannel(source)) {
+    return new AsyncBridgeReader(source);
+  }
   if (typeof Blob !== "undefined" && source instanceof Blob) {
     return new BlobReader(source);
   }
   if (typeof source === "string") {
+    if (isHttpUrl(source)) {
+      return new HttpRangeReader(source, options.http);
+    }
     return new NodeFileReader(source);
   }
   throw new Error(
-    "Unsupported lazy source: expected a LazyReader, Blob, or file path string",
+    "Unsupported lazy source: expected a LazyReader, Blob, URL, file path string or async reader channel",
   );
 }
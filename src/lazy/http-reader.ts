@@ -0,0 +1,414 @@
+// Lazy file reading - HTTP range-request backend
+//
+// Reads byte ranges of a remote file with `Range: bytes=a-b` requests, so a
+// dataset on a web server or object store can be opened without downloading
+// it. Like every LazyReader the reads are synchronous, which leaves two ways to
+// issue a request:
+//
+// - synchronous XMLHttpRequest, available inside a Web Worker;
+// - in Node, which has no synchronous HTTP client, a short-lived child process
+//   that performs the request with `fetch` while `spawnSync` waits for it.
+//
+// The size comes from a HEAD request (falling back to the `Content-Range` of a
+// one-byte GET for servers or signed URLs that refuse HEAD), and the ETag seen
+// then is pinned: every later read sends `If-Match` and fails if the object has
+// been replaced, rather than mixing bytes from two versions of the file.
+
+import type { LazyReader } from "./types";
+import type { PersistentKey } from "./persistent-cache";
+
+export interface HttpRequest {
+  method: "HEAD" | "GET";
+  url: string;
+  headers: Record<string, string>;
+  /** Milliseconds before the request is abandoned (0 for no limit). */
+  timeout: number;
+}
+
+export interface HttpResponse {
+  status: number;
+  statusText: string;
+  /** Response headers with lower-case names. */
+  headers: Record<string, string>;
+  body: Uint8Array;
+}
+
+/**
+ * Performs one synchronous HTTP request. Throws on network failure; any HTTP
+ * status is returned as a response.
+ */
+export type HttpTransport = (request: HttpRequest) => HttpResponse;
+
+export interface HttpRangeReaderOptions {
+  /** Extra request headers, e.g. `{ Authorization: "Bearer ..." }`. */
+  headers?: Record<string, string>;
+  /** Attempts after the first for network errors, 5xx and 429 (default 3). */
+  retries?: number;
+  /** Delay before the first retry in ms, doubled for each further one (default 250). */
+  retryDelay?: number;
+  /** Per-request timeout in ms (default 30000, 0 for none). */
+  timeout?: number;
+  /** Fail reads if the file's ETag changes after opening (default true). */
+  pinETag?: boolean;
+  /** Request implementation; defaults to sync XHR in a Worker, a child process in Node. */
+  transport?: HttpTransport;
+}
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 250;
+const DEFAULT_TIMEOUT = 30000;
+
+/** Whether `source` names a remote file the HttpRangeReader can open. */
+export function isHttpUrl(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+export class HttpRangeReader implements LazyReader {
+  private readonly transport: HttpTransport;
+  private readonly headers: Record<string, string>;
+  private readonly retries: number;
+  private readonly retryDelay: number;
+  private readonly timeout: number;
+  private readonly _size: number;
+  /** The ETag reads are pinned to, if the server sent one and pinning is on. */
+  readonly etag: string | undefined;
+  /** The Last-Modified date the server sent when the file was opened. */
+  readonly lastModified: string | undefined;
+  private closed = false;
+
+  constructor(
+    readonly url: string,
+    options: HttpRangeReaderOptions = {},
+  ) {
+    this.transport = options.transport ?? defaultTransport();
+    this.headers = { ...options.headers };
+    this.retries = options.retries ?? DEFAULT_RETRIES;
+    this.retryDelay = options.retryDelay ?? DEFAULT_RETRY_DELAY;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+
+    const { size, etag, lastModified } = this.probe();
+    this._size = size;
+    this.etag = options.pinETag === false ? undefined : etag;
+    this.lastModified = lastModified;
+  }
+
+  get size(): number {
+    return this._size;
+  }
+
+  /**
+   * The URL and pinned ETag, so readers of one version of a file share pooled
+   * blocks. Without a pinned ETag the version is unknown and nothing is shared.
+   */
+  get cacheKey(): unknown {
+    return this.etag ? `${this.url} ${this.etag}` : undefined;
+  }
+
+  /**
+   * The URL, versioned by the pinned ETag or else Last-Modified, and the size.
+   * A file with neither is not persisted: a changed version could not be told.
+   */
+  get persistentKey(): PersistentKey | undefined {
+    const version = this.etag
+      ? `etag ${this.etag}`
+      : this.lastModified
+        ? `last-modified ${this.lastModified}`
+        : undefined;
+    return version === undefined
+      ? undefined
+      : { source: this.url, version: `${version} size ${this._size}` };
+  }
+
+  read(offset: number, length: number): Uint8Array {
+    if (this.closed) throw new Error("HttpRangeReader is closed");
+    const end = Math.min(offset + length, this._size);
+    if (offset < 0 || offset >= this._size || end <= offset) {
+      return new Uint8Array(0);
+    }
+
+    // A server may send less than the requested range (some cap the size of
+    // a response), so ask for the rest until the range is filled.
+    let out: Uint8Array | undefined;
+    for (let pos = offset; pos < end; ) {
+      const range = `bytes=${pos}-${end - 1}`;
+      const response = this.getRange(range);
+      const header = response.headers["content-range"];
+      const skip = pos - (contentRangeStart(header) ?? pos);
+      const n = Math.min(response.body.length - skip, end - pos);
+      if (skip < 0 || n <= 0) {
+        throw new Error(
+          `${this.url} returned no data for Range: ${range}` +
+            (header ? ` (Content-Range: ${header})` : ""),
+        );
+      }
+      const bytes = response.body.subarray(skip, skip + n);
+      if (pos === offset && n === end - offset) return bytes;
+      out ??= new Uint8Array(end - offset);
+      out.set(bytes, pos - offset);
+      pos += n;
+    }
+    return out!;
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+
+  // One ranged GET of the file, checked against the version it was opened at.
+  private getRange(range: string): HttpResponse {
+    const headers: Record<string, string> = { ...this.headers, Range: range };
+    // If-Match needs a strong validator; weak ETags are only compared below.
+    if (this.etag && !this.etag.startsWith("W/")) {
+      headers["If-Match"] = this.etag;
+    }
+    const response = this.request("GET", headers);
+
+    if (response.status === 412) {
+      throw this.changedError(response.headers.etag);
+    }
+    if (response.status === 200) {
+      throw new Error(
+        `${this.url} does not support range requests (got 200 for Range: ${range})`,
+      );
+    }
+    if (response.status !== 206) {
+      throw this.statusError("GET", response, range);
+    }
+    this.checkUnchanged(response);
+    return response;
+  }
+
+  // Find the file's size, ETag and Last-Modified: HEAD first, then a one-byte
+  // ranged GET for servers that refuse HEAD or leave out Content-Length.
+  private probe(): {
+    size: number;
+    etag: string | undefined;
+    lastModified: string | undefined;
+  } {
+    const head = this.request("HEAD", this.headers);
+    const length = head.headers["content-length"];
+    if (head.status >= 200 && head.status < 300 && length !== undefined) {
+      return {
+        size: Number(length),
+        etag: head.headers.etag,
+        lastModified: head.headers["last-modified"],
+      };
+    }
+
+    const get = this.request("GET", { ...this.headers, Range: "bytes=0-0" });
+    const validators = {
+      etag: get.headers.etag,
+      lastModified: get.headers["last-modified"],
+    };
+    if (get.status === 206) {
+      const total = contentRangeTotal(get.headers["content-range"]);
+      if (total !== undefined) return { size: total, ...validators };
+    }
+    if (get.status === 416) {
+      // An empty file: no byte 0 to return, but the total may still be given.
+      return {
+        size: contentRangeTotal(get.headers["content-range"]) ?? 0,
+        ...validators,
+      };
+    }
+    if (get.status === 200) {
+      throw new Error(
+        `${this.url} does not support range requests (got 200 for Range: bytes=0-0)`,
+      );
+    }
+    throw this.statusError("GET", get, "bytes=0-0");
+  }
+
+  // Send a request, retrying network errors, 5xx and 429 with exponential backoff.
+  private request(
+    method: HttpRequest["method"],
+    headers: Record<string, string>,
+  ): HttpResponse {
+    for (let attempt = 0; ; attempt++) {
+      let response: HttpResponse;
+      try {
+        response = this.transport({
+          method,
+          url: this.url,
+          headers,
+          timeout: this.timeout,
+        });
+      } catch (error) {
+        if (attempt >= this.retries) {
+          throw new Error(
+            `${method} ${this.url} failed after ${attempt + 1} attempts: ${(error as Error).message ?? error}`,
+          );
+        }
+        sleepSync(this.retryDelay * 2 ** attempt);
+        continue;
+      }
+      const retryable = response.status >= 500 || response.status === 429;
+      if (!retryable || attempt >= this.retries) return response;
+      sleepSync(this.retryDelay * 2 ** attempt);
+    }
+  }
+
+  private checkUnchanged(response: HttpResponse): void {
+    const etag = response.headers.etag;
+    if (this.etag && etag !== undefined && etag !== this.etag) {
+      throw this.changedError(etag);
+    }
+    const total = contentRangeTotal(response.headers["content-range"]);
+    if (total !== undefined && total !== this._size) {
+      throw new Error(
+        `${this.url} changed while being read: size was ${this._size}, now ${total}`,
+      );
+    }
+  }
+
+  private changedError(etag: string | undefined): Error {
+    return new Error(
+      `${this.url} changed while being read: ETag was ${this.etag}` +
+        (etag ? `, now ${etag}` : ""),
+    );
+  }
+
+  private statusError(
+    method: string,
+    response: HttpResponse,
+    range?: string,
+  ): Error {
+    return new Error(
+      `${method} ${this.url} failed: HTTP ${response.status}` +
+        (response.statusText ? ` ${response.statusText}` : "") +
+        (range ? ` (Range: ${range})` : ""),
+    );
+  }
+}
+
+// The total from a `Content-Range: bytes a-b/total` header, if known.
+function contentRangeTotal(header: string | undefined): number | undefined {
+  const match = header && /\/\s*(\d+)\s*$/.exec(header);
+  return match ? Number(match[1]) : undefined;
+}
+
+// The first byte from a `Content-Range: bytes a-b/total` header, if given.
+function contentRangeStart(header: string | undefined): number | undefined {
+  const match = header && /^\s*bytes\s+(\d+)\s*-/i.exec(header);
+  return match ? Number(match[1]) : undefined;
+}
+
+function defaultTransport(): HttpTransport {
+  if (typeof XMLHttpRequest !== "undefined") {
+    return xhrTransport;
+  }
+  if (typeof process !== "undefined" && process.versions?.node) {
+    return nodeTransport;
+  }
+  throw new Error(
+    "HttpRangeReader needs synchronous XMLHttpRequest (inside a Web Worker) or Node.js",
+  );
+}
+
+/** Synchronous XMLHttpRequest; binary responses need a Web Worker. */
+export const xhrTransport: HttpTransport = (request) => {
+  const xhr = new XMLHttpRequest();
+  xhr.open(request.method, request.url, /* async */ false);
+  // Both are only allowed on a synchronous request inside a Worker.
+  xhr.responseType = "arraybuffer";
+  if (request.timeout > 0) xhr.timeout = request.timeout;
+  for (const [name, value] of Object.entries(request.headers)) {
+    xhr.setRequestHeader(name, value);
+  }
+  xhr.send();
+  if (xhr.status === 0) {
+    throw new Error("network error");
+  }
+
+  const headers: Record<string, string> = {};
+  for (const line of xhr.getAllResponseHeaders().trim().split(/[\r\n]+/)) {
+    const colon = line.indexOf(":");
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line
+        .slice(colon + 1)
+        .trim();
+    }
+  }
+  const body = new Uint8Array((xhr.response as ArrayBuffer | null) ?? new ArrayBuffer(0));
+  return { status: xhr.status, statusText: xhr.statusText, headers, body };
+};
+
+// Run by `nodeTransport` in a child process: read the request as JSON from
+// stdin, then write the status and headers as one JSON line followed by the body.
+const NODE_FETCH_SCRIPT = `
+const chunks = [];
+process.stdin.on("data", (c) => chunks.push(c));
+process.stdin.on("end", async () => {
+  const req = JSON.parse(Buffer.concat(chunks).toString());
+  try {
+    const res = await fetch(req.url, {
+      method: req.method,
+      headers: req.headers,
+      signal: req.timeout > 0 ? AbortSignal.timeout(req.timeout) : undefined,
+    });
+    const body = Buffer.from(await res.arrayBuffer());
+    const head = JSON.stringify({
+      status: res.status,
+      statusText: res.statusText,
+      headers: Object.fromEntries(res.headers),
+    });
+    process.stdout.write(Buffer.concat([Buffer.from(head + "\\n"), body]));
+  } catch (error) {
+    process.stderr.write(String((error && error.cause) || error));
+    process.exitCode = 1;
+  }
+});
+`;
+
+/** Minimal subset of Node's `child_process` the Node transport needs. */
+interface ChildProcessLike {
+  spawnSync(
+    command: string,
+    args: string[],
+    options: { input: string; maxBuffer: number },
+  ): { status: number | null; stdout: Uint8Array; stderr: Uint8Array; error?: Error };
+}
+
+/**
+ * Node has no synchronous HTTP client, so each request runs `fetch` in a child
+ * Node process and blocks on it with `spawnSync`. That costs a process start
+ * per request, which the block cache in front of the reader amortises.
+ */
+export const nodeTransport: HttpTransport = (request) => {
+  // Required lazily so browser bundles never resolve the Node builtin.
+  const childProcess = require("child_process") as ChildProcessLike;
+  const result = childProcess.spawnSync(
+    process.execPath,
+    ["-e", NODE_FETCH_SCRIPT],
+    { input: JSON.stringify(request), maxBuffer: 2 ** 31 - 1 },
+  );
+  if (result.error) throw result.error;
+  if (result.status !== 0) {
+    throw new Error(new TextDecoder().decode(result.stderr) || "request failed");
+  }
+
+  const newline = result.stdout.indexOf(10);
+  const head = JSON.parse(
+    new TextDecoder().decode(result.stdout.subarray(0, newline)),
+  );
+  return {
+    status: head.status,
+    statusText: head.statusText,
+    headers: head.headers,
+    body: new Uint8Array(result.stdout.subarray(newline + 1)),
+  };
+};
+
+// Block the thread between retries. Atomics.wait sleeps without spinning where
+// it is allowed (Workers, Node); elsewhere fall back to a busy wait.
+function sleepSync(ms: number): void {
+  if (ms <= 0) return;
+  try {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+  } catch {
+    const until = Date.now() + ms;
+    while (Date.now() < until) {
+      // spin
+    }
+  }
+}
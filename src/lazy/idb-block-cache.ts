@@ -0,0 +1,284 @@
+// Lazy file reading - persistent block cache in IndexedDB
+//
+// Stores blocks in an IndexedDB database with three object stores:
+//
+// - `sources`: { source, version, blockSize } per source;
+// - `blocks`:  { source, index, data } keyed by [source, index];
+// - `usage`:   { source, index, bytes, used } keyed the same way, read back to
+//   trim the least recently used blocks. Kept apart from `blocks` so a hit only
+//   rewrites a few numbers, not the block.
+//
+// IndexedDB is asynchronous but lazy reads are not, so `open` loads the
+// source's stored blocks into memory up front, where the reader's misses are
+// answered from synchronously; they are released when the reader closes.
+// Writes are queued and committed in batches in the background; `flush` waits
+// for them and reports any that failed. The default budget is kept small to bound that up-front load.
+
+import type {
+  PersistentBlockCache,
+  PersistentBlockCacheOptions,
+  PersistentBlocks,
+  PersistentKey,
+} from "./persistent-cache";
+import { validateMaxBytes } from "./persistent-cache";
+
+export interface IndexedDbBlockCacheOptions extends PersistentBlockCacheOptions {
+  /** Database name (default 'netcdf4-wasm-blocks'). */
+  name?: string;
+  /** IndexedDB implementation; defaults to the global `indexedDB`. */
+  indexedDB?: IDBFactory;
+  /** Key ranges of the same implementation; defaults to the global `IDBKeyRange`. */
+  IDBKeyRange?: typeof IDBKeyRange;
+}
+
+interface SourceRecord {
+  source: string;
+  version: string;
+  blockSize: number;
+}
+
+interface BlockRecord {
+  source: string;
+  index: number;
+  data: Uint8Array;
+}
+
+interface UsageRecord {
+  source: string;
+  index: number;
+  bytes: number;
+  used: number;
+}
+
+type QueuedWrite =
+  | { kind: "put"; source: string; index: number; data: Uint8Array }
+  | { kind: "touch"; source: string; index: number };
+
+const DEFAULT_NAME = "netcdf4-wasm-blocks";
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+const DB_VERSION = 1;
+
+export class IndexedDbBlockCache implements PersistentBlockCache {
+  private readonly name: string;
+  private readonly factory: IDBFactory;
+  private readonly keyRange: typeof IDBKeyRange;
+  private readonly maxBytes: number;
+  private db?: Promise<IDBDatabase>;
+  private queue: QueuedWrite[] = [];
+  private writing: Promise<void> = Promise.resolve();
+  private scheduled = false;
+  // The first error a commit hit since the last flush.
+  private failure: unknown;
+
+  constructor(options: IndexedDbBlockCacheOptions = {}) {
+    const factory =
+      options.indexedDB ?? (globalThis as { indexedDB?: IDBFactory }).indexedDB;
+    const keyRange =
+      options.IDBKeyRange ??
+      (globalThis as { IDBKeyRange?: typeof IDBKeyRange }).IDBKeyRange;
+    if (!factory || !keyRange) {
+      throw new Error("IndexedDbBlockCache requires IndexedDB");
+    }
+    this.factory = factory;
+    this.keyRange = keyRange;
+    this.name = options.name ?? DEFAULT_NAME;
+    this.maxBytes = validateMaxBytes(options.maxBytes ?? DEFAULT_MAX_BYTES);
+  }
+
+  async open(key: PersistentKey, blockSize: number): Promise<PersistentBlocks> {
+    const db = await this.database();
+    const tx = db.transaction(["sources", "blocks", "usage"], "readwrite");
+    const range = this.sourceRange(key.source);
+    const loaded = new Map<number, Uint8Array>();
+
+    const stored = await request<SourceRecord | undefined>(
+      tx.objectStore("sources").get(key.source),
+    );
+    if (
+      stored &&
+      stored.version === key.version &&
+      stored.blockSize === blockSize
+    ) {
+      const records = await request<BlockRecord[]>(
+        tx.objectStore("blocks").getAll(range),
+      );
+      for (const record of records) loaded.set(record.index, record.data);
+    } else {
+      tx.objectStore("blocks").delete(range);
+      tx.objectStore("usage").delete(range);
+      const record: SourceRecord = {
+        source: key.source,
+        version: key.version,
+        blockSize,
+      };
+      tx.objectStore("sources").put(record);
+    }
+    await done(tx);
+
+    return {
+      blockSize,
+      get: (index) => {
+        const block = loaded.get(index);
+        if (block !== undefined) {
+          this.enqueue({ kind: "touch", source: key.source, index });
+        }
+        return block;
+      },
+      put: (index, block) => {
+        if (block.length > this.maxBytes) return;
+        // Structured clone stores a view's whole buffer, so store a copy of
+        // a block that is part of a larger read.
+        const data =
+          block.byteLength === block.buffer.byteLength ? block : block.slice();
+        this.enqueue({ kind: "put", source: key.source, index, data });
+      },
+      close: () => loaded.clear(),
+    };
+  }
+
+  async clear(source?: string): Promise<void> {
+    await this.flush();
+    const db = await this.database();
+    const tx = db.transaction(["sources", "blocks", "usage"], "readwrite");
+    if (source === undefined) {
+      for (const name of ["sources", "blocks", "usage"]) {
+        tx.objectStore(name).clear();
+      }
+    } else {
+      tx.objectStore("sources").delete(source);
+      tx.objectStore("blocks").delete(this.sourceRange(source));
+      tx.objectStore("usage").delete(this.sourceRange(source));
+    }
+    await done(tx);
+  }
+
+  /**
+   * Wait until the writes queued so far are committed. Rejects with the first
+   * error a commit hit since the last flush, background commits included.
+   */
+  async flush(): Promise<void> {
+    this.scheduled = false;
+    this.writing = this.writing.then(() => this.commit());
+    await this.writing;
+    const failure = this.failure;
+    this.failure = undefined;
+    if (failure !== undefined) throw failure;
+  }
+
+  /** Close the database connection. */
+  async close(): Promise<void> {
+    try {
+      await this.flush();
+    } finally {
+      if (this.db) (await this.db).close();
+      this.db = undefined;
+    }
+  }
+
+  private database(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const open = this.factory.open(this.name, DB_VERSION);
+      open.onupgradeneeded = () => {
+        const db = open.result;
+        db.createObjectStore("sources", { keyPath: "source" });
+        db.createObjectStore("blocks", { keyPath: ["source", "index"] });
+        db.createObjectStore("usage", { keyPath: ["source", "index"] });
+      };
+      this.db = request(open);
+    }
+    return this.db;
+  }
+
+  // Queue a write; one batch is committed per turn of the event loop.
+  private enqueue(write: QueuedWrite): void {
+    this.queue.push(write);
+    if (this.scheduled) return;
+    this.scheduled = true;
+    setTimeout(() => {
+      if (!this.scheduled) return;
+      this.scheduled = false;
+      this.writing = this.writing.then(() => this.commit());
+    }, 0);
+  }
+
+  // Commit the queued writes in one transaction, then trim to the budget.
+  private async commit(): Promise<void> {
+    const batch = this.queue;
+    this.queue = [];
+    if (batch.length === 0) return;
+    try {
+      const db = await this.database();
+      const tx = db.transaction(["blocks", "usage"], "readwrite");
+      const blocks = tx.objectStore("blocks");
+      const usage = tx.objectStore("usage");
+      const now = Date.now();
+      for (const write of batch) {
+        if (write.kind === "put") {
+          const block: BlockRecord = {
+            source: write.source,
+            index: write.index,
+            data: write.data,
+          };
+          blocks.put(block);
+          const use: UsageRecord = {
+            source: write.source,
+            index: write.index,
+            bytes: write.data.length,
+            used: now,
+          };
+          usage.put(use);
+        } else {
+          const use = await request<UsageRecord | undefined>(
+            usage.get([write.source, write.index]),
+          );
+          if (use) usage.put({ ...use, used: now });
+        }
+      }
+      await done(tx);
+      await this.trim(db);
+    } catch (error) {
+      // Reads go on: a block that was not stored only costs a re-fetch. The
+      // error is kept for flush to report.
+      this.failure ??= error;
+    }
+  }
+
+  // Every [source, index] key of one source.
+  private sourceRange(source: string): IDBKeyRange {
+    return this.keyRange.bound([source, -Infinity], [source, Infinity]);
+  }
+
+  // Delete least recently used blocks until the stored bytes fit the budget.
+  private async trim(db: IDBDatabase): Promise<void> {
+    const tx = db.transaction(["blocks", "usage"], "readwrite");
+    const usage = tx.objectStore("usage");
+    const records = await request<UsageRecord[]>(usage.getAll());
+    let bytes = records.reduce((total, record) => total + record.bytes, 0);
+    if (bytes > this.maxBytes) {
+      records.sort((a, b) => a.used - b.used);
+      for (const record of records) {
+        if (bytes <= this.maxBytes) break;
+        const key = [record.source, record.index];
+        tx.objectStore("blocks").delete(key);
+        usage.delete(key);
+        bytes -= record.bytes;
+      }
+    }
+    await done(tx);
+  }
+}
+
+function request<T>(req: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+}
@@ -4,13 +4,58 @@
 // memory. See the individual modules for details; the high-level entry point is
 // `Dataset(source, 'r', { lazy: true })` in the main API.
 
-export type { LazyReader, ReadStats, LazyOptions } from "./types";
+export type {
+  LazyReader,
+  WritableLazyReader,
+  ReadStats,
+  LazyOptions,
+} from "./types";
 export { CachedReader } from "./block-cache";
+export { BlockCachePool } from "./cache-pool";
+export type { BlockCachePoolOptions, BlockCachePoolStats } from "./cache-pool";
+export { LruPolicy, LfuPolicy, TwoQueuePolicy } from "./eviction";
+export type { EvictionPolicy, EvictionPolicyName } from "./eviction";
 export { MemoryReader } from "./memory-reader";
 export { NodeFileReader } from "./node-reader";
 export type { NodeFsLike } from "./node-reader";
 export { BlobReader } from "./blob-reader";
+export { OpfsReader, OpfsFile } from "./opfs-reader";
+export type {
+  FileSystemSyncAccessHandleLike,
+  FileSystemFileHandleLike,
+  OpfsOpenOptions,
+} from "./opfs-reader";
+export { HttpRangeReader, xhrTransport, nodeTransport } from "./http-reader";
+export type {
+  HttpRangeReaderOptions,
+  HttpTransport,
+  HttpRequest,
+  HttpResponse,
+} from "./http-reader";
+export type {
+  PersistentBlockCache,
+  PersistentBlockCacheOptions,
+  PersistentBlocks,
+  PersistentKey,
+} from "./persistent-cache";
+export { OverlayReader } from "./overlay";
+export type { OverlaySegment } from "./overlay";
+export { NodeBlockCache } from "./node-block-cache";
+export type { NodeBlockCacheOptions, NodeCacheFsLike } from "./node-block-cache";
+export { IndexedDbBlockCache } from "./idb-block-cache";
+export type { IndexedDbBlockCacheOptions } from "./idb-block-cache";
 export { createLazyStreamOps, mountLazyFile } from "./emscripten-fs";
 export type { LazyStreamOps } from "./emscripten-fs";
-export { createLazyReader } from "./factory";
-export type { LazySource } from "./factory";
+export {
+  AsyncBridgeReader,
+  serveAsyncLazyReader,
+} from "./async-bridge";
+export type {
+  AsyncLazyReader,
+  AsyncLazyReaderChannel,
+  AsyncLazyReaderServer,
+  AsyncBridgeOptions,
+  MessagePortLike,
+} from "./async-bridge";
+export { createLazyReader, isWritableLazyReader } from "./factory";
+export type { LazySource, LazyReaderOptions } from "./factory";
@@ -14,6 +14,11 @@ export class MemoryReader implements LazyReader {
     return this.data.length;
   }
 
+  /** The buffer itself: readers over one buffer share pooled blocks. */
+  get cacheKey(): unknown {
+    return this.data;
+  }
+
   read(offset: number, length: number): Uint8Array {
     const end = Math.min(offset + length, this.data.length);
     if (offset < 0 || offset >= this.data.length || end <= offset) {
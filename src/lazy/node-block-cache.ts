@@ -0,0 +1,218 @@
+// Lazy file reading - persistent block cache in a Node.js directory
+//
+// Stores each source's blocks as files under a cache directory:
+//
+//   <directory>/<sha256 of source>/meta.json   { source, version, blockSize }
+//   <directory>/<sha256 of source>/<index>.blk
+//
+// Reads and writes are synchronous (`fs.readFileSync` and friends), so a block
+// is read from disk only when the memory cache misses it. Recency is kept in
+// the files' mtimes, which a hit bumps, so least-recently-used trimming carries
+// over between processes. A block is written to a temporary file and renamed,
+// so a crash never leaves a torn block behind.
+
+import type {
+  PersistentBlockCache,
+  PersistentBlockCacheOptions,
+  PersistentBlocks,
+  PersistentKey,
+} from "./persistent-cache";
+import { validateMaxBytes } from "./persistent-cache";
+
+/** Minimal subset of the Node `fs` module the cache depends on (injectable for testing). */
+export interface NodeCacheFsLike {
+  mkdirSync(path: string, options: { recursive: boolean }): unknown;
+  readdirSync(path: string): string[];
+  statSync(path: string): { size: number; mtimeMs: number };
+  readFileSync(path: string): Uint8Array;
+  writeFileSync(path: string, data: Uint8Array | string): void;
+  renameSync(from: string, to: string): void;
+  unlinkSync(path: string): void;
+  rmSync(path: string, options: { recursive: boolean; force: boolean }): void;
+  utimesSync(path: string, atime: number, mtime: number): void;
+}
+
+export interface NodeBlockCacheOptions extends PersistentBlockCacheOptions {
+  /** File system implementation; defaults to Node's `fs`. */
+  fs?: NodeCacheFsLike;
+}
+
+const DEFAULT_MAX_BYTES = 256 * 1024 * 1024;
+
+export class NodeBlockCache implements PersistentBlockCache {
+  private readonly fs: NodeCacheFsLike;
+  private readonly maxBytes: number;
+  // Stored block files and their sizes, least recently used first. Built from
+  // the directory on first use.
+  private files?: Map<string, number>;
+  private bytes = 0;
+
+  /** Blocks are stored under `directory`, which is created if missing. */
+  constructor(
+    private readonly directory: string,
+    options: NodeBlockCacheOptions = {},
+  ) {
+    // Required lazily, as in NodeFileReader, so browser bundles never
+    // resolve the Node builtin.
+    this.fs = options.fs ?? (require("fs") as NodeCacheFsLike);
+    this.maxBytes = validateMaxBytes(options.maxBytes ?? DEFAULT_MAX_BYTES);
+  }
+
+  /** Bytes of blocks currently stored. */
+  get storedBytes(): number {
+    this.index();
+    return this.bytes;
+  }
+
+  async open(key: PersistentKey, blockSize: number): Promise<PersistentBlocks> {
+    const files = this.index();
+    const dir = this.sourceDir(key.source);
+    const meta = JSON.stringify({
+      source: key.source,
+      version: key.version,
+      blockSize,
+    });
+    let stored: string | undefined;
+    try {
+      stored = new TextDecoder().decode(this.fs.readFileSync(`${dir}/meta.json`));
+    } catch {
+      // Not stored yet.
+    }
+    if (stored !== meta) {
+      // Another version, block size or (on a hash collision) source.
+      this.removeDir(dir);
+      this.fs.mkdirSync(dir, { recursive: true });
+      this.fs.writeFileSync(`${dir}/meta.json`, meta);
+    }
+
+    return {
+      blockSize,
+      get: (index) => {
+        const file = `${dir}/${index}.blk`;
+        const size = files.get(file);
+        if (size === undefined) return undefined;
+        try {
+          const block = new Uint8Array(this.fs.readFileSync(file));
+          this.touch(file, size);
+          return block;
+        } catch {
+          // Trimmed or cleared by another process.
+          this.forget(file);
+          return undefined;
+        }
+      },
+      put: (index, block) => {
+        try {
+          this.store(`${dir}/${index}.blk`, block);
+        } catch {
+          // Best effort: a full or read-only disk only costs a re-fetch later.
+        }
+      },
+    };
+  }
+
+  async clear(source?: string): Promise<void> {
+    if (source !== undefined) {
+      this.removeDir(this.sourceDir(source));
+      return;
+    }
+    this.fs.rmSync(this.directory, { recursive: true, force: true });
+    this.files = new Map();
+    this.bytes = 0;
+  }
+
+  // Scan the directory once for stored blocks, oldest first, and trim them to
+  // the budget (which may have shrunk since they were stored).
+  private index(): Map<string, number> {
+    if (this.files) return this.files;
+    const found: Array<{ file: string; size: number; used: number }> = [];
+    for (const dir of this.list(this.directory)) {
+      for (const name of this.list(`${this.directory}/${dir}`)) {
+        if (!name.endsWith(".blk")) continue;
+        const file = `${this.directory}/${dir}/${name}`;
+        try {
+          const stat = this.fs.statSync(file);
+          found.push({ file, size: stat.size, used: stat.mtimeMs });
+        } catch {
+          // Removed while scanning.
+        }
+      }
+    }
+    found.sort((a, b) => a.used - b.used);
+    this.files = new Map(found.map(({ file, size }) => [file, size]));
+    this.bytes = found.reduce((total, { size }) => total + size, 0);
+    this.trim();
+    return this.files;
+  }
+
+  private list(dir: string): string[] {
+    try {
+      return this.fs.readdirSync(dir);
+    } catch {
+      return [];
+    }
+  }
+
+  private store(file: string, block: Uint8Array): void {
+    if (block.length > this.maxBytes) return;
+    const files = this.index();
+    const temp = `${file}.tmp`;
+    this.fs.writeFileSync(temp, block);
+    this.fs.renameSync(temp, file);
+    this.forget(file);
+    files.set(file, block.length);
+    this.bytes += block.length;
+    this.trim();
+  }
+
+  // Mark a block most recently used, here and in its mtime.
+  private touch(file: string, size: number): void {
+    const files = this.index();
+    files.delete(file);
+    files.set(file, size);
+    try {
+      const now = Date.now() / 1000;
+      this.fs.utimesSync(file, now, now);
+    } catch {
+      // Recency is only a hint.
+    }
+  }
+
+  private trim(): void {
+    const files = this.files!;
+    while (this.bytes > this.maxBytes) {
+      const oldest = files.keys().next().value;
+      if (oldest === undefined) break;
+      try {
+        this.fs.unlinkSync(oldest);
+      } catch {
+        // Already gone.
+      }
+      this.forget(oldest);
+    }
+  }
+
+  private forget(file: string): void {
+    const size = this.files?.get(file);
+    if (size === undefined) return;
+    this.files!.delete(file);
+    this.bytes -= size;
+  }
+
+  private removeDir(dir: string): void {
+    this.fs.rmSync(dir, { recursive: true, force: true });
+    for (const file of [...this.index().keys()]) {
+      if (file.startsWith(`${dir}/`)) this.forget(file);
+    }
+  }
+
+  private sourceDir(source: string): string {
+    const crypto = require("crypto") as {
+      createHash(algorithm: string): {
+        update(data: string): { digest(encoding: "hex"): string };
+      };
+    };
+    const hash = crypto.createHash("sha256").update(source).digest("hex");
+    return `${this.directory}/${hash.slice(0, 32)}`;
+  }
+}
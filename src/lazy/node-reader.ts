@@ -6,6 +6,7 @@
 // `readSync` is synchronous on every platform.
 
 import type { LazyReader } from "./types";
+import type { PersistentKey } from "./persistent-cache";
 
 /** Minimal subset of the Node `fs` module this reader depends on (injectable for testing). */
 export interface NodeFsLike {
@@ -17,7 +18,7 @@ export interface NodeFsLike {
     length: number,
     position: number,
   ): number;
-  fstatSync(fd: number): { size: number };
+  fstatSync(fd: number): { size: number; mtimeMs?: number };
   closeSync(fd: number): void;
 }
 
@@ -25,20 +26,43 @@ export class NodeFileReader implements LazyReader {
   private readonly fs: NodeFsLike;
   private readonly fd: number;
   private readonly _size: number;
+  private readonly mtimeMs: number | undefined;
   private closed = false;
 
-  constructor(path: string, fsImpl?: NodeFsLike) {
+  constructor(
+    private readonly path: string,
+    fsImpl?: NodeFsLike,
+  ) {
     // Lazily require 'fs' only when no implementation is injected, so bundlers
     // building for the browser never need to resolve the Node builtin.
     this.fs = fsImpl ?? (require("fs") as NodeFsLike);
     this.fd = this.fs.openSync(path, "r");
-    this._size = this.fs.fstatSync(this.fd).size;
+    const stat = this.fs.fstatSync(this.fd);
+    this._size = stat.size;
+    this.mtimeMs = stat.mtimeMs;
   }
 
   get size(): number {
     return this._size;
   }
 
+  /**
+   * The path, modification time and size, so readers of one version of a
+   * file share pooled blocks.
+   */
+  get cacheKey(): unknown {
+    return this.mtimeMs === undefined
+      ? undefined
+      : `${this.path}@${this.mtimeMs}:${this._size}`;
+  }
+
+  /** The path as given, versioned by modification time and size. */
+  get persistentKey(): PersistentKey | undefined {
+    return this.mtimeMs === undefined
+      ? undefined
+      : { source: this.path, version: `${this.mtimeMs}:${this._size}` };
+  }
+
   read(offset: number, length: number): Uint8Array {
     if (this.closed) throw new Error("NodeFileReader is closed");
     const end = Math.min(offset + length, this._size);
@@ -0,0 +1,234 @@
+// Lazy file reading - Origin Private File System backend
+//
+// Reads (and optionally writes) a file in the browser's Origin Private File
+// System through a FileSystemSyncAccessHandle. Its `read` and `write` take an
+// explicit position and fill or drain a caller's buffer directly, so unlike
+// BlobReader there is no Blob slice or fresh ArrayBuffer per read: `readInto`
+// lands bytes straight in the WASM heap or a cache block.
+//
+// Sync access handles are only handed out inside a dedicated Web Worker, and
+// creating one is asynchronous, so open files with `OpfsReader.open` or
+// `OpfsFile.open` before passing them to `Dataset(..., { lazy: true })`. A
+// read-write handle locks the file until it is closed.
+
+import type { LazyReader, WritableLazyReader } from "./types";
+import type { PersistentKey } from "./persistent-cache";
+
+/**
+ * The structural subset of FileSystemSyncAccessHandle used here (it is only
+ * declared in the WebWorker lib).
+ */
+export interface FileSystemSyncAccessHandleLike {
+  read(buffer: Uint8Array, options?: { at?: number }): number;
+  write(buffer: Uint8Array, options?: { at?: number }): number;
+  getSize(): number;
+  truncate(size: number): void;
+  flush(): void;
+  close(): void;
+}
+
+/** The structural subset of FileSystemFileHandle used to open one. */
+export interface FileSystemFileHandleLike {
+  readonly name: string;
+  createSyncAccessHandle(options?: {
+    mode?: "read-only" | "readwrite" | "readwrite-unsafe";
+  }): Promise<FileSystemSyncAccessHandleLike>;
+  getFile?(): Promise<{ lastModified: number; size: number }>;
+}
+
+export interface OpfsOpenOptions {
+  /** Create the file (and its directories) if missing (default false). */
+  create?: boolean;
+}
+
+export class OpfsReader implements LazyReader {
+  private readonly _size: number;
+  protected closed = false;
+
+  /**
+   * `key` identifies the file's contents for a shared BlockCachePool or a
+   * persistent cache; `OpfsReader.open` derives one from the path and
+   * modification time.
+   */
+  constructor(
+    protected readonly handle: FileSystemSyncAccessHandleLike,
+    private readonly key?: PersistentKey,
+  ) {
+    this._size = handle.getSize();
+  }
+
+  /**
+   * Open the file at `path` in the origin's private file system (slash
+   * separated, relative to its root), or a file handle already obtained,
+   * for reading.
+   */
+  static async open(
+    file: string | FileSystemFileHandleLike,
+  ): Promise<OpfsReader> {
+    const { fileHandle, path } = await resolveFile(file, false);
+    // "read-only" lets several readers share the file; browsers without
+    // access modes ignore it and lock the file instead.
+    const handle = await fileHandle.createSyncAccessHandle({ mode: "read-only" });
+    const info = path !== undefined ? await fileHandle.getFile?.() : undefined;
+    return new OpfsReader(
+      handle,
+      info
+        ? { source: `opfs:${path}`, version: `${info.lastModified}:${info.size}` }
+        : undefined,
+    );
+  }
+
+  get size(): number {
+    return this._size;
+  }
+
+  get cacheKey(): unknown {
+    return this.key && `${this.key.source}@${this.key.version}`;
+  }
+
+  get persistentKey(): PersistentKey | undefined {
+    return this.key;
+  }
+
+  read(offset: number, length: number): Uint8Array {
+    this.checkOpen();
+    const end = Math.min(offset + length, this.size);
+    if (offset < 0 || offset >= this.size || end <= offset) {
+      return new Uint8Array(0);
+    }
+    const buffer = new Uint8Array(end - offset);
+    const n = this.readInto(offset, buffer);
+    return n === buffer.length ? buffer : buffer.subarray(0, n);
+  }
+
+  readInto(offset: number, target: Uint8Array): number {
+    this.checkOpen();
+    const want = Math.min(target.length, this.size - offset);
+    if (offset < 0 || want <= 0) return 0;
+
+    let read = 0;
+    // Like readSync, a handle read may come back short; loop until filled.
+    while (read < want) {
+      const n = this.handle.read(target.subarray(read, want), {
+        at: offset + read,
+      });
+      if (n <= 0) break;
+      read += n;
+    }
+    return read;
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.handle.close();
+  }
+
+  protected checkOpen(): void {
+    if (this.closed) {
+      throw new Error(`${this.constructor.name} is closed`);
+    }
+  }
+}
+
+/**
+ * A read-write OPFS file. Mounted with mode 'a' or 'r+' (or 'w' to create),
+ * NetCDF's writes go straight to the file instead of a MEMFS copy; close the
+ * dataset to flush them and release the file's lock.
+ */
+export class OpfsFile extends OpfsReader implements WritableLazyReader {
+  constructor(handle: FileSystemSyncAccessHandleLike) {
+    // Contents change under writes, so blocks are never shared by key.
+    super(handle);
+  }
+
+  /**
+   * Open the file at `path` in the origin's private file system, or a file
+   * handle already obtained, for reading and writing.
+   */
+  static async open(
+    file: string | FileSystemFileHandleLike,
+    options: OpfsOpenOptions = {},
+  ): Promise<OpfsFile> {
+    const { fileHandle } = await resolveFile(file, options.create ?? false);
+    const handle = await fileHandle.createSyncAccessHandle({ mode: "readwrite" });
+    return new OpfsFile(handle);
+  }
+
+  /** The current size, which writes and truncation change. */
+  get size(): number {
+    this.checkOpen();
+    return this.handle.getSize();
+  }
+
+  get cacheKey(): unknown {
+    return undefined;
+  }
+
+  get persistentKey(): PersistentKey | undefined {
+    return undefined;
+  }
+
+  write(offset: number, data: Uint8Array): number {
+    this.checkOpen();
+    if (offset < 0) {
+      throw new RangeError(`Invalid write at offset ${offset}`);
+    }
+    let written = 0;
+    while (written < data.length) {
+      const n = this.handle.write(data.subarray(written), {
+        at: offset + written,
+      });
+      if (n <= 0) {
+        throw new Error(
+          `Short write to OPFS file: ${written} of ${data.length} bytes at ${offset}`,
+        );
+      }
+      written += n;
+    }
+    return written;
+  }
+
+  truncate(size: number): void {
+    this.checkOpen();
+    this.handle.truncate(size);
+  }
+
+  flush(): void {
+    this.checkOpen();
+    this.handle.flush();
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.handle.flush();
+    super.close();
+  }
+}
+
+// Look up `file` under the OPFS root, walking (and if asked creating) its
+// directories; a file handle is passed through.
+async function resolveFile(
+  file: string | FileSystemFileHandleLike,
+  create: boolean,
+): Promise<{ fileHandle: FileSystemFileHandleLike; path?: string }> {
+  if (typeof file !== "string") return { fileHandle: file };
+
+  const storage = (globalThis as any).navigator?.storage;
+  if (typeof storage?.getDirectory !== "function") {
+    throw new Error(
+      "The Origin Private File System is not available (navigator.storage.getDirectory is missing)",
+    );
+  }
+  const parts = file.split("/").filter((part) => part !== "");
+  const name = parts.pop();
+  if (!name) {
+    throw new Error(`Invalid OPFS file path: '${file}'`);
+  }
+  let dir = await storage.getDirectory();
+  for (const part of parts) {
+    dir = await dir.getDirectoryHandle(part, { create });
+  }
+  const fileHandle = await dir.getFileHandle(name, { create });
+  return { fileHandle, path: [...parts, name].join("/") };
+}
@@ -0,0 +1,307 @@
+// Lazy file reading - copy-on-write overlay
+//
+// Makes a read-only LazyReader writable without copying it. The file is split
+// into fixed-size blocks; the first write to a block copies it out of the base
+// reader into a sparse map of dirty blocks, and the write lands there. Reads
+// take dirty blocks from the map and everything else from the base, so a large
+// remote or local file can be opened with mode 'a' to add an attribute or a
+// small variable while only the blocks NetCDF rewrites are held in memory.
+//
+// The base is never modified. `chunks`, `toArrayBuffer` and `toBlob` produce
+// the merged file, reading the unmodified ranges from the base in chunks (or,
+// for a Blob, slicing it without reading at all).
+
+import type { LazyReader, WritableLazyReader } from "./types";
+import { BlobReader } from "./blob-reader";
+import { DEFAULT_BLOCK_SIZE } from "./cache-pool";
+
+// Unmodified ranges are copied out of the base this many bytes at a time.
+const EXPORT_CHUNK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * A range of the merged file: `data` when the overlay holds its bytes (dirty
+ * blocks, or zeros where the file grew), otherwise the base's bytes at the
+ * same offset.
+ */
+export interface OverlaySegment {
+  offset: number;
+  length: number;
+  data?: Uint8Array;
+}
+
+export class OverlayReader implements WritableLazyReader {
+  private readonly dirty = new Map<number, Uint8Array>();
+  private _size: number;
+  // Bytes at or past this offset no longer come from the base: the file was
+  // truncated there, so any regrown range reads as zeros.
+  private baseLimit: number;
+
+  constructor(
+    private readonly base: LazyReader,
+    private readonly blockSize: number = DEFAULT_BLOCK_SIZE,
+  ) {
+    if (!Number.isInteger(blockSize) || blockSize <= 0) {
+      throw new RangeError(
+        `blockSize must be a positive integer, got ${blockSize}`,
+      );
+    }
+    this._size = base.size;
+    this.baseLimit = base.size;
+  }
+
+  /** The merged file's size, which writes and truncation change. */
+  get size(): number {
+    return this._size;
+  }
+
+  /** Bytes held for modified blocks. */
+  get dirtyBytes(): number {
+    return this.dirty.size * this.blockSize;
+  }
+
+  read(offset: number, length: number): Uint8Array {
+    const end = Math.min(offset + length, this._size);
+    if (offset < 0 || end <= offset) return new Uint8Array(0);
+    const out = new Uint8Array(end - offset);
+    this.readInto(offset, out);
+    return out;
+  }
+
+  readInto(offset: number, target: Uint8Array): number {
+    const end = Math.min(offset + target.length, this._size);
+    if (offset < 0 || end <= offset) return 0;
+
+    let pos = offset;
+    while (pos < end) {
+      const index = Math.floor(pos / this.blockSize);
+      const blockStart = index * this.blockSize;
+      const blockEnd = Math.min(blockStart + this.blockSize, end);
+      const block = this.dirty.get(index);
+      if (block) {
+        target.set(
+          block.subarray(pos - blockStart, blockEnd - blockStart),
+          pos - offset,
+        );
+        pos = blockEnd;
+        continue;
+      }
+      // Read a run of clean blocks from the base in one request.
+      let runEnd = blockEnd;
+      while (
+        runEnd < end &&
+        !this.dirty.has(Math.floor(runEnd / this.blockSize))
+      ) {
+        runEnd = Math.min(runEnd + this.blockSize, end);
+      }
+      this.readBase(pos, target.subarray(pos - offset, runEnd - offset));
+      pos = runEnd;
+    }
+    return end - offset;
+  }
+
+  write(offset: number, data: Uint8Array): number {
+    if (offset < 0) {
+      throw new RangeError(`Invalid write at offset ${offset}`);
+    }
+    if (data.length === 0) return 0;
+    let written = 0;
+    while (written < data.length) {
+      const at = offset + written;
+      const index = Math.floor(at / this.blockSize);
+      const within = at - index * this.blockSize;
+      const n = Math.min(this.blockSize - within, data.length - written);
+      this.dirtyBlock(index).set(data.subarray(written, written + n), within);
+      written += n;
+    }
+    this._size = Math.max(this._size, offset + data.length);
+    return written;
+  }
+
+  truncate(size: number): void {
+    if (!Number.isInteger(size) || size < 0) {
+      throw new RangeError(`Invalid truncate to ${size} bytes`);
+    }
+    if (size < this._size) {
+      for (const index of [...this.dirty.keys()]) {
+        if (index * this.blockSize >= size) this.dirty.delete(index);
+      }
+      // Bytes past the end read as zeros if the file grows again.
+      this.dirty.get(Math.floor(size / this.blockSize))?.fill(0, size % this.blockSize);
+      this.baseLimit = Math.min(this.baseLimit, size);
+    }
+    this._size = size;
+  }
+
+  flush(): void {
+    // Writes are held in memory until exported.
+  }
+
+  /** Drop the modifications and close the base reader. */
+  close(): void {
+    this.dirty.clear();
+    this.base.close();
+  }
+
+  /** The merged file as a list of ranges, in order. */
+  segments(): OverlaySegment[] {
+    const segments: OverlaySegment[] = [];
+    const baseEnd = Math.min(this.baseLimit, this.base.size);
+    // An unmodified range: the base's bytes, then zeros past its end.
+    const clean = (from: number, to: number) => {
+      if (from < baseEnd) {
+        segments.push({ offset: from, length: Math.min(to, baseEnd) - from });
+      }
+      const zeros = Math.max(from, baseEnd);
+      if (to > zeros) {
+        segments.push({
+          offset: zeros,
+          length: to - zeros,
+          data: new Uint8Array(to - zeros),
+        });
+      }
+    };
+
+    let pos = 0;
+    for (const index of [...this.dirty.keys()].sort((a, b) => a - b)) {
+      const start = index * this.blockSize;
+      if (start >= this._size) continue;
+      if (start > pos) clean(pos, start);
+      const end = Math.min(start + this.blockSize, this._size);
+      const data = this.dirty.get(index)!.subarray(0, end - start);
+      segments.push({ offset: start, length: end - start, data });
+      pos = end;
+    }
+    if (pos < this._size) clean(pos, this._size);
+    return segments;
+  }
+
+  /**
+   * The merged file in chunks of at most `chunkSize` bytes, each a copy the
+   * caller may keep. Unmodified ranges are read from `source` as they are
+   * reached (see toArrayBuffer).
+   */
+  *chunks(
+    source: LazyReader = this.base,
+    chunkSize: number = EXPORT_CHUNK_SIZE,
+  ): Generator<Uint8Array> {
+    for (const { offset, length, data } of this.segments()) {
+      for (let at = 0; at < length; at += chunkSize) {
+        const n = Math.min(chunkSize, length - at);
+        if (data) {
+          yield data.slice(at, at + n);
+        } else {
+          const chunk = new Uint8Array(n);
+          readFully(source, offset + at, chunk);
+          yield chunk;
+        }
+      }
+    }
+  }
+
+  /**
+   * The merged file in one ArrayBuffer, the only full copy made. Unmodified
+   * ranges are read from `source`: by default the base, but pass the reader
+   * underneath a cache to keep the export from flushing it. A source that
+   * ends before the base's size is an error.
+   */
+  toArrayBuffer(source: LazyReader = this.base): ArrayBuffer {
+    const out = new Uint8Array(this._size);
+    for (const { offset, length, data } of this.segments()) {
+      if (data) {
+        out.set(data, offset);
+        continue;
+      }
+      for (let at = offset; at < offset + length; at += EXPORT_CHUNK_SIZE) {
+        const target = out.subarray(
+          at,
+          Math.min(at + EXPORT_CHUNK_SIZE, offset + length),
+        );
+        readFully(source, at, target);
+      }
+    }
+    return out.buffer;
+  }
+
+  /**
+   * The merged file as a Blob. Unmodified ranges of a BlobReader's Blob are
+   * sliced rather than read. Other sources are read in chunks, each folded
+   * into the Blob before the next is read, so no more than one chunk is held
+   * in JS memory; the Blob itself still holds the whole file (a browser may
+   * keep a large one on disk, Node keeps it in memory). Stream `chunks`
+   * instead to export a file too large for that.
+   */
+  toBlob(
+    type: string = "application/x-netcdf",
+    source: LazyReader = this.base,
+    chunkSize: number = EXPORT_CHUNK_SIZE,
+  ): Blob {
+    if (!(source instanceof BlobReader)) {
+      let blob = new Blob([], { type });
+      for (const chunk of this.chunks(source, chunkSize)) {
+        blob = new Blob([blob, chunk as BlobPart], { type });
+      }
+      return blob;
+    }
+    const parts = this.segments().map(({ offset, length, data }) =>
+      data ? data.slice() : source.blob.slice(offset, offset + length),
+    );
+    return new Blob(parts, { type });
+  }
+
+  // Fill `target` with the bytes at `offset` as the base has them, zeros past
+  // its end or a truncation.
+  private readBase(offset: number, target: Uint8Array): void {
+    const available = Math.min(this.baseLimit, this.base.size) - offset;
+    const want = Math.max(0, Math.min(target.length, available));
+    let read = 0;
+    if (want > 0) {
+      if (this.base.readInto) {
+        read = this.base.readInto(offset, target.subarray(0, want));
+      } else {
+        const bytes = this.base.read(offset, want);
+        target.set(bytes);
+        read = bytes.length;
+      }
+    }
+    target.fill(0, read);
+  }
+
+  // The dirty copy of block `index`, copied from the current contents on the
+  // block's first write.
+  private dirtyBlock(index: number): Uint8Array {
+    let block = this.dirty.get(index);
+    if (!block) {
+      block = new Uint8Array(this.blockSize);
+      this.readInto(index * this.blockSize, block);
+      this.dirty.set(index, block);
+    }
+    return block;
+  }
+}
+
+// Fill `target` with `source`'s bytes at `offset`, continuing short reads.
+// They stand for the base's bytes in the merged file, so a source that ends
+// early is an error rather than zeros.
+function readFully(
+  source: LazyReader,
+  offset: number,
+  target: Uint8Array,
+): void {
+  let n = 0;
+  while (n < target.length) {
+    let read: number;
+    if (source.readInto) {
+      read = source.readInto(offset + n, target.subarray(n));
+    } else {
+      const bytes = source.read(offset + n, target.length - n);
+      target.set(bytes, n);
+      read = bytes.length;
+    }
+    if (read <= 0) {
+      throw new Error(
+        `Lazy source returned ${n} of ${target.length} bytes at offset ${offset}`,
+      );
+    }
+    n += read;
+  }
+}
@@ -0,0 +1,56 @@
+// Lazy file reading - persistent block cache interface
+//
+// A CachedReader's blocks live in memory and are gone on the next page load or
+// process start, so every session re-fetches the same header and coordinate
+// blocks. A PersistentBlockCache is a second tier behind it: blocks missing
+// from memory are looked up there before the underlying reader is asked, and
+// blocks read from the reader are stored there for next time.
+//
+// Blocks are filed under the reader's `persistentKey`: a stable `source` (URL,
+// path) and a `version` of its contents (ETag or Last-Modified, mtime and
+// size). Opening a source whose version differs from the stored one discards
+// its stored blocks, so a changed file is never served from stale ones.
+// Backends: NodeBlockCache (a cache directory) and IndexedDbBlockCache
+// (browser).
+
+/** Identifies a file's contents across sessions. */
+export interface PersistentKey {
+  /** Stable name of the file, e.g. its URL or path. */
+  source: string;
+  /** Changes whenever the contents do, e.g. its ETag or mtime and size. */
+  version: string;
+}
+
+/** The stored blocks of one source, opened for a CachedReader. */
+export interface PersistentBlocks {
+  /** Block size the blocks were stored with. */
+  readonly blockSize: number;
+  /** A stored block, if there is one. */
+  get(index: number): Uint8Array | undefined;
+  /** Store a block read from the source; best effort, never throws. */
+  put(index: number, block: Uint8Array): void;
+  /** Release anything held in memory for the reader; stored blocks remain. */
+  close?(): void;
+}
+
+export interface PersistentBlockCache {
+  /**
+   * Open the stored blocks of `key.source`, first discarding them if they
+   * were stored for another version or block size.
+   */
+  open(key: PersistentKey, blockSize: number): Promise<PersistentBlocks>;
+  /** Delete the stored blocks of `source`, or of every source. */
+  clear(source?: string): Promise<void>;
+}
+
+export interface PersistentBlockCacheOptions {
+  /** Most bytes stored; least recently used blocks are trimmed beyond it. */
+  maxBytes?: number;
+}
+
+export function validateMaxBytes(maxBytes: number): number {
+  if (!(maxBytes > 0)) {
+    throw new RangeError(`maxBytes must be a positive number, got ${maxBytes}`);
+  }
+  return maxBytes;
+}
@@ -11,6 +11,10 @@
 // FileReaderSync / synchronous XHR are available); in Node `fs.readSync` is
 // synchronous everywhere.
 
+import type { EvictionPolicy, EvictionPolicyName } from "./eviction";
+import type { BlockCachePool } from "./cache-pool";
+import type { PersistentBlocks, PersistentKey } from "./persistent-cache";
+
 export interface LazyReader {
   /** Total size of the underlying file in bytes. */
   readonly size: number;
@@ -23,24 +27,100 @@ export interface LazyReader {
    */
   read(offset: number, length: number): Uint8Array;
 
+  /**
+   * Optionally, read into `target` (at most `target.length` bytes from
+   * `offset`, clamped like `read`) and return the byte count. Lets a caller
+   * that owns a buffer, such as the WASM heap, skip an allocation and a copy.
+   */
+  readInto?(offset: number, target: Uint8Array): number;
+
   /** Release any underlying handle (file descriptor, etc.). */
   close(): void;
+
+  /**
+   * Identifies the file's contents for a shared BlockCachePool: readers with
+   * equal string keys, or the same key object, share cached blocks. Without a
+   * key a reader only shares blocks with itself.
+   */
+  readonly cacheKey?: unknown;
+
+  /**
+   * Identifies the file across sessions for a PersistentBlockCache: its
+   * source (URL, path) and the version of its contents. Without it a reader's
+   * blocks are not persisted.
+   */
+  readonly persistentKey?: PersistentKey;
+}
+
+/**
+ * A LazyReader that can also modify its file, so a dataset can be opened with
+ * mode 'a' or 'r+' (or created with 'w') directly on it. `size` follows writes.
+ */
+export interface WritableLazyReader extends LazyReader {
+  /** Write `data` at `offset`, growing the file if needed; returns the count written. */
+  write(offset: number, data: Uint8Array): number;
+  /** Resize the file to `size` bytes. */
+  truncate(size: number): void;
+  /** Persist written data. */
+  flush(): void;
 }
 
 export interface ReadStats {
   /** Block reads served from cache. */
   hits: number;
-  /** Block reads that hit the underlying reader. */
+  /** Block reads not served from memory (the persistent cache or the reader). */
   misses: number;
-  /** Bytes actually fetched from the underlying reader. */
+  /** Bytes actually fetched from the underlying reader, read-ahead included. */
   bytesFetched: number;
-  /** Blocks currently held in the cache. */
+  /** Blocks currently held in the cache, pinned ones included. */
   cachedBlocks: number;
+  /** Bytes currently held in the cache, pinned ones included. */
+  cachedBytes: number;
+  /** Pinned blocks currently held (never evicted). */
+  pinnedBlocks: number;
+  /** Requests made to the underlying reader (adjacent missing blocks share one). */
+  innerReads: number;
+  /** Blocks fetched by read-ahead before any read asked for them. */
+  prefetchedBlocks: number;
+  /** Prefetched blocks that a later read used. */
+  prefetchHits: number;
+  /** Prefetched blocks evicted before any read used them. */
+  prefetchEvicted: number;
+  /** Missing blocks found in the persistent cache instead of read. */
+  persistentHits: number;
 }
 
 export interface LazyOptions {
   /** Size of each cached block in bytes (default 64 KiB). */
   blockSize?: number;
-  /** Maximum number of blocks held in the LRU cache (default 256). */
+  /**
+   * Maximum number of blocks held in the cache (default 256, or unlimited when
+   * only `maxCacheBytes` is given).
+   */
   maxCacheBlocks?: number;
+  /** Maximum bytes held in the cache, pinned blocks aside. */
+  maxCacheBytes?: number;
+  /** Which block to evict when the cache is full (default 'lru'). */
+  eviction?: EvictionPolicyName | EvictionPolicy;
+  /**
+   * Keep the blocks covering the first `pinBytes` bytes of the file (header
+   * and metadata) cached for good, outside the cache budget. Default 0.
+   */
+  pinBytes?: number;
+  /**
+   * Most blocks fetched ahead of a sequential read (default a quarter of the
+   * cache's capacity; 0 disables read-ahead).
+   */
+  readAhead?: number;
+  /**
+   * Keep blocks in this pool, shared with other lazy readers, instead of a
+   * cache of the reader's own; the pool's block size and budget then apply.
+   */
+  cachePool?: BlockCachePool;
+  /**
+   * A second tier behind the memory cache: missing blocks are looked up here
+   * before the reader is asked, and blocks read are stored here. Open it from
+   * a PersistentBlockCache with the same block size.
+   */
+  persistentBlocks?: PersistentBlocks;
 }
@@ -0,0 +1,187 @@
+// CF mask-and-scale conventions (netcdf4-python's set_auto_maskandscale)
+//
+// A packed variable stores integers that unpack as `packed * scale_factor +
+// add_offset`. Elements equal to _FillValue or missing_value, or outside
+// valid_min/valid_max/valid_range, are missing. As in the CF conventions all of
+// these attributes describe the stored (packed) values, so masking is decided
+// before unpacking and packing happens before missing elements are filled in.
+
+import { DATA_TYPE_MAP, DEFAULT_FILL_VALUES, NC_TYPE_TO_STR } from "./constants";
+import { C_TYPE_ARRAYS, numericCType, toNumericArray } from "./datatypes";
+import type { NcCType, NumericArray } from "./datatypes";
+import type { AttributeInfo } from "./types";
+
+/** Attribute lookup of the variable being decoded (Variable.getAttrInfo). */
+export type AttributeLookup = (name: string) => AttributeInfo | undefined;
+
+export interface Packing {
+  scale: number;
+  offset: number;
+  /** Memory type of unpacked values: float when the attributes are 'f4'. */
+  ctype: "float" | "double";
+}
+
+function numbers(value: unknown): number[] {
+  if (value === undefined || value === null || typeof value === "string") return [];
+  if (typeof value === "number" || typeof value === "bigint") return [Number(value)];
+  return Array.from(value as ArrayLike<number | bigint>, (v) => Number(v));
+}
+
+// Attribute values compared with 64-bit integer data: integers as bigints, so
+// values near ±2^63 that a number cannot tell apart stay distinct.
+function exactNumbers(value: unknown): (number | bigint)[] {
+  if (value === undefined || value === null || typeof value === "string") return [];
+  const values =
+    typeof value === "number" || typeof value === "bigint"
+      ? [value]
+      : Array.from(value as ArrayLike<number | bigint>);
+  return values.map((v) => (typeof v === "number" && Number.isInteger(v) ? BigInt(v) : v));
+}
+
+// Round `values` to what a variable of `ctype` stores, so an f4 _FillValue
+// given as a JS number compares equal to the Float32Array data read back.
+function stored(values: (number | bigint)[], ctype: NcCType): (number | bigint)[] {
+  if (ctype !== "float") return values;
+  return values.map((v) => Math.fround(Number(v)));
+}
+
+function isFloat(ctype: NcCType): boolean {
+  return ctype === "float" || ctype === "double";
+}
+
+function is64Bit(ctype: NcCType): boolean {
+  return ctype === "longlong" || ctype === "ulonglong";
+}
+
+/**
+ * Default fill value NetCDF uses for `datatype` when the variable has no
+ * _FillValue attribute.
+ */
+export function defaultFillValue(datatype: string): number | bigint | undefined {
+  const code = DATA_TYPE_MAP[datatype];
+  const token = code !== undefined ? NC_TYPE_TO_STR[code] : datatype;
+  return DEFAULT_FILL_VALUES[token];
+}
+
+/**
+ * scale_factor/add_offset of a variable, or undefined when it has neither.
+ * Following CF, unpacked values take the attributes' type: Float32Array when
+ * they are stored as 'f4', Float64Array otherwise.
+ */
+export function packingOf(attr: AttributeLookup): Packing | undefined {
+  const scale = attr("scale_factor");
+  const offset = attr("add_offset");
+  if (!scale && !offset) return undefined;
+  const types = [scale, offset].filter((a) => a !== undefined).map((a) => a!.type);
+  return {
+    scale: scale ? numbers(scale.value)[0] ?? 1 : 1,
+    offset: offset ? numbers(offset.value)[0] ?? 0 : 0,
+    ctype: types.every((t) => t === "f4") ? "float" : "double",
+  };
+}
+
+/**
+ * 1 for each element of `raw` that is missing: equal to _FillValue (or the
+ * default fill value when there is none, except for i1/u1 as in
+ * netcdf4-python) or to a missing_value, or outside the valid range.
+ */
+export function missingMask(raw: NumericArray, datatype: string, attr: AttributeLookup): Uint8Array {
+  const ctype = numericCType(datatype) as NcCType;
+  const wide = is64Bit(ctype);
+  const values = wide ? exactNumbers : numbers;
+  const fillAttr = attr("_FillValue");
+  const fill =
+    fillAttr !== undefined
+      ? values(fillAttr.value)
+      : ctype === "schar" || ctype === "uchar"
+        ? []
+        : values(defaultFillValue(datatype));
+  const missing = stored([...fill, ...values(attr("missing_value")?.value)], ctype);
+
+  const range = values(attr("valid_range")?.value);
+  const lo = range.length === 2 ? range[0] : values(attr("valid_min")?.value)[0];
+  const hi = range.length === 2 ? range[1] : values(attr("valid_max")?.value)[0];
+  const missingNaN = missing.some((m) => typeof m === "number" && Number.isNaN(m));
+
+  const mask = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    // 64-bit data compares as bigint, exactly.
+    const v = wide ? raw[i] : Number(raw[i]);
+    if (
+      missing.includes(v) ||
+      (missingNaN && typeof v === "number" && Number.isNaN(v)) ||
+      (lo !== undefined && v < lo) ||
+      (hi !== undefined && v > hi)
+    ) {
+      mask[i] = 1;
+    }
+  }
+  return mask;
+}
+
+/**
+ * Decode values read from a variable: unpack them with `packing`, and set
+ * masked elements to NaN when the result is floating point. Integer data
+ * without packing cannot hold NaN and is returned unchanged. `raw` may be
+ * modified in place.
+ */
+export function unpack(
+  raw: NumericArray,
+  packing: Packing | undefined,
+  mask: Uint8Array | undefined,
+): NumericArray {
+  if (packing) {
+    const out = new C_TYPE_ARRAYS[packing.ctype](raw.length) as Float32Array | Float64Array;
+    for (let i = 0; i < raw.length; i++) {
+      out[i] = mask?.[i] ? NaN : Number(raw[i]) * packing.scale + packing.offset;
+    }
+    return out;
+  }
+  if (mask && (raw instanceof Float32Array || raw instanceof Float64Array)) {
+    for (let i = 0; i < raw.length; i++) {
+      if (mask[i]) raw[i] = NaN;
+    }
+  }
+  return raw;
+}
+
+/**
+ * Encode values for writing to a variable of `datatype`: the inverse of
+ * `unpack`. Values are packed with `packing` (rounded for integer types), and
+ * when `masked` is set NaN becomes _FillValue, else the first missing_value,
+ * else (for integer types, which cannot store NaN) the default fill value.
+ */
+export function pack(
+  data: ArrayLike<number | bigint>,
+  datatype: string,
+  packing: Packing | undefined,
+  masked: boolean,
+  attr: AttributeLookup,
+): NumericArray {
+  const ctype = numericCType(datatype) as NcCType;
+  let fill: number | bigint | undefined;
+  if (masked) {
+    // A 64-bit fill is written as given, not rounded through a number.
+    const values = is64Bit(ctype) ? exactNumbers : numbers;
+    const explicit = [
+      ...values(attr("_FillValue")?.value),
+      ...values(attr("missing_value")?.value),
+    ];
+    fill = explicit.length > 0 ? explicit[0] : isFloat(ctype) ? undefined : defaultFillValue(datatype);
+  }
+  if (!packing && fill === undefined) return toNumericArray(data, ctype);
+
+  const values: (number | bigint)[] = new Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const v = data[i];
+    if (typeof v === "number" && Number.isNaN(v) && fill !== undefined) {
+      values[i] = fill;
+    } else if (packing) {
+      const p = (Number(v) - packing.offset) / packing.scale;
+      values[i] = isFloat(ctype) ? p : Math.round(p);
+    } else {
+      values[i] = v;
+    }
+  }
+  return toNumericArray(values, ctype);
+}
@@ -2,15 +2,54 @@
 
 import { Group } from "./group";
 import { WasmModuleLoader } from "./wasm-module";
-import { NC_CONSTANTS } from "./constants";
+import {
+  FORMAT_CREATE_MODES,
+  NC_CONSTANTS,
+  NC_FORMAT_NAMES,
+} from "./constants";
+import { isUnitStride } from "./hyperslab";
+import { numericCType } from "./datatypes";
+import {
+  attributeTypeName,
+  decodeNumericAttribute,
+  encodeAttribute,
+} from "./attributes";
+import type { NcCType, NumericArray } from "./datatypes";
 import type {
+  AttributeInfo,
   NetCDF4Module,
+  VariableFilters,
   DatasetOptions,
   MemoryDatasetSource,
   LazyDatasetSource,
+  DatasetReadStats,
+  VariableReadStats,
+  ExportOptions,
+  DatasetSink,
+  NodeWritableLike,
 } from "./types";
-import { CachedReader, createLazyReader, mountLazyFile } from "./lazy";
-import type { LazySource } from "./lazy";
+import { NetCDFError } from "./errors";
+import {
+  CachedReader,
+  OverlayReader,
+  createLazyReader,
+  isWritableLazyReader,
+  mountLazyFile,
+} from "./lazy";
+import type { LazyOptions, LazySource, PersistentBlocks } from "./lazy";
+import { DEFAULT_BLOCK_SIZE } from "./lazy/cache-pool";
+
+const DEFAULT_EXPORT_CHUNK_SIZE = 1024 * 1024;
+
+function exportChunkSize(options: ExportOptions): number {
+  const chunkSize = options.chunkSize ?? DEFAULT_EXPORT_CHUNK_SIZE;
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new RangeError(
+      `chunkSize must be a positive integer, got ${chunkSize}`,
+    );
+  }
+  return chunkSize;
+}
 
 export class NetCDF4 extends Group {
   private module: NetCDF4Module | null = null;
@@ -19,6 +58,10 @@ export class NetCDF4 extends Group {
   private _isOpen = false;
   private memorySource?: MemoryDatasetSource;
   private lazySource?: LazyDatasetSource;
+  // Lazy I/O charged to each variable read, and variable paths by ncid:varid.
+  private readonly variableReads = new Map<string, VariableReadStats>();
+  private readonly variablePaths = new Map<string, string>();
+  private format?: string;
 
   constructor(
     private filename?: string,
@@ -54,10 +97,14 @@ export class NetCDF4 extends Group {
         await this.open();
       }
     } catch (error) {
-      // Check if this is a test environment and we should use mock mode
-      if (typeof process !== "undefined" && process.env.NODE_ENV === "test") {
-        // Mock the module for testing
-        this.module = this.createMockModule();
+      // In tests, fall back to the mock module the test setup installs
+      // (src/test-mock-module.ts); it is not part of the library.
+      const createMockModule =
+        typeof process !== "undefined" && process.env.NODE_ENV === "test"
+          ? (global as any).__netcdf4_create_mock_module
+          : undefined;
+      if (createMockModule) {
+        this.module = createMockModule(this.filename, this.mode);
         this.initialized = true;
 
         if (this.filename !== undefined && this.filename !== null) {
@@ -96,8 +143,12 @@ export class NetCDF4 extends Group {
 
   /**
    * Open a dataset lazily, reading byte ranges on demand rather than loading the
-   * whole file into memory. `source` may be a Blob/File (browser, worker-only), a
-   * file path (Node), or any custom LazyReader. Read-only.
+   * whole file into memory. `source` may be a Blob/File (browser, worker-only), an
+   * http(s) URL, a file path (Node), or any custom LazyReader. With mode 'a'
+   * or 'r+', writes are kept in a copy-on-write overlay of the blocks they
+   * change and the source is never modified; export the result with
+   * `toBlob()` or `toArrayBuffer()`. A WritableLazyReader such as an OpfsFile
+   * is instead modified in place, and can also be created with mode 'w'.
    */
   static async fromLazy(
     source: LazySource,
@@ -105,15 +156,47 @@ export class NetCDF4 extends Group {
     options: DatasetOptions = {},
     filename?: string,
   ): Promise<NetCDF4> {
-    if (mode !== "r") {
-      throw new Error("Lazy datasets are read-only; use mode 'r'");
+    const inPlace = mode !== "r" && isWritableLazyReader(source);
+    if (!inPlace && (mode === "w" || mode === "w-")) {
+      throw new Error(
+        `Cannot create a lazy dataset with mode '${mode}' over a read-only source; ` +
+          "use 'a' or 'r+' to write to an overlay, or a writable source such as an OpfsFile",
+      );
     }
-    const reader = createLazyReader(source);
+    const reader = createLazyReader(source, { http: options.http });
     const virtualFilename =
       filename || NetCDF4.makeVirtualFilename("netcdf_lazy");
+    const blockSize =
+      options.cachePool?.blockSize ?? options.blockSize ?? DEFAULT_BLOCK_SIZE;
+
+    // A file written in place is not cached: a cache in front of the reader
+    // would serve stale blocks. Otherwise the source never changes, so its
+    // blocks can be cached (and persisted) even under an overlay.
+    let cache: CachedReader | undefined;
+    let overlay: OverlayReader | undefined;
+    if (!inPlace) {
+      let persistentBlocks: PersistentBlocks | undefined;
+      if (options.persistentCache && reader.persistentKey) {
+        persistentBlocks = await options.persistentCache.open(
+          reader.persistentKey,
+          blockSize,
+        );
+      }
+      cache = new CachedReader(reader, {
+        blockSize: options.blockSize,
+        maxCacheBlocks: options.maxCacheBlocks,
+        maxCacheBytes: options.maxCacheBytes,
+        readAhead: options.readAhead,
+        eviction: options.eviction,
+        pinBytes: options.pinBytes,
+        cachePool: options.cachePool,
+        persistentBlocks,
+      });
+      if (mode !== "r") overlay = new OverlayReader(cache, blockSize);
+    }
 
     const dataset = new NetCDF4(virtualFilename, mode, options);
-    dataset.lazySource = { reader, filename: virtualFilename };
+    dataset.lazySource = { reader, filename: virtualFilename, cache, overlay };
 
     await dataset.initialize();
     return dataset;
@@ -178,10 +261,11 @@ export class NetCDF4 extends Group {
 
     if (this.mode === "w" || this.mode === "w-") {
       // Create new file
-      let createMode = NC_CONSTANTS.NC_CLOBBER;
-      if (this.options.format === "NETCDF4") {
-        createMode |= NC_CONSTANTS.NC_NETCDF4;
+      const formatMode = FORMAT_CREATE_MODES[this.file_format];
+      if (formatMode === undefined) {
+        throw new Error(`Unsupported format: ${this.file_format}`);
       }
+      const createMode = NC_CONSTANTS.NC_CLOBBER | formatMode;
       const result = await this.createFile(this.filename, createMode);
       this.ncid = result;
       (this as any).groupId = result;
@@ -192,6 +276,11 @@ export class NetCDF4 extends Group {
       this.ncid = await this.openFile(this.filename, this.mode as any);
       (this as any).groupId = this.ncid;
 
+      const format = this.getModule().nc_inq_format(this.ncid);
+      if (format.result === NC_CONSTANTS.NC_NOERR) {
+        this.format = NC_FORMAT_NAMES[format.format];
+      }
+
       // Load the file's structure: mock storage in tests, the real file otherwise.
       if (typeof process !== "undefined" && process.env.NODE_ENV === "test") {
         (this as any).loadMockDimensions();
@@ -204,8 +293,9 @@ export class NetCDF4 extends Group {
   }
 
   // Property access similar to Python API
+  // The format an opened file was found to have, otherwise the requested one.
   get file_format(): string {
-    return this.options.format || "NETCDF4";
+    return this.format || this.options.format || "NETCDF4";
   }
 
   get disk_format(): string {
@@ -225,6 +315,108 @@ export class NetCDF4 extends Group {
     return this.initialized;
   }
 
+  /**
+   * Block cache statistics of a lazy dataset, plus the I/O that reading each
+   * variable's data caused, keyed by variable path. Undefined unless the
+   * dataset is lazy and read through a cache: every lazy dataset except one
+   * modifying a WritableLazyReader in place.
+   */
+  get readStats(): DatasetReadStats | undefined {
+    const cache = this.lazySource?.cache;
+    if (!cache) return undefined;
+    const variables: Record<string, VariableReadStats> = {};
+    for (const [path, stats] of this.variableReads) {
+      variables[path] = { ...stats };
+    }
+    return { ...cache.stats, variables };
+  }
+
+  /**
+   * Drop a lazy dataset's cached blocks, pinned ones included, so the next
+   * reads fetch them again. Statistics keep counting.
+   */
+  clearCache(): void {
+    this.lazyCache().clear();
+  }
+
+  /**
+   * Change a lazy dataset's cache budget, evicting blocks to fit. A bound
+   * left out keeps its current value. With a shared `cachePool`, resize the
+   * pool instead.
+   */
+  resizeCache(
+    options: Pick<LazyOptions, "maxCacheBlocks" | "maxCacheBytes">,
+  ): void {
+    this.lazyCache().resize(options);
+  }
+
+  private lazyCache(): CachedReader {
+    const cache = this.lazySource?.cache;
+    if (!cache) {
+      throw new Error(
+        "Dataset has no block cache; it is not lazy, or modifies a writable source in place",
+      );
+    }
+    return cache;
+  }
+
+  // Run a read of variable `varid`'s data, charging the lazy block cache
+  // traffic it causes to the variable.
+  private trackRead<T>(ncid: number, varid: number, read: () => T): T {
+    const cache = this.lazySource?.cache;
+    if (!cache) return read();
+    const before = cache.stats;
+    try {
+      return read();
+    } finally {
+      const after = cache.stats;
+      const path = this.variablePath(ncid, varid);
+      let stats = this.variableReads.get(path);
+      if (!stats) {
+        stats = {
+          reads: 0,
+          hits: 0,
+          misses: 0,
+          bytesFetched: 0,
+          innerReads: 0,
+          persistentHits: 0,
+        };
+        this.variableReads.set(path, stats);
+      }
+      stats.reads++;
+      stats.hits += after.hits - before.hits;
+      stats.misses += after.misses - before.misses;
+      stats.bytesFetched += after.bytesFetched - before.bytesFetched;
+      stats.innerReads += after.innerReads - before.innerReads;
+      stats.persistentHits += after.persistentHits - before.persistentHits;
+    }
+  }
+
+  // A variable's path, such as '/forecast/t2m'.
+  private variablePath(ncid: number, varid: number): string {
+    const key = `${ncid}:${varid}`;
+    let path = this.variablePaths.get(key);
+    if (path === undefined) {
+      const info = this.getModule().nc_inq_var(ncid, varid);
+      const name =
+        info.result === NC_CONSTANTS.NC_NOERR ? info.name : `varid ${varid}`;
+      const group = this.groupWithId(ncid, this);
+      const parent = group && group.path !== "/" ? group.path : "";
+      path = `${parent}/${name}`;
+      this.variablePaths.set(key, path);
+    }
+    return path;
+  }
+
+  private groupWithId(ncid: number, group: Group): Group | undefined {
+    if ((group as any).groupId === ncid) return group;
+    for (const child of Object.values(group.groups)) {
+      const found = this.groupWithId(ncid, child);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
   getModule(): NetCDF4Module {
     if (!this.module) {
       throw new Error(
@@ -241,18 +433,22 @@ export class NetCDF4 extends Group {
       this._isOpen = false;
       this.ncid = -1;
     }
-    // Release the lazy reader's underlying handle (e.g. a Node file descriptor).
-    // Idempotent: backends guard against double-close.
+    // Release the lazy reader's underlying handle (e.g. a Node file descriptor)
+    // through the overlay and cache mounted in front of it, if any, which also
+    // lets go of their blocks. Idempotent: backends guard against double-close.
     if (this.lazySource) {
-      this.lazySource.reader.close();
+      const { reader, cache, overlay } = this.lazySource;
+      (overlay ?? cache ?? reader).close();
     }
   }
 
   // Sync method (flush to disk)
   async sync(): Promise<void> {
     if (this._isOpen) {
-      // TODO: Implement nc_sync when available
-      console.warn("sync() not yet implemented");
+      const result = this.getModule().nc_sync(this.ncid);
+      if (result !== NC_CONSTANTS.NC_NOERR) {
+        throw this.ncError(result, "Failed to sync NetCDF file", "nc_sync");
+      }
     }
   }
 
@@ -268,6 +464,28 @@ export class NetCDF4 extends Group {
     await this.close();
   }
 
+  // The error for status `code` from the NetCDF call `operation` on this
+  // file. `variable` is the variable's name, or its ncid/varid to look the
+  // name up.
+  private ncError(
+    code: number,
+    message: string,
+    operation: string,
+    variable?: string | { ncid: number; varid: number },
+  ): NetCDFError {
+    const module = this.getModule();
+    let name = typeof variable === "string" ? variable : undefined;
+    if (typeof variable === "object" && variable.varid !== NC_CONSTANTS.NC_GLOBAL) {
+      const info = module.nc_inq_var(variable.ncid, variable.varid);
+      if (info.result === NC_CONSTANTS.NC_NOERR) name = info.name;
+    }
+    return new NetCDFError(message, code, module.nc_strerror(code), {
+      operation,
+      path: this.filename,
+      variable: name,
+    });
+  }
+
   // Low-level NetCDF operations (used by Group methods)
   async openFile(path: string, mode: "r" | "w" | "a" = "r"): Promise<number> {
     const module = this.getModule();
@@ -280,9 +498,7 @@ export class NetCDF4 extends Group {
 
     const result = module.nc_open(path, modeValue);
     if (result.result !== NC_CONSTANTS.NC_NOERR) {
-      throw new Error(
-        `Failed to open NetCDF file: ${path} (error: ${result.result})`,
-      );
+      throw this.ncError(result.result, `Failed to open NetCDF file: ${path}`, "nc_open");
     }
     return result.ncid;
   }
@@ -294,8 +510,10 @@ export class NetCDF4 extends Group {
     const module = this.getModule();
     const result = module.nc_create(path, mode);
     if (result.result !== NC_CONSTANTS.NC_NOERR) {
-      throw new Error(
-        `Failed to create NetCDF file: ${path} (error: ${result.result})`,
+      throw this.ncError(
+        result.result,
+        `Failed to create NetCDF file: ${path}`,
+        "nc_create",
       );
     }
     return result.ncid;
@@ -305,8 +523,10 @@ export class NetCDF4 extends Group {
     const module = this.getModule();
     const result = module.nc_close(ncid);
     if (result !== NC_CONSTANTS.NC_NOERR) {
-      throw new Error(
-        `Failed to close NetCDF file with ID: ${ncid} (error: ${result})`,
+      throw this.ncError(
+        result,
+        `Failed to close NetCDF file with ID: ${ncid}`,
+        "nc_close",
       );
     }
   }
@@ -319,13 +539,40 @@ export class NetCDF4 extends Group {
     const module = this.getModule();
     const result = module.nc_def_dim(ncid, name, size);
     if (result.result !== NC_CONSTANTS.NC_NOERR) {
-      throw new Error(
-        `Failed to define dimension: ${name} (error: ${result.result})`,
+      throw this.ncError(
+        result.result,
+        `Failed to define dimension: ${name}`,
+        "nc_def_dim",
       );
     }
     return result.dimid;
   }
 
+  // Current length of a dimension: the number of records written so far for
+  // an unlimited one. Synchronous so Dimension.size can stay a property.
+  getDimensionLength(ncid: number, dimid: number): number {
+    const module = this.getModule();
+    const result = module.nc_inq_dimlen(ncid, dimid);
+    if (result.result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result.result,
+        `Failed to read length of dimension ${dimid}`,
+        "nc_inq_dimlen",
+      );
+    }
+    return result.len;
+  }
+
+  // Synchronous like nc_def_grp itself, so Group.createGroup can stay sync.
+  defineGroup(parentNcid: number, name: string): number {
+    const module = this.getModule();
+    const result = module.nc_def_grp(parentNcid, name);
+    if (result.result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(result.result, `Failed to define group: ${name}`, "nc_def_grp");
+    }
+    return result.ncid;
+  }
+
   async defineVariable(
     ncid: number,
     name: string,
@@ -335,18 +582,113 @@ export class NetCDF4 extends Group {
     const module = this.getModule();
     const result = module.nc_def_var(ncid, name, type, dimids.length, dimids);
     if (result.result !== NC_CONSTANTS.NC_NOERR) {
-      throw new Error(
-        `Failed to define variable: ${name} (error: ${result.result})`,
+      throw this.ncError(
+        result.result,
+        `Failed to define variable: ${name}`,
+        "nc_def_var", name,
       );
     }
     return result.varid;
   }
 
+  // Storage settings for a newly defined variable (NetCDF-4 files only).
+  async defineVariableDeflate(
+    ncid: number,
+    varid: number,
+    shuffle: boolean,
+    level: number,
+  ): Promise<void> {
+    const module = this.getModule();
+    const result = module.nc_def_var_deflate(ncid, varid, shuffle ? 1 : 0, 1, level);
+    if (result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result,
+        "Failed to set variable compression",
+        "nc_def_var_deflate", { ncid, varid },
+      );
+    }
+  }
+
+  async defineVariableFletcher32(ncid: number, varid: number): Promise<void> {
+    const module = this.getModule();
+    const result = module.nc_def_var_fletcher32(ncid, varid, 1);
+    if (result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result,
+        "Failed to set variable checksum",
+        "nc_def_var_fletcher32", { ncid, varid },
+      );
+    }
+  }
+
+  async defineVariableChunking(
+    ncid: number,
+    varid: number,
+    contiguous: boolean,
+    chunksizes: number[] = [],
+  ): Promise<void> {
+    const module = this.getModule();
+    const storage = contiguous ? NC_CONSTANTS.NC_CONTIGUOUS : NC_CONSTANTS.NC_CHUNKED;
+    const result = module.nc_def_var_chunking(ncid, varid, storage, chunksizes);
+    if (result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result,
+        "Failed to set variable chunking",
+        "nc_def_var_chunking", { ncid, varid },
+      );
+    }
+  }
+
+  getVariableFilters(ncid: number, varid: number): VariableFilters {
+    const module = this.getModule();
+    const deflate = module.nc_inq_var_deflate(ncid, varid);
+    if (deflate.result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        deflate.result,
+        "Failed to read variable compression",
+        "nc_inq_var_deflate", { ncid, varid },
+      );
+    }
+    const checksum = module.nc_inq_var_fletcher32(ncid, varid);
+    if (checksum.result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        checksum.result,
+        "Failed to read variable checksum",
+        "nc_inq_var_fletcher32", { ncid, varid },
+      );
+    }
+    return {
+      zlib: deflate.deflate !== 0,
+      shuffle: deflate.shuffle !== 0,
+      complevel: deflate.deflate !== 0 ? deflate.level : 0,
+      fletcher32: checksum.fletcher32 !== 0,
+    };
+  }
+
+  getVariableChunking(
+    ncid: number,
+    varid: number,
+    ndims: number,
+  ): "contiguous" | number[] {
+    const module = this.getModule();
+    const result = module.nc_inq_var_chunking(ncid, varid, ndims);
+    if (result.result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result.result,
+        "Failed to read variable chunking",
+        "nc_inq_var_chunking", { ncid, varid },
+      );
+    }
+    return result.storage === NC_CONSTANTS.NC_CONTIGUOUS
+      ? "contiguous"
+      : result.chunksizes;
+  }
+
   async endDefineMode(ncid: number): Promise<void> {
     const module = this.getModule();
     const result = module.nc_enddef(ncid);
     if (result !== NC_CONSTANTS.NC_NOERR) {
-      throw new Error(`Failed to end define mode (error: ${result})`);
+      throw this.ncError(result, "Failed to end define mode", "nc_enddef");
     }
   }
 
@@ -358,7 +700,11 @@ export class NetCDF4 extends Group {
     const module = this.getModule();
     const result = module.nc_put_var_double(ncid, varid, data);
     if (result !== NC_CONSTANTS.NC_NOERR) {
-      throw new Error(`Failed to write variable data (error: ${result})`);
+      throw this.ncError(
+        result,
+        "Failed to write variable data",
+        "nc_put_var_double", { ncid, varid },
+      );
     }
   }
 
@@ -368,147 +714,472 @@ export class NetCDF4 extends Group {
     size: number,
   ): Promise<Float64Array> {
     const module = this.getModule();
-    const result = module.nc_get_var_double(ncid, varid, size);
+    const result = this.trackRead(ncid, varid, () =>
+      module.nc_get_var_double(ncid, varid, size),
+    );
     if (result.result !== NC_CONSTANTS.NC_NOERR) {
-      throw new Error(`Failed to read variable data (error: ${result.result})`);
+      throw this.ncError(
+        result.result,
+        "Failed to read variable data",
+        "nc_get_var_double", { ncid, varid },
+      );
     }
     return result.data;
   }
 
-  // Create a mock module for testing
-  private createMockModule(): NetCDF4Module {
-    // Global mock file storage to simulate persistence across instances
-    if (!(global as any).__netcdf4_mock_files) {
-      (global as any).__netcdf4_mock_files = {};
+  // Read a (possibly strided) hyperslab in the variable's native memory type
+  // `ctype`. Unit strides use nc_get_vara_*, which lets NetCDF/HDF5 read
+  // contiguous runs directly.
+  async getVariableSlab(
+    ncid: number,
+    varid: number,
+    ctype: NcCType,
+    start: number[],
+    count: number[],
+    stride?: number[],
+  ): Promise<NumericArray> {
+    const module = this.getModule();
+    const result = this.trackRead(ncid, varid, () =>
+      !stride || isUnitStride(stride)
+        ? module.nc_get_vara_typed(ncid, varid, ctype, start, count)
+        : module.nc_get_vars_typed(ncid, varid, ctype, start, count, stride),
+    );
+    if (result.result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result.result,
+        "Failed to read variable hyperslab",
+        "nc_get_vars", { ncid, varid },
+      );
     }
-    const mockFiles = (global as any).__netcdf4_mock_files;
+    return result.data;
+  }
 
-    return {
-      nc_open: (path: string, mode: number) => {
-        // Mock implementation that simulates invalid filenames and unsupported modes
-        if (
-          !path ||
-          path.trim() === "" ||
-          path.includes("unsupported") ||
-          !["r", "w", "a"].some((m) => this.mode.includes(m))
-        ) {
-          return { result: -1, ncid: -1 };
-        }
-        // For reading mode, file should exist in mock storage, otherwise create a minimal entry
-        if (this.mode === "r" && !mockFiles[path]) {
-          // For test purposes, allow reading non-existent files but initialize them empty
-          mockFiles[path] = {
-            attributes: {},
-            dimensions: {},
-            variables: {},
-          };
-        }
-        return { result: NC_CONSTANTS.NC_NOERR, ncid: 1 };
-      },
-      nc_close: (ncid: number) => {
-        // In a real implementation, this would flush data to the file
-        // For our mock, we'll keep the data in memory
-        return NC_CONSTANTS.NC_NOERR;
-      },
-      nc_create: (path: string, mode: number) => {
-        if (
-          path.includes("unsupported") ||
-          ["x", "invalid"].some((m) => this.mode.includes(m))
-        ) {
-          return { result: -1, ncid: -1 };
-        }
-        // Initialize mock file storage
-        mockFiles[path] = {
-          attributes: {},
-          dimensions: {},
-          variables: {},
-        };
-        return { result: NC_CONSTANTS.NC_NOERR, ncid: 1 };
-      },
-      nc_def_dim: (ncid: number, name: string, len: number) => {
-        // Store dimension in mock file
-        if (this.filename && mockFiles[this.filename]) {
-          mockFiles[this.filename].dimensions[name] = {
-            size: len,
-            unlimited: len === NC_CONSTANTS.NC_UNLIMITED,
-          };
-        }
-        return { result: NC_CONSTANTS.NC_NOERR, dimid: 1 };
-      },
-      nc_def_var: (
-        ncid: number,
-        name: string,
-        xtype: number,
-        ndims: number,
-        dimids: number[],
-      ) => {
-        // Initialize variable storage
-        if (this.filename && mockFiles[this.filename]) {
-          mockFiles[this.filename].variables[name] = {
-            data: new Float64Array(0),
-            attributes: {},
-          };
-          // Return varid based on current variable count (1-based)
-          const varCount = Object.keys(
-            mockFiles[this.filename].variables,
-          ).length;
-          return { result: NC_CONSTANTS.NC_NOERR, varid: varCount };
-        }
-        return { result: NC_CONSTANTS.NC_NOERR, varid: 1 };
-      },
-      nc_put_var_double: (ncid: number, varid: number, data: Float64Array) => {
-        // Store data in mock file - try to map varid to variable name
-        if (this.filename && mockFiles[this.filename]) {
-          const variables = mockFiles[this.filename].variables;
-          const varNames = Object.keys(variables);
-
-          // Map varid to variable name (1-based indexing)
-          if (varNames.length > 0 && varid >= 1 && varid <= varNames.length) {
-            const varName = varNames[varid - 1]; // Convert to 0-based
-            variables[varName].data = new Float64Array(data);
-          }
-        }
-        return NC_CONSTANTS.NC_NOERR;
-      },
-      nc_get_var_double: (ncid: number, varid: number, size: number) => {
-        // Try to get actual stored data first
-        if (this.filename && mockFiles[this.filename]) {
-          const variables = mockFiles[this.filename].variables;
-          const varNames = Object.keys(variables);
-
-          // Map varid to variable name (1-based indexing)
-          if (varNames.length > 0 && varid >= 1 && varid <= varNames.length) {
-            const varName = varNames[varid - 1]; // Convert to 0-based
-            const storedData = variables[varName].data;
-            if (storedData && storedData.length > 0) {
-              // Return the stored data, resized to requested size if needed
-              if (size <= 0) {
-                return {
-                  result: NC_CONSTANTS.NC_NOERR,
-                  data: new Float64Array(0),
-                };
-              }
-              const result = new Float64Array(size);
-              for (let i = 0; i < size && i < storedData.length; i++) {
-                result[i] = storedData[i];
-              }
-              return { result: NC_CONSTANTS.NC_NOERR, data: result };
-            }
-          }
-        }
+  // Write a (possibly strided) hyperslab; the counterpart of getVariableSlab.
+  async putVariableSlab(
+    ncid: number,
+    varid: number,
+    ctype: NcCType,
+    start: number[],
+    count: number[],
+    data: NumericArray,
+    stride?: number[],
+  ): Promise<void> {
+    const module = this.getModule();
+    const result =
+      !stride || isUnitStride(stride)
+        ? module.nc_put_vara_typed(ncid, varid, ctype, start, count, data)
+        : module.nc_put_vars_typed(ncid, varid, ctype, start, count, stride, data);
+    if (result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result,
+        "Failed to write variable hyperslab",
+        "nc_put_vars", { ncid, varid },
+      );
+    }
+  }
 
-        // Fallback to test pattern if no data stored
-        if (size <= 0) {
-          return { result: NC_CONSTANTS.NC_NOERR, data: new Float64Array(0) };
-        }
-        const data = new Float64Array(size);
-        for (let i = 0; i < size; i++) {
-          data[i] = i * 0.1; // Simple test pattern
-        }
-        return { result: NC_CONSTANTS.NC_NOERR, data };
-      },
-      nc_enddef: (ncid: number) => NC_CONSTANTS.NC_NOERR,
-    } as any;
+  // Read a (possibly strided) NC_CHAR hyperslab as raw bytes.
+  async getVariableText(
+    ncid: number,
+    varid: number,
+    start: number[],
+    count: number[],
+    stride: number[] = count.map(() => 1),
+  ): Promise<Uint8Array> {
+    const module = this.getModule();
+    const result = this.trackRead(ncid, varid, () =>
+      module.nc_get_vars_text(ncid, varid, start, count, stride),
+    );
+    if (result.result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result.result,
+        "Failed to read variable hyperslab",
+        "nc_get_vars_text", { ncid, varid },
+      );
+    }
+    return result.data;
+  }
+
+  async putVariableText(
+    ncid: number,
+    varid: number,
+    start: number[],
+    count: number[],
+    data: Uint8Array,
+    stride: number[] = count.map(() => 1),
+  ): Promise<void> {
+    const module = this.getModule();
+    const result = module.nc_put_vars_text(ncid, varid, start, count, stride, data);
+    if (result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result,
+        "Failed to write variable hyperslab",
+        "nc_put_vars_text", { ncid, varid },
+      );
+    }
+  }
+
+  // Read a (possibly strided) NC_STRING hyperslab, one string per element.
+  async getVariableStrings(
+    ncid: number,
+    varid: number,
+    start: number[],
+    count: number[],
+    stride: number[] = count.map(() => 1),
+  ): Promise<string[]> {
+    const module = this.getModule();
+    const result = this.trackRead(ncid, varid, () =>
+      module.nc_get_vars_string(ncid, varid, start, count, stride),
+    );
+    if (result.result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result.result,
+        "Failed to read variable hyperslab",
+        "nc_get_vars_string", { ncid, varid },
+      );
+    }
+    return result.values;
+  }
+
+  async putVariableStrings(
+    ncid: number,
+    varid: number,
+    start: number[],
+    count: number[],
+    values: string[],
+    stride: number[] = count.map(() => 1),
+  ): Promise<void> {
+    const module = this.getModule();
+    const result = module.nc_put_vars_string(ncid, varid, start, count, stride, values);
+    if (result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result,
+        "Failed to write variable hyperslab",
+        "nc_put_vars_string", { ncid, varid },
+      );
+    }
+  }
+
+  // Read a (possibly strided) hyperslab of a user-defined type in its
+  // in-memory layout, `size` bytes per element.
+  async getVariableBytes(
+    ncid: number,
+    varid: number,
+    start: number[],
+    count: number[],
+    stride: number[],
+    size: number,
+  ): Promise<Uint8Array> {
+    const module = this.getModule();
+    const result = this.trackRead(ncid, varid, () =>
+      module.nc_get_vars(ncid, varid, start, count, stride, size),
+    );
+    if (result.result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result.result,
+        "Failed to read variable hyperslab",
+        "nc_get_vars", { ncid, varid },
+      );
+    }
+    return result.data;
+  }
+
+  async putVariableBytes(
+    ncid: number,
+    varid: number,
+    start: number[],
+    count: number[],
+    data: Uint8Array,
+    stride: number[] = count.map(() => 1),
+  ): Promise<void> {
+    const module = this.getModule();
+    const result = module.nc_put_vars(ncid, varid, start, count, stride, data);
+    if (result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result,
+        "Failed to write variable hyperslab",
+        "nc_put_vars", { ncid, varid },
+      );
+    }
+  }
+
+  // Define a compound type of `size` bytes and insert its fields; fields with
+  // a shape become array fields. Returns the new type id.
+  async defineCompoundType(
+    ncid: number,
+    name: string,
+    size: number,
+    fields: { name: string; offset: number; xtype: number; shape: number[] }[],
+  ): Promise<number> {
+    const module = this.getModule();
+    const def = module.nc_def_compound(ncid, size, name);
+    if (def.result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        def.result,
+        `Failed to define compound type: ${name}`,
+        "nc_def_compound",
+      );
+    }
+    for (const field of fields) {
+      const result =
+        field.shape.length > 0
+          ? module.nc_insert_array_compound(ncid, def.typeid, field.name, field.offset, field.xtype, field.shape)
+          : module.nc_insert_compound(ncid, def.typeid, field.name, field.offset, field.xtype);
+      if (result !== NC_CONSTANTS.NC_NOERR) {
+        throw this.ncError(
+          result,
+          `Failed to add field ${field.name} to compound type ${name}`,
+          "nc_insert_compound",
+        );
+      }
+    }
+    return def.typeid;
+  }
+
+  // Define an enum type over the integer type `baseType` (C type `ctype`)
+  // with the given members. Returns the new type id.
+  async defineEnumType(
+    ncid: number,
+    name: string,
+    baseType: number,
+    ctype: NcCType,
+    members: [string, number | bigint][],
+  ): Promise<number> {
+    const module = this.getModule();
+    const def = module.nc_def_enum(ncid, baseType, name);
+    if (def.result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        def.result,
+        `Failed to define enum type: ${name}`,
+        "nc_def_enum",
+      );
+    }
+    for (const [label, value] of members) {
+      const result = module.nc_insert_enum(ncid, def.typeid, label, ctype, value);
+      if (result !== NC_CONSTANTS.NC_NOERR) {
+        throw this.ncError(
+          result,
+          `Failed to add member ${label} to enum type ${name}`,
+          "nc_insert_enum",
+        );
+      }
+    }
+    return def.typeid;
+  }
+
+  getEnumMember(ncid: number, xtype: number, idx: number, ctype: NcCType) {
+    const module = this.getModule();
+    const { result, ...member } = module.nc_inq_enum_member(ncid, xtype, idx, ctype);
+    if (result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result,
+        `Failed to read member ${idx} of enum type ${xtype}`,
+        "nc_inq_enum_member",
+      );
+    }
+    return member;
+  }
+
+  async defineOpaqueType(ncid: number, name: string, size: number): Promise<number> {
+    const module = this.getModule();
+    const def = module.nc_def_opaque(ncid, size, name);
+    if (def.result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        def.result,
+        `Failed to define opaque type: ${name}`,
+        "nc_def_opaque",
+      );
+    }
+    return def.typeid;
+  }
+
+  async defineVLType(ncid: number, name: string, baseType: number): Promise<number> {
+    const module = this.getModule();
+    const def = module.nc_def_vlen(ncid, name, baseType);
+    if (def.result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        def.result,
+        `Failed to define vlen type: ${name}`,
+        "nc_def_vlen",
+      );
+    }
+    return def.typeid;
+  }
+
+  // Read a (possibly strided) hyperslab of a vlen variable as one array of
+  // the base type's C type `ctype` per element.
+  async getVariableVlens(
+    ncid: number,
+    varid: number,
+    ctype: NcCType,
+    start: number[],
+    count: number[],
+    stride: number[] = count.map(() => 1),
+  ): Promise<NumericArray[]> {
+    const module = this.getModule();
+    const result = this.trackRead(ncid, varid, () =>
+      module.nc_get_vars_vlen(ncid, varid, ctype, start, count, stride),
+    );
+    if (result.result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result.result,
+        "Failed to read variable hyperslab",
+        "nc_get_vars", { ncid, varid },
+      );
+    }
+    return result.data;
+  }
+
+  async putVariableVlens(
+    ncid: number,
+    varid: number,
+    ctype: NcCType,
+    start: number[],
+    count: number[],
+    data: NumericArray[],
+    stride: number[] = count.map(() => 1),
+  ): Promise<void> {
+    const module = this.getModule();
+    const result = module.nc_put_vars_vlen(ncid, varid, ctype, start, count, stride, data);
+    if (result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result,
+        "Failed to write variable hyperslab",
+        "nc_put_vars", { ncid, varid },
+      );
+    }
+  }
+
+  // Ids of the user-defined types defined in a group (not its ancestors).
+  getUserTypeIds(ncid: number): number[] {
+    const module = this.getModule();
+    const result = module.nc_inq_typeids(ncid);
+    if (result.result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result.result,
+        "Failed to list user-defined types",
+        "nc_inq_typeids",
+      );
+    }
+    return result.typeids;
+  }
+
+  // Name, size, class (NC_COMPOUND, ...), base type (of an enum) and number
+  // of fields or members of a user-defined type.
+  getUserType(ncid: number, xtype: number) {
+    const module = this.getModule();
+    const { result, ...info } = module.nc_inq_user_type(ncid, xtype);
+    if (result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result,
+        `Failed to read user-defined type ${xtype}`,
+        "nc_inq_user_type",
+      );
+    }
+    return info;
+  }
+
+  getCompoundField(ncid: number, xtype: number, fieldid: number) {
+    const module = this.getModule();
+    const { result, ...field } = module.nc_inq_compound_field(ncid, xtype, fieldid);
+    if (result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result,
+        `Failed to read field ${fieldid} of compound type ${xtype}`,
+        "nc_inq_compound_field",
+      );
+    }
+    return field;
+  }
+
+  // Read an attribute in its stored type: text for NC_CHAR, string(s) for
+  // NC_STRING, and a number, bigint or typed array for numeric types. Returns
+  // undefined for user-defined types, which are not supported yet.
+  getAttribute(
+    ncid: number,
+    varid: number,
+    name: string,
+  ): AttributeInfo | undefined {
+    const module = this.getModule();
+    const info = module.nc_inq_att(ncid, varid, name);
+    if (info.result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        info.result,
+        `Failed to read attribute '${name}'`,
+        "nc_inq_att", { ncid, varid },
+      );
+    }
+    const type = attributeTypeName(info.xtype);
+    if (type === undefined) return undefined;
+
+    let result: number;
+    let value: any;
+    if (info.xtype === NC_CONSTANTS.NC_CHAR) {
+      const r = module.nc_get_att_text(ncid, varid, name, info.len);
+      result = r.result;
+      value = r.text;
+    } else if (info.xtype === NC_CONSTANTS.NC_STRING) {
+      const r = module.nc_get_att_string(ncid, varid, name, info.len);
+      result = r.result;
+      value = r.values;
+    } else {
+      const ctype = numericCType(type) as NcCType;
+      const r = module.nc_get_att_typed(ncid, varid, name, ctype, info.len);
+      result = r.result;
+      value = decodeNumericAttribute(r.data);
+    }
+    if (result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result,
+        `Failed to read attribute '${name}'`,
+        "nc_get_att", { ncid, varid },
+      );
+    }
+    return { type, length: info.len, value };
+  }
+
+  // Write an attribute of a variable (or NC_GLOBAL). Synchronous so that the
+  // attribute property setters can persist values. Adding an attribute to a
+  // file in data mode needs define mode, so on NC_ENOTINDEFINE the write is
+  // retried inside an nc_redef/nc_enddef pair.
+  putAttribute(
+    ncid: number,
+    varid: number,
+    name: string,
+    value: unknown,
+    datatype?: string,
+  ): void {
+    const encoded = encodeAttribute(name, value, datatype);
+    if (!encoded) return;
+    const module = this.getModule();
+    const write = () =>
+      encoded.kind === "text"
+        ? module.nc_put_att_text(ncid, varid, name, encoded.text)
+        : module.nc_put_att_typed(
+            ncid,
+            varid,
+            name,
+            encoded.xtype,
+            encoded.ctype,
+            encoded.data,
+          );
+
+    let result = write();
+    if (result === NC_CONSTANTS.NC_ENOTINDEFINE) {
+      result = module.nc_redef(ncid);
+      if (result === NC_CONSTANTS.NC_NOERR) {
+        result = write();
+        const enddef = module.nc_enddef(ncid);
+        if (result === NC_CONSTANTS.NC_NOERR) result = enddef;
+      }
+    }
+    if (result !== NC_CONSTANTS.NC_NOERR) {
+      throw this.ncError(
+        result,
+        `Failed to write attribute '${name}'`,
+        "nc_put_att", { ncid, varid },
+      );
+    }
   }
 
   // Mount memory data in the WASM virtual file system
@@ -544,7 +1215,8 @@ export class NetCDF4 extends Group {
 
   // Mount a lazily-read file in the WASM virtual file system. Instead of copying
   // the whole file into MEMFS, this installs custom stream_ops that pull only the
-  // requested byte ranges (through an LRU block cache) from the LazyReader.
+  // requested byte ranges (through the block cache, unless written in place)
+  // from the LazyReader, and writes to an overlay go to its dirty blocks.
   private async mountLazyData(): Promise<void> {
     if (!this.lazySource || !this.module) {
       return;
@@ -564,12 +1236,12 @@ export class NetCDF4 extends Group {
         );
       }
 
-      const cached = new CachedReader(
-        this.lazySource.reader,
-        this.options.blockSize,
-        this.options.maxCacheBlocks,
+      const { reader, cache, overlay } = this.lazySource;
+      mountLazyFile(
+        module.FS,
+        this.lazySource.filename,
+        overlay ?? cache ?? reader,
       );
-      mountLazyFile(module.FS, this.lazySource.filename, cached);
     } catch (error) {
       throw new Error(`Failed to mount lazy data: ${error}`);
     }
@@ -581,24 +1253,36 @@ export class NetCDF4 extends Group {
       throw new Error("NetCDF4 module not initialized");
     }
 
+    // A lazy overlay merges the writes with the source, read from the reader
+    // itself so the export doesn't sweep through the block cache.
+    const lazy = this.lazySource;
+    if (lazy?.overlay) {
+      this.checkLazyOpen();
+      await this.sync();
+      return lazy.overlay.toArrayBuffer(lazy.reader);
+    }
+
     // Skip in test mode
-    if (typeof process !== "undefined" && process.env.NODE_ENV === "test") {
+    if (
+      typeof process !== "undefined" &&
+      process.env.NODE_ENV === "test" &&
+      !lazy &&
+      !this.module.FS
+    ) {
       // Return empty buffer in test mode
       return new ArrayBuffer(0);
     }
 
     try {
-      const module = this.getModule();
-      if (!module.FS || !this.filename) {
-        throw new Error("Cannot read file data");
+      // Fill one buffer chunk by chunk rather than copying a full read.
+      const { size, chunks } = await this.exportSource();
+      const out = new Uint8Array(size);
+      let at = 0;
+      for (const chunk of chunks(DEFAULT_EXPORT_CHUNK_SIZE)) {
+        out.set(chunk, at);
+        at += chunk.length;
       }
-
-      // Read the file from the virtual file system
-      const data = module.FS.readFile(this.filename);
-      return data.buffer.slice(
-        data.byteOffset,
-        data.byteOffset + data.byteLength,
-      );
+      return at === size ? out.buffer : out.slice(0, at).buffer;
     } catch (error) {
       throw new Error(`Failed to read data as ArrayBuffer: ${error}`);
     }
@@ -606,10 +1290,168 @@ export class NetCDF4 extends Group {
 
   // Convert to Blob
   async toBlob(type: string = "application/x-netcdf"): Promise<Blob> {
+    const lazy = this.lazySource;
+    if (this.module && lazy?.overlay) {
+      this.checkLazyOpen();
+      await this.sync();
+      return lazy.overlay.toBlob(type, lazy.reader);
+    }
     const buffer = await this.toArrayBuffer();
     return new Blob([buffer], { type });
   }
 
+  /**
+   * The file's bytes as a WHATWG ReadableStream (a global in browsers and
+   * Node 18+; `Readable.fromWeb` turns it into a Node stream). Chunks are read
+   * from the file as the stream is pulled, so only a chunk at a time is held.
+   * An open dataset is synced first; a lazy one must still be open.
+   */
+  toReadableStream(options: ExportOptions = {}): ReadableStream<Uint8Array> {
+    const chunkSize = exportChunkSize(options);
+    if (typeof ReadableStream === "undefined") {
+      throw new Error("ReadableStream is not available in this environment");
+    }
+    let chunks: Iterator<Uint8Array> | undefined;
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        chunks ??= (await this.exportSource()).chunks(chunkSize);
+        const next = chunks.next();
+        if (next.done) controller.close();
+        else controller.enqueue(next.value);
+      },
+      cancel: () => {
+        chunks?.return?.(undefined);
+      },
+    });
+  }
+
+  /**
+   * Write the file's bytes to `sink` chunk by chunk, waiting for each write,
+   * and return the byte count. A WritableStream is closed and a Node.js
+   * Writable ended once everything is written (committing a
+   * FileSystemWritableFileStream); on failure they are aborted or destroyed.
+   */
+  async writeTo(
+    sink: DatasetSink,
+    options: ExportOptions = {},
+  ): Promise<number> {
+    const chunkSize = exportChunkSize(options);
+    const { chunks } = await this.exportSource();
+    let written = 0;
+
+    if (typeof sink === "function") {
+      for (const chunk of chunks(chunkSize)) {
+        await sink(chunk);
+        written += chunk.length;
+      }
+      return written;
+    }
+
+    if (typeof (sink as WritableStream<Uint8Array>).getWriter === "function") {
+      const writer = (sink as WritableStream<Uint8Array>).getWriter();
+      try {
+        for (const chunk of chunks(chunkSize)) {
+          await writer.write(chunk);
+          written += chunk.length;
+        }
+        await writer.close();
+      } catch (error) {
+        await writer.abort(error).catch(() => {});
+        throw error;
+      } finally {
+        writer.releaseLock();
+      }
+      return written;
+    }
+
+    const writable = sink as NodeWritableLike;
+    const settle =
+      (resolve: () => void, reject: (error: Error) => void) =>
+      (error?: Error | null) =>
+        error ? reject(error) : resolve();
+    try {
+      for (const chunk of chunks(chunkSize)) {
+        await new Promise<void>((resolve, reject) => {
+          writable.write(chunk, settle(resolve, reject));
+        });
+        written += chunk.length;
+      }
+      await new Promise<void>((resolve, reject) => {
+        writable.end(settle(resolve, reject));
+      });
+    } catch (error) {
+      writable.destroy?.(error as Error);
+      throw error;
+    }
+    return written;
+  }
+
+  // Sync an open writable dataset, then describe its file for export: the
+  // size and a generator of chunks, read from the lazy source (through any
+  // overlay) or from the virtual file system. Generators close what they
+  // opened when finished or returned early.
+  private async exportSource(): Promise<{
+    size: number;
+    chunks: (chunkSize: number) => Generator<Uint8Array>;
+  }> {
+    const module = this.getModule();
+    const lazy = this.lazySource;
+    if (lazy) this.checkLazyOpen();
+    if (this._isOpen && this.mode !== "r") await this.sync();
+
+    if (lazy) {
+      const { reader, overlay } = lazy;
+      if (overlay) {
+        return {
+          size: overlay.size,
+          chunks: (chunkSize) => overlay.chunks(reader, chunkSize),
+        };
+      }
+      return {
+        size: reader.size,
+        chunks: function* (chunkSize) {
+          for (let at = 0; at < reader.size; at += chunkSize) {
+            const chunk = reader.read(at, chunkSize);
+            if (chunk.length === 0) return;
+            yield chunk.slice();
+          }
+        },
+      };
+    }
+
+    const FS = module.FS;
+    const filename = this.filename;
+    if (!FS || !filename) {
+      throw new Error("Cannot read file data");
+    }
+    const size: number = FS.stat(filename).size;
+    return {
+      size,
+      chunks: function* (chunkSize) {
+        const stream = FS.open(filename, "r");
+        try {
+          for (let at = 0; at < size; at += chunkSize) {
+            const chunk = new Uint8Array(Math.min(chunkSize, size - at));
+            const n: number = FS.read(stream, chunk, 0, chunk.length, at);
+            if (n <= 0) return;
+            yield n === chunk.length ? chunk : chunk.subarray(0, n);
+          }
+        } finally {
+          FS.close(stream);
+        }
+      },
+    };
+  }
+
+  // A lazy dataset's source (and any overlay) is released on close.
+  private checkLazyOpen(): void {
+    if (!this._isOpen) {
+      throw new Error(
+        "Export a lazy dataset before closing it; closing releases its source and any overlay",
+      );
+    }
+  }
+
   toString(): string {
     const status = this._isOpen ? "open" : "closed";
     const source = this.memorySource
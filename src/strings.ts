@@ -0,0 +1,49 @@
+// Conversion between NC_CHAR arrays and strings (netcdf4-python's
+// chartostring/stringtochar)
+//
+// A fixed-length string variable is an NC_CHAR array whose last dimension
+// holds the characters of each string, so an (n, 8) char array is n strings
+// of up to 8 bytes. Strings are encoded as UTF-8 and padded with NUL bytes;
+// trailing NULs are dropped again when reading.
+
+/**
+ * Collapse the last dimension of a C-order character array with dimensions
+ * `shape` into strings, one per combination of the other dimensions.
+ */
+export function chartostring(chars: Uint8Array, shape: number[]): string[] {
+  const width = shape.length > 0 ? shape[shape.length - 1] : 1;
+  // One string per element of the leading dimensions, even when they are
+  // empty strings because the character dimension has length 0.
+  const count =
+    shape.length > 0
+      ? shape.slice(0, -1).reduce((product, size) => product * size, 1)
+      : chars.length;
+  const decoder = new TextDecoder("utf-8");
+  const strings: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const offset = i * width;
+    let end = offset + width;
+    while (end > offset && chars[end - 1] === 0) end--;
+    strings.push(decoder.decode(chars.subarray(offset, end)));
+  }
+  return strings;
+}
+
+/**
+ * Encode strings into a character array with `width` bytes per string, the
+ * inverse of chartostring. Throws if a string does not fit.
+ */
+export function stringtochar(strings: ArrayLike<string>, width: number): Uint8Array {
+  const encoder = new TextEncoder();
+  const chars = new Uint8Array(strings.length * width);
+  for (let i = 0; i < strings.length; i++) {
+    const bytes = encoder.encode(strings[i]);
+    if (bytes.length > width) {
+      throw new Error(
+        `String '${strings[i]}' is ${bytes.length} bytes, longer than the ${width}-character dimension`,
+      );
+    }
+    chars.set(bytes, i * width);
+  }
+  return chars;
+}
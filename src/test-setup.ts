@@ -81,13 +81,13 @@ export class TestSetup {
 
     // Assert arrays are approximately equal (for floating point comparisons)
     static assertArraysAlmostEqual(
-        actual: Float64Array | Float32Array,
-        expected: Float64Array | Float32Array,
+        actual: ArrayLike<unknown>,
+        expected: ArrayLike<unknown>,
         tolerance: number = 1e-10
     ): void {
         expect(actual.length).toBe(expected.length);
         for (let i = 0; i < actual.length; i++) {
-            expect(Math.abs(actual[i] - expected[i])).toBeLessThanOrEqual(tolerance);
+            expect(Math.abs(Number(actual[i]) - Number(expected[i]))).toBeLessThanOrEqual(tolerance);
         }
     }
 }
\ No newline at end of file
@@ -1,5 +1,8 @@
 // Type definitions for NetCDF4 WASM
 
+import type { NcCType, NumericArray } from "./datatypes";
+import type { ReadStats } from "./lazy/types";
+
 export interface EmscriptenModule {
   ccall: (
     name: string,
@@ -31,7 +34,10 @@ export interface EmscriptenModule {
 export interface NetCDF4Module extends EmscriptenModule {
   // Wrapped NetCDF4 functions
   nc_open: (path: string, mode: number) => { result: number; ncid: number };
+  // Description of a status code returned by any of these functions.
+  nc_strerror: (code: number) => string;
   nc_close: (ncid: number) => number;
+  nc_sync: (ncid: number) => number;
   nc_create: (path: string, mode: number) => { result: number; ncid: number };
   nc_def_dim: (
     ncid: number,
@@ -55,6 +61,126 @@ export interface NetCDF4Module extends EmscriptenModule {
     varid: number,
     size: number,
   ) => { result: number; data: Float64Array };
+  nc_get_vara_double: (
+    ncid: number,
+    varid: number,
+    start: number[],
+    count: number[],
+  ) => { result: number; data: Float64Array };
+  nc_get_vars_double: (
+    ncid: number,
+    varid: number,
+    start: number[],
+    count: number[],
+    stride: number[],
+  ) => { result: number; data: Float64Array };
+  nc_put_vara_double: (
+    ncid: number,
+    varid: number,
+    start: number[],
+    count: number[],
+    data: Float64Array,
+  ) => number;
+  nc_put_vars_double: (
+    ncid: number,
+    varid: number,
+    start: number[],
+    count: number[],
+    stride: number[],
+    data: Float64Array,
+  ) => number;
+  // Native-typed hyperslab I/O: `ctype` selects nc_{get,put}_var{a,s}_<ctype>.
+  nc_get_vara_typed: (
+    ncid: number,
+    varid: number,
+    ctype: NcCType,
+    start: number[],
+    count: number[],
+  ) => { result: number; data: NumericArray };
+  nc_get_vars_typed: (
+    ncid: number,
+    varid: number,
+    ctype: NcCType,
+    start: number[],
+    count: number[],
+    stride: number[],
+  ) => { result: number; data: NumericArray };
+  nc_put_vara_typed: (
+    ncid: number,
+    varid: number,
+    ctype: NcCType,
+    start: number[],
+    count: number[],
+    data: NumericArray,
+  ) => number;
+  nc_put_vars_typed: (
+    ncid: number,
+    varid: number,
+    ctype: NcCType,
+    start: number[],
+    count: number[],
+    stride: number[],
+    data: NumericArray,
+  ) => number;
+  // NC_CHAR hyperslabs as raw bytes and NC_STRING hyperslabs as strings.
+  nc_get_vars_text: (
+    ncid: number,
+    varid: number,
+    start: number[],
+    count: number[],
+    stride: number[],
+  ) => { result: number; data: Uint8Array };
+  nc_put_vars_text: (
+    ncid: number,
+    varid: number,
+    start: number[],
+    count: number[],
+    stride: number[],
+    data: Uint8Array,
+  ) => number;
+  nc_get_vars_string: (
+    ncid: number,
+    varid: number,
+    start: number[],
+    count: number[],
+    stride: number[],
+  ) => { result: number; values: string[] };
+  nc_put_vars_string: (
+    ncid: number,
+    varid: number,
+    start: number[],
+    count: number[],
+    stride: number[],
+    values: string[],
+  ) => number;
+  nc_def_var_deflate: (
+    ncid: number,
+    varid: number,
+    shuffle: number,
+    deflate: number,
+    level: number,
+  ) => number;
+  nc_def_var_fletcher32: (ncid: number, varid: number, fletcher32: number) => number;
+  nc_def_var_chunking: (
+    ncid: number,
+    varid: number,
+    storage: number,
+    chunksizes: number[],
+  ) => number;
+  nc_inq_var_deflate: (
+    ncid: number,
+    varid: number,
+  ) => { result: number; shuffle: number; deflate: number; level: number };
+  nc_inq_var_fletcher32: (
+    ncid: number,
+    varid: number,
+  ) => { result: number; fletcher32: number };
+  nc_inq_var_chunking: (
+    ncid: number,
+    varid: number,
+    ndims: number,
+  ) => { result: number; storage: number; chunksizes: number[] };
+  nc_inq_format: (ncid: number) => { result: number; format: number };
   nc_enddef: (ncid: number) => number;
   nc_inq_ndims: (ncid: number) => { result: number; ndims: number };
   nc_inq_unlimdim: (ncid: number) => { result: number; unlimdimid: number };
@@ -62,6 +188,18 @@ export interface NetCDF4Module extends EmscriptenModule {
     ncid: number,
     dimid: number,
   ) => { result: number; name: string; len: number };
+  nc_inq_dimlen: (ncid: number, dimid: number) => { result: number; len: number };
+  nc_inq_dimids: (
+    ncid: number,
+    includeParents: boolean,
+  ) => { result: number; dimids: number[] };
+  nc_inq_unlimdims: (ncid: number) => { result: number; unlimdimids: number[] };
+  nc_def_grp: (
+    parentNcid: number,
+    name: string,
+  ) => { result: number; ncid: number };
+  nc_inq_grps: (ncid: number) => { result: number; ncids: number[] };
+  nc_inq_grpname: (ncid: number) => { result: number; name: string };
   nc_inq_nvars: (ncid: number) => { result: number; nvars: number };
   nc_inq_var: (
     ncid: number,
@@ -97,6 +235,142 @@ export interface NetCDF4Module extends EmscriptenModule {
     name: string,
     len: number,
   ) => { result: number; values: Float64Array };
+  nc_get_att_typed: (
+    ncid: number,
+    varid: number,
+    name: string,
+    ctype: NcCType,
+    len: number,
+  ) => { result: number; data: NumericArray };
+  nc_get_att_string: (
+    ncid: number,
+    varid: number,
+    name: string,
+    len: number,
+  ) => { result: number; values: string[] };
+  nc_redef: (ncid: number) => number;
+  nc_put_att_text: (
+    ncid: number,
+    varid: number,
+    name: string,
+    text: string,
+  ) => number;
+  nc_put_att_typed: (
+    ncid: number,
+    varid: number,
+    name: string,
+    xtype: number,
+    ctype: NcCType,
+    data: NumericArray,
+  ) => number;
+  // User-defined types
+  nc_inq_typeids: (ncid: number) => { result: number; typeids: number[] };
+  nc_inq_user_type: (
+    ncid: number,
+    xtype: number,
+  ) => {
+    result: number;
+    name: string;
+    size: number;
+    baseType: number;
+    nfields: number;
+    typeClass: number;
+  };
+  nc_def_compound: (
+    ncid: number,
+    size: number,
+    name: string,
+  ) => { result: number; typeid: number };
+  nc_insert_compound: (
+    ncid: number,
+    typeid: number,
+    name: string,
+    offset: number,
+    fieldType: number,
+  ) => number;
+  nc_insert_array_compound: (
+    ncid: number,
+    typeid: number,
+    name: string,
+    offset: number,
+    fieldType: number,
+    dims: number[],
+  ) => number;
+  nc_inq_compound_field: (
+    ncid: number,
+    typeid: number,
+    fieldid: number,
+  ) => {
+    result: number;
+    name: string;
+    offset: number;
+    fieldType: number;
+    dims: number[];
+  };
+  nc_def_enum: (
+    ncid: number,
+    baseType: number,
+    name: string,
+  ) => { result: number; typeid: number };
+  // Member values are passed as the base type's C type.
+  nc_insert_enum: (
+    ncid: number,
+    typeid: number,
+    name: string,
+    ctype: NcCType,
+    value: number | bigint,
+  ) => number;
+  nc_inq_enum_member: (
+    ncid: number,
+    typeid: number,
+    idx: number,
+    ctype: NcCType,
+  ) => { result: number; name: string; value: number | bigint };
+  nc_def_opaque: (
+    ncid: number,
+    size: number,
+    name: string,
+  ) => { result: number; typeid: number };
+  nc_def_vlen: (
+    ncid: number,
+    name: string,
+    baseType: number,
+  ) => { result: number; typeid: number };
+  // Vlen hyperslabs: one array of the base type's C type per element.
+  nc_get_vars_vlen: (
+    ncid: number,
+    varid: number,
+    ctype: NcCType,
+    start: number[],
+    count: number[],
+    stride: number[],
+  ) => { result: number; data: NumericArray[] };
+  nc_put_vars_vlen: (
+    ncid: number,
+    varid: number,
+    ctype: NcCType,
+    start: number[],
+    count: number[],
+    stride: number[],
+    data: NumericArray[],
+  ) => number;
+  // Hyperslabs in the variable's in-memory layout, `size` bytes per element.
+  nc_get_vars: (
+    ncid: number,
+    varid: number,
+    start: number[],
+    count: number[],
+    stride: number[],
+    size: number,
+  ) => { result: number; data: Uint8Array };
+  nc_put_vars: (
+    ncid: number,
+    varid: number,
+    start: number[],
+    count: number[],
+    stride: number[],
+    data: Uint8Array,
+  ) => number;
 }
 
 export interface NetCDF4WasmOptions {
@@ -119,8 +393,39 @@ export interface DatasetOptions extends NetCDF4WasmOptions {
   lazy?: boolean;
   /** Lazy cache block size in bytes (default 64 KiB). */
   blockSize?: number;
-  /** Maximum number of cached lazy blocks (default 256). */
+  /**
+   * Maximum number of cached lazy blocks (default 256, or unlimited when only
+   * `maxCacheBytes` is given).
+   */
   maxCacheBlocks?: number;
+  /** Maximum bytes held by the lazy cache, pinned blocks aside. */
+  maxCacheBytes?: number;
+  /** Lazy cache eviction policy: 'lru' (default), 'lfu', '2q' or a custom one. */
+  eviction?:
+    | import("./lazy/eviction").EvictionPolicyName
+    | import("./lazy/eviction").EvictionPolicy;
+  /** Keep the lazy blocks covering the first `pinBytes` bytes cached for good. */
+  pinBytes?: number;
+  /**
+   * Share lazy blocks with other datasets through this pool; its block size
+   * and budget replace the options above.
+   */
+  cachePool?: import("./lazy/cache-pool").BlockCachePool;
+  /**
+   * Most lazy blocks read ahead of sequential reads (default a quarter of
+   * `maxCacheBlocks`; 0 disables read-ahead).
+   */
+  readAhead?: number;
+  /**
+   * Keep lazy blocks across sessions in this cache (NodeBlockCache,
+   * IndexedDbBlockCache), for readers whose file has a persistentKey.
+   */
+  persistentCache?: import("./lazy/persistent-cache").PersistentBlockCache;
+  /**
+   * Request options (headers, retries, ETag pinning) when lazily opening an
+   * http(s) URL.
+   */
+  http?: import("./lazy/http-reader").HttpRangeReaderOptions;
 }
 
 export interface MemoryDatasetSource {
@@ -131,20 +436,110 @@ export interface MemoryDatasetSource {
 export interface LazyDatasetSource {
   reader: import("./lazy/types").LazyReader;
   filename: string;
+  persistentBlocks?: import("./lazy/persistent-cache").PersistentBlocks;
+  /** The block cache in front of `reader`; none when written in place. */
+  cache?: import("./lazy/block-cache").CachedReader;
+  /** Holds the writes to a read-only source opened with mode 'a' or 'r+'. */
+  overlay?: import("./lazy/overlay").OverlayReader;
+}
+
+export interface ExportOptions {
+  /** Bytes read from the file per chunk (default 1 MiB). */
+  chunkSize?: number;
+}
+
+/** The subset of a Node.js Writable (e.g. `fs.createWriteStream`) that `writeTo` uses. */
+export interface NodeWritableLike {
+  write(chunk: Uint8Array, callback: (error?: Error | null) => void): boolean;
+  end(callback: (error?: Error | null) => void): unknown;
+  destroy?(error?: Error): unknown;
+}
+
+/**
+ * Where `writeTo` sends a dataset's bytes: a WHATWG WritableStream (such as a
+ * FileSystemWritableFileStream), a Node.js Writable, or a function called
+ * with each chunk.
+ */
+export type DatasetSink =
+  | WritableStream<Uint8Array>
+  | NodeWritableLike
+  | ((chunk: Uint8Array) => void | Promise<void>);
+
+/** Lazy I/O caused by reading one variable's data. */
+export interface VariableReadStats {
+  /** Reads of the variable's data. */
+  reads: number;
+  /** Block reads served from the memory cache. */
+  hits: number;
+  /** Block reads not served from memory. */
+  misses: number;
+  /** Bytes fetched from the underlying reader, read-ahead included. */
+  bytesFetched: number;
+  /** Requests made to the underlying reader. */
+  innerReads: number;
+  /** Missing blocks found in the persistent cache instead of read. */
+  persistentHits: number;
+}
+
+/** A lazy dataset's cache statistics, with the I/O of each variable read. */
+export interface DatasetReadStats extends ReadStats {
+  /** By variable path ('/temp', '/forecast/t2m'); header reads are not charged. */
+  variables: Record<string, VariableReadStats>;
 }
 
 // Union type for polymorphic Dataset constructor
-export type DatasetSource = string | Blob | ArrayBuffer | Uint8Array;
+export type DatasetSource =
+  | string
+  | Blob
+  | ArrayBuffer
+  | Uint8Array
+  | import("./lazy/types").LazyReader
+  | import("./lazy/async-bridge").AsyncLazyReaderChannel;
+
+export interface HyperslabOptions {
+  /** Index of the first element along each dimension (default 0). */
+  start?: number[];
+  /** Number of elements along each dimension (default: to the end). */
+  count?: number[];
+  /** Step between elements along each dimension (default 1). */
+  stride?: number[];
+}
 
+export interface AttributeInfo {
+  /** Stored type: a datatype token ('f4', 'i8', 'S1', ...) or 'string' for NC_STRING. */
+  type: string;
+  /** Number of stored values (bytes for 'S1' text). */
+  length: number;
+  value: any;
+}
+
+/**
+ * Storage settings for a new variable (NetCDF-4 files only). As in
+ * netcdf4-python, `shuffle` and `complevel` only take effect with `zlib`.
+ */
 export interface VariableOptions {
+  /** Compress with deflate. */
   zlib?: boolean;
+  /** Deflate level 0-9 (default 4). */
   complevel?: number;
+  /** Apply the HDF5 shuffle filter before compressing (default true). */
   shuffle?: boolean;
+  /** Store a Fletcher-32 checksum per chunk. */
   fletcher32?: boolean;
+  /** Store the variable contiguously instead of in chunks. */
   contiguous?: boolean;
+  /** Chunk length along each dimension. */
   chunksizes?: number[];
 }
 
+/** Filters applied to a variable, as returned by `Variable.filters()`. */
+export interface VariableFilters {
+  zlib: boolean;
+  shuffle: boolean;
+  complevel: number;
+  fletcher32: boolean;
+}
+
 declare global {
   function NetCDF4Module(options?: any): Promise<EmscriptenModule>;
 }
@@ -0,0 +1,341 @@
+// User-defined NetCDF-4 types (netcdf4-python's CompoundType, EnumType and
+// VLType, plus opaque types)
+//
+// A compound type is a C struct: named fields at fixed byte offsets, each of a
+// numeric type, characters ('S1') or another compound type, and optionally a
+// fixed-size array of them. Values of a compound variable cross the WASM
+// boundary in that memory layout (little-endian, as wasm32 is) and are
+// converted here to plain objects, one per element.
+//
+// An enum type stores integers of a base type and names some of them; an
+// opaque type stores blobs of a fixed number of bytes; a variable-length
+// (vlen) type stores a run of any length of a numeric base type per element.
+
+import { DATA_TYPE_MAP, NC_TYPE_TO_STR } from "./constants";
+import { C_TYPE_ARRAYS, numericCType } from "./datatypes";
+import type { NumericArray } from "./datatypes";
+import { chartostring, stringtochar } from "./strings";
+
+/** A field as given to createCompoundType. */
+export interface CompoundFieldSpec {
+  name: string;
+  /** Datatype token ('f4', 'i8', 'S1', ...) or a compound type. */
+  datatype: string | CompoundType;
+  /** Array dimensions of the field; omitted or [] for a single value. */
+  shape?: number[];
+}
+
+/** A field of a compound type with its place in the struct. */
+export interface CompoundField {
+  name: string;
+  datatype: string | CompoundType;
+  shape: number[];
+  /** Byte offset of the field within the struct. */
+  offset: number;
+}
+
+/**
+ * One element of a compound variable. Numeric fields are numbers (bigints for
+ * 'i8'/'u8') or typed arrays when the field is an array, 'S1' fields are
+ * strings (the last array dimension holds the characters) and compound fields
+ * are nested records.
+ */
+export interface CompoundRecord {
+  [field: string]: any;
+}
+
+/**
+ * Several elements of a compound variable as one column per field: a typed
+ * array for numeric fields (array fields flattened in C order), string[] for
+ * 'S1' fields and nested columns for compound fields.
+ */
+export interface CompoundColumns {
+  [field: string]: NumericArray | string[] | CompoundColumns;
+}
+
+/** Labels of an enum type and their values. */
+export interface EnumMembers {
+  [label: string]: number | bigint;
+}
+
+const PRIMITIVE_SIZES: { [token: string]: number } = {
+  i1: 1, u1: 1, S1: 1,
+  i2: 2, u2: 2,
+  i4: 4, u4: 4, f4: 4,
+  i8: 8, u8: 8, f8: 8,
+};
+
+function product(shape: number[]): number {
+  return shape.reduce((acc, n) => acc * n, 1);
+}
+
+function alignmentOf(datatype: string | CompoundType): number {
+  return typeof datatype === "string" ? PRIMITIVE_SIZES[datatype] : datatype.alignment;
+}
+
+function sizeOf(datatype: string | CompoundType): number {
+  return typeof datatype === "string" ? PRIMITIVE_SIZES[datatype] : datatype.size;
+}
+
+/**
+ * Lay fields out like a C compiler would: each at the next offset aligned to
+ * its element size, with the struct padded to its largest alignment.
+ * Datatype tokens are canonicalised ('float' becomes 'f4').
+ */
+export function layoutCompound(
+  typeName: string,
+  specs: CompoundFieldSpec[],
+): { fields: CompoundField[]; size: number } {
+  if (specs.length === 0) {
+    throw new Error(`Compound type '${typeName}' must have at least one field`);
+  }
+  const fields: CompoundField[] = [];
+  const names = new Set<string>();
+  let offset = 0;
+  let alignment = 1;
+  for (const spec of specs) {
+    if (names.has(spec.name)) {
+      throw new Error(`Compound type '${typeName}' has more than one field named '${spec.name}'`);
+    }
+    names.add(spec.name);
+    let datatype = spec.datatype;
+    if (typeof datatype === "string") {
+      const token = NC_TYPE_TO_STR[DATA_TYPE_MAP[datatype]];
+      if (PRIMITIVE_SIZES[token] === undefined) {
+        throw new Error(
+          `Field '${spec.name}' of compound type '${typeName}' has unsupported datatype ${datatype}`,
+        );
+      }
+      datatype = token;
+    }
+    const shape = spec.shape ?? [];
+    if (!shape.every((n) => Number.isInteger(n) && n > 0)) {
+      throw new Error(
+        `Field '${spec.name}' of compound type '${typeName}': shape must be positive integers, got [${shape.join(", ")}]`,
+      );
+    }
+    const align = alignmentOf(datatype);
+    offset = Math.ceil(offset / align) * align;
+    fields.push({ name: spec.name, datatype, shape, offset });
+    offset += sizeOf(datatype) * product(shape);
+    alignment = Math.max(alignment, align);
+  }
+  return { fields, size: Math.ceil(offset / alignment) * alignment };
+}
+
+export class CompoundType {
+  constructor(
+    public readonly name: string,
+    public readonly fields: CompoundField[],
+    /** Size of one element in bytes, including padding. */
+    public readonly size: number,
+    /** NetCDF type id (nc_type) in the file. */
+    public readonly typeid: number,
+  ) {}
+
+  /** @internal Alignment of the struct: that of its most aligned field. */
+  get alignment(): number {
+    return this.fields.reduce((acc, f) => Math.max(acc, alignmentOf(f.datatype)), 1);
+  }
+
+  /** Decode `bytes`, a run of elements in this type's layout, into records. */
+  decode(bytes: Uint8Array): CompoundRecord[] {
+    const records: CompoundRecord[] = [];
+    for (let base = 0; base + this.size <= bytes.length; base += this.size) {
+      records.push(this.decodeOne(bytes, base));
+    }
+    return records;
+  }
+
+  /** Encode records into this type's memory layout. Missing fields are zero. */
+  encode(records: ArrayLike<CompoundRecord>): Uint8Array {
+    const bytes = new Uint8Array(records.length * this.size);
+    for (let i = 0; i < records.length; i++) {
+      this.encodeOne(bytes, i * this.size, records[i]);
+    }
+    return bytes;
+  }
+
+  /** Rearrange records into one column per field. */
+  toColumns(records: CompoundRecord[]): CompoundColumns {
+    const columns: CompoundColumns = {};
+    for (const field of this.fields) {
+      const count = product(field.shape);
+      const values = records.map((r) => r[field.name]);
+      if (field.datatype instanceof CompoundType) {
+        const nested = field.shape.length === 0 ? values : values.flat();
+        columns[field.name] = field.datatype.toColumns(nested);
+      } else if (field.datatype === "S1") {
+        columns[field.name] = values.flat() as string[];
+      } else {
+        const ctor = C_TYPE_ARRAYS[numericCType(field.datatype)!];
+        const column = new ctor(records.length * count);
+        values.forEach((v, i) => {
+          if (field.shape.length === 0) (column as any)[i] = v;
+          else (column as any).set(v, i * count);
+        });
+        columns[field.name] = column;
+      }
+    }
+    return columns;
+  }
+
+  /** The inverse of toColumns. Throws if the columns differ in length. */
+  toRecords(columns: CompoundColumns): CompoundRecord[] {
+    let length: number | undefined;
+    const perField = this.fields.map((field) => {
+      const column = columns[field.name];
+      if (column === undefined) return undefined;
+      const { datatype, shape } = field;
+      // 'S1' arrays hold one string per element of all but the last dimension
+      const perElement = product(datatype === "S1" ? shape.slice(0, -1) : shape);
+      const scalar = shape.length === 0 || (datatype === "S1" && shape.length === 1);
+      const rows: ArrayLike<any> & { slice(a: number, b: number): any } =
+        datatype instanceof CompoundType ? datatype.toRecords(column as CompoundColumns) : (column as any);
+      const n = rows.length / perElement;
+      if (length !== undefined && n !== length) {
+        throw new Error(`Columns of compound type '${this.name}' have different lengths`);
+      }
+      length = n;
+      return (i: number) => (scalar ? rows[i] : rows.slice(i * perElement, (i + 1) * perElement));
+    });
+    const records: CompoundRecord[] = [];
+    for (let i = 0; i < (length ?? 0); i++) {
+      const record: CompoundRecord = {};
+      this.fields.forEach((field, f) => {
+        const row = perField[f];
+        if (row) record[field.name] = row(i);
+      });
+      records.push(record);
+    }
+    return records;
+  }
+
+  toString(): string {
+    const fields = this.fields.map((f) => {
+      const type = f.datatype instanceof CompoundType ? f.datatype.name : f.datatype;
+      return `${f.name}: ${type}${f.shape.length ? `(${f.shape.join(", ")})` : ""}`;
+    });
+    return `<class 'netCDF4.CompoundType'>: name = '${this.name}', fields = {${fields.join(", ")}}`;
+  }
+
+  private decodeOne(bytes: Uint8Array, base: number): CompoundRecord {
+    const record: CompoundRecord = {};
+    for (const field of this.fields) {
+      const start = base + field.offset;
+      const count = product(field.shape);
+      const { datatype } = field;
+      if (datatype instanceof CompoundType) {
+        const nested = datatype.decode(bytes.subarray(start, start + count * datatype.size));
+        record[field.name] = field.shape.length === 0 ? nested[0] : nested;
+      } else if (datatype === "S1") {
+        const strings = chartostring(bytes.subarray(start, start + count), field.shape);
+        record[field.name] = field.shape.length <= 1 ? strings[0] : strings;
+      } else {
+        const ctor = C_TYPE_ARRAYS[numericCType(datatype)!];
+        const values = new ctor(bytes.slice(start, start + count * ctor.BYTES_PER_ELEMENT).buffer);
+        record[field.name] = field.shape.length === 0 ? values[0] : values;
+      }
+    }
+    return record;
+  }
+
+  private encodeOne(bytes: Uint8Array, base: number, record: CompoundRecord): void {
+    for (const field of this.fields) {
+      const value = record[field.name];
+      if (value === undefined || value === null) continue;
+      const start = base + field.offset;
+      const count = product(field.shape);
+      const { datatype } = field;
+      if (datatype instanceof CompoundType) {
+        const nested = field.shape.length === 0 ? [value] : value;
+        bytes.set(datatype.encode(nested).subarray(0, count * datatype.size), start);
+      } else if (datatype === "S1") {
+        const width = field.shape.length > 0 ? field.shape[field.shape.length - 1] : 1;
+        const strings = typeof value === "string" ? [value] : value;
+        bytes.set(stringtochar(strings, width).subarray(0, count), start);
+      } else {
+        const ctype = numericCType(datatype)!;
+        const values = field.shape.length === 0 ? [value] : Array.from(value as ArrayLike<number | bigint>);
+        if (values.length !== count) {
+          throw new Error(
+            `Field '${field.name}' of compound type '${this.name}' takes ${count} values, got ${values.length}`,
+          );
+        }
+        const ctor = C_TYPE_ARRAYS[ctype];
+        const typed = new ctor(count);
+        values.forEach((v, i) => {
+          (typed as any)[i] = ctype === "longlong" || ctype === "ulonglong" ? BigInt(v) : Number(v);
+        });
+        bytes.set(new Uint8Array(typed.buffer), start);
+      }
+    }
+  }
+}
+
+export class EnumType {
+  constructor(
+    public readonly name: string,
+    /** Integer datatype token ('u1', 'i4', ...) of the stored values. */
+    public readonly baseType: string,
+    public readonly members: EnumMembers,
+    /** NetCDF type id (nc_type) in the file. */
+    public readonly typeid: number,
+  ) {}
+
+  /** Label of `value`, or undefined if no member has that value. */
+  label(value: number | bigint): string | undefined {
+    return Object.keys(this.members).find((label) => this.members[label] == value);
+  }
+
+  /** Labels of stored values; null for values that are not members. */
+  toLabels(values: ArrayLike<number | bigint>): (string | null)[] {
+    return Array.from(values, (v) => this.label(v) ?? null);
+  }
+
+  /** Values of labels. Throws for a label that is not a member. */
+  toValues(labels: ArrayLike<string>): (number | bigint)[] {
+    return Array.from(labels, (label) => {
+      if (!Object.prototype.hasOwnProperty.call(this.members, label)) {
+        throw new Error(`'${label}' is not a member of enum type '${this.name}'`);
+      }
+      return this.members[label];
+    });
+  }
+
+  toString(): string {
+    const members = Object.entries(this.members).map(([label, value]) => `${label}: ${value}`);
+    return `<class 'netCDF4.EnumType'>: name = '${this.name}', base type = ${this.baseType}, members = {${members.join(", ")}}`;
+  }
+}
+
+export class OpaqueType {
+  constructor(
+    public readonly name: string,
+    /** Size of one value in bytes. */
+    public readonly size: number,
+    /** NetCDF type id (nc_type) in the file. */
+    public readonly typeid: number,
+  ) {}
+
+  toString(): string {
+    return `<class 'netCDF4.OpaqueType'>: name = '${this.name}', size = ${this.size}`;
+  }
+}
+
+export class VLType {
+  constructor(
+    public readonly name: string,
+    /** Numeric datatype token ('f4', 'i4', ...) of the values. */
+    public readonly baseType: string,
+    /** NetCDF type id (nc_type) in the file. */
+    public readonly typeid: number,
+  ) {}
+
+  toString(): string {
+    return `<class 'netCDF4.VLType'>: name = '${this.name}', base type = ${this.baseType}`;
+  }
+}
+
+/** Any user-defined type. */
+export type UserType = CompoundType | EnumType | OpaqueType | VLType;
@@ -1,10 +1,46 @@
 // Variable class similar to netcdf4-python
 
 import type { NetCDF4 } from './netcdf4';
-import { NC_CONSTANTS } from './constants';
+import type { Group } from './group';
+import { DATA_TYPE_MAP, NC_CONSTANTS } from './constants';
+import { growShape, hyperslabSize, resolveHyperslab, resolveIndex, reverseAxes } from './hyperslab';
+import type { IndexSpec } from './hyperslab';
+import { filledNumericArray, numericCType, toNumericArray } from './datatypes';
+import type { NcCType, NumericArray, VariableData, VariableInput } from './datatypes';
+import { describeAttribute } from './attributes';
+import { missingMask, pack, packingOf, unpack } from './maskscale';
+import { chartostring, stringtochar } from './strings';
+import { CompoundType, EnumType, OpaqueType, VLType } from './usertypes';
+import type { CompoundColumns, CompoundRecord, UserType } from './usertypes';
+import { num2date } from './cftime';
+import type { CFCalendar, CFDatetime, Num2DateOptions } from './cftime';
+import type { AttributeInfo, HyperslabOptions, VariableFilters } from './types';
+
+// Values as read from or written to the file, before conversion to strings
+// or columns.
+type StoredData = NumericArray | string[] | CompoundRecord[] | NumericArray[];
+
+function isText(data: unknown): data is string | string[] {
+    return typeof data === 'string' || (Array.isArray(data) && data.length > 0 && typeof data[0] === 'string');
+}
+
+// An attribute holding one string: text, or an NC_STRING of length 1.
+function singleString(value: unknown): string | undefined {
+    if (typeof value === 'string') return value;
+    return Array.isArray(value) && value.length === 1 && typeof value[0] === 'string' ? value[0] : undefined;
+}
+
+// Length of the last (character) dimension of a slab; 1 for scalars.
+function lastCount(count: number[]): number {
+    return count.length > 0 ? count[count.length - 1] : 1;
+}
 
 export class Variable {
     private _attributes: { [key: string]: any } = {};
+    private _attributeInfo: { [key: string]: Omit<AttributeInfo, 'value'> } = {};
+    private _mask = true;
+    private _scale = true;
+    private _chartostring = true;
 
     constructor(
         private netcdf: NetCDF4,
@@ -12,23 +48,56 @@ export class Variable {
         public readonly datatype: string,
         public readonly dimensions: string[],
         private varid: number,
-        private ncid: number
+        private ncid: number,
+        private group: Group = netcdf
     ) {}
 
-    // Attribute access (Python-like)
-    setAttr(name: string, value: any): void {
+    // This variable's entry in mock storage (test mode only).
+    private mockEntry(): any {
+        return this.group.mockStorage()?.variables[this.name];
+    }
+
+    // Attribute access (Python-like). The value is written to the open file;
+    // `datatype` overrides the type inferred from the value. _FillValue must
+    // match the variable's type, so it defaults to that.
+    setAttr(name: string, value: any, datatype?: string): void {
+        const type = datatype ?? (name === '_FillValue' ? this.datatype : undefined);
+        if (this.netcdf.isopen) {
+            this.netcdf.putAttribute(this.ncid, this.varid, name, value, type);
+        }
         this._attributes[name] = value;
+        this.setAttrInfo(name, describeAttribute(name, value, type));
         
         // Store in mock file system if in test mode
         if (typeof process !== 'undefined' && process.env.NODE_ENV === 'test') {
-            const mockFiles = (global as any).__netcdf4_mock_files;
-            const dataset = this.netcdf as any;
-            if (mockFiles && dataset.filename && mockFiles[dataset.filename] && mockFiles[dataset.filename].variables[this.name]) {
-                mockFiles[dataset.filename].variables[this.name].attributes[name] = value;
+            const entry = this.mockEntry();
+            if (entry) {
+                entry.attributes[name] = value;
             }
         }
-        
-        // TODO: Implement actual NetCDF attribute setting
+    }
+
+    /** @internal Record an attribute read from the file without writing it back. */
+    restoreAttr(name: string, value: any, info?: Omit<AttributeInfo, 'value'>): void {
+        this._attributes[name] = value;
+        this.setAttrInfo(name, info);
+    }
+
+    private setAttrInfo(name: string, info: Omit<AttributeInfo, 'value'> | undefined): void {
+        if (info) {
+            this._attributeInfo[name] = info;
+        } else {
+            delete this._attributeInfo[name];
+        }
+    }
+
+    // Stored type and length of an attribute along with its value, e.g.
+    // { type: 'i8', length: 1, value: -9999n }.
+    getAttrInfo(name: string): AttributeInfo | undefined {
+        const value = this.getAttr(name);
+        if (value === undefined) return undefined;
+        const info = this._attributeInfo[name] ?? describeAttribute(name, value);
+        return info ? { ...info, value } : undefined;
     }
 
     getAttr(name: string): any {
@@ -39,101 +108,470 @@ export class Variable {
         return Object.keys(this._attributes);
     }
 
-    // Data access methods
-    async getValue(): Promise<Float64Array | Float32Array> {
-        // Check if we're in test mode and have stored data
-        if (typeof process !== 'undefined' && process.env.NODE_ENV === 'test') {
-            const mockFiles = (global as any).__netcdf4_mock_files;
-            const dataset = this.netcdf as any;
-            if (mockFiles && dataset.filename && mockFiles[dataset.filename]) {
-                const variables = mockFiles[dataset.filename].variables;
-                if (variables[this.name] && variables[this.name].data) {
-                    const storedData = variables[this.name].data;
-                    if (this.datatype === 'f4' || this.datatype === 'float') {
-                        return new Float32Array(storedData);
-                    }
-                    return storedData;
-                }
-            }
+    // Current length of each dimension, in order. Unlimited dimensions report
+    // the records written so far (possibly 0).
+    get shape(): number[] {
+        return this.dimensions.map(dimName => this.group.findDimension(dimName)?.size ?? 1);
+    }
+
+    // Total number of elements.
+    get size(): number {
+        return this.shape.reduce((acc, n) => acc * n, 1);
+    }
+
+    get ndims(): number {
+        return this.dimensions.length;
+    }
+
+    // Datatype token of the numbers stored: an enum's base type, otherwise
+    // the variable's own datatype.
+    private valueType(): string {
+        return this.enumType?.baseType ?? this.datatype;
+    }
+
+    // C memory type of this variable's native representation; throws for
+    // types without a numeric typed-array mapping.
+    private numericType(): NcCType {
+        const ctype = numericCType(this.valueType());
+        if (ctype === undefined) {
+            throw new Error(`Data type ${this.datatype} is not numeric`);
         }
+        return ctype;
+    }
+
+    // How values are stored: characters (NC_CHAR), variable-length strings
+    // (NC_STRING), structs of a compound type, opaque blobs, vlen arrays or
+    // numbers (including enums).
+    private storage(): 'char' | 'string' | 'compound' | 'opaque' | 'vlen' | 'numeric' {
+        const code = DATA_TYPE_MAP[this.datatype];
+        if (code === NC_CONSTANTS.NC_CHAR) return 'char';
+        if (code === NC_CONSTANTS.NC_STRING) return 'string';
+        if (this.compoundType) return 'compound';
+        if (this.opaqueType) return 'opaque';
+        if (this.vlType) return 'vlen';
+        return 'numeric';
+    }
+
+    /** The variable's vlen type, or undefined for other datatypes. */
+    get vlType(): VLType | undefined {
+        const type = this.userType();
+        return type instanceof VLType ? type : undefined;
+    }
+
+    private userType(): UserType | undefined {
+        if (DATA_TYPE_MAP[this.datatype] !== undefined) return undefined;
+        return this.group.findUserType(this.datatype);
+    }
+
+    /** The variable's compound type, or undefined for other datatypes. */
+    get compoundType(): CompoundType | undefined {
+        const type = this.userType();
+        return type instanceof CompoundType ? type : undefined;
+    }
+
+    /** The variable's enum type, whose `members` map labels to values. */
+    get enumType(): EnumType | undefined {
+        const type = this.userType();
+        return type instanceof EnumType ? type : undefined;
+    }
+
+    /** The variable's opaque type, or undefined for other datatypes. */
+    get opaqueType(): OpaqueType | undefined {
+        const type = this.userType();
+        return type instanceof OpaqueType ? type : undefined;
+    }
+
+    private unlimitedAxes(): boolean[] {
+        return this.dimensions.map(d => !!this.group.findDimension(d)?.isUnlimited);
+    }
+
+    // Shape a hyperslab write may cover: unlimited dimensions grow to fit an
+    // explicit start/count past their current length.
+    private writeShape(options: HyperslabOptions): number[] {
+        const unlimited = this.unlimitedAxes();
+        return this.shape.map((n, i) => {
+            if (!unlimited[i] || !options.count) return n;
+            const end = (options.start?.[i] ?? 0) + (options.count[i] - 1) * (options.stride?.[i] ?? 1) + 1;
+            return Math.max(n, end);
+        });
+    }
 
-        const totalSize = this.dimensions.reduce((acc, dimName) => {
-            const dim = this.netcdf.dimensions[dimName];
-            if (!dim) return acc * 1;
-            
-            // Handle unlimited dimensions - use actual current size if available
-            let actualSize = dim.size;
-            if (dim.isUnlimited) {
-                // In test mode, try to get the actual size from stored data
-                if (typeof process !== 'undefined' && process.env.NODE_ENV === 'test') {
-                    const mockFiles = (global as any).__netcdf4_mock_files;
-                    const dataset = this.netcdf as any;
-                    if (mockFiles && dataset.filename && mockFiles[dataset.filename]) {
-                        const variables = mockFiles[dataset.filename].variables;
-                        if (variables[this.name] && variables[this.name].data) {
-                            // Calculate size based on the current variable's shape
-                            const storedData = variables[this.name].data;
-                            actualSize = Math.max(1, Math.floor(storedData.length / acc));
-                        } else {
-                            actualSize = 1; // Default for unlimited dimension
-                        }
-                    }
-                } else {
-                    // Real file: nc_inq_dim already returned the current length.
-                    actualSize = dim.size > 0 ? dim.size : 1;
-                }
+    // Extent covered by a whole-variable write of `length` elements: the
+    // current shape, with an unlimited dimension sized to fit the data.
+    private extentFor(length: number): number[] {
+        const shape = this.shape;
+        const unlimited = this.dimensions.findIndex(d => this.group.findDimension(d)?.isUnlimited);
+        if (unlimited < 0) return shape;
+        const fixed = shape.reduce((acc, n, i) => (i === unlimited ? acc : acc * n), 1);
+        shape[unlimited] = fixed > 0 ? Math.ceil(length / fixed) : 0;
+        return shape;
+    }
+
+    /**
+     * Filters applied to the variable, like netcdf4-python's filters(), or
+     * null for formats without filters (NETCDF3_*).
+     */
+    filters(): VariableFilters | null {
+        if (!this.netcdf.file_format.startsWith('NETCDF4')) return null;
+        return this.netcdf.getVariableFilters(this.ncid, this.varid);
+    }
+
+    /**
+     * 'contiguous', or the chunk length along each dimension; null for
+     * formats without chunking (NETCDF3_*).
+     */
+    chunking(): 'contiguous' | number[] | null {
+        if (!this.netcdf.file_format.startsWith('NETCDF4')) return null;
+        return this.netcdf.getVariableChunking(this.ncid, this.varid, this.ndims);
+    }
+
+    // Automatic mask-and-scale (netcdf4-python semantics, on by default)
+
+    /** Whether reads mask missing values and writes fill them in. */
+    get mask(): boolean { return this._mask; }
+
+    /** Whether reads unpack with scale_factor/add_offset and writes pack. */
+    get scale(): boolean { return this._scale; }
+
+    set_auto_maskandscale(flag: boolean): void {
+        this._mask = flag;
+        this._scale = flag;
+    }
+
+    set_auto_mask(flag: boolean): void {
+        this._mask = flag;
+    }
+
+    set_auto_scale(flag: boolean): void {
+        this._scale = flag;
+    }
+
+    /** Whether NC_CHAR reads collapse the last dimension into strings. */
+    get chartostring(): boolean { return this._chartostring; }
+
+    /**
+     * Turn automatic conversion of NC_CHAR data off to read the raw characters
+     * as a Uint8Array, like netcdf4-python's set_auto_chartostring(False).
+     */
+    set_auto_chartostring(flag: boolean): void {
+        this._chartostring = flag;
+    }
+
+    private attrLookup = (name: string): AttributeInfo | undefined => this.getAttrInfo(name);
+
+    // Convert stored values to what reads return, per the auto mask/scale flags.
+    private decode(raw: NumericArray): NumericArray {
+        const packing = this._scale ? packingOf(this.attrLookup) : undefined;
+        const mask = this._mask ? missingMask(raw, this.valueType(), this.attrLookup) : undefined;
+        return unpack(raw, packing, mask);
+    }
+
+    // Convert values given to a write to the variable's stored type.
+    private encode(data: ArrayLike<number | bigint>): NumericArray {
+        const packing = this._scale ? packingOf(this.attrLookup) : undefined;
+        return pack(data, this.valueType(), packing, this._mask, this.attrLookup);
+    }
+
+    // Convert values given to a write into what is stored: characters for
+    // NC_CHAR (strings NUL-padded to `width`, the length of the character
+    // dimension), strings for NC_STRING and encoded numbers otherwise. Enum
+    // variables also take labels.
+    private toStored(data: VariableInput, width: number): StoredData {
+        const kind = this.storage();
+        if (kind === 'opaque') {
+            const { size } = this.opaqueType!;
+            if (Array.isArray(data) && data.every(v => v instanceof Uint8Array && v.length === size)) {
+                return data as Uint8Array[];
+            }
+            throw new Error(`Variable '${this.name}' of type ${this.datatype} takes Uint8Array values of ${size} bytes`);
+        }
+        if (kind === 'vlen') {
+            const ctype = numericCType(this.vlType!.baseType)!;
+            if (Array.isArray(data) && data.every(v => Array.isArray(v) || ArrayBuffer.isView(v))) {
+                return data.map(v => toNumericArray(v as ArrayLike<number>, ctype));
+            }
+            throw new Error(`Variable '${this.name}' of type ${this.datatype} takes an array of arrays`);
+        }
+        const enumType = this.enumType;
+        if (enumType && isText(data)) {
+            return this.encode(enumType.toValues(typeof data === 'string' ? [data] : data) as ArrayLike<number>);
+        }
+        if (kind === 'compound') {
+            if (Array.isArray(data) && data.every(r => typeof r === 'object' && r !== null)) {
+                return data as CompoundRecord[];
+            }
+            if (typeof data === 'object' && !Array.isArray(data) && !ArrayBuffer.isView(data)) {
+                return this.compoundType!.toRecords(data as CompoundColumns);
             }
-            return acc * Math.max(actualSize, 1);
-        }, 1);
+            throw new Error(`Variable '${this.name}' of type ${this.datatype} takes records or columns`);
+        }
+        if (kind === 'char') {
+            if (isText(data)) return stringtochar(typeof data === 'string' ? [data] : data, width);
+            if (data instanceof Uint8Array) return data;
+            throw new Error(`Variable '${this.name}' of type ${this.datatype} takes strings or a Uint8Array of characters`);
+        }
+        if (kind === 'string') {
+            if (isText(data)) return typeof data === 'string' ? [data] : data;
+            if (Array.isArray(data) && data.length === 0) return [];
+            throw new Error(`Variable '${this.name}' of type ${this.datatype} takes strings`);
+        }
+        if (isText(data)) {
+            throw new Error(`Variable '${this.name}' of type ${this.datatype} cannot store strings`);
+        }
+        return this.encode(data as ArrayLike<number>);
+    }
 
-        if (this.datatype === 'S1' || this.datatype === 'char') {
-            throw new Error(`Data type ${this.datatype} not yet supported`);
+    // Read a hyperslab in its decoded form, leaving NC_CHAR data as bytes and
+    // compound data as records.
+    private async read(options: HyperslabOptions): Promise<StoredData> {
+        const { start, count, stride } = resolveHyperslab(this.shape, options);
+        const kind = this.storage();
+        if (kind === 'compound') {
+            const type = this.compoundType!;
+            return type.decode(await this.netcdf.getVariableBytes(this.ncid, this.varid, start, count, stride, type.size));
+        }
+        if (kind === 'opaque') {
+            const { size } = this.opaqueType!;
+            const bytes = await this.netcdf.getVariableBytes(this.ncid, this.varid, start, count, stride, size);
+            return Array.from({ length: bytes.length / size }, (_, i) => bytes.slice(i * size, (i + 1) * size));
+        }
+        if (kind === 'vlen') {
+            const ctype = numericCType(this.vlType!.baseType)!;
+            return this.netcdf.getVariableVlens(this.ncid, this.varid, ctype, start, count, stride);
         }
-        // NetCDF converts on read, so any numeric type can be read as double.
-        const doubleData = await this.netcdf.getVariableDouble(this.ncid, this.varid, totalSize);
-        if (this.datatype === 'f4' || this.datatype === 'float') {
-            return new Float32Array(doubleData);
+        if (kind === 'char') {
+            return this.netcdf.getVariableText(this.ncid, this.varid, start, count, stride);
         }
-        return doubleData;
+        if (kind === 'string') {
+            return this.netcdf.getVariableStrings(this.ncid, this.varid, start, count, stride);
+        }
+        return this.decode(await this.netcdf.getVariableSlab(this.ncid, this.varid, this.numericType(), start, count, stride));
     }
 
-    async setValue(data: Float64Array | Float32Array): Promise<void> {
-        // Store data in mock file system if in test mode
-        if (typeof process !== 'undefined' && process.env.NODE_ENV === 'test') {
-            const mockFiles = (global as any).__netcdf4_mock_files;
-            const dataset = this.netcdf as any;
-            if (mockFiles && dataset.filename && mockFiles[dataset.filename]) {
-                const variables = mockFiles[dataset.filename].variables;
-                if (variables[this.name]) {
-                    variables[this.name].data = data instanceof Float64Array ? data : new Float64Array(data);
-                }
-            }
+    private async write(stored: StoredData, start: number[], count: number[], stride?: number[]): Promise<void> {
+        const kind = this.storage();
+        if (kind === 'compound') {
+            const bytes = this.compoundType!.encode(stored as CompoundRecord[]);
+            await this.netcdf.putVariableBytes(this.ncid, this.varid, start, count, bytes, stride);
+        } else if (kind === 'opaque') {
+            const values = stored as Uint8Array[];
+            const bytes = new Uint8Array(values.length * this.opaqueType!.size);
+            values.forEach((value, i) => bytes.set(value, i * value.length));
+            await this.netcdf.putVariableBytes(this.ncid, this.varid, start, count, bytes, stride);
+        } else if (kind === 'vlen') {
+            const ctype = numericCType(this.vlType!.baseType)!;
+            await this.netcdf.putVariableVlens(this.ncid, this.varid, ctype, start, count, stored as NumericArray[], stride);
+        } else if (kind === 'char') {
+            await this.netcdf.putVariableText(this.ncid, this.varid, start, count, stored as Uint8Array, stride);
+        } else if (kind === 'string') {
+            await this.netcdf.putVariableStrings(this.ncid, this.varid, start, count, stored as string[], stride);
+        } else {
+            await this.netcdf.putVariableSlab(this.ncid, this.varid, this.numericType(), start, count, stored as NumericArray, stride);
         }
+    }
 
-        if (this.datatype === 'f8' || this.datatype === 'double') {
-            const doubleData = data instanceof Float64Array ? data : new Float64Array(data);
-            return await this.netcdf.putVariableDouble(this.ncid, this.varid, doubleData);
-        } else if (this.datatype === 'f4' || this.datatype === 'float') {
-            // Convert to double for storage (until we add proper float32 support)
-            const doubleData = data instanceof Float64Array ? data : new Float64Array(data);
-            return await this.netcdf.putVariableDouble(this.ncid, this.varid, doubleData);
+    /**
+     * Missing-value mask of a hyperslab: 1 where the stored value equals
+     * _FillValue or missing_value or lies outside the valid range. Reads
+     * return such elements as NaN when the data is floating point; integer
+     * data keeps the stored values, so use this mask instead.
+     */
+    async getMask(options: HyperslabOptions = {}): Promise<Uint8Array> {
+        const ctype = this.numericType();
+        const { start, count, stride } = resolveHyperslab(this.shape, options);
+        const raw = await this.netcdf.getVariableSlab(this.ncid, this.varid, ctype, start, count, stride);
+        return missingMask(raw, this.valueType(), this.attrLookup);
+    }
+
+    // Data access methods
+
+    /**
+     * Read the whole variable as the typed array matching its NetCDF type:
+     * Int8Array for i1, Uint16Array for u2, BigInt64Array for i8, and so on.
+     * With auto scaling, packed data is unpacked to Float32Array or
+     * Float64Array (the type of scale_factor/add_offset); with auto masking,
+     * missing elements of floating-point results are NaN. NC_STRING variables
+     * read as string[], and NC_CHAR variables as one string per element of
+     * all but the last dimension (see set_auto_chartostring). Enum variables
+     * read as their base type (see getLabels), opaque variables as one
+     * Uint8Array per element and vlen variables as one typed array of the
+     * base type per element.
+     */
+    async getValue(): Promise<VariableData> {
+        return this.get();
+    }
+
+    /**
+     * Read a hyperslab: `count` elements along each dimension starting at
+     * `start`, stepping by `stride`. Omitted fields default to reading the
+     * whole extent, so `get()` is equivalent to `getValue()`. Only the
+     * requested region is read from the file. Values are decoded like
+     * `getValue()`.
+     */
+    async get(options: HyperslabOptions = {}): Promise<VariableData> {
+        const data = await this.read(options);
+        if (this.storage() === 'char' && this._chartostring) {
+            return chartostring(data as Uint8Array, resolveHyperslab(this.shape, options).count);
+        }
+        return data;
+    }
+
+    /**
+     * Read a hyperslab of a compound variable as one column per field (a
+     * struct of typed arrays) rather than one record per element.
+     */
+    async getColumns(options: HyperslabOptions = {}): Promise<CompoundColumns> {
+        const type = this.compoundType;
+        if (!type) {
+            throw new Error(`Variable '${this.name}' of type ${this.datatype} is not a compound variable`);
+        }
+        return type.toColumns(await this.read(options) as CompoundRecord[]);
+    }
+
+    /**
+     * Read a hyperslab of an enum variable as member labels, null where the
+     * stored value names no member (such as the fill value).
+     */
+    async getLabels(options: HyperslabOptions = {}): Promise<(string | null)[]> {
+        const type = this.enumType;
+        if (!type) {
+            throw new Error(`Variable '${this.name}' of type ${this.datatype} is not an enum variable`);
+        }
+        return type.toLabels(await this.read(options) as NumericArray);
+    }
+
+    /**
+     * Write the whole variable. `data` must fill it: along an unlimited
+     * dimension it holds whole records, and the dimension is sized to fit
+     * them. A typed array matching the variable's type is written as-is; other arrays are converted to it first. With auto
+     * scaling values are packed with scale_factor/add_offset, and with auto
+     * masking NaN is written as the fill value. NC_CHAR variables take
+     * strings, each NUL-padded to the length of the last dimension, or raw
+     * characters as a Uint8Array; NC_STRING variables take strings.
+     */
+    async setValue(data: VariableInput): Promise<void> {
+        const stored = this.toStored(data, lastCount(this.shape));
+        const count = this.extentFor(stored.length);
+        const expected = hyperslabSize(count);
+        if (stored.length !== expected) {
+            throw new Error(`Data has ${stored.length} elements but the variable holds ${expected}`);
+        }
+        const start = count.map(() => 0);
+        await this.write(stored, start, count);
+    }
+
+    /**
+     * Write a hyperslab: the inverse of `get()`. `data` holds the selected
+     * elements in C order and must match the size of the region; strings for
+     * an NC_CHAR variable fill the selected part of the last dimension. A
+     * region past the end of an unlimited dimension grows it.
+     */
+    async put(data: VariableInput, options: HyperslabOptions = {}): Promise<void> {
+        const { start, count, stride } = resolveHyperslab(this.writeShape(options), options);
+        const stored = this.toStored(data, lastCount(count));
+        const expected = hyperslabSize(count);
+        if (stored.length !== expected) {
+            throw new Error(`Data has ${stored.length} elements but the hyperslab selects ${expected}`);
+        }
+        await this.write(stored, start, count, stride);
+    }
+
+    /**
+     * Append records along the unlimited dimension, like assigning to
+     * `v[len(dim):]` in netcdf4-python. `data` holds whole records in C order;
+     * the dimension grows by one per record.
+     */
+    async append(data: VariableInput): Promise<void> {
+        const axis = this.unlimitedAxes().indexOf(true);
+        if (axis < 0) {
+            throw new Error(`Variable '${this.name}' has no unlimited dimension to append to`);
+        }
+        const shape = this.shape;
+        const stored = this.toStored(data, lastCount(shape));
+        const recordSize = shape.reduce((acc, n, i) => (i === axis ? acc : acc * n), 1);
+        if (recordSize === 0 || stored.length % recordSize !== 0) {
+            throw new Error(`Cannot append ${stored.length} values to '${this.name}': each record has ${recordSize} elements`);
+        }
+        const start = shape.map((n, i) => (i === axis ? n : 0));
+        const count = shape.map((n, i) => (i === axis ? stored.length / recordSize : n));
+        await this.write(stored, start, count);
+    }
+
+    /**
+     * Read a hyperslab of a time variable as dates, using its `units` and
+     * `calendar` (default "standard") attributes; see num2date. Masked times
+     * are null. Either attribute may be text or a single NC_STRING.
+     */
+    async getDates(options: HyperslabOptions = {}, dateOptions: Num2DateOptions = {}): Promise<(Date | CFDatetime | null)[]> {
+        const units = singleString(this._attributes.units);
+        if (units === undefined) {
+            throw new Error(`Variable '${this.name}' has no units attribute`);
         }
-        throw new Error(`Data type ${this.datatype} not yet supported`);
+        const calendar = (singleString(this._attributes.calendar) ?? 'standard') as CFCalendar;
+        return num2date(await this.get(options) as NumericArray, units, calendar, dateOptions);
     }
 
-    // Array-like access methods
-    async __getitem__(index: number | number[]): Promise<number | Float64Array> {
-        // TODO: Implement slicing support similar to Python
-        if (typeof index === 'number') {
-            const data = await this.getValue();
-            return data[index];
+    // Array-like access methods (netcdf4-python indexing semantics)
+
+    /**
+     * Read the elements selected by a Python-style index expression, e.g.
+     * `[0, [10, 20], null]` or `"0, 10:20, :"`. Integer-indexed dimensions are
+     * dropped from the returned shape, as is the character dimension when
+     * NC_CHAR data is read as strings.
+     */
+    async __getitem__(index: IndexSpec): Promise<{ data: VariableData; shape: number[] }> {
+        const selection = resolveIndex(index, this.shape);
+        const { count } = selection.slab;
+        const data = reverseAxes(await this.read(selection.slab), count, selection.reverse);
+        if (this.storage() === 'char' && this._chartostring) {
+            const shape = selection.dropped.includes(this.ndims - 1) ? selection.shape : selection.shape.slice(0, -1);
+            return { data: chartostring(data as Uint8Array, count), shape };
         }
-        throw new Error('Advanced indexing not yet implemented');
+        return { data, shape: selection.shape };
     }
 
-    async __setitem__(index: number | number[], value: number | Float64Array): Promise<void> {
-        // TODO: Implement slicing support similar to Python
-        throw new Error('Item assignment not yet implemented');
+    /**
+     * Write to the elements selected by a Python-style index expression. A
+     * scalar is broadcast over the selection; an array must match its size.
+     * An index or slice stop past the end of an unlimited dimension grows it.
+     * String variables take strings, and a single string is broadcast.
+     */
+    async __setitem__(index: IndexSpec, value: number | bigint | VariableInput): Promise<void> {
+        const kind = this.storage();
+        if (kind !== 'numeric' || isText(value)) {
+            const selection = resolveIndex(index, growShape(index, this.shape, this.unlimitedAxes()));
+            const { count } = selection.slab;
+            const size = hyperslabSize(count);
+            const width = kind === 'char' ? lastCount(count) : 1;
+            const input = typeof value === 'string' ? new Array<string>(width > 0 ? size / width : 0).fill(value) : value;
+            const stored = this.toStored(input as VariableInput, width);
+            if (stored.length !== size) {
+                throw new Error(`Cannot assign ${stored.length} values to a selection of ${size} elements`);
+            }
+            await this.write(reverseAxes(stored, count, selection.reverse), selection.slab.start, count, selection.slab.stride);
+            return;
+        }
+
+        // Stage values as doubles when put() will pack them or turn NaN into
+        // the fill value; 64-bit integers stay bigints to keep them exact,
+        // unless the value is a NaN to fill.
+        const native = this.numericType();
+        const packed = this._scale && packingOf(this.attrLookup) !== undefined;
+        const exact = native === 'longlong' || native === 'ulonglong';
+        const nan = typeof value === 'number' && Number.isNaN(value);
+        const ctype: NcCType = packed || (this._mask && (!exact || nan)) ? 'double' : native;
+        const selection = resolveIndex(index, growShape(index, this.shape, this.unlimitedAxes()));
+        const size = hyperslabSize(selection.slab.count);
+        let data: NumericArray;
+        if (typeof value === 'number' || typeof value === 'bigint') {
+            data = filledNumericArray(ctype, size, value);
+        } else {
+            if (value.length !== size) {
+                throw new Error(`Cannot assign ${value.length} values to a selection of ${size} elements`);
+            }
+            data = reverseAxes(toNumericArray(value as ArrayLike<number>, ctype), selection.slab.count, selection.reverse);
+        }
+        await this.put(data, selection.slab);
     }
 
     // Property-style attribute access
@@ -164,6 +602,6 @@ export class Variable {
 
     toString(): string {
         const dimStr = this.dimensions.length > 0 ? `(${this.dimensions.join(', ')})` : '()';
-        return `<netCDF4.Variable '${this.name}': dimensions ${dimStr}, size = [${this.dimensions.map(d => this.netcdf.dimensions[d]?.size || '?').join(' x ')}], type = '${this.datatype}'>`;
+        return `<netCDF4.Variable '${this.name}': dimensions ${dimStr}, size = [${this.dimensions.map(d => this.group.findDimension(d)?.size || '?').join(' x ')}], type = '${this.datatype}'>`;
     }
 }
\ No newline at end of file
@@ -5,6 +5,8 @@ import type {
   NetCDF4Module,
   NetCDF4WasmOptions,
 } from "./types";
+import { C_TYPE_ARRAYS, filledNumericArray } from "./datatypes";
+import type { NcCType, NumericArray } from "./datatypes";
 
 export class WasmModuleLoader {
   static async loadModule(
@@ -120,6 +122,12 @@ export class WasmModuleLoader {
     const nc_close_wrapper = module.cwrap("nc_close_wrapper", "number", [
       "number",
     ]);
+    const nc_sync_wrapper = module.cwrap("nc_sync_wrapper", "number", [
+      "number",
+    ]);
+    const nc_strerror_wrapper = module.cwrap("nc_strerror_wrapper", "string", [
+      "number",
+    ]);
     const nc_create_wrapper = module.cwrap("nc_create_wrapper", "number", [
       "string",
       "number",
@@ -149,12 +157,82 @@ export class WasmModuleLoader {
       "number",
       ["number", "number", "number"],
     );
+    const nc_get_vara_double_wrapper = module.cwrap(
+      "nc_get_vara_double_wrapper",
+      "number",
+      ["number", "number", "number", "number", "number"],
+    );
+    const nc_get_vars_double_wrapper = module.cwrap(
+      "nc_get_vars_double_wrapper",
+      "number",
+      ["number", "number", "number", "number", "number", "number"],
+    );
+    const nc_put_vara_double_wrapper = module.cwrap(
+      "nc_put_vara_double_wrapper",
+      "number",
+      ["number", "number", "number", "number", "number"],
+    );
+    const nc_put_vars_double_wrapper = module.cwrap(
+      "nc_put_vars_double_wrapper",
+      "number",
+      ["number", "number", "number", "number", "number", "number"],
+    );
+    // One set of nc_{get,put}_var{a,s}_<ctype> wrappers per numeric memory type.
+    const slabArgs = ["number", "number", "number", "number", "number"];
+    const stridedArgs = [...slabArgs, "number"];
+    const typedSlabWrappers = {} as {
+      [ctype in NcCType]: {
+        getVara: (...args: any[]) => any;
+        getVars: (...args: any[]) => any;
+        putVara: (...args: any[]) => any;
+        putVars: (...args: any[]) => any;
+      };
+    };
+    for (const ctype of Object.keys(C_TYPE_ARRAYS) as NcCType[]) {
+      typedSlabWrappers[ctype] = {
+        getVara: module.cwrap(`nc_get_vara_${ctype}_wrapper`, "number", slabArgs),
+        getVars: module.cwrap(`nc_get_vars_${ctype}_wrapper`, "number", stridedArgs),
+        putVara: module.cwrap(`nc_put_vara_${ctype}_wrapper`, "number", slabArgs),
+        putVars: module.cwrap(`nc_put_vars_${ctype}_wrapper`, "number", stridedArgs),
+      };
+    }
+    const nc_get_vars_text_wrapper = module.cwrap("nc_get_vars_text_wrapper", "number", stridedArgs);
+    const nc_put_vars_text_wrapper = module.cwrap("nc_put_vars_text_wrapper", "number", stridedArgs);
+    const nc_get_vars_string_wrapper = module.cwrap("nc_get_vars_string_wrapper", "number", stridedArgs);
+    const nc_put_vars_string_wrapper = module.cwrap("nc_put_vars_string_wrapper", "number", stridedArgs);
+    const nc_inq_typeids_wrapper = module.cwrap("nc_inq_typeids_wrapper", "number", ["number", "number", "number"]);
+    const nc_inq_user_type_wrapper = module.cwrap("nc_inq_user_type_wrapper", "number", ["number", "number", "number", "number", "number", "number", "number"]);
+    const nc_def_compound_wrapper = module.cwrap("nc_def_compound_wrapper", "number", ["number", "number", "string", "number"]);
+    const nc_insert_compound_wrapper = module.cwrap("nc_insert_compound_wrapper", "number", ["number", "number", "string", "number", "number"]);
+    const nc_insert_array_compound_wrapper = module.cwrap("nc_insert_array_compound_wrapper", "number", ["number", "number", "string", "number", "number", "number", "number"]);
+    const nc_inq_compound_field_wrapper = module.cwrap("nc_inq_compound_field_wrapper", "number", ["number", "number", "number", "number", "number", "number", "number", "number"]);
+    const nc_def_enum_wrapper = module.cwrap("nc_def_enum_wrapper", "number", ["number", "number", "string", "number"]);
+    const nc_insert_enum_wrapper = module.cwrap("nc_insert_enum_wrapper", "number", ["number", "number", "string", "number"]);
+    const nc_inq_enum_member_wrapper = module.cwrap("nc_inq_enum_member_wrapper", "number", ["number", "number", "number", "number", "number"]);
+    const nc_def_opaque_wrapper = module.cwrap("nc_def_opaque_wrapper", "number", ["number", "number", "string", "number"]);
+    const nc_def_vlen_wrapper = module.cwrap("nc_def_vlen_wrapper", "number", ["number", "string", "number", "number"]);
+    const nc_free_vlens_wrapper = module.cwrap("nc_free_vlens_wrapper", "number", ["number", "number"]);
+    const nc_get_vars_wrapper = module.cwrap("nc_get_vars_wrapper", "number", stridedArgs);
+    const nc_put_vars_wrapper = module.cwrap("nc_put_vars_wrapper", "number", stridedArgs);
+    const nc_def_var_deflate_wrapper = module.cwrap("nc_def_var_deflate_wrapper", "number", ["number", "number", "number", "number", "number"]);
+    const nc_def_var_fletcher32_wrapper = module.cwrap("nc_def_var_fletcher32_wrapper", "number", ["number", "number", "number"]);
+    const nc_def_var_chunking_wrapper = module.cwrap("nc_def_var_chunking_wrapper", "number", ["number", "number", "number", "number"]);
+    const nc_inq_var_deflate_wrapper = module.cwrap("nc_inq_var_deflate_wrapper", "number", ["number", "number", "number", "number", "number"]);
+    const nc_inq_var_fletcher32_wrapper = module.cwrap("nc_inq_var_fletcher32_wrapper", "number", ["number", "number", "number"]);
+    const nc_inq_var_chunking_wrapper = module.cwrap("nc_inq_var_chunking_wrapper", "number", ["number", "number", "number", "number"]);
+    const nc_inq_format_wrapper = module.cwrap("nc_inq_format_wrapper", "number", ["number", "number"]);
     const nc_enddef_wrapper = module.cwrap("nc_enddef_wrapper", "number", [
       "number",
     ]);
     const nc_inq_ndims_wrapper = module.cwrap("nc_inq_ndims_wrapper", "number", ["number", "number"]);
     const nc_inq_unlimdim_wrapper = module.cwrap("nc_inq_unlimdim_wrapper", "number", ["number", "number"]);
     const nc_inq_dim_wrapper = module.cwrap("nc_inq_dim_wrapper", "number", ["number", "number", "number", "number"]);
+    const nc_inq_dimlen_wrapper = module.cwrap("nc_inq_dimlen_wrapper", "number", ["number", "number", "number"]);
+    const nc_inq_dimids_wrapper = module.cwrap("nc_inq_dimids_wrapper", "number", ["number", "number", "number", "number"]);
+    const nc_inq_unlimdims_wrapper = module.cwrap("nc_inq_unlimdims_wrapper", "number", ["number", "number", "number"]);
+    const nc_def_grp_wrapper = module.cwrap("nc_def_grp_wrapper", "number", ["number", "string", "number"]);
+    const nc_inq_grps_wrapper = module.cwrap("nc_inq_grps_wrapper", "number", ["number", "number", "number"]);
+    const nc_inq_grpname_wrapper = module.cwrap("nc_inq_grpname_wrapper", "number", ["number", "number"]);
     const nc_inq_nvars_wrapper = module.cwrap("nc_inq_nvars_wrapper", "number", ["number", "number"]);
     const nc_inq_var_wrapper = module.cwrap("nc_inq_var_wrapper", "number", ["number", "number", "number", "number", "number", "number", "number"]);
     const nc_inq_natts_wrapper = module.cwrap("nc_inq_natts_wrapper", "number", ["number", "number"]);
@@ -162,10 +240,97 @@ export class WasmModuleLoader {
     const nc_inq_att_wrapper = module.cwrap("nc_inq_att_wrapper", "number", ["number", "number", "string", "number", "number"]);
     const nc_get_att_text_wrapper = module.cwrap("nc_get_att_text_wrapper", "number", ["number", "number", "string", "number"]);
     const nc_get_att_double_wrapper = module.cwrap("nc_get_att_double_wrapper", "number", ["number", "number", "string", "number"]);
+    const getAttWrappers = {} as { [ctype in NcCType]: (...args: any[]) => any };
+    for (const ctype of Object.keys(C_TYPE_ARRAYS) as NcCType[]) {
+      getAttWrappers[ctype] = module.cwrap(
+        `nc_get_att_${ctype}_wrapper`,
+        "number",
+        ["number", "number", "string", "number"],
+      );
+    }
+    const nc_get_att_string_wrapper = module.cwrap("nc_get_att_string_wrapper", "number", ["number", "number", "string", "number"]);
+    const nc_free_string_wrapper = module.cwrap("nc_free_string_wrapper", "number", ["number", "number"]);
+    const nc_redef_wrapper = module.cwrap("nc_redef_wrapper", "number", ["number"]);
+    const nc_put_att_text_wrapper = module.cwrap("nc_put_att_text_wrapper", "number", ["number", "number", "string", "number", "number"]);
+    const putAttWrappers = {} as { [ctype in NcCType]: (...args: any[]) => any };
+    for (const ctype of Object.keys(C_TYPE_ARRAYS) as NcCType[]) {
+      putAttWrappers[ctype] = module.cwrap(
+        `nc_put_att_${ctype}_wrapper`,
+        "number",
+        ["number", "number", "string", "number", "number", "number"],
+      );
+    }
+
+    // size_t and ptrdiff_t are 32-bit on wasm32, so start/count/stride
+    // vectors are marshalled as i32 arrays.
+    const allocIndexArray = (values: number[]): number => {
+      const ptr = module._malloc(Math.max(values.length, 1) * 4);
+      for (let i = 0; i < values.length; i++) {
+        module.setValue(ptr + i * 4, values[i], "i32");
+      }
+      return ptr;
+    };
+
+    // Query an id list whose length is not known up front: call once with a
+    // NULL list to get the count, then again to fill it.
+    const readIdList = (
+      call: (countPtr: number, idsPtr: number) => number,
+    ): { result: number; ids: number[] } => {
+      const countPtr = module._malloc(4);
+      let result = call(countPtr, 0);
+      const ids: number[] = [];
+      if (result === 0) {
+        const n = module.getValue(countPtr, "i32");
+        const idsPtr = module._malloc(Math.max(n, 1) * 4);
+        result = call(countPtr, idsPtr);
+        for (let i = 0; result === 0 && i < n; i++) {
+          ids.push(module.getValue(idsPtr + i * 4, "i32"));
+        }
+        module._free(idsPtr);
+      }
+      module._free(countPtr);
+      return { result, ids };
+    };
+
+    const readDoubles = (dataPtr: number, size: number): Float64Array =>
+      new Float64Array(new Float64Array(module.HEAPF64.buffer, dataPtr, size));
+
+    // Run a typed get wrapper into a scratch heap buffer and copy the result
+    // out as the native typed array for `ctype`.
+    const getTypedSlab = (
+      ctype: NcCType,
+      count: number[],
+      call: (dataPtr: number) => number,
+    ): { result: number; data: NumericArray } => {
+      const ctor = C_TYPE_ARRAYS[ctype];
+      const size = count.reduce((acc, c) => acc * c, 1);
+      const dataPtr = module._malloc(Math.max(size, 1) * ctor.BYTES_PER_ELEMENT);
+      const result = call(dataPtr);
+      const data = new ctor(module.HEAPU8.buffer as ArrayBuffer, dataPtr, size).slice();
+      module._free(dataPtr);
+      return { result, data };
+    };
+
+    const putTypedSlab = (
+      ctype: NcCType,
+      data: NumericArray,
+      call: (dataPtr: number) => number,
+    ): number => {
+      const ctor = C_TYPE_ARRAYS[ctype];
+      const dataPtr = module._malloc(
+        Math.max(data.length, 1) * ctor.BYTES_PER_ELEMENT,
+      );
+      (new ctor(module.HEAPU8.buffer as ArrayBuffer, dataPtr, data.length) as any).set(data);
+      const result = call(dataPtr);
+      module._free(dataPtr);
+      return result;
+    };
 
     return {
       ...module,
 
+      nc_strerror: (code: number) => nc_strerror_wrapper(code),
+
       nc_open: (path: string, mode: number) => {
         const ncidPtr = module._malloc(4);
         const result = nc_open_wrapper(path, mode, ncidPtr);
@@ -178,6 +343,10 @@ export class WasmModuleLoader {
         return nc_close_wrapper(ncid);
       },
 
+      nc_sync: (ncid: number) => {
+        return nc_sync_wrapper(ncid);
+      },
+
       nc_create: (path: string, mode: number) => {
         const ncidPtr = module._malloc(4);
         const result = nc_create_wrapper(path, mode, ncidPtr);
@@ -240,6 +409,403 @@ export class WasmModuleLoader {
         return { result, data: resultData };
       },
 
+      nc_get_vara_double: (
+        ncid: number,
+        varid: number,
+        start: number[],
+        count: number[],
+      ) => {
+        const size = count.reduce((acc, c) => acc * c, 1);
+        const startPtr = allocIndexArray(start);
+        const countPtr = allocIndexArray(count);
+        const dataPtr = module._malloc(Math.max(size, 1) * 8);
+        const result = nc_get_vara_double_wrapper(
+          ncid,
+          varid,
+          startPtr,
+          countPtr,
+          dataPtr,
+        );
+        const data = readDoubles(dataPtr, size);
+        module._free(startPtr);
+        module._free(countPtr);
+        module._free(dataPtr);
+        return { result, data };
+      },
+
+      nc_get_vars_double: (
+        ncid: number,
+        varid: number,
+        start: number[],
+        count: number[],
+        stride: number[],
+      ) => {
+        const size = count.reduce((acc, c) => acc * c, 1);
+        const startPtr = allocIndexArray(start);
+        const countPtr = allocIndexArray(count);
+        const stridePtr = allocIndexArray(stride);
+        const dataPtr = module._malloc(Math.max(size, 1) * 8);
+        const result = nc_get_vars_double_wrapper(
+          ncid,
+          varid,
+          startPtr,
+          countPtr,
+          stridePtr,
+          dataPtr,
+        );
+        const data = readDoubles(dataPtr, size);
+        module._free(startPtr);
+        module._free(countPtr);
+        module._free(stridePtr);
+        module._free(dataPtr);
+        return { result, data };
+      },
+
+      nc_put_vara_double: (
+        ncid: number,
+        varid: number,
+        start: number[],
+        count: number[],
+        data: Float64Array,
+      ) => {
+        const startPtr = allocIndexArray(start);
+        const countPtr = allocIndexArray(count);
+        const dataPtr = module._malloc(Math.max(data.length, 1) * 8);
+        module.HEAPF64.set(data, dataPtr / 8);
+        const result = nc_put_vara_double_wrapper(
+          ncid,
+          varid,
+          startPtr,
+          countPtr,
+          dataPtr,
+        );
+        module._free(startPtr);
+        module._free(countPtr);
+        module._free(dataPtr);
+        return result;
+      },
+
+      nc_put_vars_double: (
+        ncid: number,
+        varid: number,
+        start: number[],
+        count: number[],
+        stride: number[],
+        data: Float64Array,
+      ) => {
+        const startPtr = allocIndexArray(start);
+        const countPtr = allocIndexArray(count);
+        const stridePtr = allocIndexArray(stride);
+        const dataPtr = module._malloc(Math.max(data.length, 1) * 8);
+        module.HEAPF64.set(data, dataPtr / 8);
+        const result = nc_put_vars_double_wrapper(
+          ncid,
+          varid,
+          startPtr,
+          countPtr,
+          stridePtr,
+          dataPtr,
+        );
+        module._free(startPtr);
+        module._free(countPtr);
+        module._free(stridePtr);
+        module._free(dataPtr);
+        return result;
+      },
+
+      nc_get_vara_typed: (
+        ncid: number,
+        varid: number,
+        ctype: NcCType,
+        start: number[],
+        count: number[],
+      ) => {
+        const startPtr = allocIndexArray(start);
+        const countPtr = allocIndexArray(count);
+        const out = getTypedSlab(ctype, count, (dataPtr) =>
+          typedSlabWrappers[ctype].getVara(ncid, varid, startPtr, countPtr, dataPtr),
+        );
+        module._free(startPtr);
+        module._free(countPtr);
+        return out;
+      },
+
+      nc_get_vars_typed: (
+        ncid: number,
+        varid: number,
+        ctype: NcCType,
+        start: number[],
+        count: number[],
+        stride: number[],
+      ) => {
+        const startPtr = allocIndexArray(start);
+        const countPtr = allocIndexArray(count);
+        const stridePtr = allocIndexArray(stride);
+        const out = getTypedSlab(ctype, count, (dataPtr) =>
+          typedSlabWrappers[ctype].getVars(
+            ncid,
+            varid,
+            startPtr,
+            countPtr,
+            stridePtr,
+            dataPtr,
+          ),
+        );
+        module._free(startPtr);
+        module._free(countPtr);
+        module._free(stridePtr);
+        return out;
+      },
+
+      nc_put_vara_typed: (
+        ncid: number,
+        varid: number,
+        ctype: NcCType,
+        start: number[],
+        count: number[],
+        data: NumericArray,
+      ) => {
+        const startPtr = allocIndexArray(start);
+        const countPtr = allocIndexArray(count);
+        const result = putTypedSlab(ctype, data, (dataPtr) =>
+          typedSlabWrappers[ctype].putVara(ncid, varid, startPtr, countPtr, dataPtr),
+        );
+        module._free(startPtr);
+        module._free(countPtr);
+        return result;
+      },
+
+      nc_put_vars_typed: (
+        ncid: number,
+        varid: number,
+        ctype: NcCType,
+        start: number[],
+        count: number[],
+        stride: number[],
+        data: NumericArray,
+      ) => {
+        const startPtr = allocIndexArray(start);
+        const countPtr = allocIndexArray(count);
+        const stridePtr = allocIndexArray(stride);
+        const result = putTypedSlab(ctype, data, (dataPtr) =>
+          typedSlabWrappers[ctype].putVars(
+            ncid,
+            varid,
+            startPtr,
+            countPtr,
+            stridePtr,
+            dataPtr,
+          ),
+        );
+        module._free(startPtr);
+        module._free(countPtr);
+        module._free(stridePtr);
+        return result;
+      },
+
+      nc_get_vars_text: (
+        ncid: number,
+        varid: number,
+        start: number[],
+        count: number[],
+        stride: number[],
+      ) => {
+        const startPtr = allocIndexArray(start);
+        const countPtr = allocIndexArray(count);
+        const stridePtr = allocIndexArray(stride);
+        const out = getTypedSlab("uchar", count, (dataPtr) =>
+          nc_get_vars_text_wrapper(ncid, varid, startPtr, countPtr, stridePtr, dataPtr),
+        );
+        module._free(startPtr);
+        module._free(countPtr);
+        module._free(stridePtr);
+        return { result: out.result, data: out.data as Uint8Array };
+      },
+
+      nc_put_vars_text: (
+        ncid: number,
+        varid: number,
+        start: number[],
+        count: number[],
+        stride: number[],
+        data: Uint8Array,
+      ) => {
+        const startPtr = allocIndexArray(start);
+        const countPtr = allocIndexArray(count);
+        const stridePtr = allocIndexArray(stride);
+        const result = putTypedSlab("uchar", data, (dataPtr) =>
+          nc_put_vars_text_wrapper(ncid, varid, startPtr, countPtr, stridePtr, dataPtr),
+        );
+        module._free(startPtr);
+        module._free(countPtr);
+        module._free(stridePtr);
+        return result;
+      },
+
+      nc_get_vars_string: (
+        ncid: number,
+        varid: number,
+        start: number[],
+        count: number[],
+        stride: number[],
+      ) => {
+        const size = count.reduce((acc, c) => acc * c, 1);
+        const startPtr = allocIndexArray(start);
+        const countPtr = allocIndexArray(count);
+        const stridePtr = allocIndexArray(stride);
+        const ptrs = module._malloc(Math.max(size, 1) * 4);
+        const result = nc_get_vars_string_wrapper(ncid, varid, startPtr, countPtr, stridePtr, ptrs);
+        const values: string[] = [];
+        if (result === 0) {
+          for (let i = 0; i < size; i++) {
+            const strPtr = module.getValue(ptrs + i * 4, "i32");
+            values.push(strPtr ? module.UTF8ToString(strPtr) : "");
+          }
+          nc_free_string_wrapper(size, ptrs);
+        }
+        module._free(ptrs);
+        module._free(startPtr);
+        module._free(countPtr);
+        module._free(stridePtr);
+        return { result, values };
+      },
+
+      nc_put_vars_string: (
+        ncid: number,
+        varid: number,
+        start: number[],
+        count: number[],
+        stride: number[],
+        values: string[],
+      ) => {
+        const startPtr = allocIndexArray(start);
+        const countPtr = allocIndexArray(count);
+        const stridePtr = allocIndexArray(stride);
+        const ptrs = module._malloc(Math.max(values.length, 1) * 4);
+        const strPtrs = values.map((value, i) => {
+          const len = module.lengthBytesUTF8(value);
+          const strPtr = module._malloc(len + 1);
+          module.stringToUTF8(value, strPtr, len + 1);
+          module.setValue(ptrs + i * 4, strPtr, "i32");
+          return strPtr;
+        });
+        const result = nc_put_vars_string_wrapper(ncid, varid, startPtr, countPtr, stridePtr, ptrs);
+        strPtrs.forEach((strPtr) => module._free(strPtr));
+        module._free(ptrs);
+        module._free(startPtr);
+        module._free(countPtr);
+        module._free(stridePtr);
+        return result;
+      },
+
+      nc_get_vars: (
+        ncid: number,
+        varid: number,
+        start: number[],
+        count: number[],
+        stride: number[],
+        size: number,
+      ) => {
+        const total = count.reduce((acc, c) => acc * c, 1) * size;
+        const startPtr = allocIndexArray(start);
+        const countPtr = allocIndexArray(count);
+        const stridePtr = allocIndexArray(stride);
+        const dataPtr = module._malloc(Math.max(total, 1));
+        const result = nc_get_vars_wrapper(ncid, varid, startPtr, countPtr, stridePtr, dataPtr);
+        const data = module.HEAPU8.slice(dataPtr, dataPtr + total);
+        module._free(dataPtr);
+        module._free(startPtr);
+        module._free(countPtr);
+        module._free(stridePtr);
+        return { result, data };
+      },
+
+      nc_put_vars: (
+        ncid: number,
+        varid: number,
+        start: number[],
+        count: number[],
+        stride: number[],
+        data: Uint8Array,
+      ) => {
+        const startPtr = allocIndexArray(start);
+        const countPtr = allocIndexArray(count);
+        const stridePtr = allocIndexArray(stride);
+        const result = putTypedSlab("uchar", data, (dataPtr) =>
+          nc_put_vars_wrapper(ncid, varid, startPtr, countPtr, stridePtr, dataPtr),
+        );
+        module._free(startPtr);
+        module._free(countPtr);
+        module._free(stridePtr);
+        return result;
+      },
+
+      nc_def_var_deflate: (
+        ncid: number,
+        varid: number,
+        shuffle: number,
+        deflate: number,
+        level: number,
+      ) => {
+        return nc_def_var_deflate_wrapper(ncid, varid, shuffle, deflate, level);
+      },
+
+      nc_def_var_fletcher32: (ncid: number, varid: number, fletcher32: number) => {
+        return nc_def_var_fletcher32_wrapper(ncid, varid, fletcher32);
+      },
+
+      nc_def_var_chunking: (
+        ncid: number,
+        varid: number,
+        storage: number,
+        chunksizes: number[],
+      ) => {
+        const chunksPtr = allocIndexArray(chunksizes);
+        const result = nc_def_var_chunking_wrapper(ncid, varid, storage, chunksPtr);
+        module._free(chunksPtr);
+        return result;
+      },
+
+      nc_inq_var_deflate: (ncid: number, varid: number) => {
+        const p = module._malloc(12);
+        const result = nc_inq_var_deflate_wrapper(ncid, varid, p, p + 4, p + 8);
+        const shuffle = module.getValue(p, "i32");
+        const deflate = module.getValue(p + 4, "i32");
+        const level = module.getValue(p + 8, "i32");
+        module._free(p);
+        return { result, shuffle, deflate, level };
+      },
+
+      nc_inq_var_fletcher32: (ncid: number, varid: number) => {
+        const p = module._malloc(4);
+        const result = nc_inq_var_fletcher32_wrapper(ncid, varid, p);
+        const fletcher32 = module.getValue(p, "i32");
+        module._free(p);
+        return { result, fletcher32 };
+      },
+
+      nc_inq_var_chunking: (ncid: number, varid: number, ndims: number) => {
+        const storagePtr = module._malloc(4);
+        const chunksPtr = module._malloc(Math.max(ndims, 1) * 4);
+        const result = nc_inq_var_chunking_wrapper(ncid, varid, storagePtr, chunksPtr);
+        const storage = module.getValue(storagePtr, "i32");
+        const chunksizes: number[] = [];
+        for (let i = 0; i < ndims; i++) {
+          chunksizes.push(module.getValue(chunksPtr + i * 4, "i32"));
+        }
+        module._free(storagePtr);
+        module._free(chunksPtr);
+        return { result, storage, chunksizes };
+      },
+
+      nc_inq_format: (ncid: number) => {
+        const p = module._malloc(4);
+        const result = nc_inq_format_wrapper(ncid, p);
+        const format = module.getValue(p, "i32");
+        module._free(p);
+        return { result, format };
+      },
+
       nc_enddef: (ncid: number) => {
         return nc_enddef_wrapper(ncid);
       },
@@ -271,6 +837,238 @@ export class WasmModuleLoader {
         return { result, name, len };
       },
 
+      nc_inq_dimlen: (ncid: number, dimid: number) => {
+        const lenPtr = module._malloc(4);
+        const result = nc_inq_dimlen_wrapper(ncid, dimid, lenPtr);
+        const len = module.getValue(lenPtr, "i32");
+        module._free(lenPtr);
+        return { result, len };
+      },
+
+      nc_inq_dimids: (ncid: number, includeParents: boolean) => {
+        const { result, ids } = readIdList((countPtr, idsPtr) =>
+          nc_inq_dimids_wrapper(ncid, countPtr, idsPtr, includeParents ? 1 : 0),
+        );
+        return { result, dimids: ids };
+      },
+
+      nc_inq_unlimdims: (ncid: number) => {
+        const { result, ids } = readIdList((countPtr, idsPtr) =>
+          nc_inq_unlimdims_wrapper(ncid, countPtr, idsPtr),
+        );
+        return { result, unlimdimids: ids };
+      },
+
+      nc_inq_typeids: (ncid: number) => {
+        const { result, ids } = readIdList((countPtr, idsPtr) =>
+          nc_inq_typeids_wrapper(ncid, countPtr, idsPtr),
+        );
+        return { result, typeids: ids };
+      },
+
+      nc_inq_user_type: (ncid: number, xtype: number) => {
+        const namePtr = module._malloc(256);
+        const sizePtr = module._malloc(4);
+        const basePtr = module._malloc(4);
+        const nfieldsPtr = module._malloc(4);
+        const classPtr = module._malloc(4);
+        const result = nc_inq_user_type_wrapper(ncid, xtype, namePtr, sizePtr, basePtr, nfieldsPtr, classPtr);
+        const info = {
+          result,
+          name: module.UTF8ToString(namePtr),
+          size: module.getValue(sizePtr, "i32"),
+          baseType: module.getValue(basePtr, "i32"),
+          nfields: module.getValue(nfieldsPtr, "i32"),
+          typeClass: module.getValue(classPtr, "i32"),
+        };
+        [namePtr, sizePtr, basePtr, nfieldsPtr, classPtr].forEach((p) => module._free(p));
+        return info;
+      },
+
+      nc_def_compound: (ncid: number, size: number, name: string) => {
+        const p = module._malloc(4);
+        const result = nc_def_compound_wrapper(ncid, size, name, p);
+        const typeid = module.getValue(p, "i32");
+        module._free(p);
+        return { result, typeid };
+      },
+
+      nc_insert_compound: (
+        ncid: number,
+        typeid: number,
+        name: string,
+        offset: number,
+        fieldType: number,
+      ) => nc_insert_compound_wrapper(ncid, typeid, name, offset, fieldType),
+
+      nc_insert_array_compound: (
+        ncid: number,
+        typeid: number,
+        name: string,
+        offset: number,
+        fieldType: number,
+        dims: number[],
+      ) => {
+        const dimsPtr = allocIndexArray(dims);
+        const result = nc_insert_array_compound_wrapper(ncid, typeid, name, offset, fieldType, dims.length, dimsPtr);
+        module._free(dimsPtr);
+        return result;
+      },
+
+      nc_inq_compound_field: (ncid: number, typeid: number, fieldid: number) => {
+        const namePtr = module._malloc(256);
+        const offsetPtr = module._malloc(4);
+        const typePtr = module._malloc(4);
+        const ndimsPtr = module._malloc(4);
+        const dimsPtr = module._malloc(1024 * 4);
+        const result = nc_inq_compound_field_wrapper(ncid, typeid, fieldid, namePtr, offsetPtr, typePtr, ndimsPtr, dimsPtr);
+        const ndims = module.getValue(ndimsPtr, "i32");
+        const dims: number[] = [];
+        for (let i = 0; i < ndims; i++) {
+          dims.push(module.getValue(dimsPtr + i * 4, "i32"));
+        }
+        const field = {
+          result,
+          name: module.UTF8ToString(namePtr),
+          offset: module.getValue(offsetPtr, "i32"),
+          fieldType: module.getValue(typePtr, "i32"),
+          dims,
+        };
+        [namePtr, offsetPtr, typePtr, ndimsPtr, dimsPtr].forEach((p) => module._free(p));
+        return field;
+      },
+
+      nc_def_enum: (ncid: number, baseType: number, name: string) => {
+        const p = module._malloc(4);
+        const result = nc_def_enum_wrapper(ncid, baseType, name, p);
+        const typeid = module.getValue(p, "i32");
+        module._free(p);
+        return { result, typeid };
+      },
+
+      nc_insert_enum: (
+        ncid: number,
+        typeid: number,
+        name: string,
+        ctype: NcCType,
+        value: number | bigint,
+      ) =>
+        putTypedSlab(ctype, filledNumericArray(ctype, 1, value), (valuePtr) =>
+          nc_insert_enum_wrapper(ncid, typeid, name, valuePtr),
+        ),
+
+      nc_inq_enum_member: (ncid: number, typeid: number, idx: number, ctype: NcCType) => {
+        const namePtr = module._malloc(256);
+        const { result, data } = getTypedSlab(ctype, [1], (valuePtr) =>
+          nc_inq_enum_member_wrapper(ncid, typeid, idx, namePtr, valuePtr),
+        );
+        const name = module.UTF8ToString(namePtr);
+        module._free(namePtr);
+        return { result, name, value: data[0] };
+      },
+
+      nc_def_opaque: (ncid: number, size: number, name: string) => {
+        const p = module._malloc(4);
+        const result = nc_def_opaque_wrapper(ncid, size, name, p);
+        const typeid = module.getValue(p, "i32");
+        module._free(p);
+        return { result, typeid };
+      },
+
+      nc_def_vlen: (ncid: number, name: string, baseType: number) => {
+        const p = module._malloc(4);
+        const result = nc_def_vlen_wrapper(ncid, name, baseType, p);
+        const typeid = module.getValue(p, "i32");
+        module._free(p);
+        return { result, typeid };
+      },
+
+      // Each element is an nc_vlen_t { len, p }: copy the values out, then
+      // let NetCDF free what it allocated.
+      nc_get_vars_vlen: (
+        ncid: number,
+        varid: number,
+        ctype: NcCType,
+        start: number[],
+        count: number[],
+        stride: number[],
+      ) => {
+        const size = count.reduce((acc, c) => acc * c, 1);
+        const ctor = C_TYPE_ARRAYS[ctype];
+        const startPtr = allocIndexArray(start);
+        const countPtr = allocIndexArray(count);
+        const stridePtr = allocIndexArray(stride);
+        const vlensPtr = module._malloc(Math.max(size, 1) * 8);
+        const result = nc_get_vars_wrapper(ncid, varid, startPtr, countPtr, stridePtr, vlensPtr);
+        const data: NumericArray[] = [];
+        if (result === 0) {
+          for (let i = 0; i < size; i++) {
+            const len = module.getValue(vlensPtr + i * 8, "i32");
+            const p = module.getValue(vlensPtr + i * 8 + 4, "i32");
+            data.push(len > 0 ? new ctor(module.HEAPU8.buffer as ArrayBuffer, p, len).slice() : new ctor(0));
+          }
+          nc_free_vlens_wrapper(size, vlensPtr);
+        }
+        module._free(vlensPtr);
+        module._free(startPtr);
+        module._free(countPtr);
+        module._free(stridePtr);
+        return { result, data };
+      },
+
+      nc_put_vars_vlen: (
+        ncid: number,
+        varid: number,
+        ctype: NcCType,
+        start: number[],
+        count: number[],
+        stride: number[],
+        data: NumericArray[],
+      ) => {
+        const ctor = C_TYPE_ARRAYS[ctype];
+        const startPtr = allocIndexArray(start);
+        const countPtr = allocIndexArray(count);
+        const stridePtr = allocIndexArray(stride);
+        const vlensPtr = module._malloc(Math.max(data.length, 1) * 8);
+        const valuePtrs = data.map((values, i) => {
+          const p = module._malloc(Math.max(values.length, 1) * ctor.BYTES_PER_ELEMENT);
+          (new ctor(module.HEAPU8.buffer as ArrayBuffer, p, values.length) as any).set(values);
+          module.setValue(vlensPtr + i * 8, values.length, "i32");
+          module.setValue(vlensPtr + i * 8 + 4, p, "i32");
+          return p;
+        });
+        const result = nc_put_vars_wrapper(ncid, varid, startPtr, countPtr, stridePtr, vlensPtr);
+        valuePtrs.forEach((p) => module._free(p));
+        module._free(vlensPtr);
+        module._free(startPtr);
+        module._free(countPtr);
+        module._free(stridePtr);
+        return result;
+      },
+
+      nc_def_grp: (parentNcid: number, name: string) => {
+        const p = module._malloc(4);
+        const result = nc_def_grp_wrapper(parentNcid, name, p);
+        const ncid = module.getValue(p, "i32");
+        module._free(p);
+        return { result, ncid };
+      },
+
+      nc_inq_grps: (ncid: number) => {
+        const { result, ids } = readIdList((countPtr, idsPtr) =>
+          nc_inq_grps_wrapper(ncid, countPtr, idsPtr),
+        );
+        return { result, ncids: ids };
+      },
+
+      nc_inq_grpname: (ncid: number) => {
+        const namePtr = module._malloc(256);
+        const result = nc_inq_grpname_wrapper(ncid, namePtr);
+        const name = module.UTF8ToString(namePtr);
+        module._free(namePtr);
+        return { result, name };
+      },
+
       nc_inq_nvars: (ncid: number) => {
         const p = module._malloc(4);
         const result = nc_inq_nvars_wrapper(ncid, p);
@@ -366,6 +1164,69 @@ export class WasmModuleLoader {
         module._free(valuePtr);
         return { result, values };
       },
+
+      nc_get_att_typed: (
+        ncid: number,
+        varid: number,
+        name: string,
+        ctype: NcCType,
+        len: number,
+      ) => {
+        return getTypedSlab(ctype, [len], (dataPtr) =>
+          getAttWrappers[ctype](ncid, varid, name, dataPtr),
+        );
+      },
+
+      nc_get_att_string: (
+        ncid: number,
+        varid: number,
+        name: string,
+        len: number,
+      ) => {
+        const ptrs = module._malloc(Math.max(len, 1) * 4);
+        const result = nc_get_att_string_wrapper(ncid, varid, name, ptrs);
+        const values: string[] = [];
+        if (result === 0) {
+          for (let i = 0; i < len; i++) {
+            const strPtr = module.getValue(ptrs + i * 4, "i32");
+            values.push(strPtr ? module.UTF8ToString(strPtr) : "");
+          }
+          nc_free_string_wrapper(len, ptrs);
+        }
+        module._free(ptrs);
+        return { result, values };
+      },
+
+      nc_redef: (ncid: number) => {
+        return nc_redef_wrapper(ncid);
+      },
+
+      nc_put_att_text: (
+        ncid: number,
+        varid: number,
+        name: string,
+        text: string,
+      ) => {
+        const len = module.lengthBytesUTF8(text);
+        const textPtr = module._malloc(len + 1);
+        module.stringToUTF8(text, textPtr, len + 1);
+        const result = nc_put_att_text_wrapper(ncid, varid, name, len, textPtr);
+        module._free(textPtr);
+        return result;
+      },
+
+      nc_put_att_typed: (
+        ncid: number,
+        varid: number,
+        name: string,
+        xtype: number,
+        ctype: NcCType,
+        data: NumericArray,
+      ) => {
+        return putTypedSlab(ctype, data, (dataPtr) =>
+          putAttWrappers[ctype](ncid, varid, name, xtype, data.length, dataPtr),
+        );
+      },
     };
   }
 }